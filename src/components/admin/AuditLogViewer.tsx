@@ -0,0 +1,325 @@
+import { useState, useEffect } from "react";
+import { User } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Download, History } from "lucide-react";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDITED_TABLES,
+  describeAuditChanges,
+  describeAuditRecord,
+  getActorName,
+  type AuditAction,
+  type AuditLogEntry,
+} from "@/lib/auditLog";
+import { exportAuditLogToCSV } from "@/lib/exportUtils";
+
+const PAGE_SIZE = 100;
+
+// CSV exports fetch every matching entry in batches of this size
+const EXPORT_BATCH_SIZE = 1000;
+
+const ACTION_BADGE_CLASSES: Record<AuditAction, string> = {
+  INSERT: "bg-success/10 text-success border-success/30",
+  UPDATE: "bg-primary/10 text-primary border-primary/30",
+  DELETE: "bg-destructive/10 text-destructive border-destructive/30",
+};
+
+interface AuditLogViewerProps {
+  user: User;
+}
+
+export const AuditLogViewer = ({ user }: AuditLogViewerProps) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map());
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [tableFilter, setTableFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [actorFilter, setActorFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchOrganization();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id]);
+
+  useEffect(() => {
+    if (organizationId) {
+      fetchEntries();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organizationId, tableFilter, actionFilter, actorFilter, fromDate, toDate]);
+
+  // Names of everyone in the organization, including deactivated users who still appear in the log
+  const fetchOrganization = async () => {
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from("users")
+        .select("organization_id")
+        .eq("id", user.id)
+        .single();
+
+      if (profileError) throw profileError;
+
+      const { data: members, error: membersError } = await supabase
+        .from("users")
+        .select("id, full_name")
+        .eq("organization_id", profile.organization_id)
+        .order("full_name");
+
+      if (membersError) throw membersError;
+
+      setUserNames(new Map((members || []).map((m) => [m.id, m.full_name])));
+      setOrganizationId(profile.organization_id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load organization",
+        variant: "destructive",
+      });
+      setLoading(false);
+    }
+  };
+
+  // Entries matching the filters, newest first
+  const buildQuery = () => {
+    let query = supabase
+      .from("audit_log")
+      .select("*")
+      .eq("organization_id", organizationId!)
+      .order("created_at", { ascending: false });
+
+    if (tableFilter !== "all") query = query.eq("table_name", tableFilter);
+    if (actionFilter !== "all") query = query.eq("action", actionFilter);
+    if (actorFilter === "system") query = query.is("actor_id", null);
+    else if (actorFilter !== "all") query = query.eq("actor_id", actorFilter);
+    // Dates are whole days in the viewer's local time
+    if (fromDate) query = query.gte("created_at", new Date(`${fromDate}T00:00:00`).toISOString());
+    if (toDate) query = query.lte("created_at", new Date(`${toDate}T23:59:59.999`).toISOString());
+    return query;
+  };
+
+  const fetchEntries = async (append = false) => {
+    try {
+      if (append) setLoadingMore(true);
+      else setLoading(true);
+
+      const offset = append ? entries.length : 0;
+      const { data, error } = await buildQuery().range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setEntries(append ? [...entries, ...(data || [])] : data || []);
+      setHasMore((data?.length || 0) === PAGE_SIZE);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to fetch audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const allEntries: AuditLogEntry[] = [];
+      for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+        const { data, error } = await buildQuery().range(offset, offset + EXPORT_BATCH_SIZE - 1);
+        if (error) throw error;
+        allEntries.push(...(data || []));
+        if ((data?.length || 0) < EXPORT_BATCH_SIZE) break;
+      }
+
+      exportAuditLogToCSV(allEntries, userNames, `Audit_Log_${format(new Date(), "yyyy-MM-dd")}.csv`);
+      toast({
+        title: "Success",
+        description: `Exported ${allEntries.length} audit log entries`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to export audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const hasActiveFilters =
+    tableFilter !== "all" || actionFilter !== "all" || actorFilter !== "all" || fromDate || toDate;
+
+  const clearFilters = () => {
+    setTableFilter("all");
+    setActionFilter("all");
+    setActorFilter("all");
+    setFromDate("");
+    setToDate("");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Audit Log
+          </CardTitle>
+          <CardDescription>
+            Every change to tasks, assignments, completions, leave, roles and settings, with who made it and when
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={loading || exporting || entries.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          {exporting ? "Exporting..." : "Export CSV"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Area</Label>
+            <Select value={tableFilter} onValueChange={setTableFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Areas</SelectItem>
+                {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                  <SelectItem key={table} value={table}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Action</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                  <SelectItem key={action} value={action}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">User</Label>
+            <Select value={actorFilter} onValueChange={setActorFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Users</SelectItem>
+                <SelectItem value="system">System</SelectItem>
+                {[...userNames.entries()].map(([id, name]) => (
+                  <SelectItem key={id} value={id}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs">From</Label>
+            <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+        </div>
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            Clear filters
+          </Button>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading audit log...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <History className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>No changes found</p>
+          </div>
+        ) : (
+          <>
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="whitespace-nowrap">When</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Area</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const changes = describeAuditChanges(entry, userNames);
+                    return (
+                      <TableRow key={entry.id}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {format(new Date(entry.created_at), "MMM d, yyyy HH:mm:ss")}
+                        </TableCell>
+                        <TableCell className="text-sm">{getActorName(entry, userNames)}</TableCell>
+                        <TableCell className="text-sm">{AUDITED_TABLES[entry.table_name] ?? entry.table_name}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={ACTION_BADGE_CLASSES[entry.action as AuditAction]}>
+                            {AUDIT_ACTION_LABELS[entry.action as AuditAction] ?? entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">{describeAuditRecord(entry, userNames)}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {changes.length > 0 ? changes.map((change) => <div key={change}>{change}</div>) : "—"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={() => fetchEntries(true)} disabled={loadingMore}>
+                  {loadingMore ? "Loading..." : "Load More"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,103 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { EMAIL_LANGUAGE_OPTIONS, EMAIL_TEMPLATE_LABELS, type EmailTemplateName } from "@/lib/emailTemplates";
+import { Loader2 } from "lucide-react";
+
+interface EmailTemplatePreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: EmailTemplateName;
+  defaultLanguage: string;
+  // Branding settings as currently edited, saved or not
+  settings: Record<string, string>;
+}
+
+/**
+ * Shows a template rendered by the preview-email-template function with sample data, exactly
+ * as it would be sent.
+ */
+export const EmailTemplatePreviewDialog = ({
+  open,
+  onOpenChange,
+  template,
+  defaultLanguage,
+  settings,
+}: EmailTemplatePreviewDialogProps) => {
+  const [language, setLanguage] = useState(defaultLanguage);
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setLanguage(defaultLanguage);
+  }, [open, defaultLanguage]);
+
+  useEffect(() => {
+    if (open) fetchPreview();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, template, language]);
+
+  const fetchPreview = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.functions.invoke("preview-email-template", {
+        body: { template, language, settings },
+      });
+
+      if (error) throw error;
+      setPreview(data);
+    } catch (error) {
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to render the email preview",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{EMAIL_TEMPLATE_LABELS[template]} Email Preview</DialogTitle>
+          <DialogDescription>Rendered with sample data and your branding settings</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end justify-between gap-4">
+          <div className="space-y-1 min-w-0">
+            <Label className="text-xs text-muted-foreground">Subject</Label>
+            <p className="text-sm font-medium truncate">{preview?.subject ?? "—"}</p>
+          </div>
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EMAIL_LANGUAGE_OPTIONS.map((l) => (
+                <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex-1 min-h-[400px] border rounded-lg overflow-hidden bg-muted">
+          {loading ? (
+            <div className="flex items-center justify-center h-full py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : preview ? (
+            // Sandboxed: the preview can't run scripts or reach the app
+            <iframe title="Email preview" srcDoc={preview.html} sandbox="" className="w-full h-full min-h-[400px] bg-white" />
+          ) : null}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -8,8 +8,21 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, Building2, Save, Loader2 } from "lucide-react";
+import { Settings, Building2, Save, Loader2, CalendarCheck, Palette, Eye, AlertTriangle } from "lucide-react";
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS } from "@/lib/dateUtils";
+import {
+  DEFAULT_EMAIL_LANGUAGE,
+  EMAIL_LANGUAGE_OPTIONS,
+  EMAIL_TEMPLATE_LABELS,
+  type EmailTemplateName,
+} from "@/lib/emailTemplates";
+import { EmailTemplatePreviewDialog } from "@/components/admin/EmailTemplatePreviewDialog";
+
+// Defaults of the email templates (supabase/functions/_shared/emailTemplates.ts)
+const DEFAULT_EMAIL_PRIMARY_COLOR = "#6366f1";
+const DEFAULT_EMAIL_ACCENT_COLOR = "#8b5cf6";
 
 interface SystemSetting {
   id: string;
@@ -33,6 +46,7 @@ export const SystemSettings = ({ user }: SystemSettingsProps) => {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   // Local state for settings (not saved yet)
   const [localSettings, setLocalSettings] = useState<Record<string, string | boolean>>({});
+  const [previewTemplate, setPreviewTemplate] = useState<EmailTemplateName | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -196,7 +210,7 @@ export const SystemSettings = ({ user }: SystemSettingsProps) => {
     const setting = settings.find((s) => s.setting_key === key);
     // Default to IST for timezone if no setting exists
     if (key === "timezone" && !setting?.setting_value) {
-      return "Asia/Kolkata";
+      return DEFAULT_TIMEZONE;
     }
     return setting?.setting_value || "";
   };
@@ -305,21 +319,13 @@ export const SystemSettings = ({ user }: SystemSettingsProps) => {
                 <SelectValue placeholder="Select timezone" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="UTC">UTC</SelectItem>
-                <SelectItem value="America/New_York">Eastern Time (ET)</SelectItem>
-                <SelectItem value="America/Chicago">Central Time (CT)</SelectItem>
-                <SelectItem value="America/Denver">Mountain Time (MT)</SelectItem>
-                <SelectItem value="America/Los_Angeles">Pacific Time (PT)</SelectItem>
-                <SelectItem value="Europe/London">London (GMT)</SelectItem>
-                <SelectItem value="Europe/Paris">Paris (CET)</SelectItem>
-                <SelectItem value="Asia/Dubai">Dubai (GST)</SelectItem>
-                <SelectItem value="Asia/Kolkata">Mumbai (IST)</SelectItem>
-                <SelectItem value="Asia/Tokyo">Tokyo (JST)</SelectItem>
-                <SelectItem value="Australia/Sydney">Sydney (AEST)</SelectItem>
+                {TIMEZONE_OPTIONS.map((tz) => (
+                  <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              Default timezone for date and time displays across the organization
+              Defines when each day starts and ends for task schedules, reports and the daily summary. Users can override it individually.
             </p>
           </div>
 
@@ -402,6 +408,193 @@ export const SystemSettings = ({ user }: SystemSettingsProps) => {
         </CardContent>
       </Card>
 
+      {/* Leave Approval Card */}
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCheck className="w-5 h-5" />
+            Leave Approval
+          </CardTitle>
+          <CardDescription>
+            Require a second approval for long leave and keep enough of each team available
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Second Approval Threshold */}
+          <div className="space-y-2">
+            <Label htmlFor="leave-second-approval-after-days">Second Approval After (days)</Label>
+            <Input
+              id="leave-second-approval-after-days"
+              type="number"
+              min={0}
+              step={0.5}
+              value={getSettingString("leave_second_approval_after_days") || "0"}
+              onChange={(e) => handleSettingChange("leave_second_approval_after_days", e.target.value)}
+              disabled={saving}
+              className="w-40"
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave longer than this needs a second approval after the manager's. 0 = manager approval only.
+            </p>
+          </div>
+
+          {/* Second Approver */}
+          <div className="space-y-2">
+            <Label htmlFor="leave-second-approver">Second Approver</Label>
+            <Select
+              value={getSettingString("leave_second_approver") || "skip_level"}
+              onValueChange={(value) => handleSettingChange("leave_second_approver", value)}
+              disabled={saving}
+            >
+              <SelectTrigger id="leave-second-approver" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip_level">Skip-level manager</SelectItem>
+                <SelectItem value="hr">HR</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {getSettingString("leave_second_approver") === "hr"
+                ? "Any user with the HR role can give the second approval"
+                : "A manager above the employee's direct manager gives the second approval"}
+            </p>
+          </div>
+
+          {/* Minimum Category Coverage */}
+          <div className="space-y-2">
+            <Label htmlFor="leave-min-category-coverage">Minimum Coverage per Task Category</Label>
+            <Input
+              id="leave-min-category-coverage"
+              type="number"
+              min={0}
+              step={1}
+              value={getSettingString("leave_min_category_coverage") || "0"}
+              onChange={(e) => handleSettingChange("leave_min_category_coverage", e.target.value)}
+              disabled={saving}
+              className="w-40"
+            />
+            <p className="text-xs text-muted-foreground">
+              Approvers are warned when approving leave would leave fewer of their team members available
+              for a task category. 0 = no warning.
+            </p>
+          </div>
+
+          {/* Save Button */}
+          <div className="flex justify-end pt-4 border-t">
+            <Button
+              onClick={handleSaveSettings}
+              disabled={saving || !hasUnsavedChanges}
+              className="min-w-[120px]"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Escalations Card */}
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            Escalations
+          </CardTitle>
+          <CardDescription>
+            Notify the next manager up when tasks keep being missed, approvals stall or benchmarks aren't met
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Missed Streak */}
+          <div className="space-y-2">
+            <Label htmlFor="escalation-missed-streak">Missed in a Row</Label>
+            <Input
+              id="escalation-missed-streak"
+              type="number"
+              min={0}
+              step={1}
+              value={getSettingString("escalation_missed_streak") || "0"}
+              onChange={(e) => handleSettingChange("escalation_missed_streak", e.target.value)}
+              disabled={saving}
+              className="w-40"
+            />
+            <p className="text-xs text-muted-foreground">
+              A task missed this many times in a row is escalated to the assignee's manager. 0 = off.
+            </p>
+          </div>
+
+          {/* Approval Pending */}
+          <div className="space-y-2">
+            <Label htmlFor="escalation-approval-pending-days">Approval Pending For (days)</Label>
+            <Input
+              id="escalation-approval-pending-days"
+              type="number"
+              min={0}
+              step={1}
+              value={getSettingString("escalation_approval_pending_days") || "0"}
+              onChange={(e) => handleSettingChange("escalation_approval_pending_days", e.target.value)}
+              disabled={saving}
+              className="w-40"
+            />
+            <p className="text-xs text-muted-foreground">
+              A task update waiting for approval longer than this is escalated to the approver's manager. Not
+              checked while task completions are auto-approved. 0 = off.
+            </p>
+          </div>
+
+          {/* Benchmark */}
+          <div className="space-y-2">
+            <Label htmlFor="escalation-benchmark-percent">Weekly Benchmark Below (%)</Label>
+            <Input
+              id="escalation-benchmark-percent"
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={getSettingString("escalation_benchmark_percent") || "0"}
+              onChange={(e) => handleSettingChange("escalation_benchmark_percent", e.target.value)}
+              disabled={saving}
+              className="w-40"
+            />
+            <p className="text-xs text-muted-foreground">
+              A task that reached less than this share of its benchmark over a week (Monday to Sunday) is
+              escalated to the assignee's manager. 0 = off.
+            </p>
+          </div>
+
+          {/* Save Button */}
+          <div className="flex justify-end pt-4 border-t">
+            <Button
+              onClick={handleSaveSettings}
+              disabled={saving || !hasUnsavedChanges}
+              className="min-w-[120px]"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Email Notifications Card */}
       <Card className="shadow-lg">
         <CardHeader>
@@ -410,7 +603,7 @@ export const SystemSettings = ({ user }: SystemSettingsProps) => {
             Email Notifications
           </CardTitle>
           <CardDescription>
-            Configure daily task completion summary emails
+            Configure daily task completion summary emails and who they are sent from
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -453,6 +646,54 @@ export const SystemSettings = ({ user }: SystemSettingsProps) => {
             </p>
           </div>
 
+          {/* Sender Name */}
+          <div className="space-y-2">
+            <Label htmlFor="email-from-name">Sender Name</Label>
+            <Input
+              id="email-from-name"
+              value={getSettingString("email_from_name")}
+              onChange={(e) => handleSettingChange("email_from_name", e.target.value)}
+              placeholder="Momentum"
+              disabled={saving}
+              className="w-64"
+            />
+          </div>
+
+          {/* Sender Address */}
+          <div className="space-y-2">
+            <Label htmlFor="email-from-address">Sender Address</Label>
+            <Input
+              id="email-from-address"
+              type="email"
+              value={getSettingString("email_from_address")}
+              onChange={(e) => handleSettingChange("email_from_address", e.target.value)}
+              placeholder="tasks@yourcompany.com"
+              disabled={saving}
+              className="w-64"
+            />
+            <p className="text-xs text-muted-foreground">
+              Address summaries and invitations are sent from. It must be allowed by your mail provider.
+              Leave empty to use the server's default sender.
+            </p>
+          </div>
+
+          {/* Reply-To Address */}
+          <div className="space-y-2">
+            <Label htmlFor="email-reply-to">Reply-To Address</Label>
+            <Input
+              id="email-reply-to"
+              type="email"
+              value={getSettingString("email_reply_to")}
+              onChange={(e) => handleSettingChange("email_reply_to", e.target.value)}
+              placeholder="Optional"
+              disabled={saving}
+              className="w-64"
+            />
+            <p className="text-xs text-muted-foreground">
+              Where replies to these emails go, e.g. your HR or operations mailbox
+            </p>
+          </div>
+
           {/* Save Button */}
           <div className="flex justify-end pt-4 border-t">
             <Button 
@@ -475,6 +716,155 @@ export const SystemSettings = ({ user }: SystemSettingsProps) => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Email Branding Card */}
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palette className="w-5 h-5" />
+            Email Branding
+          </CardTitle>
+          <CardDescription>
+            Logo, colors, footer and language of the emails sent to your organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Email Language */}
+          <div className="space-y-2">
+            <Label htmlFor="email-language">Default Email Language</Label>
+            <Select
+              value={getSettingString("email_language") || DEFAULT_EMAIL_LANGUAGE}
+              onValueChange={(value) => handleSettingChange("email_language", value)}
+              disabled={saving}
+            >
+              <SelectTrigger id="email-language" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EMAIL_LANGUAGE_OPTIONS.map((l) => (
+                  <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Used for invitations and for users who haven't chosen their own email language
+            </p>
+          </div>
+
+          {/* Logo URL */}
+          <div className="space-y-2">
+            <Label htmlFor="email-logo-url">Logo URL</Label>
+            <Input
+              id="email-logo-url"
+              type="url"
+              value={getSettingString("email_logo_url")}
+              onChange={(e) => handleSettingChange("email_logo_url", e.target.value)}
+              placeholder="https://yourcompany.com/logo.png"
+              disabled={saving}
+            />
+            <p className="text-xs text-muted-foreground">
+              A publicly reachable image shown at the top of emails, up to 48px high. Leave empty to show the Momentum name.
+            </p>
+          </div>
+
+          {/* Colors */}
+          <div className="flex flex-wrap gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="email-primary-color">Primary Color</Label>
+              <Input
+                id="email-primary-color"
+                type="color"
+                value={getSettingString("email_primary_color") || DEFAULT_EMAIL_PRIMARY_COLOR}
+                onChange={(e) => handleSettingChange("email_primary_color", e.target.value)}
+                disabled={saving}
+                className="w-20 h-10 p-1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-accent-color">Accent Color</Label>
+              <Input
+                id="email-accent-color"
+                type="color"
+                value={getSettingString("email_accent_color") || DEFAULT_EMAIL_ACCENT_COLOR}
+                onChange={(e) => handleSettingChange("email_accent_color", e.target.value)}
+                disabled={saving}
+                className="w-20 h-10 p-1"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-4">
+            The primary color is used for headings, links and buttons; buttons fade into the accent color
+          </p>
+
+          {/* Footer Text */}
+          <div className="space-y-2">
+            <Label htmlFor="email-footer-text">Footer Text</Label>
+            <Textarea
+              id="email-footer-text"
+              value={getSettingString("email_footer_text")}
+              onChange={(e) => handleSettingChange("email_footer_text", e.target.value)}
+              placeholder="If you have any questions, please contact your administrator."
+              rows={3}
+              disabled={saving}
+            />
+            <p className="text-xs text-muted-foreground">
+              Shown at the bottom of every email, e.g. your address or a contact line. It is not translated.
+            </p>
+          </div>
+
+          {/* Template Previews */}
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(EMAIL_TEMPLATE_LABELS) as EmailTemplateName[]).map((template) => (
+                <Button key={template} variant="outline" onClick={() => setPreviewTemplate(template)}>
+                  <Eye className="w-4 h-4 mr-2" />
+                  {EMAIL_TEMPLATE_LABELS[template]}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              See each email with sample data and the settings above, including unsaved changes
+            </p>
+          </div>
+
+          {/* Save Button */}
+          <div className="flex justify-end pt-4 border-t">
+            <Button
+              onClick={handleSaveSettings}
+              disabled={saving || !hasUnsavedChanges}
+              className="min-w-[120px]"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {previewTemplate && (
+        <EmailTemplatePreviewDialog
+          open={!!previewTemplate}
+          onOpenChange={(open) => !open && setPreviewTemplate(null)}
+          template={previewTemplate}
+          defaultLanguage={getSettingString("email_language") || DEFAULT_EMAIL_LANGUAGE}
+          settings={{
+            email_logo_url: getSettingString("email_logo_url"),
+            email_primary_color: getSettingString("email_primary_color"),
+            email_accent_color: getSettingString("email_accent_color"),
+            email_footer_text: getSettingString("email_footer_text"),
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -12,10 +12,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, UserPlus, Users, Building2, Mail, Clock, X, Copy, Check, Network, Calendar, Settings } from "lucide-react";
+import { Shield, UserPlus, Users, Building2, Mail, Clock, X, Copy, Check, Network, Calendar, Settings, History } from "lucide-react";
 import { TeamHierarchy } from "./TeamHierarchy";
 import { SystemSettings } from "./SystemSettings";
 import { UserWeeklyOffs } from "./UserWeeklyOffs";
+import { AuditLogViewer } from "./AuditLogViewer";
 import type { Database } from "@/integrations/supabase/types";
 
 type AppRole = Database["public"]["Enums"]["app_role"];
@@ -27,6 +28,7 @@ interface UserWithRoles {
   roles: AppRole[];
   manager_id: string | null;
   manager_name: string | null;
+  holiday_calendar_id: string | null;
 }
 
 interface Invitation {
@@ -47,6 +49,7 @@ export const UserManagement = ({ user }: UserManagementProps) => {
   const [users, setUsers] = useState<UserWithRoles[]>([]);
   const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [organization, setOrganization] = useState<{ id: string; name: string } | null>(null);
+  const [holidayCalendars, setHolidayCalendars] = useState<Array<{ id: string; name: string }>>([]);
   const [loading, setLoading] = useState(true);
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
   const [inviteEmail, setInviteEmail] = useState("");
@@ -81,11 +84,19 @@ export const UserManagement = ({ user }: UserManagementProps) => {
 
       const { data: orgProfiles } = await supabase
         .from("users")
-        .select("id, email, full_name, manager_id")
+        .select("id, email, full_name, manager_id, holiday_calendar_id")
         .eq("organization_id", profile.organization_id);
 
       if (!orgProfiles) return;
 
+      const { data: calendars } = await supabase
+        .from("holiday_calendars")
+        .select("id, name")
+        .eq("organization_id", profile.organization_id)
+        .order("name", { ascending: true });
+
+      setHolidayCalendars(calendars || []);
+
       const { data: roles } = await supabase
         .from("user_roles")
         .select("user_id, role")
@@ -100,6 +111,7 @@ export const UserManagement = ({ user }: UserManagementProps) => {
           roles: roles?.filter((r) => r.user_id === p.id).map((r) => r.role) || [],
           manager_id: p.manager_id,
           manager_name: manager?.full_name || null,
+          holiday_calendar_id: p.holiday_calendar_id,
         };
       });
 
@@ -243,6 +255,28 @@ export const UserManagement = ({ user }: UserManagementProps) => {
     toast({ title: "Link copied to clipboard" });
   };
 
+  const handleHolidayCalendarChange = async (userId: string, calendarId: string) => {
+    const { error } = await supabase
+      .from("users")
+      .update({ holiday_calendar_id: calendarId === "none" ? null : calendarId })
+      .eq("id", userId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: "Holiday calendar updated",
+    });
+    await fetchUsersAndOrg();
+  };
+
   const handleManagerChange = async (userId: string, managerId: string) => {
     try {
       const newManagerId = managerId === "none" ? null : managerId;
@@ -325,6 +359,8 @@ export const UserManagement = ({ user }: UserManagementProps) => {
     switch (role) {
       case "admin":
         return "default";
+      case "hr":
+        return "secondary";
       case "user":
         return "outline";
       default:
@@ -397,6 +433,10 @@ export const UserManagement = ({ user }: UserManagementProps) => {
             <Settings className="w-4 h-4" />
             System Settings
           </TabsTrigger>
+          <TabsTrigger value="audit-log" className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Audit Log
+          </TabsTrigger>
         </TabsList>
 
         {/* Team Members Tab */}
@@ -419,6 +459,7 @@ export const UserManagement = ({ user }: UserManagementProps) => {
                     <TableHead>Email</TableHead>
                     <TableHead>Role</TableHead>
                     <TableHead>Manager</TableHead>
+                    <TableHead>Holiday Calendar</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -451,6 +492,7 @@ export const UserManagement = ({ user }: UserManagementProps) => {
                             </SelectTrigger>
                             <SelectContent>
                               <SelectItem value="admin">Admin</SelectItem>
+                              <SelectItem value="hr">HR</SelectItem>
                               <SelectItem value="user">User</SelectItem>
                             </SelectContent>
                           </Select>
@@ -474,6 +516,25 @@ export const UserManagement = ({ user }: UserManagementProps) => {
                             </SelectContent>
                           </Select>
                         </TableCell>
+                        <TableCell>
+                          <Select
+                            value={u.holiday_calendar_id || "none"}
+                            onValueChange={(value) => handleHolidayCalendarChange(u.id, value)}
+                            disabled={holidayCalendars.length === 0}
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue placeholder="Organization-wide" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Organization-wide</SelectItem>
+                              {holidayCalendars.map((c) => (
+                                <SelectItem key={c.id} value={c.id}>
+                                  {c.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
                         <TableCell>
                           <div className="flex gap-1">
                             {u.roles.map((role) => (
@@ -548,6 +609,7 @@ export const UserManagement = ({ user }: UserManagementProps) => {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="user">User</SelectItem>
+                          <SelectItem value="hr">HR</SelectItem>
                           <SelectItem value="admin">Admin</SelectItem>
                         </SelectContent>
                       </Select>
@@ -620,6 +682,11 @@ export const UserManagement = ({ user }: UserManagementProps) => {
         <TabsContent value="settings">
           <SystemSettings user={user} />
         </TabsContent>
+
+        {/* Audit Log Tab */}
+        <TabsContent value="audit-log">
+          <AuditLogViewer user={user} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -12,9 +12,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Calendar, Copy, Check, Users } from "lucide-react";
-import type { Database } from "@/integrations/supabase/types";
-
-type DayOfWeek = Database["public"]["Enums"]["day_of_week"];
+import { WeeklyOffPatternFields } from "@/components/holidays/WeeklyOffPatternFields";
+import { describeWeeklyOff, everyWeekPattern, type DayOfWeek, type WeeklyOffPattern } from "@/lib/weeklyOffs";
 
 interface UserProfile {
   id: string;
@@ -40,11 +39,11 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
   const { isAdmin, isManager, loading: roleLoading } = useUserRole(user.id);
   const { subordinates } = useSubordinates(user.id);
   const [users, setUsers] = useState<UserProfile[]>([]);
-  const [userWeeklyOffs, setUserWeeklyOffs] = useState<Record<string, DayOfWeek[]>>({});
+  const [userWeeklyOffs, setUserWeeklyOffs] = useState<Record<string, WeeklyOffPattern[]>>({});
   const [loading, setLoading] = useState(true);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
-  const [selectedDays, setSelectedDays] = useState<DayOfWeek[]>([]);
+  const [selectedOffs, setSelectedOffs] = useState<WeeklyOffPattern[]>([]);
   const [saving, setSaving] = useState(false);
   const [copyFromUserId, setCopyFromUserId] = useState<string | null>(null);
   const { toast } = useToast();
@@ -99,10 +98,10 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
       // Fetch weekly offs for all users
       const { data: weeklyOffs } = await supabase
         .from("user_weekly_offs")
-        .select("user_id, day_of_week")
+        .select("user_id, day_of_week, weeks_of_month, week_interval, anchor_date")
         .in("user_id", orgUsers.map((u) => u.id));
 
-      const weeklyOffsMap: Record<string, DayOfWeek[]> = {};
+      const weeklyOffsMap: Record<string, WeeklyOffPattern[]> = {};
       orgUsers.forEach((u) => {
         weeklyOffsMap[u.id] = [];
       });
@@ -111,7 +110,8 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
         if (!weeklyOffsMap[wo.user_id]) {
           weeklyOffsMap[wo.user_id] = [];
         }
-        weeklyOffsMap[wo.user_id].push(wo.day_of_week);
+        const { user_id, ...pattern } = wo;
+        weeklyOffsMap[user_id].push(pattern);
       });
 
       setUserWeeklyOffs(weeklyOffsMap);
@@ -128,7 +128,7 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
 
   const handleEditClick = (userId: string) => {
     setSelectedUserId(userId);
-    setSelectedDays(userWeeklyOffs[userId] || []);
+    setSelectedOffs(userWeeklyOffs[userId] || []);
     setCopyFromUserId(null);
     setEditDialogOpen(true);
   };
@@ -146,13 +146,16 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
         .eq("user_id", selectedUserId);
 
       // Insert new weekly offs
-      if (selectedDays.length > 0) {
+      if (selectedOffs.length > 0) {
         const { error } = await supabase
           .from("user_weekly_offs")
           .insert(
-            selectedDays.map((day) => ({
+            selectedOffs.map((off) => ({
               user_id: selectedUserId,
-              day_of_week: day,
+              day_of_week: off.day_of_week,
+              weeks_of_month: off.weeks_of_month,
+              week_interval: off.week_interval,
+              anchor_date: off.anchor_date,
             }))
           );
 
@@ -179,8 +182,8 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
 
   const handleCopyFrom = () => {
     if (!copyFromUserId) return;
-    const sourceDays = userWeeklyOffs[copyFromUserId] || [];
-    setSelectedDays([...sourceDays]);
+    const sourceOffs = userWeeklyOffs[copyFromUserId] || [];
+    setSelectedOffs(sourceOffs.map((off) => ({ ...off })));
     toast({
       title: "Copied",
       description: "Weekly offs copied from selected user",
@@ -188,10 +191,16 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
   };
 
   const toggleDay = (day: DayOfWeek) => {
-    setSelectedDays((prev) =>
-      prev.includes(day)
-        ? prev.filter((d) => d !== day)
-        : [...prev, day]
+    setSelectedOffs((prev) =>
+      prev.some((off) => off.day_of_week === day)
+        ? prev.filter((off) => off.day_of_week !== day)
+        : [...prev, everyWeekPattern(day)]
+    );
+  };
+
+  const updatePattern = (pattern: WeeklyOffPattern) => {
+    setSelectedOffs((prev) =>
+      prev.map((off) => (off.day_of_week === pattern.day_of_week ? pattern : off))
     );
   };
 
@@ -263,20 +272,20 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
             </TableHeader>
             <TableBody>
               {users.map((u) => {
-                const days = userWeeklyOffs[u.id] || [];
+                const offs = userWeeklyOffs[u.id] || [];
                 return (
                   <TableRow key={u.id}>
                     <TableCell className="font-medium">{u.full_name}</TableCell>
                     <TableCell className="text-muted-foreground">{u.email}</TableCell>
                     <TableCell>
-                      {days.length > 0 ? (
+                      {offs.length > 0 ? (
                         <div className="flex flex-wrap gap-1">
-                          {days.map((day) => (
+                          {offs.map((off) => (
                             <span
-                              key={day}
+                              key={off.day_of_week}
                               className="px-2 py-1 bg-muted rounded text-xs"
                             >
-                              {DAYS_OF_WEEK.find((d) => d.value === day)?.label}
+                              {describeWeeklyOff(off)}
                             </span>
                           ))}
                         </div>
@@ -309,7 +318,7 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
           <DialogHeader>
             <DialogTitle>Edit Weekly Offs</DialogTitle>
             <DialogDescription>
-              Select the days of the week when this user is off
+              Select the days of the week when this user is off, and which weeks they apply to
             </DialogDescription>
           </DialogHeader>
 
@@ -347,22 +356,34 @@ export const UserWeeklyOffs = ({ user }: UserWeeklyOffsProps) => {
             {/* Day selection */}
             <div className="space-y-2">
               <Label>Select Weekly Off Days</Label>
-              <div className="grid grid-cols-2 gap-3">
-                {DAYS_OF_WEEK.map((day) => (
-                  <div key={day.value} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={day.value}
-                      checked={selectedDays.includes(day.value)}
-                      onCheckedChange={() => toggleDay(day.value)}
-                    />
-                    <Label
-                      htmlFor={day.value}
-                      className="text-sm font-normal cursor-pointer"
-                    >
-                      {day.label}
-                    </Label>
-                  </div>
-                ))}
+              <div className="space-y-3">
+                {DAYS_OF_WEEK.map((day) => {
+                  const off = selectedOffs.find((o) => o.day_of_week === day.value);
+                  return (
+                    <div key={day.value} className="grid grid-cols-[8rem_1fr] items-start gap-3">
+                      <div className="flex items-center space-x-2 pt-1.5">
+                        <Checkbox
+                          id={day.value}
+                          checked={!!off}
+                          onCheckedChange={() => toggleDay(day.value)}
+                        />
+                        <Label
+                          htmlFor={day.value}
+                          className="text-sm font-normal cursor-pointer"
+                        >
+                          {day.label}
+                        </Label>
+                      </div>
+                      {off && (
+                        <WeeklyOffPatternFields
+                          value={off}
+                          onChange={updatePattern}
+                          idPrefix={`user-${day.value}`}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             </div>
           </div>
@@ -9,7 +9,8 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Plus, Clock, CheckCircle, XCircle, AlertCircle, Calendar, Save, Link2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Plus, Clock, CheckCircle, XCircle, AlertCircle, Calendar, Save, Link2, CloudOff, RefreshCw } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useDailyTasks } from "@/hooks/useDailyTasks";
@@ -17,6 +18,8 @@ import { useWorkingDays } from "@/hooks/useWorkingDays";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useSystemSettings } from "@/hooks/useSystemSettings";
 import { supabase } from "@/integrations/supabase/client";
+import { completionConflictError, fetchCurrentCompletion, hasCompletionConflict } from "@/lib/completionConflicts";
+import { notifyCompletionRejected } from "@/lib/notifications";
 import type { Database } from "@/integrations/supabase/types";
 import { TaskApprovalBadge } from "@/components/tasks/TaskApprovalBadge";
 import { TaskApprovalDialog } from "@/components/tasks/TaskApprovalDialog";
@@ -33,13 +36,23 @@ const DailyView = ({ user, onCreateTask }: DailyViewProps) => {
   const [today] = useState(new Date());
   const [fullName, setFullName] = useState<string | null>(null);
   const [organizationId, setOrganizationId] = useState<string | null>(null);
-  const { tasks, pendingTasks, loading, markTaskComplete } = useDailyTasks(user.id, today);
+  const {
+    tasks,
+    pendingTasks,
+    loading,
+    markTaskComplete,
+    isOnline,
+    syncing,
+    cachedAt,
+    pendingSyncCount,
+    isPendingSync,
+  } = useDailyTasks(user.id, today);
   const { isWorkingDay, isOnPersonalLeave } = useWorkingDays(user.id);
   const { isManager } = useUserRole(user.id);
   const { settings } = useSystemSettings(organizationId);
   
-  // Track modified tasks for bulk update
-  const [modifiedTasks, setModifiedTasks] = useState<Map<string, { status: TaskStatus; quantity?: number; notes?: string; originalDate?: string }>>(new Map());
+  // Track modified tasks for bulk update, with the completion version each edit started from
+  const [modifiedTasks, setModifiedTasks] = useState<Map<string, { status: TaskStatus; quantity?: number; notes?: string; originalDate?: string; baseUpdatedAt: string | null }>>(new Map());
   const [saving, setSaving] = useState(false);
   const [dependenciesByTask, setDependenciesByTask] = useState<Record<string, Array<{ id: string; name: string }>>>({});
   const [employeeNames, setEmployeeNames] = useState<Record<string, string>>({});
@@ -234,10 +247,34 @@ const DailyView = ({ user, onCreateTask }: DailyViewProps) => {
     });
   }, [pendingTasks]);
 
+  const getCompletionUpdatedAt = (assignmentId: string, originalDate?: string) => {
+    const dailyTask = originalDate
+      ? pendingTasks.find((t) => t.assignment.id === assignmentId && t.originalDate === originalDate)
+      : tasks.find((t) => t.assignment.id === assignmentId);
+    return dailyTask?.completion?.updated_at ?? null;
+  };
+
+  // Unsaved edits whose completion was changed by someone else in the meantime (seen via realtime)
+  const conflictingTaskIds = useMemo(() => {
+    const ids = new Set<string>();
+    modifiedTasks.forEach((data, assignmentId) => {
+      const current = getCompletionUpdatedAt(assignmentId, data.originalDate);
+      if (hasCompletionConflict(current ? { updated_at: current } : null, data.baseUpdatedAt)) {
+        ids.add(assignmentId);
+      }
+    });
+    return ids;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [modifiedTasks, tasks, pendingTasks]);
+
   const handleTaskChange = (assignmentId: string, status: TaskStatus, quantity?: number, notes?: string, originalDate?: string) => {
     setModifiedTasks((prev) => {
       const newMap = new Map(prev);
-      newMap.set(assignmentId, { status, quantity, notes, originalDate });
+      // Keep the version of the first edit, so later edits don't hide a concurrent change
+      const baseUpdatedAt = prev.has(assignmentId)
+        ? prev.get(assignmentId)!.baseUpdatedAt
+        : getCompletionUpdatedAt(assignmentId, originalDate);
+      newMap.set(assignmentId, { status, quantity, notes, originalDate, baseUpdatedAt });
       return newMap;
     });
   };
@@ -250,7 +287,7 @@ const DailyView = ({ user, onCreateTask }: DailyViewProps) => {
       
       // Update all modified tasks
       const updatePromises = Array.from(modifiedTasks.entries()).map(([assignmentId, data]) =>
-        markTaskComplete(assignmentId, data.status, data.quantity, data.notes, data.originalDate)
+        markTaskComplete(assignmentId, data.status, data.quantity, data.notes, data.originalDate, data.baseUpdatedAt)
       );
 
       await Promise.all(updatePromises);
@@ -265,8 +302,11 @@ const DailyView = ({ user, onCreateTask }: DailyViewProps) => {
   };
 
   const handleIndividualUpdate = async (assignmentId: string, status: TaskStatus, quantity?: number, notes?: string, originalDate?: string) => {
-    // Update immediately
-    await markTaskComplete(assignmentId, status, quantity, notes, originalDate);
+    // Update immediately, from the version the edit started from (or the one shown now)
+    const baseUpdatedAt = modifiedTasks.has(assignmentId)
+      ? modifiedTasks.get(assignmentId)!.baseUpdatedAt
+      : getCompletionUpdatedAt(assignmentId, originalDate);
+    await markTaskComplete(assignmentId, status, quantity, notes, originalDate, baseUpdatedAt);
     
     // Remove from modified tasks after successful update
     setModifiedTasks((prev) => {
@@ -304,7 +344,7 @@ const DailyView = ({ user, onCreateTask }: DailyViewProps) => {
           <p className="text-muted-foreground text-base sm:text-lg">
             {format(today, "EEEE, dd MMM yyyy")}
           </p>
-          {!workingDayInfo.isWorkingDay && (
+          {workingDayInfo.reason && (
             <Badge variant="secondary" className="bg-muted text-xs">
               {workingDayInfo.reason}
             </Badge>
@@ -312,6 +352,20 @@ const DailyView = ({ user, onCreateTask }: DailyViewProps) => {
         </div>
       </div>
 
+      {/* Offline mode: updates are kept on the device and synced on reconnect */}
+      {(!isOnline || pendingSyncCount > 0) && (
+        <Alert>
+          {isOnline ? <RefreshCw className={cn("h-4 w-4", syncing && "animate-spin")} /> : <CloudOff className="h-4 w-4" />}
+          <AlertDescription>
+            {!isOnline
+              ? `You're offline${cachedAt ? ` and seeing tasks as of ${format(new Date(cachedAt), "HH:mm")}` : ""}. Updates are saved on this device and sync when you reconnect.`
+              : syncing
+                ? `Syncing ${pendingSyncCount} update${pendingSyncCount === 1 ? "" : "s"} made offline...`
+                : `${pendingSyncCount} update${pendingSyncCount === 1 ? "" : "s"} made offline waiting to sync.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Stats Overview */}
       <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-5 gap-2 sm:gap-4">
         <Card className="bg-gradient-to-br from-primary/10 to-primary/5 border-primary/20">
@@ -419,6 +473,8 @@ const DailyView = ({ user, onCreateTask }: DailyViewProps) => {
                   onStatusChange={handleTaskChange}
                   onIndividualUpdate={handleIndividualUpdate}
                   isModified={modifiedTasks.has(dailyTask.assignment.id)}
+                  hasConflict={conflictingTaskIds.has(dailyTask.assignment.id)}
+                  pendingSync={isPendingSync(dailyTask.assignment.id)}
                   dependencies={dependenciesByTask[dailyTask.assignment.task.id] || []}
                   employeeName={
                     dailyTask.assignment.assigned_to === user.id
@@ -480,6 +536,8 @@ const DailyView = ({ user, onCreateTask }: DailyViewProps) => {
                   onStatusChange={handleTaskChange}
                   onIndividualUpdate={handleIndividualUpdate}
                   isModified={modifiedTasks.has(dailyTask.assignment.id)}
+                  hasConflict={conflictingTaskIds.has(dailyTask.assignment.id)}
+                  pendingSync={isPendingSync(dailyTask.assignment.id, dailyTask.originalDate)}
                   dependencies={dependenciesByTask[dailyTask.assignment.task.id] || []}
                 />
               ))}
@@ -505,9 +563,13 @@ interface TaskItemProps {
         description: string | null;
         benchmark: number | null;
         category: string | null;
+        due_time: string | null;
+        grace_minutes: number;
       };
     };
     status: TaskStatus;
+    capacity?: number;
+    coveringFor?: string;
     completion?: {
       id: string;
       quantity_completed: number | null;
@@ -517,18 +579,21 @@ interface TaskItemProps {
       scheduled_date: string;
       approval_status: string;
       manager_comment?: string | null;
+      updated_at: string;
     };
   };
   onStatusChange: (assignmentId: string, status: TaskStatus, quantity?: number, notes?: string) => void;
   onIndividualUpdate: (assignmentId: string, status: TaskStatus, quantity?: number, notes?: string) => void;
   isModified: boolean;
+  hasConflict: boolean;
+  pendingSync: boolean; // Updated offline, not yet synced
   currentUserId: string;
   isManager: boolean;
   dependencies: Array<{ id: string; name: string }>;
   employeeName?: string;
 }
 
-const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, currentUserId, isManager, dependencies, employeeName }: TaskItemProps) => {
+const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, hasConflict, pendingSync, currentUserId, isManager, dependencies, employeeName }: TaskItemProps) => {
   const { task } = dailyTask.assignment;
   const status = dailyTask.status;
   const [quantity, setQuantity] = useState<string>("");
@@ -538,8 +603,10 @@ const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, c
   const [isApproving, setIsApproving] = useState(false);
   const [approvalDialogOpen, setApprovalDialogOpen] = useState(false);
   
-  // Check if manager is viewing a subordinate's task (cannot edit, only approve/reject)
-  const isSubordinateTask = isManager && dailyTask.assignment.assigned_to !== currentUserId;
+  // Check if manager is viewing a subordinate's task (cannot edit, only approve/reject).
+  // Tasks covered for a colleague on leave are worked like the user's own
+  const isSubordinateTask =
+    isManager && dailyTask.assignment.assigned_to !== currentUserId && !dailyTask.coveringFor;
 
   const hasBenchmark = task.benchmark !== null && task.benchmark > 1;
   const quantityNum = quantity ? parseFloat(quantity) : 0;
@@ -690,7 +757,7 @@ const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, c
 
     setIsApproving(true);
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from("task_completions")
         .update({
           approval_status: "approved",
@@ -698,9 +765,17 @@ const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, c
           manager_comment: comment || null,
           updated_at: new Date().toISOString(),
         })
-        .eq("id", dailyTask.completion.id);
+        .eq("id", dailyTask.completion.id)
+        .eq("updated_at", dailyTask.completion.updated_at)
+        .select("id");
 
       if (error) throw error;
+      // Nothing updated: the employee or another manager changed the completion meanwhile
+      if (!data || data.length === 0) {
+        throw completionConflictError(
+          await fetchCurrentCompletion(dailyTask.assignment.id, dailyTask.completion.scheduled_date)
+        );
+      }
 
       // Refresh the tasks to show updated approval status
       window.location.reload(); // Simple refresh for now, could be optimized later
@@ -717,7 +792,7 @@ const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, c
 
     setIsApproving(true);
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from("task_completions")
         .update({
           approval_status: "rejected",
@@ -725,9 +800,20 @@ const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, c
           manager_comment: comment,
           updated_at: new Date().toISOString(),
         })
-        .eq("id", dailyTask.completion.id);
+        .eq("id", dailyTask.completion.id)
+        .eq("updated_at", dailyTask.completion.updated_at)
+        .select("id");
 
       if (error) throw error;
+      // Nothing updated: the employee or another manager changed the completion meanwhile
+      if (!data || data.length === 0) {
+        throw completionConflictError(
+          await fetchCurrentCompletion(dailyTask.assignment.id, dailyTask.completion.scheduled_date)
+        );
+      }
+
+      // Before the reload below, which would cancel the request
+      await notifyCompletionRejected(dailyTask.completion.id);
 
       // Refresh the tasks to show updated approval status
       window.location.reload(); // Simple refresh for now, could be optimized later
@@ -756,6 +842,16 @@ const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, c
                 {task.category}
               </Badge>
             )}
+            {dailyTask.capacity !== undefined && dailyTask.capacity > 0 && dailyTask.capacity < 1 && (
+              <Badge variant="outline" className="text-xs">
+                Half day
+              </Badge>
+            )}
+            {dailyTask.coveringFor && (
+              <Badge variant="outline" className="text-xs">
+                Covering for {dailyTask.coveringFor}
+              </Badge>
+            )}
           </div>
           {task.description && (
             <div className="text-xs sm:text-sm text-muted-foreground mt-1">{task.description}</div>
@@ -763,6 +859,25 @@ const TaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, c
           {task.benchmark && (
             <div className="text-xs sm:text-sm text-muted-foreground mt-1">Target: {task.benchmark}</div>
           )}
+          {task.due_time && (
+            <div className="flex items-center gap-1 text-xs sm:text-sm text-muted-foreground mt-1">
+              <Clock className="w-3 h-3 flex-shrink-0" />
+              Due by {task.due_time.slice(0, 5)}
+              {task.grace_minutes > 0 && ` (+${task.grace_minutes} min grace)`}
+            </div>
+          )}
+          {hasConflict && (
+            <div className="flex items-center gap-1 text-xs text-warning mt-1">
+              <AlertCircle className="w-3 h-3 flex-shrink-0" />
+              Someone else updated this task while you were editing. Review it before saving.
+            </div>
+          )}
+          {pendingSync && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+              <CloudOff className="w-3 h-3 flex-shrink-0" />
+              Saved on this device, waiting to sync
+            </div>
+          )}
           {dependencies.length > 0 && (
             <div className="flex items-center gap-2 flex-wrap mt-2">
               <div className="flex items-center gap-2 text-muted-foreground">
@@ -977,11 +1092,13 @@ interface PendingTaskItemProps {
   onStatusChange: (assignmentId: string, status: TaskStatus, quantity?: number, notes?: string, originalDate?: string) => void;
   onIndividualUpdate: (assignmentId: string, status: TaskStatus, quantity?: number, notes?: string, originalDate?: string) => void;
   isModified: boolean;
+  hasConflict: boolean;
+  pendingSync: boolean; // Updated offline, not yet synced
   currentUserId: string;
   dependencies: Array<{ id: string; name: string }>;
 }
 
-const PendingTaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, currentUserId, dependencies }: PendingTaskItemProps) => {
+const PendingTaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModified, hasConflict, pendingSync, currentUserId, dependencies }: PendingTaskItemProps) => {
   const { task } = dailyTask.assignment;
   const originalDate = dailyTask.originalDate;
   const [quantity, setQuantity] = useState<string>("");
@@ -1099,6 +1216,18 @@ const PendingTaskItem = ({ dailyTask, onStatusChange, onIndividualUpdate, isModi
               </span>
             )}
           </div>
+          {hasConflict && (
+            <div className="flex items-center gap-1 text-xs text-warning mt-1">
+              <AlertCircle className="w-3 h-3 flex-shrink-0" />
+              Someone else updated this task while you were editing. Review it before saving.
+            </div>
+          )}
+          {pendingSync && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+              <CloudOff className="w-3 h-3 flex-shrink-0" />
+              Saved on this device, waiting to sync
+            </div>
+          )}
           {dependencies.length > 0 && (
             <div className="flex items-center gap-2 flex-wrap mt-2">
               <div className="flex items-center gap-2 text-muted-foreground">
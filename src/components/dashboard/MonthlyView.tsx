@@ -17,6 +17,14 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
 import {
   Dialog,
   DialogContent,
@@ -24,8 +32,9 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { ChevronLeft, ChevronRight, Download, FileSpreadsheet, FileText, Search, X, ArrowUp, ArrowDown, ArrowUpDown, CheckCircle } from "lucide-react";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday } from "date-fns";
+import { ChevronLeft, ChevronRight, Download, FileSpreadsheet, FileText, Search, X, ArrowUp, ArrowDown, ArrowUpDown, CheckCircle, CalendarX, CalendarClock, Target, Undo2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
 import { cn } from "@/lib/utils";
 import { useMonthlyTasks } from "@/hooks/useMonthlyTasks";
 import { useWorkingDays } from "@/hooks/useWorkingDays";
@@ -36,11 +45,21 @@ import { useToast } from "@/hooks/use-toast";
 import { TaskCompletionDialog } from "@/components/tasks/TaskCompletionDialog";
 import { TaskHistoryDialog } from "@/components/dashboard/TaskHistoryDialog";
 import { TaskApprovalDialog } from "@/components/tasks/TaskApprovalDialog";
+import { OccurrenceExceptionDialog } from "@/components/tasks/OccurrenceExceptionDialog";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  completionConflictError,
+  fetchCurrentCompletion,
+  hasCompletionConflict,
+  isUniqueViolation,
+} from "@/lib/completionConflicts";
+import { notifyCompletionRejected } from "@/lib/notifications";
 import type { Database } from "@/integrations/supabase/types";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useTaskExceptions } from "@/hooks/useTaskExceptions";
+import type { TaskExceptionAction, TaskOccurrenceException } from "@/hooks/useTaskRecurrence";
 import { useSystemSettings } from "@/hooks/useSystemSettings";
-import { formatDateForDB } from "@/lib/dateUtils";
+import { eachDayOfMonthInTimeZone, formatDateForDB } from "@/lib/dateUtils";
 
 type TaskStatus = Database["public"]["Enums"]["task_status"];
 
@@ -56,11 +75,14 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
   const targetUserId = selectedSubordinateId === "self" ? undefined : selectedSubordinateId;
   const { tasks, loading, refresh } = useMonthlyTasks(user.id, currentDate, targetUserId);
   const effectiveUserId = targetUserId || user.id;
-  const { isWorkingDay, getLeaveDatesInRange } = useWorkingDays(effectiveUserId);
+  const { isWorkingDay, getLeaveDatesInRange, getDayCapacityInfo } = useWorkingDays(effectiveUserId);
   const { teamStats } = useTeamCompletionStats(user.id, currentDate);
   const { toast } = useToast();
-  const { isManager } = useUserRole(user.id);
-  const { settings } = useSystemSettings(organizationId);
+  const { isManager, isAdmin } = useUserRole(user.id);
+  const { saveOccurrenceException, clearOccurrenceException } = useTaskExceptions(user.id);
+  // Day boundaries follow the viewed user's timezone, matching useMonthlyTasks
+  const { settings, timezone } = useSystemSettings(organizationId, effectiveUserId);
+  const todayStr = formatDateForDB(new Date(), timezone);
 
   useEffect(() => {
     const fetchOrganizationId = async () => {
@@ -89,6 +111,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
     benchmark: number | null;
     description: string | null;
     date: Date;
+    updatedAt: string | null; // Version of the day's completion when the dialog was opened
   } | null>(null);
   
   // State for task history dialog
@@ -100,6 +123,22 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
     benchmark: number | null;
   } | null>(null);
   
+  // State for occurrence exception dialog (skip, reschedule or override a single occurrence)
+  const [exceptionDialog, setExceptionDialog] = useState<{
+    taskId: string;
+    taskName: string;
+    occurrenceDate: string;
+    action: TaskExceptionAction;
+    benchmark: number | null;
+    exception: TaskOccurrenceException | null;
+  } | null>(null);
+
+  const handleClearException = async (taskId: string, occurrenceDate: string) => {
+    if (await clearOccurrenceException(taskId, occurrenceDate)) {
+      await refresh();
+    }
+  };
+
   // State for month completion breakdown dialog
   const [breakdownDialogOpen, setBreakdownDialogOpen] = useState(false);
   
@@ -113,10 +152,12 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
     employeeName: string;
     completionDate: string;
     scheduledDate: string;
+    scheduledDateStr: string;
     status: TaskStatus;
     quantity: number | null;
     notes: string | null;
     approvalStatus: string;
+    updatedAt: string;
   } | null>(null);
 
   // Track recently approved/rejected completion IDs to prevent immediate reopening
@@ -135,39 +176,46 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
     status: TaskStatus,
     scheduledDate: Date,
     quantityCompleted?: number,
-    notes?: string
+    notes?: string,
+    expectedUpdatedAt?: string | null
   ) => {
     try {
-      const scheduledDateStr = formatDateForDB(scheduledDate, settings.timezone);
-      const completionDateStr = formatDateForDB(new Date(), settings.timezone); // Always use today as completion date
+      const scheduledDateStr = formatDateForDB(scheduledDate, timezone);
+      const completionDateStr = formatDateForDB(new Date(), timezone); // Always use today as completion date
 
       const approvalData = settings.auto_approve_tasks
         ? { approval_status: "approved" as const, approved_by: user.id }
         : { approval_status: "pending" as const, approved_by: null };
 
-      // Check if completion already exists for this scheduled date
-      const { data: existing } = await supabase
-        .from("task_completions")
-        .select("id")
-        .eq("assignment_id", assignmentId)
-        .eq("scheduled_date", scheduledDateStr)
-        .maybeSingle();
+      // Check if completion already exists for this scheduled date, unchanged since the dialog opened
+      const existing = await fetchCurrentCompletion(assignmentId, scheduledDateStr);
+      if (hasCompletionConflict(existing, expectedUpdatedAt)) {
+        await refresh(false);
+        throw completionConflictError(existing);
+      }
       
       if (existing) {
-        // Update existing
-        const { error } = await supabase
+        // Update existing, only if nobody saved it in between
+        const { data: updated, error } = await supabase
           .from("task_completions")
           .update({
             completion_date: completionDateStr,
             status,
             quantity_completed: quantityCompleted,
             notes,
+            completed_by: user.id,
             ...approvalData,
             updated_at: new Date().toISOString(),
           })
-          .eq("id", existing.id);
+          .eq("id", existing.id)
+          .eq("updated_at", existing.updated_at)
+          .select("id");
         
         if (error) throw error;
+        if (!updated || updated.length === 0) {
+          await refresh(false);
+          throw completionConflictError(await fetchCurrentCompletion(assignmentId, scheduledDateStr));
+        }
       } else {
         // Create new
         const { error } = await supabase
@@ -179,9 +227,14 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
             status,
             quantity_completed: quantityCompleted,
             notes,
+            completed_by: user.id,
             ...approvalData,
           });
         
+        if (isUniqueViolation(error)) {
+          await refresh(false);
+          throw completionConflictError(await fetchCurrentCompletion(assignmentId, scheduledDateStr));
+        }
         if (error) throw error;
       }
       
@@ -214,9 +267,10 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
   const [sortColumn, setSortColumn] = useState<SortColumn>(null); // null means use default sort
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
   
-  const monthStart = startOfMonth(currentDate);
-  const monthEnd = endOfMonth(currentDate);
-  const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
+  // Each day at noon in the user's timezone, so columns match their dates whatever the browser's timezone
+  const daysInMonth = eachDayOfMonthInTimeZone(currentDate, timezone);
+  const monthStart = daysInMonth[0];
+  const monthEnd = daysInMonth[daysInMonth.length - 1];
   const monthName = format(currentDate, "MMMM yyyy");
 
   // Get unique categories from tasks
@@ -276,7 +330,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
 
       // Hide tasks with no relevance to current month (e.g. one-time tasks completed before month start)
       const hasRelevanceToMonth = daysInMonth.some((day) => {
-        const dateStr = formatDateForDB(day, settings.timezone);
+        const dateStr = formatDateForDB(day, timezone);
         const status = taskData.dailyStatuses.get(dateStr);
         return status && status !== "not_applicable";
       });
@@ -375,7 +429,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
     }
 
     return filtered;
-  }, [tasks, searchQuery, categoryFilter, statusFilter, approvalFilter, sortColumn, sortDirection, daysInMonth, settings.timezone]);
+  }, [tasks, searchQuery, categoryFilter, statusFilter, approvalFilter, sortColumn, sortDirection, daysInMonth, timezone]);
 
   // Calculate day-wise completion percentages
   const dayWiseCompletion = useMemo(() => {
@@ -383,7 +437,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
     const leaveDateSet = getLeaveDatesInRange(monthStart, monthEnd);
     
     daysInMonth.forEach((day) => {
-      const dateStr = formatDateForDB(day, settings.timezone);
+      const dateStr = formatDateForDB(day, timezone);
       const isLeaveDay = leaveDateSet.has(dateStr);
       let completed = 0;
       let scheduled = 0;
@@ -391,8 +445,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
       filteredTasks.forEach((taskData) => {
         const status = taskData.dailyStatuses.get(dateStr);
         const quantity = taskData.dailyQuantities.get(dateStr) || null;
-        const task = taskData.assignment.task;
-        const benchmark = task?.benchmark || null;
+        const benchmark = taskData.dailyBenchmarks.get(dateStr) || null;
         const approvalStatus = taskData.dailyApprovalStatuses?.get(dateStr);
 
         // Exclude tasks on leave days from completion % (still show as pending)
@@ -416,53 +469,69 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
     });
     
     return dayStats;
-  }, [filteredTasks, daysInMonth, settings.timezone, getLeaveDatesInRange, monthStart, monthEnd]);
+  }, [filteredTasks, daysInMonth, timezone, getLeaveDatesInRange, monthStart, monthEnd]);
 
   // Calculate month-wise completion percentage and detailed breakdown
   const { monthWiseCompletion, breakdown } = useMemo(() => {
     let totalCompleted = 0;
     let totalScheduled = 0;
     let completedCount = 0;
+    let completedTotal = 0;
     let partialCount = 0;
     let partialTotal = 0;
     let delayedCount = 0;
+    let delayedTotal = 0;
     let notDoneCount = 0;
     let pendingCount = 0;
     let scheduledCount = 0;
+    let onTimeCount = 0;
+    let lateCount = 0;
     const leaveDateSet = getLeaveDatesInRange(monthStart, monthEnd);
     
     // Calculate across all days in the month
     daysInMonth.forEach((day) => {
-      const dateStr = formatDateForDB(day, settings.timezone);
+      const dateStr = formatDateForDB(day, timezone);
       const isLeaveDay = leaveDateSet.has(dateStr);
+      // Tasks on a half day weigh half; tasks due on a non-working day anyway weigh in full
+      const { capacity } = getDayCapacityInfo(dateStr);
+      const weight = capacity > 0 ? capacity : 1;
       
       filteredTasks.forEach((taskData) => {
         const status = taskData.dailyStatuses.get(dateStr);
         const quantity = taskData.dailyQuantities.get(dateStr) || null;
-        const task = taskData.assignment.task;
-        const benchmark = task?.benchmark || null;
+        const benchmark = taskData.dailyBenchmarks.get(dateStr) || null;
         const approvalStatus = taskData.dailyApprovalStatuses?.get(dateStr);
 
         // Exclude tasks on leave days from completion % (still show as pending)
         if (isLeaveDay) return;
 
+        // SLA adherence covers recorded completions whether approved yet or not: it measures
+        // when the work was recorded, not whether it was accepted. Rejected ones are left out
+        const slaStatus = taskData.dailySlaStatuses.get(dateStr);
+        if (status && status !== "not_applicable" && approvalStatus !== "rejected") {
+          if (slaStatus === "on_time") onTimeCount++;
+          else if (slaStatus === "late") lateCount++;
+        }
+
         // Only count scheduled tasks (not NA) and approved tasks
         if (status && status !== "not_applicable" && approvalStatus === "approved") {
-          totalScheduled++;
+          totalScheduled += weight;
 
           if (status === "completed") {
-            totalCompleted += 1;
+            totalCompleted += weight;
             completedCount++;
+            completedTotal += weight;
           } else if (status === "partial" && quantity !== null && benchmark !== null && benchmark > 0) {
             // Add completion percentage for partial tasks
-            const partialValue = quantity / benchmark;
+            const partialValue = (quantity / benchmark) * weight;
             totalCompleted += partialValue;
             partialCount++;
             partialTotal += partialValue;
           } else if (status === "delayed") {
             // Delayed tasks count as 0.5
-            totalCompleted += 0.5;
+            totalCompleted += 0.5 * weight;
             delayedCount++;
+            delayedTotal += 0.5 * weight;
           } else if (status === "not_done") {
             notDoneCount++;
           } else if (status === "pending") {
@@ -475,6 +544,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
     });
     
     const percentage = totalScheduled > 0 ? Math.round((totalCompleted / totalScheduled) * 100) : 0;
+    const slaTotal = onTimeCount + lateCount;
     
     return {
       monthWiseCompletion: percentage,
@@ -482,15 +552,20 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
         totalScheduled,
         totalCompleted,
         completedCount,
+        completedTotal,
         partialCount,
         partialTotal,
         delayedCount,
+        delayedTotal,
         notDoneCount,
         pendingCount,
         scheduledCount,
+        onTimeCount,
+        lateCount,
+        slaAdherence: slaTotal > 0 ? Math.round((onTimeCount / slaTotal) * 100) : null,
       },
     };
-  }, [filteredTasks, daysInMonth, settings.timezone, getLeaveDatesInRange, monthStart, monthEnd]);
+  }, [filteredTasks, daysInMonth, timezone, getLeaveDatesInRange, getDayCapacityInfo, monthStart, monthEnd]);
 
   // Get selected user's completion percentage (uses monthWiseCompletion for self - excludes leave days)
   const selectedUserStats = useMemo(() => {
@@ -546,7 +621,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
         return;
       }
 
-      await exportMonthlyToExcel(tasksToExport, daysInMonth, monthName, isWorkingDay);
+      await exportMonthlyToExcel(tasksToExport, daysInMonth, monthName, isWorkingDay, timezone);
       toast({
         title: "Export successful",
         description: `Monthly tasks exported to Excel for ${monthName}`,
@@ -572,7 +647,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
         return;
       }
 
-      exportMonthlyToCSV(tasksToExport, daysInMonth, monthName, isWorkingDay);
+      exportMonthlyToCSV(tasksToExport, daysInMonth, monthName, isWorkingDay, timezone);
       toast({
         title: "Export successful",
         description: `Monthly tasks exported to CSV for ${monthName}`,
@@ -622,6 +697,14 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                       <span className="hidden sm:inline">| </span>Month: {monthWiseCompletion}%
                     </button>
                   )}
+                  {!loading && breakdown.slaAdherence !== null && (
+                    <span
+                      className="text-base sm:text-lg text-muted-foreground"
+                      title={`${breakdown.onTimeCount} of ${breakdown.onTimeCount + breakdown.lateCount} completions recorded by their deadline`}
+                    >
+                      <span className="hidden sm:inline">| </span>On time: {breakdown.slaAdherence}%
+                    </span>
+                  )}
                 </div>
               </CardTitle>
               <CardDescription className="text-xs sm:text-sm">
@@ -855,18 +938,22 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                       </th>
                       {daysInMonth.map((day) => {
                         const workingDayInfo = isWorkingDay(day);
-                        const isTodayDate = isToday(day);
+                        const isTodayDate = formatDateForDB(day, timezone) === todayStr;
                         return (
                           <th
                             key={day.toString()}
+                            title={workingDayInfo.reason}
                             className={cn(
                               "px-0.5 sm:px-1 py-1.5 text-center text-[10px] sm:text-xs font-medium w-10 sm:w-12",
                               isTodayDate && "bg-primary/20 border-l-2 border-r-2 border-primary",
                               !workingDayInfo.isWorkingDay && !isTodayDate && "bg-holiday-weekly-off/50"
                             )}
                           >
-                            <div className="hidden sm:block">{format(day, "EEE")}</div>
-                            <div className="font-bold">{format(day, "d")}</div>
+                            <div className="hidden sm:block">{formatInTimeZone(day, timezone, "EEE")}</div>
+                            <div className="font-bold">{formatInTimeZone(day, timezone, "d")}</div>
+                            {workingDayInfo.isWorkingDay && workingDayInfo.capacity < 1 && (
+                              <div className="text-[9px] text-muted-foreground">½</div>
+                            )}
                           </th>
                         );
                       })}
@@ -907,16 +994,17 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                           {task.benchmark || "-"}
                         </td>
                         {daysInMonth.map((day) => {
-                          const dateStr = formatDateForDB(day, settings.timezone);
+                          const dateStr = formatDateForDB(day, timezone);
                           const status = taskData.dailyStatuses.get(dateStr) || "not_applicable";
                           const notes = taskData.dailyNotes.get(dateStr) || null;
                           const quantity = taskData.dailyQuantities.get(dateStr) || null;
-                          const benchmark = task.benchmark || null;
+                          const benchmark = taskData.dailyBenchmarks.get(dateStr) || null;
                           const completionDate = taskData.dailyCompletionDates.get(dateStr) || null;
                           const approvalStatus = taskData.dailyApprovalStatuses?.get(dateStr);
                           const managerComment = taskData.dailyManagerComments?.get(dateStr);
+                          const coveredBy = taskData.dailyCoveredBy.get(dateStr) || null;
                           const workingDayInfo = isWorkingDay(day);
-                          const isTodayDate = isToday(day);
+                          const isTodayDate = formatDateForDB(day, timezone) === todayStr;
                           
                           // Check if manager is viewing a subordinate's tasks
                           const isViewingSubordinate = isManager && targetUserId && targetUserId !== user.id;
@@ -930,17 +1018,28 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                           
                           // Allow managers to approve/reject pending tasks (when viewing subordinate's tasks)
                           const canApprove = isViewingSubordinate && approvalStatus === "pending" && (status === "completed" || status === "partial" || status === "not_done");
-                          
-                          return (
-                            <td
-                              key={day.toString()}
-                              className={cn(
-                                "px-1 py-1.5 text-center",
-                                isTodayDate && "bg-primary/20 border-l-2 border-r-2 border-primary",
-                                !workingDayInfo.isWorkingDay && !isTodayDate && "bg-holiday-weekly-off/50"
-                              )}
-                            >
-                              <div className="flex items-center justify-center gap-1.5">
+
+                          // Occurrence exceptions: the exception keyed by this day's original occurrence,
+                          // or one that moved another occurrence onto this day
+                          const exception = taskData.dailyExceptions.get(dateStr);
+                          const isOccurrence = taskData.occurrenceDates.has(dateStr);
+                          const ownException = exception?.occurrence_date === dateStr ? exception : null;
+                          const movedHere = exception?.action === "reschedule" && exception.new_date === dateStr ? exception : null;
+                          const canManageExceptions = (isAdmin || isViewingSubordinate || task.created_by === user.id) &&
+                            (isOccurrence || !!ownException || !!movedHere);
+                          const openExceptionDialog = (action: TaskExceptionAction) => {
+                            setExceptionDialog({
+                              taskId: task.id,
+                              taskName: task.name,
+                              occurrenceDate: dateStr,
+                              action,
+                              benchmark: task.benchmark,
+                              exception: ownException?.action === action ? ownException : null,
+                            });
+                          };
+
+                          const cellContent = (
+                              <div className="flex items-center justify-center gap-1.5 relative">
                                 <StatusIndicator
                                   status={status}
                                   isWeeklyOff={!workingDayInfo.isWorkingDay}
@@ -950,13 +1049,15 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                                   completionDate={completionDate}
                                   approvalStatus={approvalStatus}
                                   managerComment={managerComment}
+                                  coveredBy={coveredBy}
                                   onClick={canEdit ? () => {
                                     setSelectedTask({
                                       assignmentId: taskData.assignment.id,
                                       taskName: task.name,
-                                      benchmark: task.benchmark,
+                                      benchmark,
                                       description: task.description,
                                       date: day,
+                                      updatedAt: taskData.dailyUpdatedAt.get(dateStr) ?? null,
                                     });
                                     setDialogOpen(true);
                                   } : undefined}
@@ -982,6 +1083,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                                             notes,
                                             completion_date,
                                             approval_status,
+                                            updated_at,
                                             assignment:task_assignments!inner(
                                               assigned_to,
                                               assigned_to_user:users!task_assignments_assigned_to_fkey(full_name)
@@ -1008,10 +1110,12 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                                           employeeName: assignedToUser?.full_name || "Employee",
                                           completionDate: completion.completion_date,
                                           scheduledDate: format(new Date(dateStr), "MMM dd, yyyy"),
+                                          scheduledDateStr: dateStr,
                                           status: completion.status as TaskStatus,
                                           quantity: completion.quantity_completed,
                                           notes: completion.notes,
                                           approvalStatus: completion.approval_status,
+                                          updatedAt: completion.updated_at,
                                         });
                                         setApprovalDialogOpen(true);
                                       } catch (error: any) {
@@ -1028,7 +1132,62 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                                     <CheckCircle className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-primary" />
                                   </Button>
                                 )}
+                                {exception && (
+                                  <ExceptionMarker exception={exception} dateStr={dateStr} />
+                                )}
                               </div>
+                          );
+
+                          return (
+                            <td
+                              key={day.toString()}
+                              className={cn(
+                                "px-1 py-1.5 text-center",
+                                isTodayDate && "bg-primary/20 border-l-2 border-r-2 border-primary",
+                                !workingDayInfo.isWorkingDay && !isTodayDate && "bg-holiday-weekly-off/50"
+                              )}
+                            >
+                              {canManageExceptions ? (
+                                <ContextMenu>
+                                  <ContextMenuTrigger asChild>{cellContent}</ContextMenuTrigger>
+                                  <ContextMenuContent className="w-56">
+                                    <ContextMenuLabel className="text-xs text-muted-foreground">
+                                      {formatInTimeZone(day, timezone, "EEE, MMM d")} occurrence
+                                    </ContextMenuLabel>
+                                    <ContextMenuSeparator />
+                                    {isOccurrence && (
+                                      <>
+                                        <ContextMenuItem onSelect={() => openExceptionDialog("skip")}>
+                                          <CalendarX className="w-4 h-4 mr-2" />
+                                          Skip this occurrence
+                                        </ContextMenuItem>
+                                        <ContextMenuItem onSelect={() => openExceptionDialog("reschedule")}>
+                                          <CalendarClock className="w-4 h-4 mr-2" />
+                                          Move to another day...
+                                        </ContextMenuItem>
+                                        <ContextMenuItem onSelect={() => openExceptionDialog("override")}>
+                                          <Target className="w-4 h-4 mr-2" />
+                                          Override benchmark...
+                                        </ContextMenuItem>
+                                      </>
+                                    )}
+                                    {ownException && (
+                                      <ContextMenuItem onSelect={() => handleClearException(task.id, dateStr)}>
+                                        <Undo2 className="w-4 h-4 mr-2" />
+                                        Restore regular schedule
+                                      </ContextMenuItem>
+                                    )}
+                                    {movedHere && (
+                                      <ContextMenuItem onSelect={() => handleClearException(task.id, movedHere.occurrence_date)}>
+                                        <Undo2 className="w-4 h-4 mr-2" />
+                                        Move back to {format(parseISO(movedHere.occurrence_date), "MMM d")}
+                                      </ContextMenuItem>
+                                    )}
+                                  </ContextMenuContent>
+                                </ContextMenu>
+                              ) : (
+                                cellContent
+                              )}
                             </td>
                           );
                         })}
@@ -1044,11 +1203,11 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                     <td className="px-1 py-1.5 text-center text-xs sm:text-sm">-</td>
                     <td className="px-1 py-1.5 text-center text-xs sm:text-sm">-</td>
                     {daysInMonth.map((day) => {
-                      const dateStr = formatDateForDB(day, settings.timezone);
+                      const dateStr = formatDateForDB(day, timezone);
                       const dayStat = dayWiseCompletion.get(dateStr);
                       const percentage = dayStat?.percentage || 0;
                       const workingDayInfo = isWorkingDay(day);
-                      const isTodayDate = isToday(day);
+                      const isTodayDate = formatDateForDB(day, timezone) === todayStr;
                       
                       return (
                         <td
@@ -1120,6 +1279,18 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
               <span className="hidden sm:inline">Weekly Off/Holiday (WO/H)</span>
               <span className="sm:hidden">WO/H</span>
             </div>
+            <div className="flex items-center gap-1.5 sm:gap-2">
+              <CalendarX className="w-4 h-4 text-muted-foreground" />
+              <span>Skipped</span>
+            </div>
+            <div className="flex items-center gap-1.5 sm:gap-2">
+              <CalendarClock className="w-4 h-4 text-muted-foreground" />
+              <span>Moved</span>
+            </div>
+            <div className="flex items-center gap-1.5 sm:gap-2">
+              <Target className="w-4 h-4 text-muted-foreground" />
+              <span>Benchmark Override</span>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -1140,7 +1311,8 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                 status,
                 selectedTask.date,
                 quantity,
-                notes
+                notes,
+                selectedTask.updatedAt
               );
               
               setDialogOpen(false);
@@ -1152,6 +1324,30 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
         />
       )}
 
+      {/* Occurrence Exception Dialog */}
+      {exceptionDialog && (
+        <OccurrenceExceptionDialog
+          open={!!exceptionDialog}
+          onOpenChange={(open) => {
+            if (!open) setExceptionDialog(null);
+          }}
+          action={exceptionDialog.action}
+          taskName={exceptionDialog.taskName}
+          occurrenceDate={exceptionDialog.occurrenceDate}
+          benchmark={exceptionDialog.benchmark}
+          exception={exceptionDialog.exception}
+          onSubmit={async (values) => {
+            const saved = await saveOccurrenceException(
+              exceptionDialog.taskId,
+              exceptionDialog.occurrenceDate,
+              values
+            );
+            if (saved) await refresh();
+            return saved;
+          }}
+        />
+      )}
+
       {/* Task History Dialog */}
       {selectedTaskForHistory && (
         <TaskHistoryDialog
@@ -1161,7 +1357,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
           taskName={selectedTaskForHistory.taskName}
           taskDescription={selectedTaskForHistory.taskDescription}
           benchmark={selectedTaskForHistory.benchmark}
-          monthStart={formatDateForDB(monthStart, settings.timezone)}
+          monthStart={formatDateForDB(monthStart, timezone)}
         />
       )}
 
@@ -1190,7 +1386,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
             const completionId = selectedCompletionForApproval.completionId;
             recentlyProcessedRef.current.add(completionId);
             try {
-              const { error } = await supabase
+              const { data, error } = await supabase
                 .from("task_completions")
                 .update({
                   approval_status: "approved",
@@ -1198,9 +1394,21 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                   manager_comment: comment || null,
                   updated_at: new Date().toISOString(),
                 })
-                .eq("id", selectedCompletionForApproval.completionId);
+                .eq("id", selectedCompletionForApproval.completionId)
+                .eq("updated_at", selectedCompletionForApproval.updatedAt)
+                .select("id");
 
               if (error) throw error;
+              // Nothing updated: the employee or another manager changed the completion meanwhile
+              if (!data || data.length === 0) {
+                recentlyProcessedRef.current.delete(completionId);
+                await refresh(false);
+                const current = await fetchCurrentCompletion(
+                  selectedCompletionForApproval.assignmentId,
+                  selectedCompletionForApproval.scheduledDateStr
+                );
+                throw completionConflictError(current);
+              }
 
               toast({
                 title: "Success",
@@ -1237,7 +1445,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
             const completionId = selectedCompletionForApproval.completionId;
             recentlyProcessedRef.current.add(completionId);
             try {
-              const { error } = await supabase
+              const { data, error } = await supabase
                 .from("task_completions")
                 .update({
                   approval_status: "rejected",
@@ -1245,10 +1453,23 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                   manager_comment: comment,
                   updated_at: new Date().toISOString(),
                 })
-                .eq("id", selectedCompletionForApproval.completionId);
+                .eq("id", selectedCompletionForApproval.completionId)
+                .eq("updated_at", selectedCompletionForApproval.updatedAt)
+                .select("id");
 
               if (error) throw error;
-
+              // Nothing updated: the employee or another manager changed the completion meanwhile
+              if (!data || data.length === 0) {
+                recentlyProcessedRef.current.delete(completionId);
+                await refresh(false);
+                const current = await fetchCurrentCompletion(
+                  selectedCompletionForApproval.assignmentId,
+                  selectedCompletionForApproval.scheduledDateStr
+                );
+                throw completionConflictError(current);
+              }
+
+              await notifyCompletionRejected(completionId);
               toast({
                 title: "Success",
                 description: "Task rejected successfully",
@@ -1323,7 +1544,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                     </div>
                     <div className="text-right">
                       <div className="font-semibold">{breakdown.completedCount}</div>
-                      <div className="text-xs text-muted-foreground">Contribution: {breakdown.completedCount.toFixed(2)}</div>
+                      <div className="text-xs text-muted-foreground">Contribution: {breakdown.completedTotal.toFixed(2)}</div>
                     </div>
                   </div>
 
@@ -1348,7 +1569,7 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                       </div>
                       <div className="text-right">
                         <div className="font-semibold">{breakdown.delayedCount}</div>
-                        <div className="text-xs text-muted-foreground">Contribution: {(breakdown.delayedCount * 0.5).toFixed(2)} (0.5 each)</div>
+                        <div className="text-xs text-muted-foreground">Contribution: {breakdown.delayedTotal.toFixed(2)} (0.5 each)</div>
                       </div>
                     </div>
                   )}
@@ -1394,6 +1615,23 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                 </div>
               </div>
 
+              {/* SLA adherence */}
+              {breakdown.slaAdherence !== null && (
+                <div className="border-t pt-3">
+                  <h4 className="font-semibold mb-2">SLA Adherence:</h4>
+                  <div className="flex justify-between items-center p-2 bg-muted/30 rounded">
+                    <span>
+                      {breakdown.onTimeCount} on time, {breakdown.lateCount} late
+                    </span>
+                    <span className="font-semibold">{breakdown.slaAdherence}%</span>
+                  </div>
+                  <div className="mt-2 text-xs text-muted-foreground">
+                    A completion is late when it is recorded after its task's due time plus grace period,
+                    or on a later day for tasks without a due time. Rejected completions are not counted.
+                  </div>
+                </div>
+              )}
+
               {/* Formula */}
               <div className="border-t pt-3 mt-4">
                 <h4 className="font-semibold mb-2">Calculation Formula:</h4>
@@ -1409,8 +1647,9 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
                 <div className="mt-2 text-xs text-muted-foreground space-y-1">
                   <div>• Completed tasks count as 1.0</div>
                   <div>• Partial tasks count as (quantity / benchmark)</div>
-                  <div>• Delayed tasks count as 0.5</div>
+                  <div>• Delayed (late) tasks count as 0.5</div>
                   <div>• Not Done, Pending, and Scheduled tasks count as 0</div>
+                  <div>• Tasks on half days (half-day leave or holiday) count at half weight</div>
                 </div>
               </div>
             </div>
@@ -1421,6 +1660,37 @@ const MonthlyView = ({ user }: MonthlyViewProps) => {
   );
 };
 
+interface ExceptionMarkerProps {
+  exception: TaskOccurrenceException;
+  dateStr: string;
+}
+
+// Small corner icon marking a skipped, moved or overridden occurrence
+const ExceptionMarker = ({ exception, dateStr }: ExceptionMarkerProps) => {
+  const formatDay = (value: string) => format(parseISO(value), "MMM d");
+  let Icon = Target;
+  let label = `Benchmark overridden to ${exception.benchmark_override}`;
+
+  if (exception.action === "skip") {
+    Icon = CalendarX;
+    label = "Skipped";
+  } else if (exception.action === "reschedule") {
+    Icon = CalendarClock;
+    label = exception.new_date === dateStr
+      ? `Moved here from ${formatDay(exception.occurrence_date)}`
+      : `Moved to ${formatDay(exception.new_date!)}`;
+  }
+
+  return (
+    <span
+      className="absolute -top-1 -right-1 rounded-full bg-background text-muted-foreground"
+      title={exception.reason ? `${label}: ${exception.reason}` : label}
+    >
+      <Icon className="w-3 h-3" />
+    </span>
+  );
+};
+
 interface StatusIndicatorProps {
   status: TaskStatus;
   isWeeklyOff: boolean;
@@ -1430,11 +1700,12 @@ interface StatusIndicatorProps {
   benchmark: number | null;
   approvalStatus?: string;
   managerComment?: string | null;
+  coveredBy?: string | null; // Colleague who recorded it while the assignee was on leave
   onClick?: () => void;
   canEdit?: boolean;
 }
 
-const StatusIndicator = ({ status, isWeeklyOff, notes, quantity, benchmark, completionDate, approvalStatus, managerComment, onClick, canEdit }: StatusIndicatorProps) => {
+const StatusIndicator = ({ status, isWeeklyOff, notes, quantity, benchmark, completionDate, approvalStatus, managerComment, coveredBy, onClick, canEdit }: StatusIndicatorProps) => {
   // If it's a weekly off but there's a completion status (task was done on weekly off),
   // show the status instead of "-"
   // Only show "-" if it's a weekly off AND there's no completion (status is "not_applicable" or "scheduled")
@@ -1463,8 +1734,8 @@ const StatusIndicator = ({ status, isWeeklyOff, notes, quantity, benchmark, comp
       </div>
     );
 
-    // Show tooltip with notes and/or manager comments if available
-    if ((notes && notes.trim()) || (managerComment && managerComment.trim())) {
+    // Show tooltip with notes, manager comments and/or the cover if available
+    if ((notes && notes.trim()) || (managerComment && managerComment.trim()) || coveredBy) {
       return (
         <TooltipProvider>
           <Tooltip>
@@ -1476,6 +1747,9 @@ const StatusIndicator = ({ status, isWeeklyOff, notes, quantity, benchmark, comp
                 {completionDate && (
                   <p className="font-semibold text-sm">{format(new Date(completionDate), "MMM dd, yyyy")}</p>
                 )}
+                {coveredBy && (
+                  <p className="text-xs text-muted-foreground">Covered by {coveredBy}</p>
+                )}
                 {notes && notes.trim() && (
                   <div>
                     <p className="text-xs font-semibold text-muted-foreground">Employee Notes:</p>
@@ -1529,6 +1803,9 @@ const StatusIndicator = ({ status, isWeeklyOff, notes, quantity, benchmark, comp
               <div>
                 <p className="text-xs font-semibold text-destructive">Manager Rejected</p>
               </div>
+              {coveredBy && (
+                <p className="text-xs text-muted-foreground">Covered by {coveredBy}</p>
+              )}
               {managerComment && managerComment.trim() && (
                 <div>
                   <p className="text-xs font-semibold text-muted-foreground">Comments:</p>
@@ -1580,8 +1857,8 @@ const StatusIndicator = ({ status, isWeeklyOff, notes, quantity, benchmark, comp
     </div>
   );
 
-  // Show tooltip with notes if available
-  if (notes && notes.trim()) {
+  // Show tooltip with notes and/or the cover if available
+  if ((notes && notes.trim()) || coveredBy) {
     return (
       <TooltipProvider>
         <Tooltip>
@@ -1593,10 +1870,15 @@ const StatusIndicator = ({ status, isWeeklyOff, notes, quantity, benchmark, comp
               {completionDate && (
                 <p className="font-semibold text-sm">{format(new Date(completionDate), "MMM dd, yyyy")}</p>
               )}
-              {status === "partial" && quantity !== null && benchmark !== null ? (
-                <p className="text-sm whitespace-pre-wrap">Completed: {quantity} (of {benchmark}). {notes}</p>
-              ) : (
-                <p className="text-sm whitespace-pre-wrap">{notes}</p>
+              {coveredBy && (
+                <p className="text-xs text-muted-foreground">Covered by {coveredBy}</p>
+              )}
+              {notes && notes.trim() && (
+                status === "partial" && quantity !== null && benchmark !== null ? (
+                  <p className="text-sm whitespace-pre-wrap">Completed: {quantity} (of {benchmark}). {notes}</p>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap">{notes}</p>
+                )
               )}
             </div>
           </TooltipContent>
@@ -6,6 +6,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { format } from "date-fns";
 import { Calendar, CheckCircle, Clock, XCircle, AlertCircle, FileText } from "lucide-react";
 import type { Database } from "@/integrations/supabase/types";
+import { describeAuditChanges, getActorName, type AuditLogEntry } from "@/lib/auditLog";
 
 type TaskStatus = Database["public"]["Enums"]["task_status"];
 
@@ -25,6 +26,7 @@ interface CompletionRecord {
   scheduled_date: string;
   completion_date: string;
   status: TaskStatus;
+  sla_status: Database["public"]["Enums"]["completion_sla_status"] | null;
   quantity_completed: number | null;
   notes: string | null;
   created_at: string;
@@ -41,6 +43,9 @@ export const TaskHistoryDialog = ({
   monthStart,
 }: TaskHistoryDialogProps) => {
   const [completions, setCompletions] = useState<CompletionRecord[]>([]);
+  // Audit trail of each completion: who changed its status, quantity or approval, and when
+  const [changes, setChanges] = useState<AuditLogEntry[]>([]);
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map());
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -66,6 +71,7 @@ export const TaskHistoryDialog = ({
 
       if (error) throw error;
       setCompletions(data || []);
+      await fetchChangeHistory((data || []).map((c) => c.id));
     } catch (error: any) {
       console.error("Error fetching task history:", error);
     } finally {
@@ -73,6 +79,43 @@ export const TaskHistoryDialog = ({
     }
   };
 
+  // Best effort: the history still shows without the change details
+  const fetchChangeHistory = async (completionIds: string[]) => {
+    if (completionIds.length === 0) {
+      setChanges([]);
+      return;
+    }
+
+    const { data: entries, error } = await supabase
+      .from("audit_log")
+      .select("*")
+      .eq("table_name", "task_completions")
+      .in("record_id", completionIds)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching completion changes:", error);
+      return;
+    }
+
+    const userIds = new Set<string>();
+    (entries || []).forEach((entry) => {
+      if (entry.actor_id) userIds.add(entry.actor_id);
+      [entry.old_data, entry.new_data].forEach((row) => {
+        const { completed_by, approved_by } = (row ?? {}) as { completed_by?: string; approved_by?: string };
+        if (completed_by) userIds.add(completed_by);
+        if (approved_by) userIds.add(approved_by);
+      });
+    });
+
+    const { data: users } = userIds.size > 0
+      ? await supabase.from("users").select("id, full_name").in("id", [...userIds])
+      : { data: [] };
+
+    setUserNames(new Map((users || []).map((u) => [u.id, u.full_name])));
+    setChanges(entries || []);
+  };
+
   const getStatusIcon = (status: TaskStatus) => {
     switch (status) {
       case "completed":
@@ -109,10 +152,8 @@ export const TaskHistoryDialog = ({
     }
   };
 
-  const isDelayed = (completion: CompletionRecord) => {
-    return completion.scheduled_date < completion.completion_date &&
-           (completion.status === "completed" || completion.status === "partial");
-  };
+  // Recorded after the deadline: on a later day, or past the task's due time and grace period
+  const isDelayed = (completion: CompletionRecord) => completion.sla_status === "late";
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -155,6 +196,7 @@ export const TaskHistoryDialog = ({
             <div className="space-y-3">
               {filteredCompletions.map((completion) => {
                 const delayed = isDelayed(completion);
+                const completionChanges = changes.filter((entry) => entry.record_id === completion.id);
                 return (
                   <div
                     key={completion.id}
@@ -183,7 +225,9 @@ export const TaskHistoryDialog = ({
                               <span>{format(new Date(completion.completion_date), "MMM dd, yyyy")}</span>
                               {delayed && (
                                 <span className="text-orange-600 text-xs">
-                                  ({Math.ceil((new Date(completion.completion_date).getTime() - new Date(completion.scheduled_date).getTime()) / (1000 * 60 * 60 * 24))} days late)
+                                  {completion.completion_date > completion.scheduled_date
+                                    ? `(${Math.ceil((new Date(completion.completion_date).getTime() - new Date(completion.scheduled_date).getTime()) / (1000 * 60 * 60 * 24))} days late)`
+                                    : "(after the due time)"}
                                 </span>
                               )}
                             </div>
@@ -206,6 +250,25 @@ export const TaskHistoryDialog = ({
                                 </div>
                               </div>
                             )}
+
+                            {completionChanges.length > 0 && (
+                              <div className="mt-2 border-t pt-2 space-y-1">
+                                <div className="font-medium text-xs">Changes:</div>
+                                {completionChanges.map((entry) => (
+                                  <div key={entry.id} className="text-xs text-muted-foreground">
+                                    <span className="font-medium">
+                                      {format(new Date(entry.created_at), "MMM dd, HH:mm")} · {getActorName(entry, userNames)}
+                                    </span>
+                                    {": "}
+                                    {entry.action === "INSERT"
+                                      ? "recorded"
+                                      : entry.action === "DELETE"
+                                        ? "deleted"
+                                        : describeAuditChanges(entry, userNames).join(", ")}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
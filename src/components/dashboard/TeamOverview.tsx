@@ -3,10 +3,37 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
 import { useTeamCompletionStats } from "@/hooks/useTeamCompletionStats";
 import { useSubordinates } from "@/hooks/useSubordinates";
-import { Calendar, TrendingUp, Users } from "lucide-react";
-import { format } from "date-fns";
+import { useEscalations, type Escalation, type EscalationPolicy } from "@/hooks/useEscalations";
+import { AlertTriangle, Calendar, Check, Clock, TrendingUp, Users } from "lucide-react";
+import { format, parseISO } from "date-fns";
+
+const ESCALATION_POLICY_LABELS: Record<EscalationPolicy, string> = {
+  missed_streak: "Missed repeatedly",
+  approval_pending: "Approval overdue",
+  below_benchmark: "Below benchmark",
+};
+
+const formatShortDate = (dateStr?: string) => (dateStr ? format(parseISO(dateStr), "MMM d") : "?");
+
+// One line per escalation, from the details check-escalations logged
+const describeEscalation = ({ policy, userName, details }: Escalation): string => {
+  const taskName = details.task_name || "a task";
+  switch (policy) {
+    case "missed_streak":
+      return `${userName} missed ${taskName} ${details.count} times in a row since ${formatShortDate(details.since)}`;
+    case "approval_pending":
+      return `${userName} hasn't reviewed ${details.employee_name || "a team member"}'s ${taskName} for ${formatShortDate(
+        details.scheduled_date
+      )} (waiting ${details.days} days)`;
+    case "below_benchmark":
+      return `${userName} reached ${details.percent}% of the ${taskName} benchmark from ${formatShortDate(
+        details.week_start
+      )} to ${formatShortDate(details.week_end)}`;
+  }
+};
 
 interface TeamOverviewProps {
   user: User;
@@ -17,6 +44,7 @@ interface TeamOverviewProps {
 export const TeamOverview = ({ user, currentMonth, onViewMemberTasks }: TeamOverviewProps) => {
   const { subordinates, loading: subordinatesLoading } = useSubordinates(user.id);
   const { teamStats, loading: statsLoading } = useTeamCompletionStats(user.id, currentMonth);
+  const { escalations, acknowledgeEscalation } = useEscalations(user.id);
 
   const loading = subordinatesLoading || statsLoading;
 
@@ -64,6 +92,11 @@ export const TeamOverview = ({ user, currentMonth, onViewMemberTasks }: TeamOver
     ? Math.round(teamStats.reduce((sum, stat) => sum + stat.completionPercentage, 0) / teamStats.length)
     : 0;
 
+  // Team SLA adherence pools everyone's completions, so members with more tasks weigh more
+  const teamOnTime = teamStats.reduce((sum, stat) => sum + stat.onTimeTasks, 0);
+  const teamSlaTotal = teamOnTime + teamStats.reduce((sum, stat) => sum + stat.lateTasks, 0);
+  const teamSlaAdherence = teamSlaTotal > 0 ? Math.round((teamOnTime / teamSlaTotal) * 100) : null;
+
   return (
     <Card>
       <CardHeader>
@@ -76,6 +109,33 @@ export const TeamOverview = ({ user, currentMonth, onViewMemberTasks }: TeamOver
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Escalations sent up to this manager */}
+        {escalations.length > 0 && (
+          <div className="p-4 border border-destructive/30 bg-destructive/5 rounded-lg space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+              <AlertTriangle className="w-4 h-4" />
+              {escalations.length} escalation{escalations.length === 1 ? "" : "s"}
+            </div>
+            {escalations.map((escalation) => (
+              <div key={escalation.id} className="flex items-start justify-between gap-3">
+                <div className="min-w-0 space-y-1">
+                  <Badge variant="outline" className="text-xs">
+                    {ESCALATION_POLICY_LABELS[escalation.policy]}
+                  </Badge>
+                  <p className="text-sm">{describeEscalation(escalation)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Escalated {format(new Date(escalation.createdAt), "MMM d, yyyy")}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => acknowledgeEscalation(escalation.id)}>
+                  <Check className="w-4 h-4 mr-2" />
+                  Acknowledge
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Team Average */}
         <div className="p-4 bg-muted rounded-lg">
           <div className="flex items-center justify-between mb-2">
@@ -83,6 +143,12 @@ export const TeamOverview = ({ user, currentMonth, onViewMemberTasks }: TeamOver
             <span className="text-2xl font-bold">{teamAverage}%</span>
           </div>
           <Progress value={teamAverage} className="h-2" />
+          {teamSlaAdherence !== null && (
+            <p className="flex items-center gap-1 text-sm text-muted-foreground mt-2">
+              <Clock className="w-4 h-4" />
+              {teamSlaAdherence}% on time ({teamOnTime} of {teamSlaTotal} completions by their deadline)
+            </p>
+          )}
         </div>
 
         {/* Individual Team Members */}
@@ -111,6 +177,12 @@ export const TeamOverview = ({ user, currentMonth, onViewMemberTasks }: TeamOver
                     <p className="font-medium truncate">{subordinate.full_name}</p>
                     <p className="text-sm text-muted-foreground truncate">
                       {stat.completedTasks} of {stat.totalTasks} tasks completed
+                      {stat.slaAdherence !== null && (
+                        <span className={stat.lateTasks > 0 ? "text-orange-600" : undefined}>
+                          {" "}· {stat.slaAdherence}% on time
+                          {stat.lateTasks > 0 && ` (${stat.lateTasks} late)`}
+                        </span>
+                      )}
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,64 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { format, parseISO } from "date-fns";
+import type { CoverageConflict } from "@/lib/teamCoverage";
+
+interface CoverageWarningDialogProps {
+  employeeName: string | null;
+  conflicts: CoverageConflict[];
+  minimumCoverage: number;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Confirms approving leave that leaves task categories of the team under-covered.
+ */
+export const CoverageWarningDialog = ({
+  employeeName,
+  conflicts,
+  minimumCoverage,
+  onCancel,
+  onConfirm,
+}: CoverageWarningDialogProps) => {
+  const dates = [...new Set(conflicts.map((c) => c.date))];
+
+  return (
+    <AlertDialog open={conflicts.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Team coverage below minimum</AlertDialogTitle>
+          <AlertDialogDescription>
+            With {employeeName || "this employee"} on leave, fewer than {minimumCoverage} team member(s) would
+            be available for these task categories:
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="max-h-64 overflow-y-auto space-y-1 text-sm">
+          {dates.map((date) => (
+            <div key={date} className="flex gap-2">
+              <span className="font-medium w-28 shrink-0">{format(parseISO(date), "EEE, MMM d")}</span>
+              <span className="text-muted-foreground">
+                {conflicts
+                  .filter((c) => c.date === date)
+                  .map((c) => `${c.category} (${c.available} available)`)
+                  .join(", ")}
+              </span>
+            </div>
+          ))}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Approve Anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CalendarRange, MapPin, Plus, Trash2 } from "lucide-react";
+
+interface HolidayCalendar {
+  id: string;
+  name: string;
+  location: string | null;
+  description: string | null;
+}
+
+interface HolidayCalendarsListProps {
+  calendars: HolidayCalendar[];
+  loading: boolean;
+  onAdd: (name: string, location?: string, description?: string) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+export const HolidayCalendarsList = ({
+  calendars,
+  loading,
+  onAdd,
+  onDelete,
+}: HolidayCalendarsListProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [location, setLocation] = useState("");
+  const [description, setDescription] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return;
+
+    setSubmitting(true);
+    const success = await onAdd(name.trim(), location.trim() || undefined, description.trim() || undefined);
+    if (success) {
+      setDialogOpen(false);
+      setName("");
+      setLocation("");
+      setDescription("");
+    }
+    setSubmitting(false);
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="w-5 h-5" />
+            Holiday Calendars
+          </CardTitle>
+          <CardDescription>
+            Separate public holidays and weekly offs per office location. Assign users to a
+            calendar in User Management.
+          </CardDescription>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Calendar
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Holiday Calendar</DialogTitle>
+              <DialogDescription>
+                Users on this calendar get its holidays in addition to the organization-wide ones.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="calendar-name">Name *</Label>
+                <Input
+                  id="calendar-name"
+                  placeholder="e.g., India Office"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="calendar-location">Location</Label>
+                <Input
+                  id="calendar-location"
+                  placeholder="e.g., Bengaluru"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="calendar-description">Description</Label>
+                <Input
+                  id="calendar-description"
+                  placeholder="Optional description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={!name.trim() || submitting}>
+                Add Calendar
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {calendars.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarRange className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>No holiday calendars configured</p>
+            <p className="text-xs mt-1">Everyone uses the organization-wide holidays and weekly offs</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {calendars.map((calendar) => (
+              <div
+                key={calendar.id}
+                className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{calendar.name}</span>
+                    {calendar.location && (
+                      <Badge variant="secondary" className="text-xs">
+                        <MapPin className="w-3 h-3 mr-1" />
+                        {calendar.location}
+                      </Badge>
+                    )}
+                  </div>
+                  {calendar.description && (
+                    <p className="text-xs text-muted-foreground mt-1">{calendar.description}</p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => onDelete(calendar.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -3,42 +3,114 @@ import { User } from "@supabase/supabase-js";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useHolidays } from "@/hooks/useHolidays";
+import { useLeaveBalances } from "@/hooks/useLeaveBalances";
+import { useTeamLeaveCalendar } from "@/hooks/useTeamLeaveCalendar";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useSystemSettings } from "@/hooks/useSystemSettings";
+import { useWorkingDays } from "@/hooks/useWorkingDays";
 import { PublicHolidaysList } from "./PublicHolidaysList";
 import { WeeklyOffsList } from "./WeeklyOffsList";
+import { HolidayCalendarsList } from "./HolidayCalendarsList";
+import { LeaveTypesList } from "./LeaveTypesList";
 import { PersonalHolidaysList } from "./PersonalHolidaysList";
 import { TeamHolidayRequests } from "./TeamHolidayRequests";
+import { TeamLeaveCalendar } from "./TeamLeaveCalendar";
+import { CoverageWarningDialog } from "./CoverageWarningDialog";
 import { PersonalWeeklyOffsSettings } from "@/components/settings/PersonalWeeklyOffsSettings";
-import { Calendar, Sun, Briefcase, Users, Settings } from "lucide-react";
+import { PersonalTimezoneSettings } from "@/components/settings/PersonalTimezoneSettings";
+import { NotificationSettings } from "@/components/settings/NotificationSettings";
+import { EmailNotificationSettings } from "@/components/settings/EmailNotificationSettings";
+import { CalendarFeedSettings } from "@/components/settings/CalendarFeedSettings";
+import { Calendar, CalendarRange, Sun, Briefcase, Users, Settings, Tags } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatDateForDB } from "@/lib/dateUtils";
+import type { CoverageConflict } from "@/lib/teamCoverage";
 
 interface HolidayManagementProps {
   user: User;
 }
 
 export const HolidayManagement = ({ user }: HolidayManagementProps) => {
-  const { isAdmin, isManager } = useUserRole(user.id);
+  const { isAdmin, isManager, isHr, organizationId } = useUserRole(user.id);
+  const { settings, timezone } = useSystemSettings(organizationId, user.id);
   const holidays = useHolidays(user.id);
+  const leave = useLeaveBalances(user.id);
+  const { getScheduledCapacity } = useWorkingDays(user.id);
+  const teamCalendar = useTeamLeaveCalendar(user.id);
+  const canReviewLeave = isManager || isHr || isAdmin;
+  const [coverageWarning, setCoverageWarning] = useState<{
+    request: (typeof holidays.teamHolidays)[number];
+    conflicts: CoverageConflict[];
+  } | null>(null);
+
+  // Leave requests and approvals change balances
+  const requestLeave: typeof holidays.requestPersonalHoliday = async (...args) => {
+    const success = await holidays.requestPersonalHoliday(...args);
+    if (success) leave.refresh();
+    return success;
+  };
+
+  const approveLeave = async (id: string, approved: boolean) => {
+    const success = await holidays.approvePersonalHoliday(id, approved);
+    if (success) {
+      leave.refresh();
+      teamCalendar.refresh();
+    }
+    return success;
+  };
+
+  // Approving leave that leaves a task category of the team under-covered needs a confirmation
+  const approveWithCoverageCheck = async (id: string) => {
+    const request = holidays.teamHolidays.find((h) => h.id === id);
+    const conflicts = request ? teamCalendar.getCoverageConflicts(request) : [];
+    if (request && conflicts.length > 0) {
+      setCoverageWarning({ request, conflicts });
+      return false;
+    }
+    return approveLeave(id, true);
+  };
+
+  const cancelLeave = async (id: string) => {
+    const success = await holidays.cancelPersonalHoliday(id);
+    if (success) leave.refresh();
+    return success;
+  };
+
+  const modifyLeave: typeof holidays.modifyPersonalHoliday = async (...args) => {
+    const success = await holidays.modifyPersonalHoliday(...args);
+    if (success) leave.refresh();
+    return success;
+  };
+
+  // The direct manager or an admin gives the first approval. The second must come from someone
+  // else: HR, or a manager above the direct manager (enforced by the database too)
+  const canApproveLeave = (request: (typeof holidays.teamHolidays)[number]) => {
+    if (request.approval_level < 2) return isAdmin || request.profile?.manager_id === user.id;
+    if (request.first_approved_by === user.id) return false;
+    return settings.leave_second_approver === "hr"
+      ? isHr
+      : isManager && request.profile?.manager_id !== user.id;
+  };
 
   return (
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-heading font-bold">Holiday Management</h2>
         <p className="text-sm text-muted-foreground">
-          Manage public holidays, weekly offs, and personal leave
+          Manage public holidays, weekly offs, personal leave, and leave balances
         </p>
       </div>
 
       <Tabs defaultValue="personal" className="space-y-4">
         <TabsList className={cn(
           "grid w-full lg:w-auto lg:inline-grid",
-          isAdmin ? "grid-cols-5" : "grid-cols-4"
+          isAdmin ? "grid-cols-7" : "grid-cols-4"
         )}>
           <TabsTrigger value="personal" className="gap-2">
             <Briefcase className="w-4 h-4" />
             <span className="hidden sm:inline">My Leave</span>
           </TabsTrigger>
-          {isManager && (
+          {canReviewLeave && (
             <TabsTrigger value="team" className="gap-2">
               <Users className="w-4 h-4" />
               <span className="hidden sm:inline">Team</span>
@@ -54,6 +126,18 @@ export const HolidayManagement = ({ user }: HolidayManagementProps) => {
               <span className="hidden sm:inline">Org Weekly Offs</span>
             </TabsTrigger>
           )}
+          {isAdmin && (
+            <TabsTrigger value="calendars" className="gap-2">
+              <CalendarRange className="w-4 h-4" />
+              <span className="hidden sm:inline">Calendars</span>
+            </TabsTrigger>
+          )}
+          {isAdmin && (
+            <TabsTrigger value="leave-types" className="gap-2">
+              <Tags className="w-4 h-4" />
+              <span className="hidden sm:inline">Leave Types</span>
+            </TabsTrigger>
+          )}
           <TabsTrigger value="my-weekly-offs" className="gap-2">
             <Settings className="w-4 h-4" />
             <span className="hidden sm:inline">My Weekly Offs</span>
@@ -63,18 +147,38 @@ export const HolidayManagement = ({ user }: HolidayManagementProps) => {
         <TabsContent value="personal">
           <PersonalHolidaysList
             holidays={holidays.personalHolidays}
-            loading={holidays.loading}
-            onRequest={holidays.requestPersonalHoliday}
+            leaveTypes={leave.leaveTypes}
+            loading={holidays.loading || leave.loading}
+            getBalance={(leaveTypeId, year) => leave.getBalance(user.id, leaveTypeId, year)}
+            getScheduledCapacity={getScheduledCapacity}
+            todayStr={formatDateForDB(new Date(), timezone)}
+            members={leave.members.filter((m) => m.id !== user.id)}
+            onRequest={requestLeave}
+            onCancel={cancelLeave}
+            onModify={modifyLeave}
+            onSetCover={holidays.setLeaveCover}
           />
         </TabsContent>
 
-        {isManager && (
-          <TabsContent value="team">
+        {canReviewLeave && (
+          <TabsContent value="team" className="space-y-4">
+            <TeamLeaveCalendar
+              members={teamCalendar.members}
+              loading={teamCalendar.loading}
+              minimumCoverage={teamCalendar.minimumCoverage}
+              todayStr={formatDateForDB(new Date(), timezone)}
+            />
             <TeamHolidayRequests
               requests={holidays.teamHolidays}
-              loading={holidays.loading}
-              onApprove={(id) => holidays.approvePersonalHoliday(id, true)}
-              onReject={(id) => holidays.approvePersonalHoliday(id, false)}
+              leaveTypes={leave.leaveTypes}
+              loading={holidays.loading || leave.loading}
+              getBalance={leave.getBalance}
+              canApprove={canApproveLeave}
+              onApprove={approveWithCoverageCheck}
+              onReject={(id) => approveLeave(id, false)}
+              members={leave.members}
+              canSetCover={isManager || isAdmin}
+              onSetCover={holidays.setLeaveCover}
             />
           </TabsContent>
         )}
@@ -82,9 +186,12 @@ export const HolidayManagement = ({ user }: HolidayManagementProps) => {
         <TabsContent value="public">
           <PublicHolidaysList
             holidays={holidays.publicHolidays}
+            calendars={holidays.calendars}
+            userCalendarId={holidays.userCalendarId}
             loading={holidays.loading}
             isAdmin={isAdmin}
             onAdd={holidays.addPublicHoliday}
+            onImport={holidays.importPublicHolidays}
             onDelete={holidays.deletePublicHoliday}
           />
         </TabsContent>
@@ -93,6 +200,7 @@ export const HolidayManagement = ({ user }: HolidayManagementProps) => {
           <TabsContent value="weekly">
             <WeeklyOffsList
               weeklyOffs={holidays.weeklyOffs}
+              calendars={holidays.calendars}
               loading={holidays.loading}
               isAdmin={isAdmin}
               onAdd={holidays.addWeeklyOff}
@@ -101,10 +209,51 @@ export const HolidayManagement = ({ user }: HolidayManagementProps) => {
           </TabsContent>
         )}
 
-        <TabsContent value="my-weekly-offs">
+        {isAdmin && (
+          <TabsContent value="calendars">
+            <HolidayCalendarsList
+              calendars={holidays.calendars}
+              loading={holidays.loading}
+              onAdd={holidays.addHolidayCalendar}
+              onDelete={holidays.deleteHolidayCalendar}
+            />
+          </TabsContent>
+        )}
+
+        {isAdmin && (
+          <TabsContent value="leave-types">
+            <LeaveTypesList
+              leaveTypes={leave.leaveTypes}
+              entitlements={leave.entitlements}
+              members={leave.members}
+              loading={leave.loading}
+              onAdd={leave.addLeaveType}
+              onToggleActive={(id, isActive) => leave.updateLeaveType(id, { is_active: isActive })}
+              onDelete={leave.deleteLeaveType}
+              onSetEntitlement={leave.setEntitlement}
+            />
+          </TabsContent>
+        )}
+
+        <TabsContent value="my-weekly-offs" className="space-y-4">
           <PersonalWeeklyOffsSettings user={user} />
+          <PersonalTimezoneSettings user={user} />
+          <CalendarFeedSettings user={user} canUseTeamFeed={isManager || isAdmin} />
+          <NotificationSettings user={user} canManageTeam={isManager || isAdmin} />
+          <EmailNotificationSettings user={user} canManageTeam={isManager || isAdmin} />
         </TabsContent>
       </Tabs>
+
+      <CoverageWarningDialog
+        employeeName={coverageWarning?.request.profile?.full_name ?? null}
+        conflicts={coverageWarning?.conflicts ?? []}
+        minimumCoverage={teamCalendar.minimumCoverage}
+        onCancel={() => setCoverageWarning(null)}
+        onConfirm={() => {
+          if (coverageWarning) approveLeave(coverageWarning.request.id, true);
+          setCoverageWarning(null);
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { parseICSHolidays, type ImportedHoliday } from "@/lib/icsImport";
+
+interface HolidayCalendar {
+  id: string;
+  name: string;
+  location: string | null;
+}
+
+interface ImportHolidaysDialogProps {
+  calendars: HolidayCalendar[];
+  defaultCalendarId: string | null;
+  onImport: (holidays: ImportedHoliday[], calendarId: string | null) => Promise<boolean>;
+}
+
+const ORGANIZATION_WIDE = "organization";
+
+/**
+ * Imports public holidays from an iCalendar (.ics) file, e.g. a country's holiday calendar
+ * exported from Google Calendar or Outlook.
+ */
+export const ImportHolidaysDialog = ({ calendars, defaultCalendarId, onImport }: ImportHolidaysDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [holidays, setHolidays] = useState<ImportedHoliday[]>([]);
+  const [calendarId, setCalendarId] = useState(ORGANIZATION_WIDE);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setHolidays([]);
+      setCalendarId(defaultCalendarId || ORGANIZATION_WIDE);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseICSHolidays(await file.text());
+      if (parsed.length === 0) {
+        throw new Error("No events were found in the file.");
+      }
+      setHolidays(parsed);
+    } catch (error) {
+      setHolidays([]);
+      toast({
+        title: "Error reading file",
+        description: (error as Error).message || "Please upload a valid .ics calendar file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    const success = await onImport(holidays, calendarId === ORGANIZATION_WIDE ? null : calendarId);
+    if (success) {
+      setOpen(false);
+    }
+    setImporting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import ICS
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Public Holidays</DialogTitle>
+          <DialogDescription>
+            Upload an iCalendar (.ics) file. Each all-day event becomes a full-day holiday; dates that
+            already have a holiday in the chosen calendar are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="ics-file">Calendar file *</Label>
+            <Input id="ics-file" type="file" accept=".ics,text/calendar" onChange={handleFileChange} />
+          </div>
+          {calendars.length > 0 && (
+            <div className="space-y-2">
+              <Label>Add to</Label>
+              <Select value={calendarId} onValueChange={setCalendarId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ORGANIZATION_WIDE}>Organization-wide</SelectItem>
+                  {calendars.map((calendar) => (
+                    <SelectItem key={calendar.id} value={calendar.id}>
+                      {calendar.name}
+                      {calendar.location && ` (${calendar.location})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {holidays.length > 0 && (
+            <div className="space-y-2">
+              <Label>{holidays.length} holiday{holidays.length === 1 ? "" : "s"} found</Label>
+              <div className="max-h-56 overflow-y-auto rounded-md border divide-y text-sm">
+                {holidays.map((holiday) => (
+                  <div key={`${holiday.date}-${holiday.name}`} className="flex justify-between gap-3 px-3 py-2">
+                    <span className="font-medium truncate">{holiday.name}</span>
+                    <span className="text-muted-foreground shrink-0">
+                      {format(parseISO(holiday.date), "EEE, MMM d, yyyy")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={holidays.length === 0 || importing}>
+            Import Holidays
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
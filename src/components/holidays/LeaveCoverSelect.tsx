@@ -0,0 +1,46 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+const NO_COVER = "none";
+
+interface LeaveCoverSelectProps {
+  value: string | null;
+  members: Array<{ id: string; full_name: string }>;
+  // The person on leave, who cannot cover for themselves
+  excludeUserId?: string;
+  onChange: (coverUserId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Picks the colleague who works the absentee's tasks during a full-day leave.
+ */
+export const LeaveCoverSelect = ({
+  value,
+  members,
+  excludeUserId,
+  onChange,
+  disabled,
+  className,
+}: LeaveCoverSelectProps) => (
+  <Select
+    value={value || NO_COVER}
+    onValueChange={(v) => onChange(v === NO_COVER ? null : v)}
+    disabled={disabled}
+  >
+    <SelectTrigger className={cn("h-8", className)}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={NO_COVER}>No cover</SelectItem>
+      {members
+        .filter((m) => m.id !== excludeUserId)
+        .map((member) => (
+          <SelectItem key={member.id} value={member.id}>
+            {member.full_name}
+          </SelectItem>
+        ))}
+    </SelectContent>
+  </Select>
+);
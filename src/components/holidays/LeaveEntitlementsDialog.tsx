@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { LeaveEntitlement, LeaveType } from "@/lib/leaveBalances";
+
+interface LeaveEntitlementsDialogProps {
+  leaveType: LeaveType | null;
+  entitlements: LeaveEntitlement[];
+  members: Array<{ id: string; full_name: string; email: string }>;
+  onOpenChange: (open: boolean) => void;
+  onSetEntitlement: (userId: string, leaveTypeId: string, year: number, entitledDays: number | null) => Promise<boolean>;
+}
+
+/**
+ * Per-member yearly entitlement for a leave type. An empty field uses the leave type default.
+ */
+export const LeaveEntitlementsDialog = ({
+  leaveType,
+  entitlements,
+  members,
+  onOpenChange,
+  onSetEntitlement,
+}: LeaveEntitlementsDialogProps) => {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+
+  const getOverride = (userId: string) =>
+    entitlements.find(
+      (e) => e.user_id === userId && e.leave_type_id === leaveType?.id && e.year === year
+    );
+
+  const handleBlur = (userId: string, value: string) => {
+    if (!leaveType) return;
+
+    const override = getOverride(userId);
+    const entitledDays = value.trim() === "" ? null : Number(value);
+    if (entitledDays !== null && (Number.isNaN(entitledDays) || entitledDays < 0)) return;
+    if (entitledDays === (override ? Number(override.entitled_days) : null)) return;
+
+    onSetEntitlement(userId, leaveType.id, year, entitledDays);
+  };
+
+  return (
+    <Dialog open={!!leaveType} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{leaveType?.name} Entitlements</DialogTitle>
+          <DialogDescription>
+            Days per year for each member. Leave a field empty to use the default of{" "}
+            {leaveType?.annual_entitlement} days.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm">Year</Label>
+            <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+              <SelectTrigger className="w-28 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[currentYear - 1, currentYear, currentYear + 1].map((y) => (
+                  <SelectItem key={y} value={String(y)}>
+                    {y}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {members.map((member) => (
+              <div key={member.id} className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{member.full_name}</div>
+                  <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                </div>
+                <Input
+                  // Remount when the year or saved value changes so the field shows the stored override
+                  key={`${member.id}-${year}-${getOverride(member.id)?.entitled_days ?? ""}`}
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  className="w-24 h-8"
+                  placeholder={String(leaveType?.annual_entitlement ?? "")}
+                  defaultValue={getOverride(member.id)?.entitled_days ?? ""}
+                  onBlur={(e) => handleBlur(member.id, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
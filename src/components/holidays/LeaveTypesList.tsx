@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Tags, Trash2, Users } from "lucide-react";
+import { LeaveEntitlementsDialog } from "./LeaveEntitlementsDialog";
+import {
+  ACCRUAL_FREQUENCY_LABELS,
+  type LeaveAccrualFrequency,
+  type LeaveEntitlement,
+  type LeaveType,
+} from "@/lib/leaveBalances";
+
+interface NewLeaveType {
+  name: string;
+  code: string;
+  description?: string | null;
+  annual_entitlement: number;
+  accrual_frequency: LeaveAccrualFrequency;
+  carry_forward_limit: number;
+}
+
+interface LeaveTypesListProps {
+  leaveTypes: LeaveType[];
+  entitlements: LeaveEntitlement[];
+  members: Array<{ id: string; full_name: string; email: string }>;
+  loading: boolean;
+  onAdd: (leaveType: NewLeaveType) => Promise<boolean>;
+  onToggleActive: (id: string, isActive: boolean) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  onSetEntitlement: (userId: string, leaveTypeId: string, year: number, entitledDays: number | null) => Promise<boolean>;
+}
+
+export const LeaveTypesList = ({
+  leaveTypes,
+  entitlements,
+  members,
+  loading,
+  onAdd,
+  onToggleActive,
+  onDelete,
+  onSetEntitlement,
+}: LeaveTypesListProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [description, setDescription] = useState("");
+  const [annualEntitlement, setAnnualEntitlement] = useState("12");
+  const [accrualFrequency, setAccrualFrequency] = useState<LeaveAccrualFrequency>("annual");
+  const [carryForwardLimit, setCarryForwardLimit] = useState("0");
+  const [submitting, setSubmitting] = useState(false);
+  const [entitlementsFor, setEntitlementsFor] = useState<LeaveType | null>(null);
+
+  const handleSubmit = async () => {
+    if (!name.trim() || !code.trim()) return;
+
+    setSubmitting(true);
+    const success = await onAdd({
+      name: name.trim(),
+      code: code.trim().toUpperCase(),
+      description: description.trim() || null,
+      annual_entitlement: Number(annualEntitlement) || 0,
+      accrual_frequency: accrualFrequency,
+      carry_forward_limit: Number(carryForwardLimit) || 0,
+    });
+    if (success) {
+      setDialogOpen(false);
+      setName("");
+      setCode("");
+      setDescription("");
+      setAnnualEntitlement("12");
+      setAccrualFrequency("annual");
+      setCarryForwardLimit("0");
+    }
+    setSubmitting(false);
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="w-5 h-5" />
+            Leave Types
+          </CardTitle>
+          <CardDescription>
+            Yearly entitlement, accrual and carry-forward rules that leave requests are checked against
+          </CardDescription>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Leave Type
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Leave Type</DialogTitle>
+              <DialogDescription>
+                Members can request this leave up to their available balance.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="leave-type-name">Name *</Label>
+                  <Input
+                    id="leave-type-name"
+                    placeholder="e.g., Casual Leave"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-type-code">Code *</Label>
+                  <Input
+                    id="leave-type-code"
+                    placeholder="e.g., CL"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="leave-type-entitlement">Days per Year</Label>
+                  <Input
+                    id="leave-type-entitlement"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={annualEntitlement}
+                    onChange={(e) => setAnnualEntitlement(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Accrual</Label>
+                  <Select value={accrualFrequency} onValueChange={(v) => setAccrualFrequency(v as LeaveAccrualFrequency)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ACCRUAL_FREQUENCY_LABELS) as LeaveAccrualFrequency[]).map((frequency) => (
+                        <SelectItem key={frequency} value={frequency}>
+                          {ACCRUAL_FREQUENCY_LABELS[frequency]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-type-carry-forward">Carry-forward Limit (days)</Label>
+                <Input
+                  id="leave-type-carry-forward"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={carryForwardLimit}
+                  onChange={(e) => setCarryForwardLimit(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Unused days carried into the next year. 0 = no carry-forward.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-type-description">Description</Label>
+                <Input
+                  id="leave-type-description"
+                  placeholder="Optional description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={!name.trim() || !code.trim() || submitting}>
+                Add Leave Type
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {leaveTypes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Tags className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>No leave types configured</p>
+            <p className="text-xs mt-1">Leave requests are not checked against a balance</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {leaveTypes.map((leaveType) => (
+              <div
+                key={leaveType.id}
+                className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{leaveType.name}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {leaveType.code}
+                    </Badge>
+                    {!leaveType.is_active && (
+                      <Badge variant="outline" className="text-xs text-muted-foreground">
+                        Inactive
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {leaveType.annual_entitlement} days/year · {ACCRUAL_FREQUENCY_LABELS[leaveType.accrual_frequency]}
+                    {" · "}
+                    {Number(leaveType.carry_forward_limit) > 0
+                      ? `Carry forward up to ${leaveType.carry_forward_limit} days`
+                      : "No carry-forward"}
+                  </p>
+                  {leaveType.description && (
+                    <p className="text-xs text-muted-foreground mt-1">{leaveType.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={leaveType.is_active}
+                    onCheckedChange={(checked) => onToggleActive(leaveType.id, checked)}
+                    aria-label="Active"
+                  />
+                  <Button variant="outline" size="sm" onClick={() => setEntitlementsFor(leaveType)}>
+                    <Users className="w-4 h-4 mr-1" />
+                    Entitlements
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => onDelete(leaveType.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <LeaveEntitlementsDialog
+        leaveType={entitlementsFor}
+        entitlements={entitlements}
+        members={members}
+        onOpenChange={(open) => !open && setEntitlementsFor(null)}
+        onSetEntitlement={onSetEntitlement}
+      />
+    </Card>
+  );
+};
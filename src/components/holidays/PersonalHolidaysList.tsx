@@ -7,45 +7,176 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Briefcase, Plus, Clock, CheckCircle2, XCircle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Briefcase, Plus, Clock, CheckCircle2, XCircle, Ban, Pencil } from "lucide-react";
 import { format, parseISO, differenceInDays } from "date-fns";
+import { DAY_PORTION_LABELS, formatLeaveDuration, type DayPortion } from "@/lib/leaveUtils";
+import {
+  countLeaveDays,
+  leaveDaysInYear,
+  leaveRequestYears,
+  type LeaveBalance,
+  type LeaveDaysByYear,
+  type LeaveType,
+} from "@/lib/leaveBalances";
+import { LeaveCoverSelect } from "./LeaveCoverSelect";
 
 interface PersonalHoliday {
   id: string;
   start_date: string;
   end_date: string;
+  day_portion: DayPortion;
+  leave_type_id: string | null;
+  leave_days: LeaveDaysByYear;
   reason: string | null;
   approval_status: string | null;
+  approval_level: number;
+  required_approval_levels: number;
+  cover_user_id: string | null;
   created_at: string;
 }
 
 interface PersonalHolidaysListProps {
   holidays: PersonalHoliday[];
+  leaveTypes: LeaveType[];
   loading: boolean;
-  onRequest: (startDate: string, endDate: string, reason?: string) => Promise<boolean>;
+  getBalance: (leaveTypeId: string, year?: number) => LeaveBalance | null;
+  // Share of a day the user works before leave (see useWorkingDays), to count requested days
+  getScheduledCapacity: (dateStr: string) => number;
+  todayStr: string;
+  // Colleagues who can cover for the user's full-day leave
+  members: Array<{ id: string; full_name: string }>;
+  onRequest: (
+    startDate: string,
+    endDate: string,
+    reason?: string,
+    dayPortion?: DayPortion,
+    leaveTypeId?: string | null,
+    coverUserId?: string | null
+  ) => Promise<boolean>;
+  onCancel: (id: string) => Promise<boolean>;
+  onModify: (id: string, startDate: string, endDate: string, dayPortion?: DayPortion) => Promise<boolean>;
+  onSetCover: (id: string, coverUserId: string | null) => Promise<boolean>;
 }
 
 export const PersonalHolidaysList = ({
   holidays,
+  leaveTypes,
   loading,
+  getBalance,
+  getScheduledCapacity,
+  todayStr,
+  members,
   onRequest,
+  onCancel,
+  onModify,
+  onSetCover,
 }: PersonalHolidaysListProps) => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [reason, setReason] = useState("");
+  const [dayPortion, setDayPortion] = useState<DayPortion>("full");
+  const [leaveTypeId, setLeaveTypeId] = useState("");
+  const [coverUserId, setCoverUserId] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [modifying, setModifying] = useState<PersonalHoliday | null>(null);
+  const [modifyStartDate, setModifyStartDate] = useState("");
+  const [modifyEndDate, setModifyEndDate] = useState("");
+  const [modifyDayPortion, setModifyDayPortion] = useState<DayPortion>("full");
+
+  // Half-day leave is only available for a single day
+  const isSingleDay = !!startDate && startDate === endDate;
+  const requestPortion: DayPortion = isSingleDay ? dayPortion : "full";
+
+  // Inactive leave types still label past requests but can no longer be requested
+  const activeLeaveTypes = leaveTypes.filter((t) => t.is_active);
+  const leaveTypeNames = new Map(leaveTypes.map((t) => [t.id, t.name]));
+  const selectedType = activeLeaveTypes.find((t) => t.id === leaveTypeId);
+
+  // Balance check for each year the request falls in. A modified request gives back its current days
+  const getBalanceShortfall = (
+    leaveType: LeaveType | undefined,
+    start: string,
+    end: string,
+    portion: DayPortion,
+    replacing?: PersonalHoliday
+  ) =>
+    leaveType && start && end && start <= end
+      ? leaveRequestYears(start, end)
+          .map((year) => {
+            const requested = countLeaveDays(start, end, portion, year, getScheduledCapacity);
+            const balance = getBalance(leaveType.id, year);
+            if (!balance) return null;
+            const available = balance.available + (replacing ? leaveDaysInYear(replacing, year) : 0);
+            return requested > available
+              ? `Insufficient ${leaveType.name} balance for ${year}: ${requested} day(s) requested, ${Math.max(0, available)} available`
+              : null;
+          })
+          .find((message) => message !== null) || null
+      : null;
+
+  const balanceShortfall = getBalanceShortfall(selectedType, startDate, endDate, requestPortion);
+  const selectedBalance = selectedType && startDate ? getBalance(selectedType.id, Number(startDate.slice(0, 4))) : null;
 
   const handleSubmit = async () => {
-    if (!startDate || !endDate) return;
+    if (!startDate || !endDate || balanceShortfall) return;
 
     setSubmitting(true);
-    const success = await onRequest(startDate, endDate, reason || undefined);
+    const success = await onRequest(
+      startDate,
+      endDate,
+      reason || undefined,
+      requestPortion,
+      leaveTypeId || null,
+      coverUserId
+    );
     if (success) {
       setDialogOpen(false);
       setStartDate("");
       setEndDate("");
       setReason("");
+      setDayPortion("full");
+      setLeaveTypeId("");
+      setCoverUserId(null);
+    }
+    setSubmitting(false);
+  };
+
+  // Leave can be changed until it is over, and cancelled until it starts
+  const canModify = (holiday: PersonalHoliday) =>
+    (holiday.approval_status === "pending" || holiday.approval_status === "approved") && holiday.end_date >= todayStr;
+  const canCancel = (holiday: PersonalHoliday) =>
+    holiday.approval_status === "pending" || (holiday.approval_status === "approved" && holiday.start_date > todayStr);
+
+  const memberNames = new Map(members.map((m) => [m.id, m.full_name]));
+
+  const modifyIsSingleDay = !!modifyStartDate && modifyStartDate === modifyEndDate;
+  const modifyPortion: DayPortion = modifyIsSingleDay ? modifyDayPortion : "full";
+  const modifyShortfall = modifying
+    ? getBalanceShortfall(
+        leaveTypes.find((t) => t.id === modifying.leave_type_id),
+        modifyStartDate,
+        modifyEndDate,
+        modifyPortion,
+        modifying
+      )
+    : null;
+
+  const openModify = (holiday: PersonalHoliday) => {
+    setModifying(holiday);
+    setModifyStartDate(holiday.start_date);
+    setModifyEndDate(holiday.end_date);
+    setModifyDayPortion(holiday.day_portion);
+  };
+
+  const handleModify = async () => {
+    if (!modifying || !modifyStartDate || !modifyEndDate || modifyShortfall) return;
+
+    setSubmitting(true);
+    const success = await onModify(modifying.id, modifyStartDate, modifyEndDate, modifyPortion);
+    if (success) {
+      setModifying(null);
     }
     setSubmitting(false);
   };
@@ -66,6 +197,13 @@ export const PersonalHolidaysList = ({
             Rejected
           </Badge>
         );
+      case "cancelled":
+        return (
+          <Badge variant="outline" className="text-muted-foreground">
+            <Ban className="w-3 h-3 mr-1" />
+            Cancelled
+          </Badge>
+        );
       default:
         return (
           <Badge className="bg-warning/10 text-warning border-warning/30">
@@ -116,6 +254,28 @@ export const PersonalHolidaysList = ({
               <DialogDescription>Submit a leave request for the selected dates.</DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
+              {activeLeaveTypes.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Leave Type *</Label>
+                  <Select value={leaveTypeId} onValueChange={setLeaveTypeId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select leave type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeLeaveTypes.map((leaveType) => (
+                        <SelectItem key={leaveType.id} value={leaveType.id}>
+                          {leaveType.name} ({leaveType.code})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedBalance && (
+                    <p className="text-xs text-muted-foreground">
+                      Available: {Math.max(0, selectedBalance.available)} day(s)
+                    </p>
+                  )}
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="start">Start Date *</Label>
@@ -137,11 +297,37 @@ export const PersonalHolidaysList = ({
                   />
                 </div>
               </div>
-              {startDate && endDate && (
+              {isSingleDay && (
+                <div className="space-y-2">
+                  <Label>Duration</Label>
+                  <Select value={dayPortion} onValueChange={(v) => setDayPortion(v as DayPortion)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DAY_PORTION_LABELS) as DayPortion[]).map((portion) => (
+                        <SelectItem key={portion} value={portion}>
+                          {DAY_PORTION_LABELS[portion]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {startDate && endDate && !isSingleDay && (
                 <p className="text-sm text-muted-foreground">
                   Duration: {differenceInDays(parseISO(endDate), parseISO(startDate)) + 1} day(s)
                 </p>
               )}
+              {requestPortion === "full" && (
+                <div className="space-y-2">
+                  <Label>Cover</Label>
+                  <LeaveCoverSelect value={coverUserId} members={members} onChange={setCoverUserId} className="h-10" />
+                  <p className="text-xs text-muted-foreground">
+                    Works your tasks while you are away, so they still count as done
+                  </p>
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="reason">Reason</Label>
                 <Textarea
@@ -151,6 +337,9 @@ export const PersonalHolidaysList = ({
                   onChange={(e) => setReason(e.target.value)}
                 />
               </div>
+              {balanceShortfall && (
+                <p className="text-sm text-destructive">{balanceShortfall}</p>
+              )}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setDialogOpen(false)}>
@@ -158,7 +347,13 @@ export const PersonalHolidaysList = ({
               </Button>
               <Button
                 onClick={handleSubmit}
-                disabled={!startDate || !endDate || submitting}
+                disabled={
+                  !startDate ||
+                  !endDate ||
+                  (activeLeaveTypes.length > 0 && !leaveTypeId) ||
+                  !!balanceShortfall ||
+                  submitting
+                }
               >
                 Submit Request
               </Button>
@@ -166,7 +361,25 @@ export const PersonalHolidaysList = ({
           </DialogContent>
         </Dialog>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        {activeLeaveTypes.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {activeLeaveTypes.map((leaveType) => {
+              const balance = getBalance(leaveType.id);
+              if (!balance) return null;
+              return (
+                <div key={leaveType.id} className="p-3 rounded-lg border bg-muted/30">
+                  <div className="text-xs text-muted-foreground">{leaveType.name}</div>
+                  <div className="text-xl font-bold">{Math.max(0, balance.available)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    of {balance.accrued + balance.carriedForward} day(s)
+                    {balance.pending > 0 && ` · ${balance.pending} pending`}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
         {holidays.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <Briefcase className="w-12 h-12 mx-auto mb-3 opacity-50" />
@@ -198,22 +411,139 @@ export const PersonalHolidaysList = ({
                         )}
                       </span>
                       <Badge variant="secondary" className="text-xs">
-                        {days} day{days > 1 ? "s" : ""}
+                        {formatLeaveDuration(days, holiday.day_portion)}
                       </Badge>
+                      {holiday.leave_type_id && leaveTypeNames.has(holiday.leave_type_id) && (
+                        <Badge variant="outline" className="text-xs">
+                          {leaveTypeNames.get(holiday.leave_type_id)}
+                        </Badge>
+                      )}
                     </div>
                     {holiday.reason && (
                       <p className="text-sm text-muted-foreground">
                         {holiday.reason}
                       </p>
                     )}
+                    {holiday.approval_status === "pending" && holiday.approval_level > 1 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        First approval given, awaiting second approval
+                      </p>
+                    )}
+                    {holiday.day_portion === "full" && canModify(holiday) ? (
+                      <div className="flex items-center gap-2 mt-2">
+                        <span className="text-xs text-muted-foreground">Cover:</span>
+                        <LeaveCoverSelect
+                          value={holiday.cover_user_id}
+                          members={members}
+                          onChange={(id) => onSetCover(holiday.id, id)}
+                          className="w-48"
+                        />
+                      </div>
+                    ) : holiday.cover_user_id && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Covered by {memberNames.get(holiday.cover_user_id) || "a colleague"}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {canModify(holiday) && (
+                      <Button variant="ghost" size="sm" onClick={() => openModify(holiday)}>
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Modify
+                      </Button>
+                    )}
+                    {canCancel(holiday) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => onCancel(holiday.id)}
+                      >
+                        <Ban className="w-4 h-4 mr-1" />
+                        {holiday.approval_status === "pending" ? "Withdraw" : "Cancel"}
+                      </Button>
+                    )}
+                    {getStatusBadge(holiday.approval_status)}
                   </div>
-                  {getStatusBadge(holiday.approval_status)}
                 </div>
               );
             })}
           </div>
         )}
       </CardContent>
+
+      <Dialog open={!!modifying} onOpenChange={(open) => !open && setModifying(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Modify Leave</DialogTitle>
+            <DialogDescription>
+              {modifying?.approval_status === "approved"
+                ? "The new dates need approval again. Your approved dates stay recorded until then."
+                : "Change the dates of your pending request."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="modify-start">Start Date *</Label>
+                <Input
+                  id="modify-start"
+                  type="date"
+                  value={modifyStartDate}
+                  onChange={(e) => setModifyStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modify-end">End Date *</Label>
+                <Input
+                  id="modify-end"
+                  type="date"
+                  value={modifyEndDate}
+                  min={modifyStartDate}
+                  onChange={(e) => setModifyEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+            {modifyIsSingleDay && (
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Select value={modifyDayPortion} onValueChange={(v) => setModifyDayPortion(v as DayPortion)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DAY_PORTION_LABELS) as DayPortion[]).map((portion) => (
+                      <SelectItem key={portion} value={portion}>
+                        {DAY_PORTION_LABELS[portion]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {modifyShortfall && (
+              <p className="text-sm text-destructive">{modifyShortfall}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setModifying(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleModify}
+              disabled={
+                !modifyStartDate ||
+                !modifyEndDate ||
+                modifyStartDate > modifyEndDate ||
+                !!modifyShortfall ||
+                submitting
+              }
+            >
+              Submit Change
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
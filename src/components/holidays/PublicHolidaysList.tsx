@@ -4,11 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Calendar, Plus, Trash2, RefreshCw } from "lucide-react";
+import { Calendar, Plus, Trash2, RefreshCw, MapPin } from "lucide-react";
 import { format, parseISO } from "date-fns";
+import { DAY_PORTION_LABELS, type DayPortion } from "@/lib/leaveUtils";
+import type { ImportedHoliday } from "@/lib/icsImport";
+import { ImportHolidaysDialog } from "./ImportHolidaysDialog";
 
 interface PublicHoliday {
   id: string;
@@ -16,21 +20,46 @@ interface PublicHoliday {
   holiday_date: string;
   description: string | null;
   is_recurring: boolean | null;
+  calendar_id: string | null;
+  day_portion: DayPortion;
+}
+
+interface HolidayCalendar {
+  id: string;
+  name: string;
+  location: string | null;
 }
 
 interface PublicHolidaysListProps {
   holidays: PublicHoliday[];
+  calendars: HolidayCalendar[];
+  userCalendarId: string | null;
   loading: boolean;
   isAdmin: boolean;
-  onAdd: (name: string, date: string, description?: string, isRecurring?: boolean) => Promise<boolean>;
+  onAdd: (
+    name: string,
+    date: string,
+    description?: string,
+    isRecurring?: boolean,
+    calendarId?: string | null,
+    dayPortion?: DayPortion
+  ) => Promise<boolean>;
+  onImport: (holidays: ImportedHoliday[], calendarId: string | null) => Promise<boolean>;
   onDelete: (id: string) => Promise<boolean>;
 }
 
+// Select values for the calendar filter; other values are holiday calendar IDs
+const ALL_CALENDARS = "all";
+const ORGANIZATION_WIDE = "organization";
+
 export const PublicHolidaysList = ({
   holidays,
+  calendars,
+  userCalendarId,
   loading,
   isAdmin,
   onAdd,
+  onImport,
   onDelete,
 }: PublicHolidaysListProps) => {
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -38,19 +67,50 @@ export const PublicHolidaysList = ({
   const [date, setDate] = useState("");
   const [description, setDescription] = useState("");
   const [isRecurring, setIsRecurring] = useState(false);
+  const [dayPortion, setDayPortion] = useState<DayPortion>("full");
+  const [calendarId, setCalendarId] = useState(ORGANIZATION_WIDE);
+  const [calendarFilter, setCalendarFilter] = useState(ALL_CALENDARS);
   const [submitting, setSubmitting] = useState(false);
 
+  const calendarNames = new Map(calendars.map((c) => [c.id, c.name]));
+
+  // Admins can browse every calendar; everyone else sees the holidays that apply to them
+  const visibleHolidays = holidays.filter((holiday) => {
+    if (!isAdmin) {
+      return !holiday.calendar_id || holiday.calendar_id === userCalendarId;
+    }
+    if (calendarFilter === ALL_CALENDARS) return true;
+    if (calendarFilter === ORGANIZATION_WIDE) return !holiday.calendar_id;
+    return holiday.calendar_id === calendarFilter;
+  });
+
+  const handleDialogOpenChange = (open: boolean) => {
+    // New holidays default to the calendar being viewed
+    if (open) {
+      setCalendarId(calendarFilter === ALL_CALENDARS ? ORGANIZATION_WIDE : calendarFilter);
+    }
+    setDialogOpen(open);
+  };
+
   const handleSubmit = async () => {
     if (!name || !date) return;
 
     setSubmitting(true);
-    const success = await onAdd(name, date, description || undefined, isRecurring);
+    const success = await onAdd(
+      name,
+      date,
+      description || undefined,
+      isRecurring,
+      calendarId === ORGANIZATION_WIDE ? null : calendarId,
+      dayPortion
+    );
     if (success) {
       setDialogOpen(false);
       setName("");
       setDate("");
       setDescription("");
       setIsRecurring(false);
+      setDayPortion("full");
     }
     setSubmitting(false);
   };
@@ -79,82 +139,141 @@ export const PublicHolidaysList = ({
             Public Holidays
           </CardTitle>
           <CardDescription>
-            Organization-wide holidays when tasks are not applicable
+            Holidays when tasks are not applicable, for the whole organization or one location
           </CardDescription>
         </div>
-        {isAdmin && (
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="sm">
-                <Plus className="w-4 h-4 mr-2" />
-                Add Holiday
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Add Public Holiday</DialogTitle>
-                <DialogDescription>Add a new public holiday for your organization.</DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Holiday Name *</Label>
-                  <Input
-                    id="name"
-                    placeholder="e.g., Christmas Day"
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="date">Date *</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={date}
-                    onChange={(e) => setDate(e.target.value)}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Input
-                    id="description"
-                    placeholder="Optional description"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                  />
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="recurring"
-                    checked={isRecurring}
-                    onCheckedChange={(checked) => setIsRecurring(!!checked)}
-                  />
-                  <Label htmlFor="recurring" className="text-sm">
-                    Recurring annually
-                  </Label>
-                </div>
-              </div>
-              <DialogFooter>
-                <Button variant="outline" onClick={() => setDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleSubmit} disabled={!name || !date || submitting}>
+        <div className="flex items-center gap-2">
+          {isAdmin && calendars.length > 0 && (
+            <Select value={calendarFilter} onValueChange={setCalendarFilter}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CALENDARS}>All calendars</SelectItem>
+                <SelectItem value={ORGANIZATION_WIDE}>Organization-wide</SelectItem>
+                {calendars.map((calendar) => (
+                  <SelectItem key={calendar.id} value={calendar.id}>
+                    {calendar.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {isAdmin && (
+            <ImportHolidaysDialog
+              calendars={calendars}
+              defaultCalendarId={[ALL_CALENDARS, ORGANIZATION_WIDE].includes(calendarFilter) ? null : calendarFilter}
+              onImport={onImport}
+            />
+          )}
+          {isAdmin && (
+            <Dialog open={dialogOpen} onOpenChange={handleDialogOpenChange}>
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="w-4 h-4 mr-2" />
                   Add Holiday
                 </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
-        )}
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Public Holiday</DialogTitle>
+                  <DialogDescription>Add a new public holiday for your organization.</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Holiday Name *</Label>
+                    <Input
+                      id="name"
+                      placeholder="e.g., Christmas Day"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Date *</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={date}
+                      onChange={(e) => setDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Duration</Label>
+                    <Select value={dayPortion} onValueChange={(v) => setDayPortion(v as DayPortion)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(DAY_PORTION_LABELS) as DayPortion[]).map((portion) => (
+                          <SelectItem key={portion} value={portion}>
+                            {DAY_PORTION_LABELS[portion]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Input
+                      id="description"
+                      placeholder="Optional description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                    />
+                  </div>
+                  {calendars.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Calendar</Label>
+                      <Select value={calendarId} onValueChange={setCalendarId}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ORGANIZATION_WIDE}>Organization-wide</SelectItem>
+                          {calendars.map((calendar) => (
+                            <SelectItem key={calendar.id} value={calendar.id}>
+                              {calendar.name}
+                              {calendar.location && ` (${calendar.location})`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="recurring"
+                      checked={isRecurring}
+                      onCheckedChange={(checked) => setIsRecurring(!!checked)}
+                    />
+                    <Label htmlFor="recurring" className="text-sm">
+                      Recurring annually
+                    </Label>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSubmit} disabled={!name || !date || submitting}>
+                    Add Holiday
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
-        {holidays.length === 0 ? (
+        {visibleHolidays.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <Calendar className="w-12 h-12 mx-auto mb-3 opacity-50" />
             <p>No public holidays configured</p>
           </div>
         ) : (
           <div className="space-y-3">
-            {holidays.map((holiday) => (
+            {visibleHolidays.map((holiday) => (
               <div
                 key={holiday.id}
                 className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
@@ -168,6 +287,17 @@ export const PublicHolidaysList = ({
                         Annual
                       </Badge>
                     )}
+                    {holiday.day_portion !== "full" && (
+                      <Badge variant="secondary" className="text-xs">
+                        Half day ({DAY_PORTION_LABELS[holiday.day_portion].toLowerCase()})
+                      </Badge>
+                    )}
+                    {holiday.calendar_id && (
+                      <Badge variant="outline" className="text-xs">
+                        <MapPin className="w-3 h-3 mr-1" />
+                        {calendarNames.get(holiday.calendar_id) || "Calendar"}
+                      </Badge>
+                    )}
                   </div>
                   <p className="text-sm text-muted-foreground">
                     {format(parseISO(holiday.holiday_date), "EEEE, MMMM d, yyyy")}
@@ -2,16 +2,26 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Users, CheckCircle2, XCircle, Clock } from "lucide-react";
+import { Users, CheckCircle2, XCircle, Clock, Ban } from "lucide-react";
 import { format, parseISO, differenceInDays } from "date-fns";
+import { formatLeaveDuration, type DayPortion } from "@/lib/leaveUtils";
+import type { LeaveBalance, LeaveType } from "@/lib/leaveBalances";
+import { LeaveCoverSelect } from "./LeaveCoverSelect";
 
 interface PersonalHoliday {
   id: string;
   user_id: string;
   start_date: string;
   end_date: string;
+  day_portion: DayPortion;
+  leave_type_id: string | null;
   reason: string | null;
   approval_status: string | null;
+  approval_level: number;
+  required_approval_levels: number;
+  original_start_date: string | null;
+  original_end_date: string | null;
+  cover_user_id: string | null;
   created_at: string;
   profile?: {
     full_name: string;
@@ -21,20 +31,60 @@ interface PersonalHoliday {
 
 interface TeamHolidayRequestsProps {
   requests: PersonalHoliday[];
+  leaveTypes: LeaveType[];
   loading: boolean;
+  getBalance: (userId: string, leaveTypeId: string, year?: number) => LeaveBalance | null;
+  // Whether the current user can act on the request at its current approval level
+  canApprove: (request: PersonalHoliday) => boolean;
   onApprove: (id: string) => Promise<boolean>;
   onReject: (id: string) => Promise<boolean>;
+  // Colleagues who can cover for a team member's full-day leave
+  members: Array<{ id: string; full_name: string }>;
+  canSetCover: boolean;
+  onSetCover: (id: string, coverUserId: string | null) => Promise<boolean>;
 }
 
 export const TeamHolidayRequests = ({
   requests,
+  leaveTypes,
   loading,
+  getBalance,
+  canApprove,
   onApprove,
   onReject,
+  members,
+  canSetCover,
+  onSetCover,
 }: TeamHolidayRequestsProps) => {
   const pendingRequests = requests.filter((r) => r.approval_status === "pending");
+  const leaveTypeNames = new Map(leaveTypes.map((t) => [t.id, t.name]));
+  const memberNames = new Map(members.map((m) => [m.id, m.full_name]));
   const processedRequests = requests.filter((r) => r.approval_status !== "pending");
 
+  // Cover of pending or approved full-day leave: editable for managers, shown to others
+  const renderCover = (request: PersonalHoliday) => {
+    if (request.day_portion !== "full") return null;
+    if (canSetCover && (request.approval_status === "pending" || request.approval_status === "approved")) {
+      return (
+        <div className="flex items-center gap-2 mt-2">
+          <span className="text-xs text-muted-foreground">Cover:</span>
+          <LeaveCoverSelect
+            value={request.cover_user_id}
+            members={members}
+            excludeUserId={request.user_id}
+            onChange={(id) => onSetCover(request.id, id)}
+            className="w-48"
+          />
+        </div>
+      );
+    }
+    return request.cover_user_id ? (
+      <p className="text-sm text-muted-foreground mt-1">
+        Covered by {memberNames.get(request.cover_user_id) || "a colleague"}
+      </p>
+    ) : null;
+  };
+
   const getStatusBadge = (status: string | null) => {
     switch (status) {
       case "approved":
@@ -51,6 +101,13 @@ export const TeamHolidayRequests = ({
             Rejected
           </Badge>
         );
+      case "cancelled":
+        return (
+          <Badge variant="outline" className="text-muted-foreground">
+            <Ban className="w-3 h-3 mr-1" />
+            Cancelled
+          </Badge>
+        );
       default:
         return (
           <Badge className="bg-warning/10 text-warning border-warning/30">
@@ -84,7 +141,7 @@ export const TeamHolidayRequests = ({
           Team Leave Requests
         </CardTitle>
         <CardDescription>
-          Approve or reject leave requests from your team members
+          Approve or reject leave requests from your team members. Longer leave may need a second approval.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -99,6 +156,10 @@ export const TeamHolidayRequests = ({
                 parseISO(request.end_date),
                 parseISO(request.start_date)
               ) + 1;
+              // Available already excludes pending requests, this one included
+              const balance = request.leave_type_id
+                ? getBalance(request.user_id, request.leave_type_id, Number(request.start_date.slice(0, 4)))
+                : null;
 
               return (
                 <div
@@ -112,6 +173,11 @@ export const TeamHolidayRequests = ({
                           {request.profile?.full_name || "Unknown"}
                         </span>
                         {getStatusBadge(request.approval_status)}
+                        {request.required_approval_levels > 1 && (
+                          <Badge variant="outline" className="text-xs">
+                            Approval {request.approval_level} of {request.required_approval_levels}
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {format(parseISO(request.start_date), "MMM d")}
@@ -121,33 +187,57 @@ export const TeamHolidayRequests = ({
                         {request.start_date === request.end_date && (
                           <>, {format(parseISO(request.start_date), "yyyy")}</>
                         )}
-                        {" "}({days} day{days > 1 ? "s" : ""})
+                        {" "}({formatLeaveDuration(days, request.day_portion)})
                       </p>
+                      {request.leave_type_id && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {leaveTypeNames.get(request.leave_type_id) || "Leave"}
+                          {balance && (
+                            <span className={balance.available < 0 ? "text-destructive" : undefined}>
+                              {" "}· {balance.available} of {balance.accrued + balance.carriedForward} day(s) left after approval
+                            </span>
+                          )}
+                        </p>
+                      )}
+                      {request.original_start_date && request.original_end_date && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Changed from previously approved{" "}
+                          {format(parseISO(request.original_start_date), "MMM d")} -{" "}
+                          {format(parseISO(request.original_end_date), "MMM d, yyyy")}
+                        </p>
+                      )}
                       {request.reason && (
                         <p className="text-sm text-muted-foreground mt-1">
                           Reason: {request.reason}
                         </p>
                       )}
+                      {renderCover(request)}
                     </div>
-                    <div className="flex gap-2">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="text-destructive border-destructive/30 hover:bg-destructive/10"
-                        onClick={() => onReject(request.id)}
-                      >
-                        <XCircle className="w-4 h-4 mr-1" />
-                        Reject
-                      </Button>
-                      <Button
-                        size="sm"
-                        className="bg-success hover:bg-success/90"
-                        onClick={() => onApprove(request.id)}
-                      >
-                        <CheckCircle2 className="w-4 h-4 mr-1" />
-                        Approve
-                      </Button>
-                    </div>
+                    {canApprove(request) ? (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-destructive border-destructive/30 hover:bg-destructive/10"
+                          onClick={() => onReject(request.id)}
+                        >
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                        <Button
+                          size="sm"
+                          className="bg-success hover:bg-success/90"
+                          onClick={() => onApprove(request.id)}
+                        >
+                          <CheckCircle2 className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {request.approval_level > 1 ? "Awaiting second approval" : "Awaiting approval"}
+                      </span>
+                    )}
                   </div>
                 </div>
               );
@@ -182,8 +272,9 @@ export const TeamHolidayRequests = ({
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {format(parseISO(request.start_date), "MMM d")} - {format(parseISO(request.end_date), "MMM d, yyyy")}
-                        {" "}({days} day{days > 1 ? "s" : ""})
+                        {" "}({formatLeaveDuration(days, request.day_portion)})
                       </p>
+                      {renderCover(request)}
                     </div>
                   </div>
                 </div>
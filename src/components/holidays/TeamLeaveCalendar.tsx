@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { addDaysToDateStr, eachDateStrInRange, toFloatingDate } from "@/lib/dateUtils";
+import { DAY_PORTION_LABELS } from "@/lib/leaveUtils";
+import { findDayCoverageGaps, getTeamDayInfo, type TeamMemberSchedule } from "@/lib/teamCoverage";
+
+type CalendarView = "month" | "week";
+
+interface TeamLeaveCalendarProps {
+  members: TeamMemberSchedule[];
+  loading: boolean;
+  minimumCoverage: number;
+  todayStr: string;
+}
+
+// Monday of the week containing the 'yyyy-MM-dd' date
+const startOfWeekStr = (dateStr: string) =>
+  addDaysToDateStr(dateStr, -((toFloatingDate(dateStr).getUTCDay() + 6) % 7));
+
+const getVisibleDays = (view: CalendarView, anchor: string): string[] => {
+  if (view === "week") {
+    const monday = startOfWeekStr(anchor);
+    return eachDateStrInRange(monday, addDaysToDateStr(monday, 6));
+  }
+  const date = toFloatingDate(anchor);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const monthPrefix = anchor.slice(0, 8);
+  return eachDateStrInRange(`${monthPrefix}01`, `${monthPrefix}${String(lastDay).padStart(2, "0")}`);
+};
+
+const shiftAnchor = (view: CalendarView, anchor: string, direction: 1 | -1): string => {
+  if (view === "week") return addDaysToDateStr(anchor, 7 * direction);
+  const date = toFloatingDate(anchor);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + direction, 1)).toISOString().slice(0, 10);
+};
+
+/**
+ * Month / week grid of the team's approved and pending leave, public holidays and weekly offs.
+ * Days where a task category would drop below the minimum coverage (pending leave included)
+ * are flagged in the coverage row.
+ */
+export const TeamLeaveCalendar = ({ members, loading, minimumCoverage, todayStr }: TeamLeaveCalendarProps) => {
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(todayStr);
+  const days = getVisibleDays(view, anchor);
+
+  const title = view === "month"
+    ? format(parseISO(days[0]), "MMMM yyyy")
+    : `${format(parseISO(days[0]), "MMM d")} - ${format(parseISO(days[days.length - 1]), "MMM d, yyyy")}`;
+
+  const renderCell = (member: TeamMemberSchedule, dateStr: string) => {
+    const { weeklyOff, holidays, leave } = getTeamDayInfo(member, dateStr);
+    const approved = leave.find((l) => l.approval_status === "approved");
+    const pending = leave.find((l) => l.approval_status === "pending");
+    const shownLeave = approved || pending;
+    const fullHoliday = holidays.find((h) => h.day_portion === "full");
+
+    const details = [
+      ...holidays.map((h) =>
+        h.day_portion === "full" ? h.holiday_name : `${h.holiday_name} (${DAY_PORTION_LABELS[h.day_portion].toLowerCase()})`
+      ),
+      ...leave.map((l) =>
+        `${l.approval_status === "approved" ? "Leave" : "Leave requested"}${
+          l.day_portion === "full" ? "" : ` (${DAY_PORTION_LABELS[l.day_portion].toLowerCase()})`
+        }${l.cover_user_id ? ", covered" : ""}`
+      ),
+      ...(weeklyOff ? ["Weekly off"] : []),
+    ];
+
+    let label = "";
+    let className = "";
+    if (shownLeave) {
+      label = shownLeave.day_portion === "full" ? "L" : "½";
+      className = approved
+        ? "bg-holiday-personal text-white"
+        : "border border-dashed border-warning bg-warning/10 text-warning";
+    } else if (fullHoliday) {
+      label = "H";
+      className = "bg-holiday-public text-white";
+    } else if (holidays.length > 0) {
+      label = "½";
+      className = "bg-holiday-public/60 text-white";
+    } else if (weeklyOff) {
+      label = "-";
+      className = "bg-holiday-weekly-off text-muted-foreground";
+    }
+
+    return (
+      <td key={dateStr} className="px-0.5 py-1 text-center">
+        <div
+          title={details.join(" · ") || undefined}
+          className={cn(
+            "w-6 h-6 sm:w-7 sm:h-7 mx-auto rounded flex items-center justify-center text-[10px] sm:text-xs font-semibold",
+            className
+          )}
+        >
+          {label}
+        </div>
+      </td>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Team Calendar
+          </CardTitle>
+          <CardDescription>
+            Leave, holidays and weekly offs across your team
+            {minimumCoverage > 0 && `. Each task category needs ${minimumCoverage} member(s) available`}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant={view === "month" ? "default" : "outline"} onClick={() => setView("month")}>
+            Month
+          </Button>
+          <Button size="sm" variant={view === "week" ? "default" : "outline"} onClick={() => setView("week")}>
+            Week
+          </Button>
+          <Button size="icon" variant="outline" className="h-9 w-9" onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setAnchor(todayStr)}>
+            Today
+          </Button>
+          <Button size="icon" variant="outline" className="h-9 w-9" onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="font-medium">{title}</div>
+        {loading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : members.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarDays className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>No team members report to you</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="px-2 py-1.5 text-left font-semibold sticky left-0 bg-card min-w-[140px]">Member</th>
+                  {days.map((dateStr) => (
+                    <th
+                      key={dateStr}
+                      className={cn(
+                        "px-0.5 py-1.5 text-center text-[10px] sm:text-xs font-medium",
+                        dateStr === todayStr && "bg-primary/20"
+                      )}
+                    >
+                      <div className="hidden sm:block">{format(parseISO(dateStr), "EEE")}</div>
+                      <div className="font-bold">{format(parseISO(dateStr), "d")}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {members.map((member) => (
+                  <tr key={member.id} className="border-b last:border-b-0">
+                    <td className="px-2 py-1 sticky left-0 bg-card">
+                      <div className="font-medium truncate">{member.full_name}</div>
+                      {member.categories.length > 0 && (
+                        <div className="text-xs text-muted-foreground truncate">{member.categories.join(", ")}</div>
+                      )}
+                    </td>
+                    {days.map((dateStr) => renderCell(member, dateStr))}
+                  </tr>
+                ))}
+                {minimumCoverage > 0 && (
+                  <tr className="border-t">
+                    <td className="px-2 py-1 sticky left-0 bg-card text-xs font-semibold text-muted-foreground">
+                      Coverage
+                    </td>
+                    {days.map((dateStr) => {
+                      const gaps = findDayCoverageGaps(members, dateStr, minimumCoverage, true);
+                      return (
+                        <td key={dateStr} className="px-0.5 py-1 text-center">
+                          {gaps.length > 0 && (
+                            <span title={gaps.map((g) => `${g.category}: ${g.available} available`).join("\n")}>
+                              <AlertTriangle className="w-4 h-4 mx-auto text-destructive" />
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-3 sm:gap-4 text-xs text-muted-foreground">
+          <div className="flex items-center gap-1.5">
+            <div className="w-4 h-4 rounded bg-holiday-personal" />
+            <span>Approved leave</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-4 h-4 rounded border border-dashed border-warning bg-warning/10" />
+            <span>Pending leave</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-4 h-4 rounded bg-holiday-public" />
+            <span>Public holiday</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-4 h-4 rounded bg-holiday-weekly-off border border-border" />
+            <span>Weekly off</span>
+          </div>
+          {minimumCoverage > 0 && (
+            <div className="flex items-center gap-1.5">
+              <AlertTriangle className="w-4 h-4 text-destructive" />
+              <span>Category below minimum coverage if pending leave is approved</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
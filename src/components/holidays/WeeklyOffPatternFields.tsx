@@ -0,0 +1,103 @@
+import { format } from "date-fns";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { WeeklyOffPattern } from "@/lib/weeklyOffs";
+
+interface WeeklyOffPatternFieldsProps {
+  value: WeeklyOffPattern;
+  onChange: (value: WeeklyOffPattern) => void;
+  idPrefix?: string;
+}
+
+type PatternMode = "every" | "weeks" | "alternate";
+
+const WEEKS_OF_MONTH = [
+  { value: 1, label: "1st" },
+  { value: 2, label: "2nd" },
+  { value: 3, label: "3rd" },
+  { value: 4, label: "4th" },
+  { value: 5, label: "5th" },
+];
+
+/**
+ * Chooses which weeks a weekly off day applies to: every week, specific weeks of the
+ * month (e.g. 2nd and 4th Saturday) or alternate weeks.
+ */
+export const WeeklyOffPatternFields = ({ value, onChange, idPrefix = "weekly-off" }: WeeklyOffPatternFieldsProps) => {
+  const mode: PatternMode = value.weeks_of_month?.length
+    ? "weeks"
+    : value.week_interval > 1
+      ? "alternate"
+      : "every";
+
+  const handleModeChange = (newMode: PatternMode) => {
+    if (newMode === "weeks") {
+      onChange({ ...value, weeks_of_month: [2, 4], week_interval: 1, anchor_date: null });
+    } else if (newMode === "alternate") {
+      onChange({
+        ...value,
+        weeks_of_month: null,
+        week_interval: 2,
+        anchor_date: value.anchor_date || format(new Date(), "yyyy-MM-dd"),
+      });
+    } else {
+      onChange({ ...value, weeks_of_month: null, week_interval: 1, anchor_date: null });
+    }
+  };
+
+  const toggleWeek = (week: number) => {
+    const weeks = value.weeks_of_month || [];
+    const updated = weeks.includes(week) ? weeks.filter((w) => w !== week) : [...weeks, week].sort((a, b) => a - b);
+    // Unticking the last week falls back to an every-week off
+    onChange({ ...value, weeks_of_month: updated.length > 0 ? updated : null });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={mode} onValueChange={(v) => handleModeChange(v as PatternMode)}>
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="every">Every week</SelectItem>
+          <SelectItem value="weeks">Specific weeks of the month</SelectItem>
+          <SelectItem value="alternate">Alternate weeks</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode === "weeks" && (
+        <div className="flex flex-wrap gap-3">
+          {WEEKS_OF_MONTH.map((week) => (
+            <div key={week.value} className="flex items-center space-x-1">
+              <Checkbox
+                id={`${idPrefix}-week-${week.value}`}
+                checked={value.weeks_of_month?.includes(week.value) || false}
+                onCheckedChange={() => toggleWeek(week.value)}
+              />
+              <Label htmlFor={`${idPrefix}-week-${week.value}`} className="text-xs font-normal cursor-pointer">
+                {week.label}
+              </Label>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode === "alternate" && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}-anchor`} className="text-xs font-normal whitespace-nowrap">
+            Off in the week of
+          </Label>
+          <Input
+            id={`${idPrefix}-anchor`}
+            type="date"
+            className="h-8"
+            value={value.anchor_date || ""}
+            onChange={(e) => e.target.value && onChange({ ...value, anchor_date: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
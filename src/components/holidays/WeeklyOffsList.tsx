@@ -6,24 +6,33 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Sun, Plus, Trash2 } from "lucide-react";
-import type { Database } from "@/integrations/supabase/types";
+import { WeeklyOffPatternFields } from "./WeeklyOffPatternFields";
+import { describeWeeklyOff, everyWeekPattern, type DayOfWeek, type WeeklyOffPattern } from "@/lib/weeklyOffs";
 
-type DayOfWeek = Database["public"]["Enums"]["day_of_week"];
-
-interface WeeklyOff {
+interface WeeklyOff extends WeeklyOffPattern {
   id: string;
-  day_of_week: DayOfWeek;
   description: string | null;
+  calendar_id: string | null;
+}
+
+interface HolidayCalendar {
+  id: string;
+  name: string;
+  location: string | null;
 }
 
 interface WeeklyOffsListProps {
   weeklyOffs: WeeklyOff[];
+  calendars: HolidayCalendar[];
   loading: boolean;
   isAdmin: boolean;
-  onAdd: (dayOfWeek: DayOfWeek, description?: string) => Promise<boolean>;
+  onAdd: (pattern: WeeklyOffPattern, description?: string, calendarId?: string | null) => Promise<boolean>;
   onDelete: (id: string) => Promise<boolean>;
 }
 
+// Select value for the organization-wide weekly offs (calendar_id NULL)
+const ORGANIZATION_WIDE = "organization";
+
 const DAYS: { value: DayOfWeek; label: string }[] = [
   { value: "monday", label: "Monday" },
   { value: "tuesday", label: "Tuesday" },
@@ -36,6 +45,7 @@ const DAYS: { value: DayOfWeek; label: string }[] = [
 
 export const WeeklyOffsList = ({
   weeklyOffs,
+  calendars,
   loading,
   isAdmin,
   onAdd,
@@ -43,19 +53,24 @@ export const WeeklyOffsList = ({
 }: WeeklyOffsListProps) => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedDay, setSelectedDay] = useState<DayOfWeek | "">("");
+  const [pattern, setPattern] = useState<WeeklyOffPattern>(everyWeekPattern("saturday"));
   const [submitting, setSubmitting] = useState(false);
+  const [calendarFilter, setCalendarFilter] = useState(ORGANIZATION_WIDE);
 
-  const existingDays = weeklyOffs.map((w) => w.day_of_week);
+  const selectedCalendarId = calendarFilter === ORGANIZATION_WIDE ? null : calendarFilter;
+  const calendarWeeklyOffs = weeklyOffs.filter((w) => (w.calendar_id || null) === selectedCalendarId);
+  const existingDays = calendarWeeklyOffs.map((w) => w.day_of_week);
   const availableDays = DAYS.filter((d) => !existingDays.includes(d.value));
 
   const handleSubmit = async () => {
     if (!selectedDay) return;
 
     setSubmitting(true);
-    const success = await onAdd(selectedDay as DayOfWeek);
+    const success = await onAdd({ ...pattern, day_of_week: selectedDay }, undefined, selectedCalendarId);
     if (success) {
       setDialogOpen(false);
       setSelectedDay("");
+      setPattern(everyWeekPattern("saturday"));
     }
     setSubmitting(false);
   };
@@ -87,66 +102,101 @@ export const WeeklyOffsList = ({
             Regular weekly holidays when tasks are not applicable
           </CardDescription>
         </div>
-        {isAdmin && availableDays.length > 0 && (
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="sm">
-                <Plus className="w-4 h-4 mr-2" />
-                Add Weekly Off
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Add Weekly Off</DialogTitle>
-                <DialogDescription>Select a day of the week as non-working.</DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <Label>Day of Week</Label>
-                  <Select value={selectedDay} onValueChange={(v) => setSelectedDay(v as DayOfWeek)}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a day" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {availableDays.map((day) => (
-                        <SelectItem key={day.value} value={day.value}>
-                          {day.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              <DialogFooter>
-                <Button variant="outline" onClick={() => setDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleSubmit} disabled={!selectedDay || submitting}>
+        <div className="flex items-center gap-2">
+          {calendars.length > 0 && (
+            <Select value={calendarFilter} onValueChange={setCalendarFilter}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ORGANIZATION_WIDE}>Organization-wide</SelectItem>
+                {calendars.map((calendar) => (
+                  <SelectItem key={calendar.id} value={calendar.id}>
+                    {calendar.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {isAdmin && availableDays.length > 0 && (
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="w-4 h-4 mr-2" />
                   Add Weekly Off
                 </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
-        )}
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Weekly Off</DialogTitle>
+                  <DialogDescription>
+                    Select a day of the week as non-working
+                    {selectedCalendarId
+                      ? ` for the ${calendars.find((c) => c.id === selectedCalendarId)?.name} calendar.`
+                      : " for the whole organization."}
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label>Day of Week</Label>
+                    <Select value={selectedDay} onValueChange={(v) => setSelectedDay(v as DayOfWeek)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a day" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableDays.map((day) => (
+                          <SelectItem key={day.value} value={day.value}>
+                            {day.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {selectedDay && (
+                    <div className="space-y-2">
+                      <Label>Weeks</Label>
+                      <WeeklyOffPatternFields
+                        value={{ ...pattern, day_of_week: selectedDay }}
+                        onChange={setPattern}
+                      />
+                    </div>
+                  )}
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSubmit} disabled={!selectedDay || submitting}>
+                    Add Weekly Off
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
-        {weeklyOffs.length === 0 ? (
+        {calendarWeeklyOffs.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <Sun className="w-12 h-12 mx-auto mb-3 opacity-50" />
             <p>No weekly offs configured</p>
-            <p className="text-xs mt-1">All 7 days are working days</p>
+            <p className="text-xs mt-1">
+              {selectedCalendarId
+                ? "Members of this calendar use the organization-wide weekly offs"
+                : "All 7 days are working days"}
+            </p>
           </div>
         ) : (
           <div className="flex flex-wrap gap-3">
             {DAYS.filter((d) => existingDays.includes(d.value)).map((day) => {
-              const weeklyOff = weeklyOffs.find((w) => w.day_of_week === day.value);
+              const weeklyOff = calendarWeeklyOffs.find((w) => w.day_of_week === day.value);
               return (
                 <div
                   key={day.value}
                   className="flex items-center gap-2 px-4 py-2 rounded-lg border bg-warning/10 border-warning/30"
                 >
                   <Sun className="w-4 h-4 text-warning" />
-                  <span className="font-medium">{day.label}</span>
+                  <span className="font-medium">{weeklyOff ? describeWeeklyOff(weeklyOff) : day.label}</span>
                   {isAdmin && weeklyOff && (
                     <Button
                       variant="ghost"
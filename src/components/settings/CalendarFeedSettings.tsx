@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+import { CalendarPlus, Copy, RefreshCw, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+type CalendarFeedType = Database["public"]["Enums"]["calendar_feed_type"];
+
+interface CalendarFeed {
+  token: string;
+  last_accessed_at: string | null;
+}
+
+interface CalendarFeedSettingsProps {
+  user: User;
+  canUseTeamFeed: boolean;
+}
+
+const FEED_DESCRIPTIONS: Record<CalendarFeedType, { title: string; description: string }> = {
+  personal: {
+    title: "My calendar",
+    description: "Your upcoming tasks, approved leave and public holidays",
+  },
+  team: {
+    title: "Team calendar",
+    description: "Approved and pending leave of everyone reporting to you",
+  },
+};
+
+const getFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+export const CalendarFeedSettings = ({ user, canUseTeamFeed }: CalendarFeedSettingsProps) => {
+  const [feeds, setFeeds] = useState<Partial<Record<CalendarFeedType, CalendarFeed>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<CalendarFeedType | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchFeeds();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id]);
+
+  const fetchFeeds = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("calendar_feed_tokens")
+        .select("feed_type, token, last_accessed_at")
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      setFeeds(Object.fromEntries((data || []).map((f) => [f.feed_type, f])));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to fetch calendar feeds",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Creates the feed's URL, or replaces it so the old URL stops working
+  const handleGenerate = async (feedType: CalendarFeedType, regenerate: boolean) => {
+    try {
+      setSaving(feedType);
+      const { error } = await supabase.rpc("get_calendar_feed_token", {
+        _feed_type: feedType,
+        _regenerate: regenerate,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: regenerate
+          ? "A new feed URL was created. Update it in your calendar app."
+          : "Calendar feed created",
+      });
+      fetchFeeds();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to create calendar feed",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleRevoke = async (feedType: CalendarFeedType) => {
+    try {
+      setSaving(feedType);
+      const { error } = await supabase
+        .from("calendar_feed_tokens")
+        .delete()
+        .eq("user_id", user.id)
+        .eq("feed_type", feedType);
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Calendar feed turned off" });
+      fetchFeeds();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to turn off calendar feed",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleCopy = (token: string) => {
+    navigator.clipboard.writeText(getFeedUrl(token));
+    toast({ title: "Feed URL copied to clipboard" });
+  };
+
+  const feedTypes: CalendarFeedType[] = canUseTeamFeed ? ["personal", "team"] : ["personal"];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="w-5 h-5 text-primary" />
+          Calendar Feeds
+        </CardTitle>
+        <CardDescription>
+          Subscribe from Outlook or Google Calendar ("Add calendar from URL"). Anyone with a feed URL can
+          see its events, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            {feedTypes.map((feedType) => {
+              const feed = feeds[feedType];
+              return (
+                <div key={feedType} className="space-y-2">
+                  <Label>{FEED_DESCRIPTIONS[feedType].title}</Label>
+                  <p className="text-sm text-muted-foreground">{FEED_DESCRIPTIONS[feedType].description}</p>
+                  {feed ? (
+                    <>
+                      <div className="flex gap-2">
+                        <Input readOnly value={getFeedUrl(feed.token)} className="font-mono text-xs" />
+                        <Button variant="outline" size="icon" onClick={() => handleCopy(feed.token)} title="Copy URL">
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleGenerate(feedType, true)}
+                          disabled={saving === feedType}
+                          title="Create a new URL"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => handleRevoke(feedType)}
+                          disabled={saving === feedType}
+                          title="Turn off"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {feed.last_accessed_at
+                          ? `Last synced ${formatDistanceToNow(new Date(feed.last_accessed_at), { addSuffix: true })}`
+                          : "Not synced yet"}
+                      </p>
+                    </>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleGenerate(feedType, false)}
+                      disabled={saving === feedType}
+                    >
+                      <CalendarPlus className="w-4 h-4 mr-2" />
+                      Create Feed URL
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,277 @@
+import { useState, useEffect } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Constants, type Database } from "@/integrations/supabase/types";
+import { Mail, Save } from "lucide-react";
+
+type NotificationCadence = Database["public"]["Enums"]["notification_cadence"];
+
+// The email columns; push preferences are edited in NotificationSettings
+type EmailPreferences = Pick<
+  Database["public"]["Tables"]["notification_preferences"]["Row"],
+  | "daily_summary_cadence"
+  | "team_digest_cadence"
+  | "approval_requests_cadence"
+  | "digest_day"
+  | "monthly_team_digest"
+  | "email_escalations"
+  | "email_rejections"
+  | "email_leave_decisions"
+>;
+
+// Same as the column defaults, for users who never saved their preferences
+const DEFAULT_PREFERENCES: EmailPreferences = {
+  daily_summary_cadence: "daily",
+  team_digest_cadence: "daily",
+  approval_requests_cadence: "daily",
+  digest_day: "friday",
+  monthly_team_digest: true,
+  email_escalations: true,
+  email_rejections: true,
+  email_leave_decisions: true,
+};
+
+const CADENCE_LABELS: Record<NotificationCadence, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  off: "Off",
+};
+
+interface EmailNotificationSettingsProps {
+  user: User;
+  // Managers also choose how they hear about their team
+  canManageTeam: boolean;
+}
+
+export const EmailNotificationSettings = ({ user, canManageTeam }: EmailNotificationSettingsProps) => {
+  const [preferences, setPreferences] = useState<EmailPreferences>(DEFAULT_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPreferences();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id]);
+
+  const fetchPreferences = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("notification_preferences")
+        .select(
+          "daily_summary_cadence, team_digest_cadence, approval_requests_cadence, digest_day, monthly_team_digest, email_escalations, email_rejections, email_leave_decisions"
+        )
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setPreferences(data ?? DEFAULT_PREFERENCES);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to fetch email preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert({ user_id: user.id, ...preferences, updated_at: new Date().toISOString() });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Your email preferences have been updated",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save email preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePreference = <K extends keyof EmailPreferences>(key: K, value: EmailPreferences[K]) =>
+    setPreferences((prev) => ({ ...prev, [key]: value }));
+
+  const cadenceSelect = (key: "daily_summary_cadence" | "team_digest_cadence" | "approval_requests_cadence") => (
+    <Select
+      value={preferences[key]}
+      onValueChange={(value) => updatePreference(key, value as NotificationCadence)}
+      disabled={saving}
+    >
+      <SelectTrigger className="w-32 shrink-0">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Constants.public.Enums.notification_cadence.map((cadence) => (
+          <SelectItem key={cadence} value={cadence}>{CADENCE_LABELS[cadence]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const usesWeekly =
+    preferences.daily_summary_cadence === "weekly" ||
+    (canManageTeam &&
+      (preferences.team_digest_cadence === "weekly" || preferences.approval_requests_cadence === "weekly"));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="w-5 h-5 text-primary" />
+          Email Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose which emails you get and how often. Every email also has a link to unsubscribe from it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>Your task summary</Label>
+                <p className="text-xs text-muted-foreground">
+                  Your completed, partial and missed tasks, every day or as one weekly email
+                </p>
+              </div>
+              {cadenceSelect("daily_summary_cadence")}
+            </div>
+
+            {canManageTeam && (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <Label>Team summaries</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Daily: a copy of each direct report's summary. Weekly: one digest of your whole team's
+                      week, compared with the week before
+                    </p>
+                  </div>
+                  {cadenceSelect("team_digest_cadence")}
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="monthly-team-digest">Month-end team digest</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Your whole team's month compared with the month before, sent the morning after each month ends
+                    </p>
+                  </div>
+                  <Switch
+                    id="monthly-team-digest"
+                    checked={preferences.monthly_team_digest}
+                    onCheckedChange={(checked) => updatePreference("monthly_team_digest", checked)}
+                    disabled={saving}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <Label>Approval requests</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Task updates and leave requests from your team waiting for your approval
+                    </p>
+                  </div>
+                  {cadenceSelect("approval_requests_cadence")}
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="email-escalations">Escalations</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Tasks your team keeps missing, approvals left waiting and benchmarks not met
+                    </p>
+                  </div>
+                  <Switch
+                    id="email-escalations"
+                    checked={preferences.email_escalations}
+                    onCheckedChange={(checked) => updatePreference("email_escalations", checked)}
+                    disabled={saving}
+                  />
+                </div>
+              </>
+            )}
+
+            {usesWeekly && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label>Weekly emails on</Label>
+                  <p className="text-xs text-muted-foreground">Each weekly email covers the 7 days up to this day</p>
+                </div>
+                <Select
+                  value={preferences.digest_day}
+                  onValueChange={(value) => updatePreference("digest_day", value as EmailPreferences["digest_day"])}
+                  disabled={saving}
+                >
+                  <SelectTrigger className="w-32 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Constants.public.Enums.day_of_week.map((day) => (
+                      <SelectItem key={day} value={day} className="capitalize">
+                        {day.charAt(0).toUpperCase() + day.slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="email-rejections">Rejected completions</Label>
+                <p className="text-xs text-muted-foreground">When your manager rejects a task you completed</p>
+              </div>
+              <Switch
+                id="email-rejections"
+                checked={preferences.email_rejections}
+                onCheckedChange={(checked) => updatePreference("email_rejections", checked)}
+                disabled={saving}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="email-leave-decisions">Leave decisions</Label>
+                <p className="text-xs text-muted-foreground">When your leave request is approved or rejected</p>
+              </div>
+              <Switch
+                id="email-leave-decisions"
+                checked={preferences.email_leave_decisions}
+                onCheckedChange={(checked) => updatePreference("email_leave_decisions", checked)}
+                disabled={saving}
+              />
+            </div>
+
+            <Button onClick={handleSave} disabled={saving} className="w-full md:w-auto">
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? "Saving..." : "Save Preferences"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
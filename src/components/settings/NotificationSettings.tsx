@@ -0,0 +1,285 @@
+import { useState, useEffect } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/pushNotifications";
+import { Bell, BellOff, Save } from "lucide-react";
+
+// The push columns; email preferences are edited in EmailNotificationSettings
+type NotificationPreferences = Pick<
+  Database["public"]["Tables"]["notification_preferences"]["Row"],
+  | "push_daily_tasks"
+  | "daily_tasks_time"
+  | "push_due_reminders"
+  | "due_reminder_minutes"
+  | "push_rejections"
+  | "push_leave_decisions"
+  | "push_escalations"
+>;
+
+// Same as the column defaults, for users who never saved their preferences
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  push_daily_tasks: true,
+  daily_tasks_time: "09:00",
+  push_due_reminders: true,
+  due_reminder_minutes: 60,
+  push_rejections: true,
+  push_leave_decisions: true,
+  push_escalations: true,
+};
+
+const REMINDER_OPTIONS = [15, 30, 60, 120];
+
+interface NotificationSettingsProps {
+  user: User;
+  // Managers can also be notified of escalations from their team
+  canManageTeam: boolean;
+}
+
+export const NotificationSettings = ({ user, canManageTeam }: NotificationSettingsProps) => {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_PREFERENCES);
+  const [deviceEnabled, setDeviceEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [updatingDevice, setUpdatingDevice] = useState(false);
+  const { toast } = useToast();
+  const pushSupported = isPushSupported();
+
+  useEffect(() => {
+    fetchPreferences();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id]);
+
+  const fetchPreferences = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("notification_preferences")
+        .select("push_daily_tasks, daily_tasks_time, push_due_reminders, due_reminder_minutes, push_rejections, push_leave_decisions, push_escalations")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      // Times come back as HH:mm:ss; the time input works in HH:mm
+      setPreferences(data ? { ...data, daily_tasks_time: data.daily_tasks_time.slice(0, 5) } : DEFAULT_PREFERENCES);
+      setDeviceEnabled(!!(await getPushSubscription()));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to fetch notification preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleDevice = async () => {
+    try {
+      setUpdatingDevice(true);
+      if (deviceEnabled) {
+        await unsubscribeFromPush();
+      } else {
+        await subscribeToPush();
+      }
+      setDeviceEnabled(!deviceEnabled);
+      toast({
+        title: "Success",
+        description: deviceEnabled
+          ? "Notifications turned off on this device"
+          : "Notifications turned on for this device",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to update notifications on this device",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingDevice(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert({ user_id: user.id, ...preferences });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Your notification preferences have been updated",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save notification preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePreference = <K extends keyof NotificationPreferences>(key: K, value: NotificationPreferences[K]) =>
+    setPreferences((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-primary" />
+          Push Notifications
+        </CardTitle>
+        <CardDescription>
+          Get your day's tasks, reminders, rejected completions and leave decisions as notifications on your phone or
+          computer. Install Momentum from your browser's menu ("Add to Home Screen") for the best experience.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>This device</Label>
+                <p className="text-xs text-muted-foreground">
+                  {!pushSupported
+                    ? "This browser doesn't support push notifications. On iPhone, add Momentum to your Home Screen first."
+                    : deviceEnabled
+                      ? "Notifications are on for this device"
+                      : "Notifications are off for this device"}
+                </p>
+              </div>
+              {pushSupported && (
+                <Button variant="outline" onClick={handleToggleDevice} disabled={updatingDevice}>
+                  {deviceEnabled ? <BellOff className="w-4 h-4 mr-2" /> : <Bell className="w-4 h-4 mr-2" />}
+                  {deviceEnabled ? "Turn Off" : "Turn On"}
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="push-daily-tasks">Your tasks today</Label>
+                  <p className="text-xs text-muted-foreground">A morning summary of the tasks due that day</p>
+                </div>
+                <Switch
+                  id="push-daily-tasks"
+                  checked={preferences.push_daily_tasks}
+                  onCheckedChange={(checked) => updatePreference("push_daily_tasks", checked)}
+                  disabled={saving}
+                />
+              </div>
+              {preferences.push_daily_tasks && (
+                <Input
+                  type="time"
+                  value={preferences.daily_tasks_time}
+                  onChange={(e) => updatePreference("daily_tasks_time", e.target.value)}
+                  disabled={saving}
+                  className="w-32"
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="push-due-reminders">Due reminders</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Tasks still open before the daily summary email goes out
+                  </p>
+                </div>
+                <Switch
+                  id="push-due-reminders"
+                  checked={preferences.push_due_reminders}
+                  onCheckedChange={(checked) => updatePreference("push_due_reminders", checked)}
+                  disabled={saving}
+                />
+              </div>
+              {preferences.push_due_reminders && (
+                <Select
+                  value={String(preferences.due_reminder_minutes)}
+                  onValueChange={(value) => updatePreference("due_reminder_minutes", Number(value))}
+                  disabled={saving}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REMINDER_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? "s" : ""}`} before
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="push-rejections">Rejected completions</Label>
+                <p className="text-xs text-muted-foreground">When your manager rejects a task you completed</p>
+              </div>
+              <Switch
+                id="push-rejections"
+                checked={preferences.push_rejections}
+                onCheckedChange={(checked) => updatePreference("push_rejections", checked)}
+                disabled={saving}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="push-leave-decisions">Leave decisions</Label>
+                <p className="text-xs text-muted-foreground">When your leave request is approved or rejected</p>
+              </div>
+              <Switch
+                id="push-leave-decisions"
+                checked={preferences.push_leave_decisions}
+                onCheckedChange={(checked) => updatePreference("push_leave_decisions", checked)}
+                disabled={saving}
+              />
+            </div>
+
+            {canManageTeam && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="push-escalations">Escalations</Label>
+                  <p className="text-xs text-muted-foreground">
+                    When a problem in your team is escalated to you
+                  </p>
+                </div>
+                <Switch
+                  id="push-escalations"
+                  checked={preferences.push_escalations}
+                  onCheckedChange={(checked) => updatePreference("push_escalations", checked)}
+                  disabled={saving}
+                />
+              </div>
+            )}
+
+            <Button onClick={handleSave} disabled={saving} className="w-full md:w-auto">
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? "Saving..." : "Save Preferences"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
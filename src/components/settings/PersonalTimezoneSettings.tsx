@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSystemSettings } from "@/hooks/useSystemSettings";
+import { TIMEZONE_OPTIONS } from "@/lib/dateUtils";
+import { EMAIL_LANGUAGE_OPTIONS, getEmailLanguageLabel } from "@/lib/emailTemplates";
+import { Globe, Save } from "lucide-react";
+
+const ORGANIZATION_DEFAULT = "organization";
+
+interface PersonalTimezoneSettingsProps {
+  user: User;
+}
+
+export const PersonalTimezoneSettings = ({ user }: PersonalTimezoneSettingsProps) => {
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [selectedTimezone, setSelectedTimezone] = useState<string>(ORGANIZATION_DEFAULT);
+  const [selectedEmailLanguage, setSelectedEmailLanguage] = useState<string>(ORGANIZATION_DEFAULT);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { settings } = useSystemSettings(organizationId);
+
+  useEffect(() => {
+    fetchUserTimezone();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.id]);
+
+  const fetchUserTimezone = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("users")
+        .select("organization_id, timezone, email_language")
+        .eq("id", user.id)
+        .single();
+
+      if (error) throw error;
+
+      setOrganizationId(data?.organization_id || null);
+      setSelectedTimezone(data?.timezone || ORGANIZATION_DEFAULT);
+      setSelectedEmailLanguage(data?.email_language || ORGANIZATION_DEFAULT);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch timezone",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+
+      const { error } = await supabase
+        .from("users")
+        .update({
+          timezone: selectedTimezone === ORGANIZATION_DEFAULT ? null : selectedTimezone,
+          email_language: selectedEmailLanguage === ORGANIZATION_DEFAULT ? null : selectedEmailLanguage,
+        })
+        .eq("id", user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Your timezone and email language have been updated",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save timezone",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const organizationTimezoneLabel =
+    TIMEZONE_OPTIONS.find((tz) => tz.value === settings.timezone)?.label || settings.timezone;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="w-5 h-5 text-primary" />
+          My Timezone & Language
+        </CardTitle>
+        <CardDescription>
+          Your tasks start and end each day in this timezone, and your emails are written in this language.
+          If not set, the organization's are used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="personal-timezone">Timezone</Label>
+              <Select value={selectedTimezone} onValueChange={setSelectedTimezone} disabled={saving}>
+                <SelectTrigger id="personal-timezone">
+                  <SelectValue placeholder="Select timezone" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ORGANIZATION_DEFAULT}>
+                    Organization default ({organizationTimezoneLabel})
+                  </SelectItem>
+                  {TIMEZONE_OPTIONS.map((tz) => (
+                    <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="personal-email-language">Email Language</Label>
+              <Select value={selectedEmailLanguage} onValueChange={setSelectedEmailLanguage} disabled={saving}>
+                <SelectTrigger id="personal-email-language">
+                  <SelectValue placeholder="Select language" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ORGANIZATION_DEFAULT}>
+                    Organization default ({getEmailLanguageLabel(settings.email_language)})
+                  </SelectItem>
+                  {EMAIL_LANGUAGE_OPTIONS.map((l) => (
+                    <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button onClick={handleSave} disabled={saving} className="w-full md:w-auto">
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
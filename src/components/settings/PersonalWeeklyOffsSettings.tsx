@@ -8,9 +8,8 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useUserRole } from "@/hooks/useUserRole";
 import { Calendar, Save, Lock } from "lucide-react";
-import type { Database } from "@/integrations/supabase/types";
-
-type DayOfWeek = Database["public"]["Enums"]["day_of_week"];
+import { WeeklyOffPatternFields } from "@/components/holidays/WeeklyOffPatternFields";
+import { describeWeeklyOff, everyWeekPattern, type DayOfWeek, type WeeklyOffPattern } from "@/lib/weeklyOffs";
 
 const DAYS_OF_WEEK: { value: DayOfWeek; label: string }[] = [
   { value: "monday", label: "Monday" },
@@ -27,7 +26,7 @@ interface PersonalWeeklyOffsSettingsProps {
 }
 
 export const PersonalWeeklyOffsSettings = ({ user }: PersonalWeeklyOffsSettingsProps) => {
-  const [selectedDays, setSelectedDays] = useState<DayOfWeek[]>([]);
+  const [selectedOffs, setSelectedOffs] = useState<WeeklyOffPattern[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
@@ -43,12 +42,12 @@ export const PersonalWeeklyOffsSettings = ({ user }: PersonalWeeklyOffsSettingsP
       setLoading(true);
       const { data, error } = await supabase
         .from("user_weekly_offs")
-        .select("day_of_week")
+        .select("day_of_week, weeks_of_month, week_interval, anchor_date")
         .eq("user_id", user.id);
 
       if (error) throw error;
 
-      setSelectedDays((data || []).map((wo) => wo.day_of_week));
+      setSelectedOffs(data || []);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -61,10 +60,16 @@ export const PersonalWeeklyOffsSettings = ({ user }: PersonalWeeklyOffsSettingsP
   };
 
   const toggleDay = (day: DayOfWeek) => {
-    setSelectedDays((prev) =>
-      prev.includes(day)
-        ? prev.filter((d) => d !== day)
-        : [...prev, day]
+    setSelectedOffs((prev) =>
+      prev.some((off) => off.day_of_week === day)
+        ? prev.filter((off) => off.day_of_week !== day)
+        : [...prev, everyWeekPattern(day)]
+    );
+  };
+
+  const updatePattern = (pattern: WeeklyOffPattern) => {
+    setSelectedOffs((prev) =>
+      prev.map((off) => (off.day_of_week === pattern.day_of_week ? pattern : off))
     );
   };
 
@@ -79,13 +84,16 @@ export const PersonalWeeklyOffsSettings = ({ user }: PersonalWeeklyOffsSettingsP
         .eq("user_id", user.id);
 
       // Insert new weekly offs
-      if (selectedDays.length > 0) {
+      if (selectedOffs.length > 0) {
         const { error } = await supabase
           .from("user_weekly_offs")
           .insert(
-            selectedDays.map((day) => ({
+            selectedOffs.map((off) => ({
               user_id: user.id,
-              day_of_week: day,
+              day_of_week: off.day_of_week,
+              weeks_of_month: off.weeks_of_month,
+              week_interval: off.week_interval,
+              anchor_date: off.anchor_date,
             }))
           );
 
@@ -135,16 +143,16 @@ export const PersonalWeeklyOffsSettings = ({ user }: PersonalWeeklyOffsSettingsP
               </div>
             </div>
 
-            {selectedDays.length > 0 ? (
+            {selectedOffs.length > 0 ? (
               <div className="p-4 bg-muted rounded-lg">
                 <p className="text-sm font-medium mb-2">Your current weekly offs:</p>
                 <div className="flex flex-wrap gap-2">
-                  {selectedDays.map((day) => (
+                  {selectedOffs.map((off) => (
                     <span
-                      key={day}
+                      key={off.day_of_week}
                       className="px-3 py-1 bg-background rounded-md text-sm border"
                     >
-                      {DAYS_OF_WEEK.find((d) => d.value === day)?.label}
+                      {describeWeeklyOff(off)}
                     </span>
                   ))}
                 </div>
@@ -161,35 +169,47 @@ export const PersonalWeeklyOffsSettings = ({ user }: PersonalWeeklyOffsSettingsP
           <div className="space-y-6">
             <div className="space-y-3">
               <Label>Select your weekly off days</Label>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                {DAYS_OF_WEEK.map((day) => (
-                  <div key={day.value} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={day.value}
-                      checked={selectedDays.includes(day.value)}
-                      onCheckedChange={() => toggleDay(day.value)}
-                    />
-                    <Label
-                      htmlFor={day.value}
-                      className="text-sm font-normal cursor-pointer"
-                    >
-                      {day.label}
-                    </Label>
-                  </div>
-                ))}
+              <div className="space-y-3 max-w-xl">
+                {DAYS_OF_WEEK.map((day) => {
+                  const off = selectedOffs.find((o) => o.day_of_week === day.value);
+                  return (
+                    <div key={day.value} className="grid grid-cols-[8rem_1fr] items-start gap-3">
+                      <div className="flex items-center space-x-2 pt-1.5">
+                        <Checkbox
+                          id={day.value}
+                          checked={!!off}
+                          onCheckedChange={() => toggleDay(day.value)}
+                        />
+                        <Label
+                          htmlFor={day.value}
+                          className="text-sm font-normal cursor-pointer"
+                        >
+                          {day.label}
+                        </Label>
+                      </div>
+                      {off && (
+                        <WeeklyOffPatternFields
+                          value={off}
+                          onChange={updatePattern}
+                          idPrefix={`my-${day.value}`}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
-            {selectedDays.length > 0 && (
+            {selectedOffs.length > 0 && (
               <div className="p-4 bg-muted rounded-lg">
                 <p className="text-sm font-medium mb-2">Selected weekly offs:</p>
                 <div className="flex flex-wrap gap-2">
-                  {selectedDays.map((day) => (
+                  {selectedOffs.map((off) => (
                     <span
-                      key={day}
+                      key={off.day_of_week}
                       className="px-3 py-1 bg-background rounded-md text-sm border"
                     >
-                      {DAYS_OF_WEEK.find((d) => d.value === day)?.label}
+                      {describeWeeklyOff(off)}
                     </span>
                   ))}
                 </div>
@@ -15,6 +15,9 @@ interface Task {
   name: string;
   category: string | null;
   benchmark: number | null;
+  recurrence_type: string;
+  start_date: string;
+  due_date: string | null;
 }
 
 interface BulkUpdateDialogProps {
@@ -36,6 +39,10 @@ export const BulkUpdateDialog = ({
   const [benchmark, setBenchmark] = useState<string>("");
   const [updateCategory, setUpdateCategory] = useState(false);
   const [updateBenchmark, setUpdateBenchmark] = useState(false);
+  const [startDate, setStartDate] = useState<string>("");
+  const [dueDate, setDueDate] = useState<string>("");
+  const [updateStartDate, setUpdateStartDate] = useState(false);
+  const [updateDueDate, setUpdateDueDate] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const { toast } = useToast();
 
@@ -46,11 +53,19 @@ export const BulkUpdateDialog = ({
       setBenchmark("");
       setUpdateCategory(false);
       setUpdateBenchmark(false);
+      setStartDate("");
+      setDueDate("");
+      setUpdateStartDate(false);
+      setUpdateDueDate(false);
     }
   }, [open, tasks]);
 
+  // Due dates only apply to one-time tasks
+  const oneTimeTasks = tasks.filter((t) => t.recurrence_type === "none");
+  const hasChanges = updateCategory || updateBenchmark || updateStartDate || updateDueDate;
+
   const handleSubmit = async () => {
-    if (!updateCategory && !updateBenchmark) {
+    if (!hasChanges) {
       toast({
         title: "No changes selected",
         description: "Please select at least one field to update",
@@ -62,7 +77,7 @@ export const BulkUpdateDialog = ({
     try {
       setSubmitting(true);
 
-      const updates: { category?: string | null; benchmark?: number | null } = {};
+      const updates: { category?: string | null; benchmark?: number | null; start_date?: string } = {};
 
       if (updateCategory) {
         updates.category = category.trim() || null;
@@ -81,13 +96,53 @@ export const BulkUpdateDialog = ({
         updates.benchmark = benchmarkNum;
       }
 
-      const { error } = await supabase
-        .from("tasks")
-        .update(updates)
-        .in("id", tasks.map((t) => t.id))
-        .eq("created_by", userId);
+      if (updateStartDate) {
+        if (!startDate) {
+          toast({
+            title: "Invalid start date",
+            description: "Please choose a start date",
+            variant: "destructive",
+          });
+          return;
+        }
+        updates.start_date = startDate;
+      }
+
+      // One payload per task with both dates, so tasks_due_date_after_start_date is checked
+      // against the final dates rather than half of the change
+      const taskUpdates = tasks.map((task) => ({
+        task,
+        payload: {
+          ...updates,
+          ...(updateDueDate && task.recurrence_type === "none" ? { due_date: dueDate || null } : {}),
+        },
+      }));
+
+      const invalidTask = taskUpdates.find(({ task, payload }) => {
+        const newStartDate = payload.start_date ?? task.start_date;
+        const newDueDate = "due_date" in payload ? payload.due_date : task.due_date;
+        return newDueDate && newStartDate && newDueDate < newStartDate;
+      });
+      if (invalidTask) {
+        toast({
+          title: "Invalid dates",
+          description: `The due date of "${invalidTask.task.name}" would be before its start date`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      for (const { task, payload } of taskUpdates) {
+        if (Object.keys(payload).length === 0) continue;
 
-      if (error) throw error;
+        const { error } = await supabase
+          .from("tasks")
+          .update(payload)
+          .eq("id", task.id)
+          .eq("created_by", userId);
+
+        if (error) throw error;
+      }
 
       const changes: string[] = [];
       if (updateCategory) {
@@ -96,6 +151,12 @@ export const BulkUpdateDialog = ({
       if (updateBenchmark) {
         changes.push(`benchmark: ${updates.benchmark || "removed"}`);
       }
+      if (updateStartDate) {
+        changes.push(`start date: ${updates.start_date}`);
+      }
+      if (updateDueDate) {
+        changes.push(`due date: ${dueDate || "removed"} (${oneTimeTasks.length} one-time task(s))`);
+      }
 
       toast({
         title: "Tasks updated successfully",
@@ -188,13 +249,62 @@ export const BulkUpdateDialog = ({
               />
             )}
           </div>
+
+          {/* Start Date Update */}
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="update-start-date"
+                checked={updateStartDate}
+                onCheckedChange={(checked) => setUpdateStartDate(checked === true)}
+              />
+              <Label htmlFor="update-start-date" className="font-normal cursor-pointer">
+                Update Start Date
+              </Label>
+            </div>
+            {updateStartDate && (
+              <Input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={submitting}
+              />
+            )}
+          </div>
+
+          {/* Due Date Update (one-time tasks only) */}
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="update-due-date"
+                checked={updateDueDate}
+                onCheckedChange={(checked) => setUpdateDueDate(checked === true)}
+                disabled={oneTimeTasks.length === 0}
+              />
+              <Label htmlFor="update-due-date" className="font-normal cursor-pointer">
+                Update Due Date
+              </Label>
+              <span className="text-xs text-muted-foreground">
+                (applies to {oneTimeTasks.length} one-time task{oneTimeTasks.length !== 1 ? "s" : ""})
+              </span>
+            </div>
+            {updateDueDate && (
+              <Input
+                type="date"
+                placeholder="Leave empty to remove"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                disabled={submitting}
+              />
+            )}
+          </div>
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
             Cancel
           </Button>
-          <Button onClick={handleSubmit} disabled={submitting || (!updateCategory && !updateBenchmark)}>
+          <Button onClick={handleSubmit} disabled={submitting || !hasChanges}>
             {submitting ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -9,6 +9,13 @@ import { supabase } from "@/integrations/supabase/client";
 import * as XLSX from "xlsx";
 import { useOrganizationMembers } from "@/hooks/useOrganizationMembers";
 import { useSystemSettings } from "@/hooks/useSystemSettings";
+import { formatDateForDB } from "@/lib/dateUtils";
+import {
+  createRecurrenceRule,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  type RecurrenceFrequency,
+} from "@/lib/recurrenceRule";
 
 interface ExcelUploadDialogProps {
   open: boolean;
@@ -23,13 +30,34 @@ interface ParsedTask {
   category?: string;
   benchmark?: number;
   recurrence_type: string;
-  recurrence_config?: any;
+  recurrence_rule?: string;
+  start_date?: string;
+  due_date?: string;
+  non_working_day_policy?: string;
   assignees?: string[]; // Array of user IDs or emails
   dependencies?: string[]; // Array of task names (will be resolved to IDs)
   rowNumber: number;
   errors?: string[];
 }
 
+/**
+ * Parses a date cell as 'yyyy-MM-dd'. Excel date cells arrive as serial numbers,
+ * text cells must already be in 'yyyy-MM-dd' form. Returns null for invalid values.
+ */
+const parseDateCell = (value: unknown): string | null => {
+  if (typeof value === "number") {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed) return null;
+    return `${parsed.y}-${String(parsed.m).padStart(2, "0")}-${String(parsed.d).padStart(2, "0")}`;
+  }
+
+  const str = String(value).trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(str)) return null;
+  const date = new Date(`${str}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().split("T")[0] !== str) return null;
+  return str;
+};
+
 export const ExcelUploadDialog = ({ open, onOpenChange, onSuccess, currentUserId }: ExcelUploadDialogProps) => {
   const [file, setFile] = useState<File | null>(null);
   const [parsedTasks, setParsedTasks] = useState<ParsedTask[]>([]);
@@ -65,7 +93,7 @@ export const ExcelUploadDialog = ({ open, onOpenChange, onSuccess, currentUserId
   }, [open, currentUserId]);
 
   const { members: organizationMembers = [], loading: membersLoading } = useOrganizationMembers(userProfile?.organization_id || null);
-  const { settings, loading: settingsLoading } = useSystemSettings(userProfile?.organization_id || null);
+  const { settings, timezone, loading: settingsLoading } = useSystemSettings(userProfile?.organization_id || null, currentUserId);
 
   const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
@@ -163,38 +191,94 @@ export const ExcelUploadDialog = ({ open, onOpenChange, onSuccess, currentUserId
             const validRecurrenceTypes = ["none", "daily", "weekly", "monthly", "yearly", "custom"];
             const recurrence_type = validRecurrenceTypes.includes(recurrenceTypeStr) ? recurrenceTypeStr : "none";
 
-            // Recurrence Config (parse JSON if provided)
-            let recurrence_config: any = undefined;
-            const recurrenceConfigStr = String(row["Recurrence Config"] || row["recurrence_config"] || "").trim();
-            if (recurrenceConfigStr && recurrence_type !== "none") {
-              try {
-                recurrence_config = JSON.parse(recurrenceConfigStr);
-              } catch {
-                // If not JSON, try to parse simple formats
-                if (recurrence_type === "weekly") {
-                  // Try to parse days like "Mon,Wed,Fri" or "1,3,5"
-                  const daysStr = recurrenceConfigStr;
-                  const dayMap: Record<string, number> = {
-                    "sun": 0, "mon": 1, "tue": 2, "wed": 3, "thu": 4, "fri": 5, "sat": 6,
-                    "sunday": 0, "monday": 1, "tuesday": 2, "wednesday": 3, "thursday": 4, "friday": 5, "saturday": 6
-                  };
-                  const days = daysStr.split(",").map(d => {
-                    const trimmed = d.trim().toLowerCase();
-                    if (dayMap[trimmed] !== undefined) return dayMap[trimmed];
-                    const num = parseInt(trimmed);
-                    if (!isNaN(num) && num >= 0 && num <= 6) return num;
-                    return null;
-                  }).filter(d => d !== null) as number[];
-                  if (days.length > 0) {
-                    recurrence_config = { days };
-                  }
-                } else if (recurrence_type === "monthly") {
-                  // Try to parse day of month
-                  const dayOfMonth = parseInt(recurrenceConfigStr);
-                  if (!isNaN(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31) {
-                    recurrence_config = { monthlyType: "date", dayOfMonth };
-                  }
+            // Recurrence Rule (RRULE text, or a shorthand for weekly/monthly tasks)
+            let recurrence_rule: string | undefined = undefined;
+            const recurrenceRuleStr = String(
+              row["Recurrence Rule"] || row["recurrence_rule"] || row["Recurrence Config"] || ""
+            ).trim();
+            if (recurrence_type !== "none") {
+              const defaultFreq: RecurrenceFrequency = recurrence_type === "custom" ? "daily" : recurrence_type as RecurrenceFrequency;
+              if (/^(RRULE:|FREQ=)/i.test(recurrenceRuleStr)) {
+                const rule = parseRecurrenceRule(recurrenceRuleStr);
+                if (!rule) {
+                  taskErrors.push("Recurrence Rule is not a valid RRULE");
+                } else if (recurrence_type !== "custom" && rule.freq !== recurrence_type) {
+                  taskErrors.push(`Recurrence Rule frequency does not match Recurrence Type "${recurrence_type}"`);
+                } else {
+                  recurrence_rule = serializeRecurrenceRule(rule);
+                }
+              } else if (recurrenceRuleStr && recurrence_type === "weekly") {
+                // Try to parse days like "Mon,Wed,Fri" or "1,3,5"
+                const dayMap: Record<string, number> = {
+                  "sun": 0, "mon": 1, "tue": 2, "wed": 3, "thu": 4, "fri": 5, "sat": 6,
+                  "sunday": 0, "monday": 1, "tuesday": 2, "wednesday": 3, "thursday": 4, "friday": 5, "saturday": 6
+                };
+                const days = recurrenceRuleStr.split(",").map(d => {
+                  const trimmed = d.trim().toLowerCase();
+                  if (dayMap[trimmed] !== undefined) return dayMap[trimmed];
+                  const num = parseInt(trimmed);
+                  if (!isNaN(num) && num >= 0 && num <= 6) return num;
+                  return null;
+                }).filter(d => d !== null) as number[];
+                if (days.length > 0) {
+                  recurrence_rule = serializeRecurrenceRule({
+                    ...createRecurrenceRule("weekly"),
+                    byWeekday: Array.from(new Set(days)).sort(),
+                  });
                 }
+              } else if (recurrenceRuleStr && recurrence_type === "monthly") {
+                // Try to parse day of month
+                const dayOfMonth = parseInt(recurrenceRuleStr);
+                if (!isNaN(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31) {
+                  recurrence_rule = serializeRecurrenceRule({
+                    ...createRecurrenceRule("monthly"),
+                    byMonthDay: [dayOfMonth],
+                  });
+                }
+              }
+
+              // Anything else repeats with the type's default rule
+              if (!recurrence_rule && !taskErrors.some((e) => e.startsWith("Recurrence Rule"))) {
+                recurrence_rule = serializeRecurrenceRule(createRecurrenceRule(defaultFreq));
+              }
+            }
+
+            // Start Date / Due Date (yyyy-MM-dd or Excel date cells)
+            let start_date: string | undefined = undefined;
+            const startDateValue = row["Start Date"] ?? row["start_date"] ?? "";
+            if (String(startDateValue).trim()) {
+              const parsed = parseDateCell(startDateValue);
+              if (parsed) {
+                start_date = parsed;
+              } else {
+                taskErrors.push("Start Date must be a date in YYYY-MM-DD format");
+              }
+            }
+
+            let due_date: string | undefined = undefined;
+            const dueDateValue = row["Due Date"] ?? row["due_date"] ?? "";
+            if (String(dueDateValue).trim()) {
+              const parsed = parseDateCell(dueDateValue);
+              if (!parsed) {
+                taskErrors.push("Due Date must be a date in YYYY-MM-DD format");
+              } else if (recurrence_type !== "none") {
+                taskErrors.push("Due Date is only supported for one-time tasks");
+              } else if (start_date && parsed < start_date) {
+                taskErrors.push("Due Date cannot be before Start Date");
+              } else {
+                due_date = parsed;
+              }
+            }
+
+            // Holiday Policy: what happens to occurrences on non-working days (default "next")
+            let non_working_day_policy: string | undefined = undefined;
+            const policyStr = String(row["Holiday Policy"] || row["non_working_day_policy"] || "").trim().toLowerCase();
+            if (policyStr) {
+              const validPolicies = ["previous", "next", "skip", "ignore"];
+              if (validPolicies.includes(policyStr)) {
+                non_working_day_policy = policyStr;
+              } else {
+                taskErrors.push(`Holiday Policy must be one of: ${validPolicies.join(", ")}`);
               }
             }
 
@@ -221,7 +305,10 @@ export const ExcelUploadDialog = ({ open, onOpenChange, onSuccess, currentUserId
                 category,
                 benchmark,
                 recurrence_type,
-                recurrence_config,
+                recurrence_rule,
+                start_date,
+                due_date,
+                non_working_day_policy,
                 assignees,
                 dependencies,
                 rowNumber,
@@ -330,7 +417,11 @@ export const ExcelUploadDialog = ({ open, onOpenChange, onSuccess, currentUserId
               category: task.category || null,
               benchmark: task.benchmark || null,
               recurrence_type: task.recurrence_type,
-              recurrence_config: task.recurrence_config || null,
+              recurrence_rule: task.recurrence_rule || null,
+              // Tasks without a start date begin today in the uploader's timezone
+              start_date: task.start_date || formatDateForDB(new Date(), timezone),
+              due_date: task.due_date || null,
+              non_working_day_policy: (task.non_working_day_policy as "previous" | "next" | "skip" | "ignore") || "next",
               created_by: currentUserId,
             })
             .select()
@@ -497,7 +588,10 @@ export const ExcelUploadDialog = ({ open, onOpenChange, onSuccess, currentUserId
         "Category": "Development",
         "Benchmark": "10",
         "Recurrence Type": "weekly",
-        "Recurrence Config": '{"days": [1, 3, 5]}',
+        "Recurrence Rule": "RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR",
+        "Start Date": "2026-02-01",
+        "Due Date": "",
+        "Holiday Policy": "next",
         "Assignees": "user@example.com, another@example.com",
         "Dependencies": "",
       },
@@ -507,7 +601,10 @@ export const ExcelUploadDialog = ({ open, onOpenChange, onSuccess, currentUserId
         "Category": "Testing",
         "Benchmark": "",
         "Recurrence Type": "daily",
-        "Recurrence Config": "",
+        "Recurrence Rule": "",
+        "Start Date": "",
+        "Due Date": "",
+        "Holiday Policy": "",
         "Assignees": "",
         "Dependencies": "Example Task 1",
       },
@@ -605,6 +702,13 @@ export const ExcelUploadDialog = ({ open, onOpenChange, onSuccess, currentUserId
                     <div className="font-medium">
                       Row {task.rowNumber}: {task.name}
                     </div>
+                    {(task.start_date || task.due_date) && (
+                      <div className="text-muted-foreground">
+                        {task.start_date && <>Starts {task.start_date}</>}
+                        {task.start_date && task.due_date && " · "}
+                        {task.due_date && <>Due {task.due_date}</>}
+                      </div>
+                    )}
                     {task.errors && (
                       <div className="text-xs mt-1">
                         {task.errors.join(", ")}
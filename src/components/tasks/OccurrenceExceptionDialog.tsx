@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { TaskExceptionAction, TaskOccurrenceException } from "@/hooks/useTaskRecurrence";
+
+interface OccurrenceExceptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: TaskExceptionAction;
+  taskName: string;
+  occurrenceDate: string; // 'yyyy-MM-dd'
+  benchmark: number | null;
+  exception?: TaskOccurrenceException | null;
+  onSubmit: (values: {
+    action: TaskExceptionAction;
+    newDate: string | null;
+    benchmarkOverride: number | null;
+    reason: string | null;
+  }) => Promise<boolean>;
+}
+
+const TITLES: Record<TaskExceptionAction, string> = {
+  skip: "Skip Occurrence",
+  reschedule: "Reschedule Occurrence",
+  override: "Override Benchmark",
+};
+
+export const OccurrenceExceptionDialog = ({
+  open,
+  onOpenChange,
+  action,
+  taskName,
+  occurrenceDate,
+  benchmark,
+  exception,
+  onSubmit,
+}: OccurrenceExceptionDialogProps) => {
+  const [newDate, setNewDate] = useState("");
+  const [benchmarkOverride, setBenchmarkOverride] = useState("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // Reset form when dialog opens, starting from the existing exception if there is one
+  useEffect(() => {
+    if (open) {
+      setNewDate(exception?.new_date || "");
+      setBenchmarkOverride(exception?.benchmark_override?.toString() || "");
+      setReason(exception?.reason || "");
+      setError("");
+    }
+  }, [open, exception]);
+
+  const handleSubmit = async () => {
+    if (action === "reschedule") {
+      if (!newDate) {
+        setError("Please choose the new date");
+        return;
+      }
+      if (newDate === occurrenceDate) {
+        setError("The new date must differ from the scheduled date");
+        return;
+      }
+    }
+
+    const benchmarkNum = benchmarkOverride ? parseFloat(benchmarkOverride) : null;
+    if (benchmarkNum !== null && (isNaN(benchmarkNum) || benchmarkNum <= 0)) {
+      setError("Benchmark must be a positive number");
+      return;
+    }
+    if (action === "override" && benchmarkNum === null) {
+      setError("Please enter the benchmark for this occurrence");
+      return;
+    }
+
+    setSubmitting(true);
+    const success = await onSubmit({
+      action,
+      newDate: action === "reschedule" ? newDate : null,
+      benchmarkOverride: action === "skip" ? null : benchmarkNum,
+      reason: reason.trim() || null,
+    });
+    setSubmitting(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{TITLES[action]}</DialogTitle>
+          <DialogDescription>
+            <span className="font-medium text-foreground">{taskName}</span> scheduled for{" "}
+            {format(parseISO(occurrenceDate), "EEE, MMM d, yyyy")}. Only this occurrence is affected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {action === "reschedule" && (
+            <div className="space-y-2">
+              <Label htmlFor="exception-new-date">
+                New Date <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="exception-new-date"
+                type="date"
+                value={newDate}
+                onChange={(e) => {
+                  setNewDate(e.target.value);
+                  setError("");
+                }}
+              />
+            </div>
+          )}
+
+          {action !== "skip" && (
+            <div className="space-y-2">
+              <Label htmlFor="exception-benchmark">
+                Benchmark {action === "override" ? <span className="text-destructive">*</span> : "(optional)"}
+                {benchmark !== null && <span className="text-muted-foreground ml-1">(Usual: {benchmark})</span>}
+              </Label>
+              <Input
+                id="exception-benchmark"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder={action === "override" ? "Benchmark for this occurrence" : "Keep the usual benchmark"}
+                value={benchmarkOverride}
+                onChange={(e) => {
+                  setBenchmarkOverride(e.target.value);
+                  setError("");
+                }}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="exception-reason">Reason</Label>
+            <Textarea
+              id="exception-reason"
+              placeholder="Add a reason (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,28 +1,53 @@
+import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import {
+  createRecurrenceRule,
+  createWorkdayOfMonthRule,
+  resolveRecurrenceRule,
+  serializeRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/recurrenceRule";
 
 interface RecurrenceConfigProps {
   recurrenceType: string;
-  value: any;
-  onChange: (config: any) => void;
+  value: string | null; // RRULE/EXDATE text (tasks.recurrence_rule)
+  onChange: (rule: string | null) => void;
 }
 
 export const RecurrenceConfig = ({ recurrenceType, value, onChange }: RecurrenceConfigProps) => {
+  // Standard types expand with their own frequency; custom rules default to daily
+  const rule: RecurrenceRule =
+    resolveRecurrenceRule(recurrenceType, value) ||
+    createRecurrenceRule(recurrenceType === "custom" || recurrenceType === "none" ? "daily" : recurrenceType as RecurrenceFrequency);
+  const [endType, setEndType] = useState<string>(rule.until ? "on" : rule.count ? "after" : "never");
+  const [newExdate, setNewExdate] = useState("");
+
   if (recurrenceType === "none") return null;
 
-  const updateConfig = (updates: any) => {
-    onChange({ ...value, ...updates });
+  // The pickers edit plain weekdays and BYSETPOS; ordinal weekdays of an imported rule (2MO) are
+  // replaced once the weekdays or positions are changed
+  const updateRule = (updates: Partial<RecurrenceRule>) => {
+    const byNthWeekday = "byWeekday" in updates || "bySetPos" in updates ? [] : rule.byNthWeekday;
+    onChange(serializeRecurrenceRule({ ...rule, byNthWeekday, ...updates }));
   };
+  // An imported "2MO" shows in the pickers as the second Monday
+  const positionValue = (rule.bySetPos[0] ?? rule.byNthWeekday[0]?.nth)?.toString() || "1";
+  const weekdayValue = (rule.byWeekday[0] ?? rule.byNthWeekday[0]?.weekday)?.toString() || "1";
 
   const renderWeeklyConfig = () => (
     <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
       <Label>Repeat on</Label>
       <div className="grid grid-cols-7 gap-2">
         {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day, index) => {
-          const days = value?.days || [];
+          const days = rule.byWeekday;
           const dayNumber = index;
           return (
             <div key={day} className="flex flex-col items-center gap-2">
@@ -36,7 +61,7 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
                   const newDays = checked
                     ? [...days, dayNumber]
                     : days.filter((d: number) => d !== dayNumber);
-                  updateConfig({ days: newDays });
+                  updateRule({ byWeekday: [...newDays].sort() });
                 }}
               />
             </div>
@@ -47,7 +72,10 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
   );
 
   const renderMonthlyConfig = () => {
-    const monthlyType = value?.monthlyType || "date";
+    // Working-day rules also carry BYSETPOS (their calendar approximation), so check them first
+    const monthlyType = rule.workday
+      ? "workday"
+      : rule.bySetPos.length > 0 || rule.byNthWeekday.length > 0 ? "weekday" : "date";
     const positionOptions = [
       { value: "1", label: "First" },
       { value: "2", label: "Second" },
@@ -65,6 +93,19 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
       { value: "5", label: "Friday" },
       { value: "6", label: "Saturday" },
     ];
+    const workdayPositionOptions = [
+      ...["1st", "2nd", "3rd", "4th", "5th", "6th", "7th", "8th", "9th", "10th"].map((label, index) => ({
+        value: (index + 1).toString(),
+        label,
+      })),
+      { value: "-1", label: "Last" },
+      { value: "-2", label: "Second to last" },
+      { value: "-3", label: "Third to last" },
+    ];
+    const setWorkdayPosition = (position: number) => {
+      const { byWeekday, bySetPos, workday } = createWorkdayOfMonthRule(position);
+      updateRule({ byMonthDay: [], byWeekday, bySetPos, workday });
+    };
 
     return (
       <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
@@ -74,17 +115,22 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
           onValueChange={(monthlyType) => {
             // Reset relative pattern fields when switching to date mode
             if (monthlyType === "date") {
-              updateConfig({ 
-                monthlyType,
-                bysetpos: undefined,
-                byweekday: undefined,
+              updateRule({ 
+                bySetPos: [],
+                byWeekday: [],
+                byMonthDay: [rule.byMonthDay[0] || 1],
+                workday: null,
               });
+            } else if (monthlyType === "workday") {
+              // First working day by default
+              setWorkdayPosition(1);
             } else {
               // Set defaults for relative pattern
-              updateConfig({ 
-                monthlyType,
-                bysetpos: value?.bysetpos || [1],
-                byweekday: value?.byweekday || [1], // Monday by default
+              updateRule({ 
+                byMonthDay: [],
+                bySetPos: [1],
+                byWeekday: [1], // Monday by default
+                workday: null,
               });
             }
           }}
@@ -98,8 +144,8 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
                 min="1"
                 max="31"
                 className="w-20"
-                value={value?.dayOfMonth || 1}
-                onChange={(e) => updateConfig({ dayOfMonth: parseInt(e.target.value) || 1 })}
+                value={rule.byMonthDay[0] || 1}
+                onChange={(e) => updateRule({ byMonthDay: [parseInt(e.target.value) || 1] })}
                 disabled={monthlyType !== "date"}
               />
               of the month
@@ -110,10 +156,11 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
             <Label htmlFor="monthly-weekday" className="flex items-center gap-2">
               On the
               <Select
-                value={value?.bysetpos?.[0]?.toString() || "1"}
+                value={positionValue}
                 onValueChange={(pos) => {
-                  updateConfig({ 
-                    bysetpos: [parseInt(pos)],
+                  updateRule({ 
+                    bySetPos: [parseInt(pos)],
+                    byWeekday: [parseInt(weekdayValue)],
                   });
                 }}
                 disabled={monthlyType !== "weekday"}
@@ -130,10 +177,11 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
                 </SelectContent>
               </Select>
               <Select
-                value={value?.byweekday?.[0]?.toString() || "1"}
+                value={weekdayValue}
                 onValueChange={(day) => {
-                  updateConfig({ 
-                    byweekday: [parseInt(day)],
+                  updateRule({ 
+                    bySetPos: [parseInt(positionValue)],
+                    byWeekday: [parseInt(day)],
                   });
                 }}
                 disabled={monthlyType !== "weekday"}
@@ -152,26 +200,54 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
               of the month
             </Label>
           </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="workday" id="monthly-workday" />
+            <Label htmlFor="monthly-workday" className="flex items-center gap-2">
+              On the
+              <Select
+                value={rule.workday?.position?.toString() || "1"}
+                onValueChange={(pos) => setWorkdayPosition(parseInt(pos))}
+                disabled={monthlyType !== "workday"}
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workdayPositionOptions.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              working day of the month
+            </Label>
+          </div>
         </RadioGroup>
+        {monthlyType === "workday" && (
+          <p className="text-xs text-muted-foreground">
+            Working days exclude the assignee's weekly offs, public holidays and approved leave.
+          </p>
+        )}
       </div>
     );
   };
 
   const renderYearlyConfig = () => {
-    const yearlyType = value?.yearlyType || "date";
+    const yearlyType = rule.bySetPos.length > 0 || rule.byNthWeekday.length > 0 ? "weekday" : "date";
     const monthOptions = [
-      { value: "0", label: "January" },
-      { value: "1", label: "February" },
-      { value: "2", label: "March" },
-      { value: "3", label: "April" },
-      { value: "4", label: "May" },
-      { value: "5", label: "June" },
-      { value: "6", label: "July" },
-      { value: "7", label: "August" },
-      { value: "8", label: "September" },
-      { value: "9", label: "October" },
-      { value: "10", label: "November" },
-      { value: "11", label: "December" },
+      { value: "1", label: "January" },
+      { value: "2", label: "February" },
+      { value: "3", label: "March" },
+      { value: "4", label: "April" },
+      { value: "5", label: "May" },
+      { value: "6", label: "June" },
+      { value: "7", label: "July" },
+      { value: "8", label: "August" },
+      { value: "9", label: "September" },
+      { value: "10", label: "October" },
+      { value: "11", label: "November" },
+      { value: "12", label: "December" },
     ];
     const positionOptions = [
       { value: "1", label: "First" },
@@ -198,18 +274,18 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
           value={yearlyType}
           onValueChange={(yearlyType) => {
             if (yearlyType === "date") {
-              updateConfig({ 
-                yearlyType,
-                bysetpos: undefined,
-                byweekday: undefined,
-                bymonth: value?.bymonth || [0], // Keep or set default month
+              updateRule({ 
+                bySetPos: [],
+                byWeekday: [],
+                byMonth: rule.byMonth.length > 0 ? rule.byMonth : [1], // Keep or set default month
+                byMonthDay: [rule.byMonthDay[0] || 1],
               });
             } else {
-              updateConfig({ 
-                yearlyType,
-                bymonth: value?.bymonth || [0], // January by default
-                bysetpos: value?.bysetpos || [1],
-                byweekday: value?.byweekday || [1], // Monday by default
+              updateRule({ 
+                byMonthDay: [],
+                byMonth: rule.byMonth.length > 0 ? rule.byMonth : [1], // January by default
+                bySetPos: [1],
+                byWeekday: [1], // Monday by default
               });
             }
           }}
@@ -219,9 +295,9 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
             <Label htmlFor="yearly-date" className="flex items-center gap-2">
               On
               <Select
-                value={value?.bymonth?.[0]?.toString() || "0"}
+                value={rule.byMonth[0]?.toString() || "1"}
                 onValueChange={(month) => {
-                  updateConfig({ bymonth: [parseInt(month)] });
+                  updateRule({ byMonth: [parseInt(month)] });
                 }}
                 disabled={yearlyType !== "date"}
               >
@@ -241,8 +317,8 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
                 min="1"
                 max="31"
                 className="w-20"
-                value={value?.dayOfMonth || 1}
-                onChange={(e) => updateConfig({ dayOfMonth: parseInt(e.target.value) || 1 })}
+                value={rule.byMonthDay[0] || 1}
+                onChange={(e) => updateRule({ byMonthDay: [parseInt(e.target.value) || 1] })}
                 disabled={yearlyType !== "date"}
               />
             </Label>
@@ -252,9 +328,9 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
             <Label htmlFor="yearly-weekday" className="flex items-center gap-2">
               On the
               <Select
-                value={value?.bysetpos?.[0]?.toString() || "1"}
+                value={positionValue}
                 onValueChange={(pos) => {
-                  updateConfig({ bysetpos: [parseInt(pos)] });
+                  updateRule({ bySetPos: [parseInt(pos)], byWeekday: [parseInt(weekdayValue)] });
                 }}
                 disabled={yearlyType !== "weekday"}
               >
@@ -270,9 +346,9 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
                 </SelectContent>
               </Select>
               <Select
-                value={value?.byweekday?.[0]?.toString() || "1"}
+                value={weekdayValue}
                 onValueChange={(day) => {
-                  updateConfig({ byweekday: [parseInt(day)] });
+                  updateRule({ bySetPos: [parseInt(positionValue)], byWeekday: [parseInt(day)] });
                 }}
                 disabled={yearlyType !== "weekday"}
               >
@@ -289,9 +365,9 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
               </Select>
               of
               <Select
-                value={value?.bymonth?.[0]?.toString() || "0"}
+                value={rule.byMonth[0]?.toString() || "1"}
                 onValueChange={(month) => {
-                  updateConfig({ bymonth: [parseInt(month)] });
+                  updateRule({ byMonth: [parseInt(month)] });
                 }}
                 disabled={yearlyType !== "weekday"}
               >
@@ -314,8 +390,10 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
   };
 
   const renderIntervalConfig = () => {
-    const customFrequency = value?.frequency || "daily";
+    const customFrequency = rule.freq;
+    const countsWorkdays = rule.workday?.mode === "every";
     const frequencyLabel = 
+      countsWorkdays ? "working day(s)" :
       recurrenceType === "daily" ? "day(s)" : 
       recurrenceType === "weekly" ? "week(s)" :
       recurrenceType === "monthly" ? "month(s)" :
@@ -334,22 +412,14 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
               value={customFrequency}
               onValueChange={(frequency) => {
                 // Reset frequency-specific fields when changing frequency
-                const updates: any = { frequency };
-                if (frequency !== "weekly") {
-                  updates.days = undefined;
-                  updates.byweekday = undefined;
-                }
-                if (frequency !== "monthly") {
-                  updates.monthlyType = undefined;
-                  updates.dayOfMonth = undefined;
-                  updates.bysetpos = undefined;
-                  updates.bymonthday = undefined;
-                }
-                if (frequency !== "yearly") {
-                  updates.yearlyType = undefined;
-                  updates.bymonth = undefined;
-                }
-                updateConfig(updates);
+                updateRule({
+                  freq: frequency as RecurrenceFrequency,
+                  byWeekday: [],
+                  bySetPos: [],
+                  byMonthDay: [],
+                  byMonth: [],
+                  workday: null,
+                });
               }}
             >
               <SelectTrigger>
@@ -370,13 +440,27 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
             type="number"
             min="1"
             className="w-20"
-            value={value?.interval || 1}
-            onChange={(e) => updateConfig({ interval: parseInt(e.target.value) || 1 })}
+            value={rule.interval}
+            onChange={(e) => updateRule({ interval: parseInt(e.target.value) || 1 })}
           />
           <span className="text-sm text-muted-foreground">
             {frequencyLabel}
           </span>
         </div>
+        {customFrequency === "daily" && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="count-workdays"
+              checked={countsWorkdays}
+              onCheckedChange={(checked) => {
+                updateRule({ workday: checked ? { mode: "every", position: null } : null });
+              }}
+            />
+            <Label htmlFor="count-workdays" className="text-sm font-normal">
+              Count working days only (skip weekly offs, holidays and leave)
+            </Label>
+          </div>
+        )}
       </div>
     );
   };
@@ -385,8 +469,17 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
     <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
       <Label>Ends</Label>
       <RadioGroup
-        value={value?.endType || "never"}
-        onValueChange={(endType) => updateConfig({ endType })}
+        value={endType}
+        onValueChange={(type) => {
+          setEndType(type);
+          if (type === "never") {
+            updateRule({ until: null, count: null });
+          } else if (type === "on") {
+            updateRule({ count: null });
+          } else {
+            updateRule({ until: null, count: rule.count || 1 });
+          }
+        }}
       >
         <div className="flex items-center space-x-2">
           <RadioGroupItem value="never" id="end-never" />
@@ -399,8 +492,9 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
             <Input
               type="date"
               className="w-40"
-              value={value?.endDate || ""}
-              onChange={(e) => updateConfig({ endDate: e.target.value })}
+              value={rule.until || ""}
+              onChange={(e) => updateRule({ until: e.target.value || null, count: null })}
+              disabled={endType !== "on"}
             />
           </Label>
         </div>
@@ -412,8 +506,9 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
               type="number"
               min="1"
               className="w-20"
-              value={value?.occurrences || 1}
-              onChange={(e) => updateConfig({ occurrences: parseInt(e.target.value) })}
+              value={rule.count || 1}
+              onChange={(e) => updateRule({ count: parseInt(e.target.value) || 1, until: null })}
+              disabled={endType !== "after"}
             />
             occurrences
           </Label>
@@ -422,8 +517,50 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
     </div>
   );
 
+  const renderExdateConfig = () => (
+    <div className="space-y-4 p-4 border rounded-lg bg-muted/30">
+      <Label>Skip dates</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          className="w-40"
+          value={newExdate}
+          onChange={(e) => setNewExdate(e.target.value)}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!newExdate || rule.exdates.includes(newExdate)}
+          onClick={() => {
+            updateRule({ exdates: [...rule.exdates, newExdate].sort() });
+            setNewExdate("");
+          }}
+        >
+          Add
+        </Button>
+      </div>
+      {rule.exdates.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {rule.exdates.map((date) => (
+            <Badge key={date} variant="secondary" className="gap-1">
+              {date}
+              <button
+                type="button"
+                onClick={() => updateRule({ exdates: rule.exdates.filter((d) => d !== date) })}
+                aria-label={`Remove ${date}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   // Determine which configs to show for custom recurrence
-  const customFrequency = recurrenceType === "custom" ? (value?.frequency || "daily") : null;
+  const customFrequency = recurrenceType === "custom" ? rule.freq : null;
 
   return (
     <div className="space-y-4">
@@ -455,6 +592,7 @@ export const RecurrenceConfig = ({ recurrenceType, value, onChange }: Recurrence
         </>
       )}
       {recurrenceType !== "none" && renderEndConfig()}
+      {recurrenceType !== "none" && renderExdateConfig()}
     </div>
   );
 };
@@ -22,6 +22,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { cn } from "@/lib/utils";
+import { formatDateForDB } from "@/lib/dateUtils";
+import { createRecurrenceRule, resolveRecurrenceRule, serializeRecurrenceRule } from "@/lib/recurrenceRule";
 
 const taskSchema = z.object({
   name: z.string().trim().min(1, "Task name is required").max(200, "Task name must be less than 200 characters"),
@@ -29,7 +31,16 @@ const taskSchema = z.object({
   category: z.string().trim().max(100).optional(),
   benchmark: z.number().positive("Benchmark must be positive").optional().nullable(),
   recurrence_type: z.enum(["none", "daily", "weekly", "monthly", "yearly", "custom"]),
-  recurrence_config: z.any().optional(),
+  recurrence_rule: z.string().optional().nullable(),
+  start_date: z.string().optional(),
+  due_date: z.string().optional().nullable(),
+  due_time: z.string().optional().nullable(),
+  grace_minutes: z.number().int("Grace period must be whole minutes").min(0, "Grace period cannot be negative").max(1440, "Grace period must be at most a day"),
+  non_working_day_policy: z.enum(["previous", "next", "skip", "ignore"]),
+  missed_task_policy: z.enum(["carry_over", "not_done"]),
+}).refine((data) => !data.due_date || !data.start_date || data.due_date >= data.start_date, {
+  message: "Due date cannot be before the start date",
+  path: ["due_date"],
 });
 
 type TaskFormValues = z.infer<typeof taskSchema>;
@@ -41,7 +52,13 @@ interface Task {
   category: string | null;
   benchmark: number | null;
   recurrence_type: string;
-  recurrence_config: any;
+  recurrence_rule: string | null;
+  start_date?: string | null;
+  due_date?: string | null;
+  due_time?: string | null;
+  grace_minutes?: number;
+  non_working_day_policy?: string | null;
+  missed_task_policy?: string | null;
 }
 
 interface TaskCreateDialogProps {
@@ -90,7 +107,7 @@ export const TaskCreateDialog = ({ open, onOpenChange, onSuccess, taskToEdit }:
 
   // Call hooks unconditionally (React requirement) but with safe defaults
   const { members: organizationMembers = [], loading: membersLoading } = useOrganizationMembers(userProfile?.organization_id || null);
-  const { settings: systemSettings, loading: settingsLoading } = useSystemSettings(userProfile?.organization_id || null);
+  const { settings: systemSettings, timezone, loading: settingsLoading } = useSystemSettings(userProfile?.organization_id || null, currentUserId || null);
   
   // Provide safe defaults for systemSettings
   const safeSystemSettings = systemSettings || {
@@ -111,7 +128,13 @@ export const TaskCreateDialog = ({ open, onOpenChange, onSuccess, taskToEdit }:
       category: "",
       benchmark: undefined,
       recurrence_type: "none",
-      recurrence_config: null,
+      recurrence_rule: null,
+      start_date: "",
+      due_date: null,
+      due_time: null,
+      grace_minutes: 0,
+      non_working_day_policy: "next",
+      missed_task_policy: "carry_over",
     },
   });
 
@@ -238,7 +261,14 @@ export const TaskCreateDialog = ({ open, onOpenChange, onSuccess, taskToEdit }:
         category: taskToEdit.category || "",
         benchmark: taskToEdit.benchmark || undefined,
         recurrence_type: taskToEdit.recurrence_type as any,
-        recurrence_config: taskToEdit.recurrence_config,
+        recurrence_rule: taskToEdit.recurrence_rule,
+        start_date: taskToEdit.start_date || "",
+        due_date: taskToEdit.due_date || null,
+        // Times come back as HH:mm:ss; the time input works in HH:mm
+        due_time: taskToEdit.due_time?.slice(0, 5) || null,
+        grace_minutes: taskToEdit.grace_minutes ?? 0,
+        non_working_day_policy: (taskToEdit.non_working_day_policy as TaskFormValues["non_working_day_policy"]) || "next",
+        missed_task_policy: (taskToEdit.missed_task_policy as TaskFormValues["missed_task_policy"]) || "carry_over",
       });
       // Load existing assignments and dependencies for edit mode
       loadExistingAssignments();
@@ -250,7 +280,13 @@ export const TaskCreateDialog = ({ open, onOpenChange, onSuccess, taskToEdit }:
         category: "",
         benchmark: undefined,
         recurrence_type: "none",
-        recurrence_config: null,
+        recurrence_rule: null,
+        start_date: "",
+        due_date: null,
+        due_time: null,
+        grace_minutes: 0,
+        non_working_day_policy: "next",
+        missed_task_policy: "carry_over",
       });
       // Reset assignees and dependencies for new tasks
       setSelectedAssignees([]);
@@ -372,6 +408,17 @@ export const TaskCreateDialog = ({ open, onOpenChange, onSuccess, taskToEdit }:
         return;
       }
 
+      // Default the start date to today in the user's timezone
+      const startDate = values.start_date || formatDateForDB(new Date(), timezone);
+      // Due dates only apply to one-time tasks
+      const dueDate = values.recurrence_type === "none" ? values.due_date || null : null;
+      // Store the canonical RRULE text; a custom task with no rule yet repeats daily
+      const recurrenceRule = values.recurrence_type === "none"
+        ? null
+        : serializeRecurrenceRule(
+            resolveRecurrenceRule(values.recurrence_type, values.recurrence_rule) || createRecurrenceRule("daily")
+          );
+
       if (isEditMode && taskToEdit) {
         // Update existing task
         const { error: updateError } = await supabase
@@ -382,7 +429,13 @@ export const TaskCreateDialog = ({ open, onOpenChange, onSuccess, taskToEdit }:
             category: values.category || null,
             benchmark: values.benchmark || null,
             recurrence_type: values.recurrence_type,
-            recurrence_config: values.recurrence_config || null,
+            recurrence_rule: recurrenceRule,
+            start_date: startDate,
+            due_date: dueDate,
+            due_time: values.due_time || null,
+            grace_minutes: values.due_time ? values.grace_minutes : 0,
+            non_working_day_policy: values.non_working_day_policy,
+            missed_task_policy: values.missed_task_policy,
           })
           .eq("id", taskToEdit.id)
           .eq("created_by", user.id); // Ensure user owns the task
@@ -532,7 +585,13 @@ export const TaskCreateDialog = ({ open, onOpenChange, onSuccess, taskToEdit }:
             category: values.category || null,
             benchmark: values.benchmark || null,
             recurrence_type: values.recurrence_type,
-            recurrence_config: values.recurrence_config || null,
+            recurrence_rule: recurrenceRule,
+            start_date: startDate,
+            due_date: dueDate,
+            due_time: values.due_time || null,
+            grace_minutes: values.due_time ? values.grace_minutes : 0,
+            non_working_day_policy: values.non_working_day_policy,
+            missed_task_policy: values.missed_task_policy,
             created_by: user.id,
           })
           .select()
@@ -767,9 +826,153 @@ export const TaskCreateDialog = ({ open, onOpenChange, onSuccess, taskToEdit }:
             />
 
             <RecurrenceConfig 
+              key={form.watch("recurrence_type")}
               recurrenceType={form.watch("recurrence_type")}
-              value={form.watch("recurrence_config")}
-              onChange={(config) => form.setValue("recurrence_config", config)}
+              value={form.watch("recurrence_rule")}
+              onChange={(rule) => form.setValue("recurrence_rule", rule)}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormDescription>
+                      {form.watch("recurrence_type") === "none"
+                        ? "Day the task is due if no due date is set (defaults to today)"
+                        : "First day the schedule applies (defaults to today)"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("recurrence_type") === "none" && (
+                <FormField
+                  control={form.control}
+                  name="due_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Due Date</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          {...field}
+                          value={field.value || ""}
+                          min={form.watch("start_date") || undefined}
+                          onChange={(e) => field.onChange(e.target.value || null)}
+                        />
+                      </FormControl>
+                      <FormDescription>Optional, for one-time tasks</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="due_time"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due Time</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="time"
+                        {...field}
+                        value={field.value || ""}
+                        onChange={(e) => field.onChange(e.target.value || null)}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Optional, e.g. 10:00 for an opening checklist. Later completions count as late
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("due_time") && (
+                <FormField
+                  control={form.control}
+                  name="grace_minutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Grace Period (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={5}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>Still on time this long after the due time</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="non_working_day_policy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>If Due on a Non-Working Day</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select what happens" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="next">Move to the next working day</SelectItem>
+                      <SelectItem value="previous">Move to the previous working day</SelectItem>
+                      <SelectItem value="skip">Skip that occurrence</SelectItem>
+                      <SelectItem value="ignore">Keep it due on that day</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Applies when an occurrence falls on a weekly off, public holiday or the assignee's leave
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="missed_task_policy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>If Missed</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select what happens" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="carry_over">Carry over as pending until done</SelectItem>
+                      <SelectItem value="not_done">Mark as not done</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Applies at the end of the day to occurrences nobody updated
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
             />
 
             {/* Dependencies Section - Only show if we have user ID and tasks available */}
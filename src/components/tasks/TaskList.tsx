@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -16,7 +17,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar, Repeat, Target, Edit, Trash2, Plus, UserPlus, Users, CheckSquare, Square, Link2, FileSpreadsheet } from "lucide-react";
+import { Calendar, Clock, Repeat, Target, Edit, Trash2, Plus, UserPlus, Users, CheckSquare, Square, Link2, FileSpreadsheet } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { User } from "@supabase/supabase-js";
 import { TaskAssignDialog } from "./TaskAssignDialog";
@@ -33,9 +34,13 @@ interface Task {
   category: string | null;
   benchmark: number | null;
   recurrence_type: string;
-  recurrence_config: any;
+  recurrence_rule: string | null;
   is_active: boolean;
   created_at: string;
+  start_date: string;
+  due_date: string | null;
+  due_time: string | null;
+  grace_minutes: number;
 }
 
 interface TaskListProps {
@@ -497,6 +502,25 @@ export const TaskList = ({ user, onCreateClick }: TaskListProps) => {
                   <Repeat className="w-4 h-4" />
                   <span>{getRecurrenceLabel(task.recurrence_type)}</span>
                 </div>
+                {task.start_date && (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Calendar className="w-4 h-4" />
+                    <span>
+                      {task.recurrence_type === "none"
+                        ? `Due ${format(parseISO(task.due_date || task.start_date), "MMM d, yyyy")}`
+                        : `Starts ${format(parseISO(task.start_date), "MMM d, yyyy")}`}
+                    </span>
+                  </div>
+                )}
+                {task.due_time && (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Clock className="w-4 h-4" />
+                    <span>
+                      By {task.due_time.slice(0, 5)}
+                      {task.grace_minutes > 0 && ` (+${task.grace_minutes} min grace)`}
+                    </span>
+                  </div>
+                )}
                 {task.benchmark && (
                   <div className="flex items-center gap-2 text-muted-foreground">
                     <Target className="w-4 h-4" />
@@ -1,14 +1,41 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format, startOfDay, subDays, isBefore } from "date-fns";
-import { useTaskRecurrence } from "./useTaskRecurrence";
+import {
+  createTaskRecurrence,
+  useTaskRecurrence,
+  getOccurrenceBenchmark,
+  type NonWorkingDayPolicy,
+  type TaskOccurrenceException,
+} from "./useTaskRecurrence";
 import { useWorkingDays } from "./useWorkingDays";
 import { useSystemSettings } from "./useSystemSettings";
-import { formatDateForDB } from "@/lib/dateUtils";
+import { useRealtimeRefresh } from "./useRealtimeRefresh";
+import { useOnlineStatus } from "./useOnlineStatus";
+import { formatDateForDB, parseDateInTimeZone, resolveTimezone } from "@/lib/dateUtils";
+import { fetchScheduledWorkingDatePredicate, prorateBenchmark } from "@/lib/leaveUtils";
+import {
+  completionConflictError,
+  fetchCurrentCompletion,
+  hasCompletionConflict,
+  isUniqueViolation,
+} from "@/lib/completionConflicts";
+import {
+  cacheDailyTasks,
+  getCachedDailyTasks,
+  getQueuedCompletions,
+  isNetworkError,
+  putQueuedCompletion,
+  queueKey,
+  removeQueuedCompletion,
+  type QueuedCompletion,
+} from "@/lib/offlineStore";
 import type { Database } from "@/integrations/supabase/types";
 
 type TaskStatus = Database["public"]["Enums"]["task_status"];
+type CompletionSlaStatus = Database["public"]["Enums"]["completion_sla_status"];
+type MissedTaskPolicy = Database["public"]["Enums"]["missed_task_policy"];
 
 interface Task {
   id: string;
@@ -17,8 +44,15 @@ interface Task {
   category: string | null;
   benchmark: number | null;
   recurrence_type: string;
-  recurrence_config: any;
+  recurrence_rule: string | null;
   created_at: string;
+  start_date: string | null;
+  due_date: string | null;
+  due_time: string | null;
+  grace_minutes: number;
+  exceptions: TaskOccurrenceException[] | null;
+  non_working_day_policy: NonWorkingDayPolicy;
+  missed_task_policy: MissedTaskPolicy;
 }
 
 interface TaskAssignment {
@@ -39,10 +73,13 @@ interface TaskCompletion {
   scheduled_date: string;
   completion_date: string;
   status: TaskStatus;
+  sla_status: CompletionSlaStatus | null;
   quantity_completed: number | null;
   notes: string | null;
   approval_status: string;
   approved_by: string | null;
+  completed_by: string | null;
+  updated_at: string;
 }
 
 interface DailyTask {
@@ -50,17 +87,88 @@ interface DailyTask {
   completion?: TaskCompletion;
   status: TaskStatus;
   originalDate?: string;
+  capacity?: number; // Below 1 on a half-day leave / holiday; the benchmark is prorated
+  coveringFor?: string; // Name of the colleague on leave whose task this user is covering
+  coveredDate?: string; // Covered tasks: the occurrence date, today in the absentee's timezone
 }
 
+const ASSIGNMENT_SELECT = `
+  id,
+  task_id,
+  assigned_to,
+  assigned_by,
+  assigner:users!task_assignments_assigned_by_fkey (
+    id,
+    full_name
+  ),
+  task:tasks!task_assignments_task_id_fkey (
+    id,
+    name,
+    description,
+    category,
+    benchmark,
+    recurrence_type,
+    recurrence_rule,
+    created_at,
+    start_date,
+    due_date,
+    due_time,
+    grace_minutes,
+    non_working_day_policy,
+    missed_task_policy,
+    exceptions:task_occurrence_exceptions (
+      id,
+      occurrence_date,
+      action,
+      new_date,
+      benchmark_override,
+      reason
+    )
+  )
+`;
+
+// The assignment as seen on one occurrence date, with any per-occurrence benchmark override
+// applied and prorated to the capacity of that day
+const forOccurrence = (assignment: TaskAssignment, dateStr: string, capacity = 1): TaskAssignment => ({
+  ...assignment,
+  task: {
+    ...assignment.task,
+    benchmark: prorateBenchmark(getOccurrenceBenchmark(assignment.task, dateStr), capacity),
+  },
+});
+
+// Shows completions saved offline on the task list until they sync
+const withQueuedCompletions = (dailyTasks: DailyTask[], queue: QueuedCompletion[], dateStr: string) =>
+  dailyTasks.map((dailyTask) => {
+    const queued = queue.find(
+      (q) =>
+        q.assignmentId === dailyTask.assignment.id &&
+        q.scheduledDate === (dailyTask.originalDate || dailyTask.coveredDate || dateStr)
+    );
+    return queued ? { ...dailyTask, status: queued.status } : dailyTask;
+  });
+
 export const useDailyTasks = (userId: string, targetDate: Date) => {
   const [tasks, setTasks] = useState<DailyTask[]>([]);
   const [pendingTasks, setPendingTasks] = useState<DailyTask[]>([]);
   const [loading, setLoading] = useState(true);
   const [organizationId, setOrganizationId] = useState<string | null>(null);
+  // Offline mode: completions queued on the device, and when the shown copy was cached
+  const [pendingSyncKeys, setPendingSyncKeys] = useState<Set<string>>(new Set());
+  const [syncing, setSyncing] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const syncingRef = useRef(false);
+  const isOnline = useOnlineStatus();
   const { toast } = useToast();
-  const { taskAppliesToDate } = useTaskRecurrence();
-  const { isWorkingDay, getNextWorkingDay } = useWorkingDays(userId);
-  const { settings } = useSystemSettings(organizationId);
+  const { settings, timezone, loading: settingsLoading } = useSystemSettings(organizationId, userId);
+  const {
+    isWorkingDay,
+    isWorkingDateStr,
+    getDayCapacityInfo,
+    getNextWorkingDay,
+    loading: workingDaysLoading,
+  } = useWorkingDays(userId);
+  const { taskAppliesToDate, taskDueOnDate } = useTaskRecurrence(timezone, isWorkingDateStr);
 
   useEffect(() => {
     const fetchOrganizationId = async () => {
@@ -79,44 +187,95 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
     };
 
     fetchOrganizationId();
-    fetchDailyTasks();
+    // Retried on reconnect when the app was opened offline
+  }, [userId, isOnline]);
+
+  // Send completions saved offline once the connection (and the organization's settings) is back
+  useEffect(() => {
+    if (isOnline && organizationId && !settingsLoading) {
+      syncQueue();
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId, targetDate]);
+  }, [isOnline, organizationId, settingsLoading]);
 
-  const fetchDailyTasks = async () => {
+  // Refetch once the effective timezone is known, since it decides which day targetDate falls on
+  useEffect(() => {
+    fetchDailyTasks();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, targetDate, timezone, workingDaysLoading]);
+
+  // Own and covered assignments on screen, so completions of other users' tasks are ignored
+  const viewedAssignmentIdsRef = useRef<Set<string>>(new Set());
+
+  // Completions, approvals and leave changed by others (managers, covers) show up live
+  useRealtimeRefresh(
+    "daily-tasks",
+    [
+      { table: "task_completions", matches: (row) => viewedAssignmentIdsRef.current.has(row.assignment_id as string) },
+      { table: "task_assignments", filter: `assigned_to=eq.${userId}` },
+      { table: "personal_holidays" },
+    ],
+    () => fetchDailyTasks(false),
+    !!userId && !workingDaysLoading
+  );
+
+  const fetchDailyTasks = async (showLoading = true) => {
     try {
-      setLoading(true);
-      const dateStr = formatDateForDB(targetDate, settings.timezone);
+      if (showLoading) setLoading(true);
+      const dateStr = formatDateForDB(targetDate, timezone);
       const workingDayInfo = isWorkingDay(targetDate);
 
       // Fetch user's task assignments with task details and assigner info
-      const { data: assignments, error: assignError } = await supabase
+      const { data: ownAssignments, error: assignError } = await supabase
         .from("task_assignments")
-        .select(`
-          id,
-          task_id,
-          assigned_to,
-          assigned_by,
-          assigner:users!task_assignments_assigned_by_fkey (
-            id,
-            full_name
-          ),
-          task:tasks!task_assignments_task_id_fkey (
-            id,
-            name,
-            description,
-            category,
-            benchmark,
-            recurrence_type,
-            recurrence_config,
-            created_at
-          )
-        `)
+        .select(ASSIGNMENT_SELECT)
         .eq("assigned_to", userId);
 
       if (assignError) throw assignError;
 
-      if (!assignments || assignments.length === 0) {
+      // Colleagues on approved leave today who nominated this user as their cover
+      const { data: coveredUsers, error: coverError } = await supabase.rpc("get_covered_users", {
+        _cover_id: userId,
+        _date: dateStr,
+      });
+
+      if (coverError) throw coverError;
+
+      // Covered tasks follow the absentee's own schedule: their timezone, weekly offs and holidays
+      const absenteeNames = new Map<string, string>();
+      const absenteeSchedules = new Map<string, { dateStr: string } & ReturnType<typeof createTaskRecurrence>>();
+      if (coveredUsers && coveredUsers.length > 0) {
+        const { data: absentees, error } = await supabase
+          .from("users")
+          .select("id, full_name, timezone")
+          .in("id", coveredUsers.map((u) => u.covered_user_id));
+
+        if (error) throw error;
+        for (const absentee of absentees || []) {
+          const absenteeTimezone = resolveTimezone(settings.timezone, absentee.timezone);
+          const isAbsenteeWorkingDate = await fetchScheduledWorkingDatePredicate(absentee.id);
+          absenteeNames.set(absentee.id, absentee.full_name);
+          absenteeSchedules.set(absentee.id, {
+            dateStr: formatDateForDB(targetDate, absenteeTimezone),
+            ...createTaskRecurrence(absenteeTimezone, isAbsenteeWorkingDate),
+          });
+        }
+      }
+
+      let coveredAssignments: TaskAssignment[] = [];
+      if (absenteeNames.size > 0) {
+        const { data, error } = await supabase
+          .from("task_assignments")
+          .select(ASSIGNMENT_SELECT)
+          .in("assigned_to", [...absenteeNames.keys()]);
+
+        if (error) throw error;
+        coveredAssignments = (data || []) as TaskAssignment[];
+      }
+
+      const assignments = (ownAssignments || []) as TaskAssignment[];
+      viewedAssignmentIdsRef.current = new Set([...assignments, ...coveredAssignments].map((a) => a.id));
+      if (assignments.length === 0 && coveredAssignments.length === 0) {
         setTasks([]);
         setPendingTasks([]);
         setLoading(false);
@@ -127,13 +286,13 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
       // Need to check both scheduled_date (when task was due) and completion_date (when it was done)
       // Also fetch completions that were completed today but scheduled for previous days (delayed tasks)
       // And fetch completions from past days to check if they're truly pending
-      const pastDateStr = formatDateForDB(subDays(targetDate, 30), settings.timezone);
+      const pastDateStr = formatDateForDB(subDays(targetDate, 30), timezone);
       const { data: completions, error: compError } = await supabase
         .from("task_completions")
         .select("*")
         .in(
           "assignment_id",
-          assignments.map((a) => a.id)
+          [...assignments, ...coveredAssignments].map((a) => a.id)
         )
         .or(`scheduled_date.gte.${pastDateStr},completion_date.gte.${pastDateStr}`);
 
@@ -162,25 +321,51 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
         completionMapByCompletion.get(completionKey)!.push(c);
       });
 
+      // Covered tasks due today. Only today's occurrences: earlier ones stay with the absentee
+      // (or their previous cover) and the leave ends before anything carries over to this user
+      const coveredTasks: DailyTask[] = [];
+      for (const assignment of coveredAssignments) {
+        const schedule = absenteeSchedules.get(assignment.assigned_to);
+        if (!schedule || !schedule.taskDueOnDate(assignment.task, targetDate)) continue;
+
+        const completion = completionMapByScheduled.get(`${assignment.id}-${schedule.dateStr}`)?.[0];
+        let status: TaskStatus = "scheduled";
+        if (completion && completion.status && completion.status !== "not_applicable") {
+          status = completion.sla_status === "late" ? "delayed" : completion.status;
+        }
+
+        coveredTasks.push({
+          assignment: forOccurrence(assignment, schedule.dateStr),
+          completion,
+          status,
+          coveringFor: absenteeNames.get(assignment.assigned_to),
+          coveredDate: schedule.dateStr,
+        });
+      }
+
       // If not a working day, all tasks are NA
       // But only if there are no completions for today (to prevent showing NA after updates)
+      // and no task is due anyway (non-working-day policy "ignore")
       if (!workingDayInfo.isWorkingDay) {
         // Check if any completions exist for today
+        const ownAssignmentIds = new Set(assignments.map((a) => a.id));
         const hasCompletionsForToday = completions?.some(c => {
+          if (!ownAssignmentIds.has(c.assignment_id)) return false;
           const scheduledDate = c.scheduled_date || c.completion_date;
           return scheduledDate === dateStr || c.completion_date === dateStr;
         });
+        const hasTasksDueToday = assignments.some((a) => taskDueOnDate(a.task, targetDate));
         
-        // If there are completions for today, process them normally (don't mark as NA)
+        // If there are completions or tasks due today, process them normally (don't mark as NA)
         // Otherwise, mark all as NA since it's not a working day
-        if (!hasCompletionsForToday) {
-          const naTasks: DailyTask[] = (assignments as TaskAssignment[])
+        if (!hasCompletionsForToday && !hasTasksDueToday) {
+          const naTasks: DailyTask[] = assignments
             .filter((a) => taskAppliesToDate(a.task, targetDate))
             .map((assignment) => ({
-              assignment,
+              assignment: forOccurrence(assignment, dateStr),
               status: "not_applicable" as TaskStatus,
             }));
-          setTasks(naTasks);
+          setTasks([...naTasks, ...coveredTasks]);
           setPendingTasks([]);
           setLoading(false);
           return;
@@ -192,44 +377,39 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
       const todayTasks: DailyTask[] = [];
       const pending: DailyTask[] = [];
 
-      for (const assignment of assignments as TaskAssignment[]) {
+      for (const assignment of assignments) {
         const task = assignment.task;
         
-        // Check if task applies to this date
-        if (taskAppliesToDate(task, targetDate)) {
+        // Check if task is due on this date (after its non-working-day policy); occurrences that
+        // the policy moves away from a non-working day are still listed there as NA
+        const isDue = taskDueOnDate(task, targetDate);
+        if (isDue || (!workingDayInfo.isWorkingDay && taskAppliesToDate(task, targetDate))) {
           // Look for completion by scheduled_date (when it was supposed to be done)
           const scheduledKey = `${assignment.id}-${dateStr}`;
           let completion = completionMapByScheduled.get(scheduledKey)?.[0];
 
           // Default to scheduled if no completion exists
           // This is critical: tasks without completions should be "scheduled", not "not_applicable"
-          let status: TaskStatus = "scheduled";
+          let status: TaskStatus = isDue ? "scheduled" : "not_applicable";
           
           // If completion exists and has a valid status (not "not_applicable"), use its status
           // "not_applicable" should only be set for non-working days, not for individual task completions
           if (completion && completion.status && completion.status !== "not_applicable") {
             status = completion.status;
             
-            // Check if task was completed on a different date (delayed)
-            // Compare scheduled_date with completion_date
-            const scheduledDate = completion.scheduled_date || completion.completion_date;
-            const completionDate = completion.completion_date;
-            
-            // Only mark as delayed if it was scheduled for today but completed later
-            // AND the status is completed or partial
-            if (scheduledDate === dateStr && 
-                completionDate && 
-                completionDate > scheduledDate && 
-                (completion.status === "completed" || completion.status === "partial")) {
-              // Task was scheduled for this date but completed later - it's delayed
+            // Completed or partial after the deadline (a later day, or past the task's due time
+            // and grace period) - it's delayed. The database classifies it when it's recorded
+            if (completion.sla_status === "late") {
               status = "delayed";
             }
           }
 
+          const { capacity } = getDayCapacityInfo(dateStr);
           todayTasks.push({
-            assignment,
+            assignment: forOccurrence(assignment, dateStr, capacity),
             completion,
             status,
+            capacity,
           });
         }
         
@@ -246,17 +426,19 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
           if (scheduledDate < dateStr && completionDate === dateStr &&
               (delayedCompletion.status === "completed" || delayedCompletion.status === "partial")) {
             // Check if task applies to the scheduled date (not today, but we still want to show it)
-            const scheduledDateObj = new Date(scheduledDate);
-            if (taskAppliesToDate(task, scheduledDateObj)) {
+            const scheduledDateObj = parseDateInTimeZone(scheduledDate, timezone);
+            if (taskDueOnDate(task, scheduledDateObj) || taskAppliesToDate(task, scheduledDateObj)) {
               // Check if it's not already in todayTasks (in case task also applies to today)
               const alreadyInToday = todayTasks.some(t => t.assignment.id === assignment.id);
               
               if (!alreadyInToday) {
+                const { capacity } = getDayCapacityInfo(scheduledDate);
                 todayTasks.push({
-                  assignment,
+                  assignment: forOccurrence(assignment, scheduledDate, capacity),
                   completion: delayedCompletion,
                   status: "delayed",
                   originalDate: scheduledDate,
+                  capacity,
                 });
               }
             }
@@ -268,10 +450,9 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
         let daysChecked = 0;
         
         while (daysChecked < 30) {
-          const checkDateInfo = isWorkingDay(checkDate);
-          
-          if (checkDateInfo.isWorkingDay && taskAppliesToDate(task, checkDate)) {
-            const checkDateStr = formatDateForDB(checkDate, settings.timezone);
+          // Only days the task was due on after its non-working-day policy can be pending
+          if (taskDueOnDate(task, checkDate)) {
+            const checkDateStr = formatDateForDB(checkDate, timezone);
             const scheduledKey = `${assignment.id}-${checkDateStr}`;
             const completion = completionMapByScheduled.get(scheduledKey)?.[0];
 
@@ -289,19 +470,26 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
                                (completion.status === "completed" || 
                                 completion.status === "partial");
             
-            // Only add to pending if there's no completion record OR the task is explicitly not done
+            // Only add to pending if there's no completion record, the task is explicitly not done,
+            // or the end-of-day rollover carried it over as pending. Tasks that don't carry over
+            // stay pending only until the rollover (rollover-missed-tasks) closes them as not done
             // Do NOT add if task is completed (even if delayed)
-            if (!isCompleted && (!completion || completion.status === "not_done")) {
+            const isOpen = task.missed_task_policy === "not_done"
+              ? !completion || completion.status === "scheduled"
+              : !completion || completion.status === "not_done" || completion.status === "pending";
+            if (!isCompleted && isOpen) {
               const existingPending = pending.find(
                 (p) => p.assignment.id === assignment.id && p.originalDate === checkDateStr
               );
               
               if (!existingPending) {
+                const { capacity } = getDayCapacityInfo(checkDateStr);
                 pending.push({
-                  assignment,
+                  assignment: forOccurrence(assignment, checkDateStr, capacity),
                   completion,
                   status: "pending",
                   originalDate: checkDateStr,
+                  capacity,
                 });
               }
             }
@@ -312,9 +500,22 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
         }
       }
 
-      setTasks(todayTasks);
-      setPendingTasks(pending);
+      const queue = await loadQueue();
+      setTasks(withQueuedCompletions([...todayTasks, ...coveredTasks], queue, dateStr));
+      setPendingTasks(withQueuedCompletions(pending, queue, dateStr));
+      setCachedAt(null);
+
+      // Keep a copy on the device for when the connection drops
+      cacheDailyTasks({
+        userId,
+        date: dateStr,
+        tasks: [...todayTasks, ...coveredTasks],
+        pendingTasks: pending,
+        cachedAt: new Date().toISOString(),
+      }).catch((error) => console.error("Error caching daily tasks:", error));
     } catch (error: any) {
+      // Offline: fall back to the copy of today's tasks saved on the device
+      if (isNetworkError(error) && (await loadCachedTasks())) return;
       toast({
         title: "Error",
         description: error.message,
@@ -325,146 +526,303 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
     }
   };
 
-  const markTaskComplete = async (
-    assignmentId: string,
-    status: TaskStatus,
-    quantityCompleted?: number,
-    notes?: string,
-    originalDate?: string
-  ) => {
+  // Completions waiting on the device to be sent, oldest first
+  const loadQueue = async () => {
     try {
-      // Check dependencies before allowing completion
-      const scheduledDate = originalDate || formatDateForDB(targetDate, settings.timezone);
-      
-      // Get the task ID from the assignment
-      const { data: assignment, error: assignError } = await supabase
-        .from("task_assignments")
-        .select("task_id")
-        .eq("id", assignmentId)
-        .single();
+      const queue = await getQueuedCompletions(userId);
+      setPendingSyncKeys(new Set(queue.map((q) => q.key)));
+      return queue;
+    } catch (error) {
+      console.error("Error reading offline queue:", error);
+      return [];
+    }
+  };
 
-      if (assignError) throw assignError;
-      if (!assignment) throw new Error("Assignment not found");
+  const loadCachedTasks = async () => {
+    try {
+      const dateStr = formatDateForDB(targetDate, timezone);
+      const cached = await getCachedDailyTasks<DailyTask>(userId);
+      if (!cached || cached.date !== dateStr) return false;
+
+      const queue = await loadQueue();
+      setTasks(withQueuedCompletions(cached.tasks, queue, dateStr));
+      setPendingTasks(withQueuedCompletions(cached.pendingTasks, queue, dateStr));
+      setCachedAt(cached.cachedAt);
+      return true;
+    } catch (error) {
+      console.error("Error reading cached daily tasks:", error);
+      return false;
+    }
+  };
 
-      // Check if task has dependencies
-      const { data: dependencies, error: depError } = await supabase
-        .from("task_dependencies")
-        .select("depends_on_task_id")
-        .eq("task_id", assignment.task_id);
+  // Keeps a completion on the device until it can be sent, and shows it on the task right away
+  const queueCompletion = async (entry: QueuedCompletion) => {
+    try {
+      // Re-editing a queued occurrence still checks against the version of the first edit
+      const previous = (await getQueuedCompletions(userId)).find((q) => q.key === entry.key);
+      const queued = previous
+        ? { ...entry, expectedUpdatedAt: previous.expectedUpdatedAt, queuedAt: previous.queuedAt }
+        : entry;
+      await putQueuedCompletion(queued);
+
+      const dateStr = formatDateForDB(targetDate, timezone);
+      setPendingSyncKeys((prev) => new Set(prev).add(queued.key));
+      setTasks((prev) => withQueuedCompletions(prev, [queued], dateStr));
+      setPendingTasks((prev) => withQueuedCompletions(prev, [queued], dateStr));
 
-      if (depError) throw depError;
+      toast({
+        title: "Saved offline",
+        description: "This update is stored on your device and will sync when you're back online.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Could not save the update on this device: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  };
 
-      // If there are dependencies, check if they're all completed
-      if (dependencies && dependencies.length > 0) {
-        const dependencyTaskIds = dependencies.map((d) => d.depends_on_task_id);
-        
-        // Get all assignments for the dependency tasks assigned to the same user
-        const { data: dependencyAssignments, error: depAssignError } = await supabase
-          .from("task_assignments")
-          .select("id, task_id")
-          .in("task_id", dependencyTaskIds)
-          .eq("assigned_to", userId);
-
-        if (depAssignError) throw depAssignError;
-
-        if (dependencyAssignments && dependencyAssignments.length > 0) {
-          // Check if all dependency tasks are completed for the scheduled date
-          const depAssignmentIds = dependencyAssignments.map((a) => a.id);
-          const { data: depCompletions, error: depCompError } = await supabase
-            .from("task_completions")
-            .select("assignment_id, status")
-            .in("assignment_id", depAssignmentIds)
-            .eq("scheduled_date", scheduledDate)
-            .in("status", ["completed", "partial"]); // Partial also counts as progress
-
-          if (depCompError) throw depCompError;
-
-          // Check if all dependencies are completed
-          const completedDepIds = new Set(depCompletions?.map((c) => c.assignment_id) || []);
-          const incompleteDeps = dependencyAssignments.filter(
-            (a) => !completedDepIds.has(a.id)
-          );
+  // Replays completions saved offline in the order they were made. Updates the server rejects,
+  // e.g. because someone else changed the completion in the meantime, are dropped and reported
+  const syncQueue = async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
 
-          if (incompleteDeps.length > 0) {
-            // Get task names for incomplete dependencies
-            const { data: incompleteTasks, error: taskError } = await supabase
-              .from("tasks")
-              .select("name")
-              .in("id", incompleteDeps.map((a) => a.task_id));
+    try {
+      const queue = await loadQueue();
+      if (queue.length === 0) {
+        if (cachedAt) await fetchDailyTasks(false);
+        return;
+      }
+
+      setSyncing(true);
+      let synced = 0;
+      for (const entry of queue) {
+        try {
+          await saveCompletion(entry);
+          synced++;
+        } catch (error) {
+          // Connection dropped again: the rest waits for the next reconnect
+          if (isNetworkError(error)) break;
+          toast({
+            title: "Offline update not saved",
+            description: (error as Error).message,
+            variant: "destructive",
+          });
+        }
+        await removeQueuedCompletion(entry.key);
+      }
 
-            if (taskError) throw taskError;
+      if (synced > 0) {
+        toast({
+          title: "Success",
+          description: `Synced ${synced} update${synced === 1 ? "" : "s"} made offline`,
+        });
+      }
+      await fetchDailyTasks(false);
+    } catch (error) {
+      console.error("Error syncing offline updates:", error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  };
 
-            const taskNames = incompleteTasks?.map((t) => t.name).join(", ") || "dependencies";
-            throw new Error(
-              `Cannot complete this task. The following dependencies must be completed first: ${taskNames}`
-            );
-          }
+  // Saves one completion to task_completions. Throws when a dependency isn't done yet, when the
+  // completion changed since expectedUpdatedAt, or when the server can't be reached
+  const saveCompletion = async ({
+    assignmentId,
+    scheduledDate,
+    completionDate,
+    status,
+    quantityCompleted,
+    notes,
+    expectedUpdatedAt,
+    queuedAt,
+    recordedAt,
+  }: QueuedCompletion) => {
+    // Check dependencies before allowing completion
+    // Get the task ID from the assignment
+    const { data: assignment, error: assignError } = await supabase
+      .from("task_assignments")
+      .select("task_id, assigned_to")
+      .eq("id", assignmentId)
+      .single();
+
+    if (assignError) throw assignError;
+    if (!assignment) throw new Error("Assignment not found");
+
+    // Check if task has dependencies
+    const { data: dependencies, error: depError } = await supabase
+      .from("task_dependencies")
+      .select("depends_on_task_id")
+      .eq("task_id", assignment.task_id);
+
+    if (depError) throw depError;
+
+    // If there are dependencies, check if they're all completed
+    if (dependencies && dependencies.length > 0) {
+      const dependencyTaskIds = dependencies.map((d) => d.depends_on_task_id);
+      
+      // Get all assignments for the dependency tasks assigned to the same user
+      // (the assignee, not the cover completing it on their behalf)
+      const { data: dependencyAssignments, error: depAssignError } = await supabase
+        .from("task_assignments")
+        .select("id, task_id")
+        .in("task_id", dependencyTaskIds)
+        .eq("assigned_to", assignment.assigned_to);
+
+      if (depAssignError) throw depAssignError;
+
+      if (dependencyAssignments && dependencyAssignments.length > 0) {
+        // Check if all dependency tasks are completed for the scheduled date
+        const depAssignmentIds = dependencyAssignments.map((a) => a.id);
+        const { data: depCompletions, error: depCompError } = await supabase
+          .from("task_completions")
+          .select("assignment_id, status")
+          .in("assignment_id", depAssignmentIds)
+          .eq("scheduled_date", scheduledDate)
+          .in("status", ["completed", "partial"]); // Partial also counts as progress
+
+        if (depCompError) throw depCompError;
+
+        // Check if all dependencies are completed
+        const completedDepIds = new Set(depCompletions?.map((c) => c.assignment_id) || []);
+        const incompleteDeps = dependencyAssignments.filter(
+          (a) => !completedDepIds.has(a.id)
+        );
+
+        if (incompleteDeps.length > 0) {
+          // Get task names for incomplete dependencies
+          const { data: incompleteTasks, error: taskError } = await supabase
+            .from("tasks")
+            .select("name")
+            .in("id", incompleteDeps.map((a) => a.task_id));
+
+          if (taskError) throw taskError;
+
+          const taskNames = incompleteTasks?.map((t) => t.name).join(", ") || "dependencies";
+          throw new Error(
+            `Cannot complete this task. The following dependencies must be completed first: ${taskNames}`
+          );
         }
       }
+    }
 
-      // completionDate is when it's actually being completed (today)
-      const completionDate = formatDateForDB(targetDate, settings.timezone);
+    // Check if completion already exists for this scheduled date, and that nobody (a manager,
+    // a cover, another open tab) changed it since the user loaded it
+    const existing = await fetchCurrentCompletion(assignmentId, scheduledDate);
+    if (hasCompletionConflict(existing, expectedUpdatedAt)) {
+      await fetchDailyTasks(false);
+      throw completionConflictError(existing);
+    }
+
+    if (existing) {
+      // Update existing - check approval settings
+      const approvalData = settings.auto_approve_tasks
+        ? {
+            approval_status: "approved" as const,
+            approved_by: userId,
+          }
+        : {
+            approval_status: "pending" as const,
+            approved_by: null,
+          };
 
-      // Check if completion already exists for this scheduled date
-      const { data: existing } = await supabase
+      // Only overwrite the version checked above; a concurrent save in between wins
+      const { data: updated, error } = await supabase
         .from("task_completions")
-        .select("id")
-        .eq("assignment_id", assignmentId)
-        .eq("scheduled_date", scheduledDate)
-        .maybeSingle();
-
-      if (existing) {
-        // Update existing - check approval settings
-        const approvalData = settings.auto_approve_tasks
-          ? {
-              approval_status: "approved" as const,
-              approved_by: userId,
-            }
-          : {
-              approval_status: "pending" as const,
-              approved_by: null,
-            };
+        .update({
+          completion_date: completionDate,
+          status,
+          quantity_completed: quantityCompleted,
+          notes,
+          completed_by: userId,
+          recorded_at: recordedAt || queuedAt,
+          ...approvalData,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", existing.id)
+        .eq("updated_at", existing.updated_at)
+        .select("id");
+
+      if (error) throw error;
+      if (!updated || updated.length === 0) {
+        await fetchDailyTasks(false);
+        throw completionConflictError(await fetchCurrentCompletion(assignmentId, scheduledDate));
+      }
+    } else {
+      // Create new - check approval settings
+      const approvalData = settings.auto_approve_tasks
+        ? {
+            approval_status: "approved" as const,
+            approved_by: userId,
+          }
+        : {
+            approval_status: "pending" as const,
+            approved_by: null,
+          };
 
-        const { error } = await supabase
-          .from("task_completions")
-          .update({
-            completion_date: completionDate,
-            status,
-            quantity_completed: quantityCompleted,
-            notes,
-            ...approvalData,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", existing.id);
+      const { error } = await supabase
+        .from("task_completions")
+        .insert({
+          assignment_id: assignmentId,
+          scheduled_date: scheduledDate,
+          completion_date: completionDate,
+          status,
+          quantity_completed: quantityCompleted,
+          notes,
+          completed_by: userId,
+          recorded_at: recordedAt || queuedAt,
+          ...approvalData,
+        });
 
-        if (error) throw error;
-      } else {
-        // Create new - check approval settings
-        const approvalData = settings.auto_approve_tasks
-          ? {
-              approval_status: "approved" as const,
-              approved_by: userId,
-            }
-          : {
-              approval_status: "pending" as const,
-              approved_by: null,
-            };
+      if (isUniqueViolation(error)) {
+        await fetchDailyTasks(false);
+        throw completionConflictError(await fetchCurrentCompletion(assignmentId, scheduledDate));
+      }
+      if (error) throw error;
+    }
+  };
 
-        const { error } = await supabase
-          .from("task_completions")
-          .insert({
-            assignment_id: assignmentId,
-            scheduled_date: scheduledDate,
-            completion_date: completionDate,
-            status,
-            quantity_completed: quantityCompleted,
-            notes,
-            ...approvalData,
-          });
+  // Occurrence date of a covered task shown today, which the absentee's timezone decides
+  const coveredDate = (assignmentId: string) =>
+    tasks.find((t) => t.assignment.id === assignmentId && t.coveredDate)?.coveredDate;
 
-        if (error) throw error;
+  const markTaskComplete = async (
+    assignmentId: string,
+    status: TaskStatus,
+    quantityCompleted?: number,
+    notes?: string,
+    originalDate?: string,
+    expectedUpdatedAt?: string | null // Completion version the user started from (null = none yet)
+  ) => {
+    const scheduledDate = originalDate || coveredDate(assignmentId) || formatDateForDB(targetDate, timezone);
+    const recordedAt = new Date().toISOString();
+    const entry: QueuedCompletion = {
+      key: queueKey(userId, assignmentId, scheduledDate),
+      userId,
+      assignmentId,
+      scheduledDate,
+      // completionDate is when it's actually being completed (today)
+      completionDate: formatDateForDB(targetDate, timezone),
+      status,
+      quantityCompleted,
+      notes,
+      expectedUpdatedAt,
+      queuedAt: recordedAt,
+      recordedAt,
+    };
+
+    try {
+      if (!navigator.onLine) {
+        await queueCompletion(entry);
+        return;
       }
 
+      await saveCompletion(entry);
+
       toast({
         title: "Success",
         description: "Task updated successfully",
@@ -473,6 +831,11 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
       // Refresh tasks
       await fetchDailyTasks();
     } catch (error: any) {
+      // Lost the connection mid-save: keep the change on the device instead
+      if (isNetworkError(error)) {
+        await queueCompletion(entry);
+        return;
+      }
       toast({
         title: "Error",
         description: error.message,
@@ -481,11 +844,22 @@ export const useDailyTasks = (userId: string, targetDate: Date) => {
     }
   };
 
+  // Whether an occurrence has an update saved offline that hasn't synced yet
+  const isPendingSync = (assignmentId: string, originalDate?: string) =>
+    pendingSyncKeys.has(
+      queueKey(userId, assignmentId, originalDate || coveredDate(assignmentId) || formatDateForDB(targetDate, timezone))
+    );
+
   return {
     tasks,
     pendingTasks,
     loading,
     markTaskComplete,
     refresh: fetchDailyTasks,
+    isOnline,
+    syncing,
+    cachedAt,
+    pendingSyncCount: pendingSyncKeys.size,
+    isPendingSync,
   };
 };
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+
+export type EscalationPolicy = Database["public"]["Enums"]["escalation_policy"];
+
+// What check-escalations stores in escalations.details for each policy
+export interface EscalationDetails {
+  task_name?: string;
+  count?: number; // missed_streak: times missed in a row
+  since?: string; // missed_streak: first missed date
+  employee_name?: string | null; // approval_pending: whose update is waiting
+  scheduled_date?: string; // approval_pending
+  days?: number; // approval_pending: days waiting when escalated
+  percent?: number; // below_benchmark: share of the benchmark reached
+  threshold?: number; // below_benchmark
+  week_start?: string; // below_benchmark
+  week_end?: string; // below_benchmark
+}
+
+export interface Escalation {
+  id: string;
+  policy: EscalationPolicy;
+  userId: string;
+  userName: string; // Who should have acted: the assignee, or the approver for approval_pending
+  details: EscalationDetails;
+  createdAt: string;
+}
+
+/**
+ * Open (unacknowledged) escalations sent to the user by check-escalations, newest first.
+ */
+export const useEscalations = (userId: string) => {
+  const [escalations, setEscalations] = useState<Escalation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchEscalations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  const fetchEscalations = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("escalations")
+        .select("id, policy, user_id, details, created_at, user:users!escalations_user_id_fkey (full_name)")
+        .eq("escalated_to", userId)
+        .is("acknowledged_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      setEscalations(
+        (data || []).map((e) => ({
+          id: e.id,
+          policy: e.policy,
+          userId: e.user_id,
+          userName: (e.user as { full_name: string } | null)?.full_name || "Unknown",
+          details: (e.details ?? {}) as EscalationDetails,
+          createdAt: e.created_at,
+        }))
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to fetch escalations",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const acknowledgeEscalation = async (escalationId: string) => {
+    const { error } = await supabase
+      .from("escalations")
+      .update({ acknowledged_at: new Date().toISOString() })
+      .eq("id", escalationId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    setEscalations((prev) => prev.filter((e) => e.id !== escalationId));
+    return true;
+  };
+
+  return {
+    escalations,
+    loading,
+    acknowledgeEscalation,
+    refresh: fetchEscalations,
+  };
+};
@@ -1,9 +1,18 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import type { Database } from "@/integrations/supabase/types";
+import type { WeeklyOffPattern } from "@/lib/weeklyOffs";
+import type { DayPortion } from "@/lib/leaveUtils";
+import type { LeaveDaysByYear } from "@/lib/leaveBalances";
+import type { ImportedHoliday } from "@/lib/icsImport";
+import { notifyLeaveDecision } from "@/lib/notifications";
 
-type DayOfWeek = Database["public"]["Enums"]["day_of_week"];
+interface HolidayCalendar {
+  id: string;
+  name: string;
+  location: string | null;
+  description: string | null;
+}
 
 interface PublicHoliday {
   id: string;
@@ -11,6 +20,8 @@ interface PublicHoliday {
   holiday_date: string;
   description: string | null;
   is_recurring: boolean | null;
+  calendar_id: string | null;
+  day_portion: DayPortion;
 }
 
 interface PersonalHoliday {
@@ -18,20 +29,30 @@ interface PersonalHoliday {
   user_id: string;
   start_date: string;
   end_date: string;
+  day_portion: DayPortion;
+  leave_type_id: string | null;
+  leave_days: LeaveDaysByYear;
   reason: string | null;
   approval_status: string | null;
   approved_by: string | null;
+  approval_level: number;
+  required_approval_levels: number;
+  first_approved_by: string | null;
+  original_start_date: string | null;
+  original_end_date: string | null;
+  cover_user_id: string | null;
   created_at: string;
   profile?: {
     full_name: string;
     email: string;
+    manager_id: string | null;
   };
 }
 
-interface WeeklyOff {
+interface WeeklyOff extends WeeklyOffPattern {
   id: string;
-  day_of_week: DayOfWeek;
   description: string | null;
+  calendar_id: string | null;
 }
 
 export const useHolidays = (userId: string) => {
@@ -39,6 +60,9 @@ export const useHolidays = (userId: string) => {
   const [personalHolidays, setPersonalHolidays] = useState<PersonalHoliday[]>([]);
   const [teamHolidays, setTeamHolidays] = useState<PersonalHoliday[]>([]);
   const [weeklyOffs, setWeeklyOffs] = useState<WeeklyOff[]>([]);
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [userCalendarId, setUserCalendarId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
@@ -46,19 +70,42 @@ export const useHolidays = (userId: string) => {
     try {
       setLoading(true);
 
-      // Fetch public holidays
+      // Public holidays and weekly offs are scoped to the user's organization
+      const { data: profile, error: profileError } = await supabase
+        .from("users")
+        .select("organization_id, holiday_calendar_id")
+        .eq("id", userId)
+        .single();
+
+      if (profileError) throw profileError;
+      setOrganizationId(profile.organization_id);
+      setUserCalendarId(profile.holiday_calendar_id);
+
+      // Fetch holiday calendars (office locations)
+      const { data: calendarData, error: calendarError } = await supabase
+        .from("holiday_calendars")
+        .select("id, name, location, description")
+        .eq("organization_id", profile.organization_id)
+        .order("name", { ascending: true });
+
+      if (calendarError) throw calendarError;
+      setCalendars(calendarData || []);
+
+      // Fetch public holidays (organization-wide and per calendar)
       const { data: pubHolidays, error: pubError } = await supabase
         .from("public_holidays")
         .select("*")
+        .eq("organization_id", profile.organization_id)
         .order("holiday_date", { ascending: true });
 
       if (pubError) throw pubError;
       setPublicHolidays(pubHolidays || []);
 
-      // Fetch weekly offs
+      // Fetch weekly offs (organization-wide and per calendar)
       const { data: weeklyData, error: weeklyError } = await supabase
         .from("weekly_offs")
-        .select("*");
+        .select("*")
+        .eq("organization_id", profile.organization_id);
 
       if (weeklyError) throw weeklyError;
       setWeeklyOffs(weeklyData || []);
@@ -71,16 +118,17 @@ export const useHolidays = (userId: string) => {
         .order("start_date", { ascending: false });
 
       if (personalError) throw personalError;
-      setPersonalHolidays(personalData || []);
+      setPersonalHolidays((personalData || []) as PersonalHoliday[]);
 
-      // Fetch team's personal holidays (for managers)
+      // Fetch team's personal holidays (for managers, skip-level managers and HR)
       const { data: teamData, error: teamError } = await supabase
         .from("personal_holidays")
         .select(`
           *,
           profile:users!personal_holidays_user_id_fkey (
             full_name,
-            email
+            email,
+            manager_id
           )
         `)
         .neq("user_id", userId)
@@ -106,18 +154,59 @@ export const useHolidays = (userId: string) => {
     }
   }, [userId]);
 
-  // Public holiday operations (admin only)
+  // Holiday calendar operations (admin only)
+  const addHolidayCalendar = async (name: string, location?: string, description?: string) => {
+    if (!organizationId) return false;
+
+    const { error } = await supabase.from("holiday_calendars").insert({
+      organization_id: organizationId,
+      name,
+      location: location || null,
+      description: description || null,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Holiday calendar added" });
+    fetchHolidays();
+    return true;
+  };
+
+  const deleteHolidayCalendar = async (id: string) => {
+    const { error } = await supabase.from("holiday_calendars").delete().eq("id", id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Holiday calendar deleted" });
+    fetchHolidays();
+    return true;
+  };
+
+  // Public holiday operations (admin only). calendarId null = whole organization
   const addPublicHoliday = async (
     name: string,
     date: string,
     description?: string,
-    isRecurring?: boolean
+    isRecurring?: boolean,
+    calendarId?: string | null,
+    dayPortion: DayPortion = "full"
   ) => {
+    if (!organizationId) return false;
+
     const { error } = await supabase.from("public_holidays").insert({
+      organization_id: organizationId,
+      calendar_id: calendarId || null,
       holiday_name: name,
       holiday_date: date,
       description,
       is_recurring: isRecurring ?? false,
+      day_portion: dayPortion,
     });
 
     if (error) {
@@ -130,6 +219,50 @@ export const useHolidays = (userId: string) => {
     return true;
   };
 
+  // Adds holidays read from an .ics file, skipping dates the calendar already has a holiday on
+  const importPublicHolidays = async (holidays: ImportedHoliday[], calendarId: string | null) => {
+    if (!organizationId) return false;
+
+    const existingDates = new Set(
+      publicHolidays
+        .filter((h) => (h.calendar_id || null) === calendarId)
+        .map((h) => h.holiday_date)
+    );
+    const newHolidays = holidays.filter((h) => !existingDates.has(h.date));
+
+    if (newHolidays.length === 0) {
+      toast({ title: "Nothing to import", description: "All these holidays are already in the calendar" });
+      return true;
+    }
+
+    const { error } = await supabase.from("public_holidays").insert(
+      newHolidays.map((h) => ({
+        organization_id: organizationId,
+        calendar_id: calendarId,
+        holiday_name: h.name,
+        holiday_date: h.date,
+        description: h.description,
+        is_recurring: h.isRecurring,
+        day_portion: "full" as DayPortion,
+      }))
+    );
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    const skipped = holidays.length - newHolidays.length;
+    toast({
+      title: "Success",
+      description: `Imported ${newHolidays.length} public holiday${newHolidays.length === 1 ? "" : "s"}${
+        skipped > 0 ? `, skipped ${skipped} already in the calendar` : ""
+      }`,
+    });
+    fetchHolidays();
+    return true;
+  };
+
   const deletePublicHoliday = async (id: string) => {
     const { error } = await supabase.from("public_holidays").delete().eq("id", id);
 
@@ -143,10 +276,17 @@ export const useHolidays = (userId: string) => {
     return true;
   };
 
-  // Weekly off operations (admin only)
-  const addWeeklyOff = async (dayOfWeek: DayOfWeek, description?: string) => {
+  // Weekly off operations (admin only). calendarId null = whole organization
+  const addWeeklyOff = async (pattern: WeeklyOffPattern, description?: string, calendarId?: string | null) => {
+    if (!organizationId) return false;
+
     const { error } = await supabase.from("weekly_offs").insert({
-      day_of_week: dayOfWeek,
+      organization_id: organizationId,
+      calendar_id: calendarId || null,
+      day_of_week: pattern.day_of_week,
+      weeks_of_month: pattern.weeks_of_month,
+      week_interval: pattern.week_interval,
+      anchor_date: pattern.anchor_date,
       description,
     });
 
@@ -173,16 +313,23 @@ export const useHolidays = (userId: string) => {
     return true;
   };
 
-  // Personal holiday operations
+  // Personal holiday operations. Half-day leave (dayPortion other than "full") is a single day
+  // and has no cover person
   const requestPersonalHoliday = async (
     startDate: string,
     endDate: string,
-    reason?: string
+    reason?: string,
+    dayPortion: DayPortion = "full",
+    leaveTypeId?: string | null,
+    coverUserId?: string | null
   ) => {
     const { error } = await supabase.from("personal_holidays").insert({
       user_id: userId,
       start_date: startDate,
       end_date: endDate,
+      day_portion: dayPortion,
+      leave_type_id: leaveTypeId || null,
+      cover_user_id: dayPortion === "full" ? coverUserId || null : null,
       reason,
     });
 
@@ -196,14 +343,79 @@ export const useHolidays = (userId: string) => {
     return true;
   };
 
-  const approvePersonalHoliday = async (id: string, approved: boolean) => {
+  // Withdraws a pending request or cancels approved leave
+  const cancelPersonalHoliday = async (id: string) => {
+    const { error } = await supabase
+      .from("personal_holidays")
+      .update({ approval_status: "cancelled" })
+      .eq("id", id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Leave cancelled" });
+    fetchHolidays();
+    return true;
+  };
+
+  // New dates go back through approval, also for leave that was already approved
+  const modifyPersonalHoliday = async (
+    id: string,
+    startDate: string,
+    endDate: string,
+    dayPortion: DayPortion = "full"
+  ) => {
     const { error } = await supabase
+      .from("personal_holidays")
+      .update({
+        start_date: startDate,
+        end_date: endDate,
+        day_portion: dayPortion,
+        ...(dayPortion !== "full" && { cover_user_id: null }),
+      })
+      .eq("id", id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Leave change submitted for approval" });
+    fetchHolidays();
+    return true;
+  };
+
+  // Nominates (or clears, with null) the colleague who works the user's tasks during the leave.
+  // Does not send approved leave back through approval
+  const setLeaveCover = async (id: string, coverUserId: string | null) => {
+    const { error } = await supabase.rpc("set_leave_cover", {
+      _leave_id: id,
+      _cover_user_id: coverUserId,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: coverUserId ? "Cover updated" : "Cover removed" });
+    fetchHolidays();
+    return true;
+  };
+
+  // With two-level approval the first approval leaves the request pending for the second approver
+  const approvePersonalHoliday = async (id: string, approved: boolean) => {
+    const { data, error } = await supabase
       .from("personal_holidays")
       .update({
         approval_status: approved ? "approved" : "rejected",
         approved_by: userId,
       })
-      .eq("id", id);
+      .eq("id", id)
+      .select("approval_status")
+      .single();
 
     if (error) {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -212,8 +424,14 @@ export const useHolidays = (userId: string) => {
 
     toast({
       title: "Success",
-      description: `Leave request ${approved ? "approved" : "rejected"}`,
+      description: approved && data.approval_status === "pending"
+        ? "Leave request approved, awaiting second approval"
+        : `Leave request ${approved ? "approved" : "rejected"}`,
     });
+    // The requester hears about it once the decision is final
+    if (data.approval_status !== "pending") {
+      notifyLeaveDecision(id);
+    }
     fetchHolidays();
     return true;
   };
@@ -223,12 +441,20 @@ export const useHolidays = (userId: string) => {
     personalHolidays,
     teamHolidays,
     weeklyOffs,
+    calendars,
+    userCalendarId,
     loading,
+    addHolidayCalendar,
+    deleteHolidayCalendar,
     addPublicHoliday,
+    importPublicHolidays,
     deletePublicHoliday,
     addWeeklyOff,
     deleteWeeklyOff,
     requestPersonalHoliday,
+    cancelPersonalHoliday,
+    modifyPersonalHoliday,
+    setLeaveCover,
     approvePersonalHoliday,
     refresh: fetchHolidays,
   };
@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useSystemSettings } from "./useSystemSettings";
+import { formatDateForDB } from "@/lib/dateUtils";
+import {
+  calculateLeaveBalance,
+  type LeaveBalance,
+  type LeaveDaysByYear,
+  type LeaveEntitlement,
+  type LeaveRequestDays,
+  type LeaveType,
+} from "@/lib/leaveBalances";
+import type { Database } from "@/integrations/supabase/types";
+
+type LeaveTypeInsert = Omit<Database["public"]["Tables"]["leave_types"]["Insert"], "organization_id">;
+type LeaveTypeUpdate = Database["public"]["Tables"]["leave_types"]["Update"];
+
+interface OrganizationMember {
+  id: string;
+  full_name: string;
+  email: string;
+  created_at: string;
+}
+
+/**
+ * Leave types of the user's organization and leave balances of the users whose leave
+ * requests they can see (their own, their team's as a manager, everyone's as an admin).
+ */
+export const useLeaveBalances = (userId: string) => {
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [entitlements, setEntitlements] = useState<LeaveEntitlement[]>([]);
+  const [requests, setRequests] = useState<LeaveRequestDays[]>([]);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { timezone } = useSystemSettings(organizationId, userId);
+
+  const fetchLeaveData = async () => {
+    try {
+      setLoading(true);
+
+      const { data: profile, error: profileError } = await supabase
+        .from("users")
+        .select("organization_id")
+        .eq("id", userId)
+        .single();
+
+      if (profileError) throw profileError;
+      setOrganizationId(profile.organization_id);
+
+      const { data: typeData, error: typeError } = await supabase
+        .from("leave_types")
+        .select("id, name, code, description, annual_entitlement, accrual_frequency, carry_forward_limit, is_active")
+        .eq("organization_id", profile.organization_id)
+        .order("name");
+
+      if (typeError) throw typeError;
+      setLeaveTypes(typeData || []);
+
+      // The previous year is needed for carry-forward, the next for requests filed ahead
+      const currentYear = new Date().getFullYear();
+      const { data: entitlementData, error: entitlementError } = await supabase
+        .from("leave_entitlements")
+        .select("user_id, leave_type_id, year, entitled_days")
+        .gte("year", currentYear - 1)
+        .lte("year", currentYear + 1);
+
+      if (entitlementError) throw entitlementError;
+      setEntitlements(entitlementData || []);
+
+      // Typed leave requests visible to this user (RLS: own, team, or organization for admins)
+      const { data: requestData, error: requestError } = await supabase
+        .from("personal_holidays")
+        .select("user_id, leave_type_id, start_date, end_date, day_portion, approval_status, leave_days")
+        .not("leave_type_id", "is", null)
+        .gte("end_date", `${currentYear - 1}-01-01`);
+
+      if (requestError) throw requestError;
+      setRequests((requestData || []).map((r) => ({ ...r, leave_days: r.leave_days as LeaveDaysByYear })));
+
+      // Members' join dates start their accrual; admins set entitlements per member
+      const { data: memberData } = await supabase
+        .from("users")
+        .select("id, full_name, email, created_at")
+        .eq("organization_id", profile.organization_id)
+        .order("full_name");
+
+      setMembers(memberData || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (userId) {
+      fetchLeaveData();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  /**
+   * Balance of a user for a leave type in the given year (default: the current year).
+   */
+  const getBalance = useCallback(
+    (forUserId: string, leaveTypeId: string, year?: number): LeaveBalance | null => {
+      const leaveType = leaveTypes.find((t) => t.id === leaveTypeId);
+      if (!leaveType) return null;
+
+      const todayStr = formatDateForDB(new Date(), timezone);
+      const member = members.find((m) => m.id === forUserId);
+      return calculateLeaveBalance(
+        leaveType,
+        forUserId,
+        year ?? Number(todayStr.slice(0, 4)),
+        entitlements,
+        requests,
+        todayStr,
+        member ? member.created_at.slice(0, 10) : null
+      );
+    },
+    [leaveTypes, entitlements, requests, members, timezone]
+  );
+
+  // Leave type operations (admin only)
+  const addLeaveType = async (leaveType: LeaveTypeInsert) => {
+    if (!organizationId) return false;
+
+    const { error } = await supabase
+      .from("leave_types")
+      .insert({ ...leaveType, organization_id: organizationId });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Leave type added" });
+    fetchLeaveData();
+    return true;
+  };
+
+  const updateLeaveType = async (id: string, updates: LeaveTypeUpdate) => {
+    const { error } = await supabase.from("leave_types").update(updates).eq("id", id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Leave type updated" });
+    fetchLeaveData();
+    return true;
+  };
+
+  const deleteLeaveType = async (id: string) => {
+    const { error } = await supabase.from("leave_types").delete().eq("id", id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Leave type deleted" });
+    fetchLeaveData();
+    return true;
+  };
+
+  // Per-user yearly entitlement (admin only). null = back to the leave type default
+  const setEntitlement = async (
+    forUserId: string,
+    leaveTypeId: string,
+    year: number,
+    entitledDays: number | null
+  ) => {
+    const { error } = entitledDays === null
+      ? await supabase
+          .from("leave_entitlements")
+          .delete()
+          .eq("user_id", forUserId)
+          .eq("leave_type_id", leaveTypeId)
+          .eq("year", year)
+      : await supabase
+          .from("leave_entitlements")
+          .upsert(
+            { user_id: forUserId, leave_type_id: leaveTypeId, year, entitled_days: entitledDays },
+            { onConflict: "user_id,leave_type_id,year" }
+          );
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Leave entitlement updated" });
+    fetchLeaveData();
+    return true;
+  };
+
+  return {
+    leaveTypes,
+    entitlements,
+    members,
+    loading,
+    getBalance,
+    addLeaveType,
+    updateLeaveType,
+    deleteLeaveType,
+    setEntitlement,
+    refresh: fetchLeaveData,
+  };
+};
@@ -1,14 +1,23 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { format, eachDayOfInterval, startOfMonth, endOfMonth } from "date-fns";
-import { useTaskRecurrence } from "./useTaskRecurrence";
+import { format } from "date-fns";
+import {
+  useTaskRecurrence,
+  findOccurrenceException,
+  getOccurrenceBenchmark,
+  type NonWorkingDayPolicy,
+  type TaskOccurrenceException,
+} from "./useTaskRecurrence";
 import { useWorkingDays } from "./useWorkingDays";
 import { useSystemSettings } from "./useSystemSettings";
-import { formatDateForDB } from "@/lib/dateUtils";
+import { useRealtimeRefresh } from "./useRealtimeRefresh";
+import { eachDayOfMonthInTimeZone, formatDateForDB, getMonthDateRange } from "@/lib/dateUtils";
+import { prorateBenchmark } from "@/lib/leaveUtils";
 import type { Database } from "@/integrations/supabase/types";
 
 type TaskStatus = Database["public"]["Enums"]["task_status"];
+type CompletionSlaStatus = Database["public"]["Enums"]["completion_sla_status"];
 
 interface Task {
   id: string;
@@ -17,8 +26,13 @@ interface Task {
   category: string | null;
   benchmark: number | null;
   recurrence_type: string;
-  recurrence_config: any;
+  recurrence_rule: string | null;
   created_at: string;
+  start_date: string | null;
+  due_date: string | null;
+  created_by?: string | null;
+  exceptions?: TaskOccurrenceException[] | null;
+  non_working_day_policy?: NonWorkingDayPolicy | null;
 }
 
 interface TaskAssignment {
@@ -46,6 +60,18 @@ interface MonthlyTaskData {
   dailyQuantities: Map<string, number | null>;
   dailyApprovalStatuses: Map<string, string | null>;
   dailyManagerComments: Map<string, string | null>;
+  // Name of the colleague who recorded the completion while the assignee was on leave
+  dailyCoveredBy: Map<string, string | null>;
+  // updated_at of the completion recorded for each day, to detect concurrent edits when saving
+  dailyUpdatedAt: Map<string, string>;
+  // Whether each day's completion was recorded by its deadline (completed or partial only)
+  dailySlaStatuses: Map<string, CompletionSlaStatus | null>;
+  // Benchmark per day, with per-occurrence overrides applied
+  dailyBenchmarks: Map<string, number | null>;
+  // Exception that skips, moves or overrides the occurrence on (or moved onto) each day
+  dailyExceptions: Map<string, TaskOccurrenceException>;
+  // Days the task's own schedule falls on, before exceptions are applied
+  occurrenceDates: Set<string>;
 }
 
 export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId?: string) => {
@@ -53,11 +79,13 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
   const [loading, setLoading] = useState(true);
   const [organizationId, setOrganizationId] = useState<string | null>(null);
   const { toast } = useToast();
-  const { taskAppliesToDate } = useTaskRecurrence();
   // Use targetUserId if provided, otherwise use userId
   const effectiveUserId = targetUserId || userId;
-  const { isWorkingDay } = useWorkingDays(effectiveUserId);
-  const { settings } = useSystemSettings(organizationId);
+  // Day boundaries follow the viewed user's timezone (their override or the organization's)
+  const { timezone } = useSystemSettings(organizationId, effectiveUserId);
+  const { isWorkingDateStr, getDayCapacityInfo, loading: workingDaysLoading } = useWorkingDays(effectiveUserId);
+  // Working-day recurrence rules count the viewed user's own working days
+  const { taskAppliesToDate, taskDueOnDate } = useTaskRecurrence(timezone, isWorkingDateStr);
 
   useEffect(() => {
     const fetchOrganizationId = async () => {
@@ -83,14 +111,28 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
       fetchMonthlyTasks();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId, currentMonth, targetUserId, organizationId]);
-
-  const fetchMonthlyTasks = async () => {
+  }, [userId, currentMonth, targetUserId, organizationId, timezone, workingDaysLoading]);
+
+  // Assignments shown in the month, so completions of other users' tasks are ignored
+  const viewedAssignmentIdsRef = useRef<Set<string>>(new Set());
+
+  // Completions, approvals and leave changed by others show up live
+  useRealtimeRefresh(
+    "monthly-tasks",
+    [
+      { table: "task_completions", matches: (row) => viewedAssignmentIdsRef.current.has(row.assignment_id as string) },
+      { table: "task_assignments", filter: `assigned_to=eq.${effectiveUserId}` },
+      { table: "personal_holidays" },
+    ],
+    () => fetchMonthlyTasks(false),
+    !!organizationId && !!effectiveUserId
+  );
+
+  const fetchMonthlyTasks = async (showLoading = true) => {
     try {
-      setLoading(true);
-      const monthStart = startOfMonth(currentMonth);
-      const monthEnd = endOfMonth(currentMonth);
-      const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
+      if (showLoading) setLoading(true);
+      const { startStr: monthStartStr, endStr: monthEndStr } = getMonthDateRange(currentMonth);
+      const daysInMonth = eachDayOfMonthInTimeZone(currentMonth, timezone);
 
       // Fetch task assignments for the target user (or current user if not specified)
       const { data: assignments, error: assignError } = await supabase
@@ -107,6 +149,7 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
         throw assignError;
       }
 
+      viewedAssignmentIdsRef.current = new Set((assignments || []).map((a) => a.id));
       if (!assignments || assignments.length === 0) {
         setTasks([]);
         setLoading(false);
@@ -135,8 +178,12 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
               category,
               benchmark,
               recurrence_type,
-              recurrence_config,
-              created_at
+              recurrence_rule,
+              created_at,
+              start_date,
+              due_date,
+              created_by,
+              non_working_day_policy
             `)
             .in("id", taskIds);
           
@@ -159,8 +206,12 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
             category,
             benchmark,
             recurrence_type,
-            recurrence_config,
-            created_at
+            recurrence_rule,
+            created_at,
+            start_date,
+            due_date,
+            created_by,
+            non_working_day_policy
           `)
           .in("id", taskIds);
 
@@ -171,10 +222,21 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
         tasks = directTasks;
       }
 
+      // Per-occurrence exceptions are fetched separately so they apply to RPC results too
+      const { data: exceptions, error: exceptionError } = await supabase
+        .from("task_occurrence_exceptions")
+        .select("id, task_id, occurrence_date, action, new_date, benchmark_override, reason")
+        .in("task_id", taskIds);
+
+      if (exceptionError) throw exceptionError;
+
       // Create a map of task_id -> task for quick lookup
       const taskMap = new Map<string, Task>();
       tasks?.forEach((task) => {
-        taskMap.set(task.id, task);
+        taskMap.set(task.id, {
+          ...task,
+          exceptions: exceptions?.filter((e) => e.task_id === task.id) || [],
+        });
       });
 
       // Join assignments with tasks
@@ -194,13 +256,19 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
 
       // Fetch all completions for the month
       // Need to check both scheduled_date (when tasks were due) and completion_date (when they were done)
-      const monthStartStr = formatDateForDB(monthStart, settings.timezone);
-      const monthEndStr = formatDateForDB(monthEnd, settings.timezone);
+      const todayStr = formatDateForDB(new Date(), timezone);
 
       // Fetch all completions for these assignments, then filter in code
       const { data: allCompletions, error: compError } = await supabase
         .from("task_completions")
-        .select("*, approval_status, manager_comment")
+        .select(`
+          *,
+          approval_status,
+          manager_comment,
+          completer:users!task_completions_completed_by_fkey (
+            full_name
+          )
+        `)
         .in(
           "assignment_id",
           assignmentsWithTasks.map((a) => a.id)
@@ -219,7 +287,8 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
       if (compError) throw compError;
 
       // Build completion map - key: assignment_id-scheduled_date, value: completion record
-      const completionMap = new Map<string, { status: TaskStatus; scheduled_date: string; completion_date: string; notes: string | null; quantity_completed: number | null; approval_status: string | null; manager_comment: string | null }>();
+      const completionMap = new Map<string, { status: TaskStatus; scheduled_date: string; completion_date: string; notes: string | null; quantity_completed: number | null; approval_status: string | null; manager_comment: string | null; covered_by: string | null; updated_at: string; sla_status: CompletionSlaStatus | null }>();
+      const assigneeByAssignment = new Map(assignmentsWithTasks.map((a) => [a.id, a.assigned_to]));
       
       completions?.forEach((c) => {
         // Use scheduled_date as the key since that's when the task was supposed to be done
@@ -233,6 +302,12 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
           quantity_completed: c.quantity_completed,
           approval_status: c.approval_status || null,
           manager_comment: c.manager_comment || null,
+          covered_by:
+            c.completed_by && c.completed_by !== assigneeByAssignment.get(c.assignment_id)
+              ? c.completer?.full_name || null
+              : null,
+          updated_at: c.updated_at,
+          sla_status: c.sla_status,
         });
       });
 
@@ -246,13 +321,33 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
         const dailyQuantities = new Map<string, number | null>();
         const dailyApprovalStatuses = new Map<string, string | null>();
         const dailyManagerComments = new Map<string, string | null>();
+        const dailyCoveredBy = new Map<string, string | null>();
+        const dailyUpdatedAt = new Map<string, string>();
+        const dailySlaStatuses = new Map<string, CompletionSlaStatus | null>();
+        const dailyBenchmarks = new Map<string, number | null>();
+        const dailyExceptions = new Map<string, TaskOccurrenceException>();
+        const occurrenceDates = new Set<string>();
 
         for (const day of daysInMonth) {
-          const dateStr = formatDateForDB(day, settings.timezone);
-          const workingDayInfo = isWorkingDay(day);
+          const dateStr = formatDateForDB(day, timezone);
 
-          // Check if task applies to this date
-          if (!taskAppliesToDate(task, day)) {
+          if (taskAppliesToDate({ ...task, exceptions: null }, day)) {
+            occurrenceDates.add(dateStr);
+          }
+          const exception = findOccurrenceException(task, dateStr);
+          if (exception) {
+            dailyExceptions.set(dateStr, exception);
+          }
+          // Prorated on half days (half-day leave or holiday)
+          dailyBenchmarks.set(
+            dateStr,
+            prorateBenchmark(getOccurrenceBenchmark(task, dateStr), getDayCapacityInfo(dateStr).capacity)
+          );
+
+          // Check if task applies to this date: due after its non-working-day policy, or an
+          // occurrence on a non-working day that the policy moved or skipped
+          const isDue = taskDueOnDate(task, day);
+          if (!isDue && !taskAppliesToDate(task, day)) {
             dailyStatuses.set(dateStr, "not_applicable");
             dailyNotes.set(dateStr, null);
             dailyCompletionDates.set(dateStr, null);
@@ -275,12 +370,14 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
             dailyQuantities.set(dateStr, completion.quantity_completed);
             dailyApprovalStatuses.set(dateStr, completion.approval_status);
             dailyManagerComments.set(dateStr, completion.manager_comment);
+            dailyCoveredBy.set(dateStr, completion.covered_by);
+            dailyUpdatedAt.set(dateStr, completion.updated_at);
+            dailySlaStatuses.set(dateStr, completion.sla_status);
             
             // There's a completion record for this scheduled date
             // Check if it was completed on time or delayed
-            if (completion.completion_date > completion.scheduled_date && 
-                (completion.status === "completed" || completion.status === "partial")) {
-              // Task was scheduled for this date but completed later - mark as delayed
+            if (completion.sla_status === "late") {
+              // Completed after the deadline (a later day, or past the due time and grace period) - mark as delayed
               dailyStatuses.set(dateStr, "delayed");
             } else {
               // Task was completed on time (or on scheduled date)
@@ -289,8 +386,8 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
             continue; // Skip the rest - we have a completion
           }
 
-          // If not a working day AND no completion, mark as not applicable
-          if (!workingDayInfo.isWorkingDay) {
+          // If not due (a non-working day the policy moved or skipped) AND no completion, mark as not applicable
+          if (!isDue) {
             dailyStatuses.set(dateStr, "not_applicable");
             dailyNotes.set(dateStr, null);
             dailyCompletionDates.set(dateStr, null);
@@ -305,15 +402,10 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
           dailyApprovalStatuses.set(dateStr, null);
           dailyManagerComments.set(dateStr, null);
           
-          // Check if it's in the past or future
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          const dayDate = new Date(day);
-          dayDate.setHours(0, 0, 0, 0);
-
-          if (dayDate > today) {
+          // Check if it's in the past or future (relative to today in the user's timezone)
+          if (dateStr > todayStr) {
             dailyStatuses.set(dateStr, "scheduled");
-          } else if (dayDate.getTime() === today.getTime()) {
+          } else if (dateStr === todayStr) {
             dailyStatuses.set(dateStr, "scheduled");
           } else {
             // Past working day with no completion - not done
@@ -329,6 +421,12 @@ export const useMonthlyTasks = (userId: string, currentMonth: Date, targetUserId
           dailyQuantities,
           dailyApprovalStatuses,
           dailyManagerComments,
+          dailyCoveredBy,
+          dailyUpdatedAt,
+          dailySlaStatuses,
+          dailyBenchmarks,
+          dailyExceptions,
+          occurrenceDates,
         };
       });
 
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Tables published to Supabase Realtime (see the add_realtime_for_dashboard migration)
+export type RealtimeTable = "task_completions" | "task_assignments" | "personal_holidays";
+
+export interface RealtimeSubscription {
+  table: RealtimeTable;
+  filter?: string; // Realtime filter, e.g. "assigned_to=eq.<user id>"
+  // Changes are ignored unless the new or old row matches, e.g. completions of assignments on screen
+  matches?: (row: Record<string, unknown>) => boolean;
+}
+
+// Changes often arrive in bursts (an upsert, a bulk approval), so refetch once they settle
+const REFRESH_DELAY_MS = 500;
+
+/**
+ * Calls onChange when rows of the given tables are inserted, updated or deleted by anyone,
+ * so open screens pick up other users' edits without a reload. RLS still applies: only
+ * changes to rows the user can read are delivered.
+ */
+export const useRealtimeRefresh = (
+  name: string,
+  subscriptions: RealtimeSubscription[],
+  onChange: () => void,
+  enabled = true
+) => {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  // matches reads the latest view, so it is looked up when a change arrives
+  const subscriptionsRef = useRef(subscriptions);
+  subscriptionsRef.current = subscriptions;
+
+  // Subscriptions are usually built inline, so resubscribe only when their contents change
+  const subscriptionKey = subscriptions.map((s) => `${s.table}:${s.filter || ""}`).join("|");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleRefresh = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onChangeRef.current(), REFRESH_DELAY_MS);
+    };
+
+    // Each mounted hook needs its own channel; two screens can watch the same tables
+    let channel = supabase.channel(`${name}-${Math.random().toString(36).slice(2)}`);
+    subscriptions.forEach(({ table, filter }, index) => {
+      channel = channel.on(
+        "postgres_changes",
+        { event: "*", schema: "public", table, ...(filter && { filter }) },
+        (payload: { new: Record<string, unknown>; old: Record<string, unknown> }) => {
+          const matches = subscriptionsRef.current[index]?.matches;
+          if (matches && ![payload.new, payload.old].some((row) => row && matches(row))) return;
+          scheduleRefresh();
+        }
+      );
+    });
+    channel.subscribe();
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [name, subscriptionKey, enabled]);
+};
@@ -9,18 +9,47 @@ interface Subordinate {
   manager_id: string | null;
 }
 
-export const useSubordinates = (userId: string) => {
+/**
+ * Active direct reports of the user, or with includeIndirect the whole subordinate tree
+ * (reports of reports too, from get_subordinates).
+ */
+export const useSubordinates = (userId: string, includeIndirect = false) => {
   const [subordinates, setSubordinates] = useState<Subordinate[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchSubordinates();
-  }, [userId]);
+  }, [userId, includeIndirect]);
 
   const fetchSubordinates = async () => {
     try {
       setLoading(true);
+
+      if (includeIndirect) {
+        const { data: tree, error: treeError } = await supabase.rpc("get_subordinates", {
+          _user_id: userId,
+        });
+
+        if (treeError) throw treeError;
+
+        const subordinateIds = (tree || []).map((s) => s.subordinate_id);
+        if (subordinateIds.length === 0) {
+          setSubordinates([]);
+          return;
+        }
+
+        const { data: members, error } = await supabase
+          .from("users")
+          .select("id, full_name, email, manager_id")
+          .in("id", subordinateIds)
+          .eq("is_active", true)
+          .order("full_name", { ascending: true });
+
+        if (error) throw error;
+        setSubordinates(members || []);
+        return;
+      }
       
       // Fetch all profiles where manager_id = userId (direct reports)
       const { data: directReports, error } = await supabase
@@ -32,9 +61,8 @@ export const useSubordinates = (userId: string) => {
 
       if (error) throw error;
 
-      // For now, we'll only show direct reports
-      // The database function get_subordinates handles indirect reports for RLS
-      // But for the UI, direct reports are sufficient
+      // Direct reports are enough for most views; the database function get_subordinates
+      // handles indirect reports for RLS and includeIndirect
       setSubordinates(directReports || []);
     } catch (error: any) {
       toast({
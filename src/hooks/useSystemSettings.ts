@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_TIMEZONE, resolveTimezone } from "@/lib/dateUtils";
 
 interface SystemSettings {
   timezone: string;
@@ -8,18 +9,69 @@ interface SystemSettings {
   auto_approve_tasks: boolean;
   email_notification_time?: string; // Format: "HH:mm" (24-hour format, e.g., "18:00" for 6 PM)
   email_notification_day?: string; // "same" or "previous" - whether to send for same day or previous day
+  email_from_name?: string; // Sender name of emails from the organization (default "Momentum")
+  email_from_address?: string; // Sender address; empty = the server's EMAIL_FROM
+  email_reply_to?: string; // Reply-To address of emails from the organization
+  email_language?: string; // Default email language: "en", "hi", "ar" or "es"
+  email_logo_url?: string; // Logo at the top of emails
+  email_primary_color?: string; // Email headings, links and buttons (hex)
+  email_accent_color?: string; // Second color of email buttons (hex)
+  email_footer_text?: string; // Custom email footer
+  leave_second_approval_after_days?: string; // Leave longer than this many days needs a second approval ("0" = never)
+  leave_second_approver?: string; // "skip_level" (manager's manager) or "hr"
+  leave_min_category_coverage?: string; // Team members who must stay available per task category ("0" = no check)
+  escalation_missed_streak?: string; // Escalate a task missed this many times in a row ("0" = off)
+  escalation_approval_pending_days?: string; // Escalate approvals pending longer than this many days ("0" = off)
+  escalation_benchmark_percent?: string; // Escalate tasks below this % of their benchmark over a week ("0" = off)
 }
 
-export const useSystemSettings = (organizationId: string | null) => {
+/**
+ * Loads organization settings. When a userId is given, the returned `timezone` also
+ * honors that user's personal timezone override (users.timezone).
+ */
+export const useSystemSettings = (organizationId: string | null, userId?: string | null) => {
   const [settings, setSettings] = useState<SystemSettings>({
-    timezone: "Asia/Kolkata",
+    timezone: DEFAULT_TIMEZONE,
     date_format: "YYYY-MM-DD",
     allow_upward_delegation: false,
     auto_approve_tasks: true, // Default to auto-approve for backward compatibility
     email_notification_time: "18:00", // Default 6 PM
     email_notification_day: "same", // Default same day
+    leave_second_approval_after_days: "0",
+    leave_second_approver: "skip_level",
+    leave_min_category_coverage: "0",
+    escalation_missed_streak: "0",
+    escalation_approval_pending_days: "0",
+    escalation_benchmark_percent: "0",
   });
+  const [userTimezone, setUserTimezone] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  // The organization the settings were last loaded for; until it matches, settings hold the defaults
+  const [loadedOrganizationId, setLoadedOrganizationId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setUserTimezone(null);
+      return;
+    }
+
+    const fetchUserTimezone = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("users")
+          .select("timezone")
+          .eq("id", userId)
+          .maybeSingle();
+
+        if (error) throw error;
+        setUserTimezone(data?.timezone || null);
+      } catch (error) {
+        console.error("Error fetching user timezone:", error);
+      }
+    };
+
+    fetchUserTimezone();
+  }, [userId]);
 
   useEffect(() => {
     if (!organizationId) {
@@ -52,6 +104,7 @@ export const useSystemSettings = (organizationId: string | null) => {
       } catch (error) {
         console.error("Error fetching system settings:", error);
       } finally {
+        setLoadedOrganizationId(organizationId);
         setLoading(false);
       }
     };
@@ -59,6 +112,11 @@ export const useSystemSettings = (organizationId: string | null) => {
     fetchSettings();
   }, [organizationId]);
 
-  return { settings, loading };
+  return {
+    settings,
+    timezone: resolveTimezone(settings.timezone, userTimezone),
+    // Also loading in the render where organizationId first arrives, before the fetch has started
+    loading: loading || (!!organizationId && loadedOrganizationId !== organizationId),
+  };
 };
 
@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { TaskExceptionAction } from "./useTaskRecurrence";
+
+interface OccurrenceExceptionInput {
+  action: TaskExceptionAction;
+  newDate?: string | null;
+  benchmarkOverride?: number | null;
+  reason?: string | null;
+}
+
+/**
+ * Create, replace or clear the exception for a single occurrence of a task.
+ * Occurrence dates are 'yyyy-MM-dd' calendar dates in the organization timezone.
+ */
+export const useTaskExceptions = (userId: string) => {
+  const { toast } = useToast();
+
+  const saveOccurrenceException = async (
+    taskId: string,
+    occurrenceDate: string,
+    input: OccurrenceExceptionInput
+  ) => {
+    const { error } = await supabase
+      .from("task_occurrence_exceptions")
+      .upsert(
+        {
+          task_id: taskId,
+          occurrence_date: occurrenceDate,
+          action: input.action,
+          new_date: input.action === "reschedule" ? input.newDate || null : null,
+          benchmark_override: input.action === "skip" ? null : input.benchmarkOverride ?? null,
+          reason: input.reason || null,
+          created_by: userId,
+        },
+        { onConflict: "task_id,occurrence_date" }
+      );
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    const messages: Record<TaskExceptionAction, string> = {
+      skip: "Occurrence skipped",
+      reschedule: "Occurrence rescheduled",
+      override: "Benchmark overridden for this occurrence",
+    };
+    toast({ title: "Success", description: messages[input.action] });
+    return true;
+  };
+
+  const clearOccurrenceException = async (taskId: string, occurrenceDate: string) => {
+    const { error } = await supabase
+      .from("task_occurrence_exceptions")
+      .delete()
+      .eq("task_id", taskId)
+      .eq("occurrence_date", occurrenceDate);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: "Occurrence restored to its regular schedule" });
+    return true;
+  };
+
+  return { saveOccurrenceException, clearOccurrenceException };
+};
@@ -1,213 +1,168 @@
 import { useMemo } from "react";
-import { RRule, Frequency } from "rrule";
-import { startOfDay, endOfDay, isSameDay } from "date-fns";
-import { formatInTimeZone } from "date-fns-tz";
-
-interface RecurrenceConfig {
-  frequency?: string;
-  interval?: number;
-  days?: number[]; // For weekly recurrence (0=Sunday, 1=Monday, etc.)
-  byweekday?: number[];
-  bymonthday?: number[];
-  bymonth?: number[]; // For yearly recurrence (0=January, 1=February, etc.)
-  bysetpos?: number[];
-  monthlyType?: "date" | "weekday";
-  yearlyType?: "date" | "weekday";
-  dayOfMonth?: number;
-  until?: string;
-  count?: number;
-  endType?: string;
-  endDate?: string;
-  occurrences?: number;
+import { addDaysToDateStr, DEFAULT_TIMEZONE, formatDateForDB } from "@/lib/dateUtils";
+import { resolveRecurrenceRule, ruleOccursOn, type WorkingDatePredicate } from "@/lib/recurrenceRule";
+import type { Database } from "@/integrations/supabase/types";
+
+export type TaskExceptionAction = Database["public"]["Enums"]["task_exception_action"];
+export type NonWorkingDayPolicy = Database["public"]["Enums"]["non_working_day_policy"];
+
+// How far an occurrence can roll to the previous/next working day
+const MAX_ROLL_DAYS = 31;
+
+/**
+ * A change to a single occurrence of a task (task_occurrence_exceptions row).
+ * occurrence_date is the date the occurrence was originally scheduled for.
+ */
+export interface TaskOccurrenceException {
+  id?: string;
+  occurrence_date: string;
+  action: TaskExceptionAction;
+  new_date: string | null;
+  benchmark_override: number | null;
+  reason?: string | null;
 }
 
 interface Task {
   id: string;
   recurrence_type: string;
-  recurrence_config: RecurrenceConfig | null;
+  recurrence_rule: string | null;
   created_at: string;
+  start_date?: string | null;
+  due_date?: string | null;
+  benchmark?: number | null;
+  exceptions?: TaskOccurrenceException[] | null;
+  non_working_day_policy?: NonWorkingDayPolicy | null;
 }
 
 /**
- * Hook to expand task recurrence patterns and check if a task applies to a specific date
+ * Returns the exception that moves an occurrence onto dateStr, or that skips, moves or
+ * overrides the occurrence originally scheduled on dateStr.
  */
-export const useTaskRecurrence = () => {
-  const getFrequency = (type: string, config?: RecurrenceConfig): Frequency => {
-    // For custom recurrence, get frequency from config
-    if (type === "custom" && config?.frequency) {
-      switch (config.frequency) {
-        case "daily":
-          return RRule.DAILY;
-        case "weekly":
-          return RRule.WEEKLY;
-        case "monthly":
-          return RRule.MONTHLY;
-        case "yearly":
-          return RRule.YEARLY;
-        default:
-          return RRule.DAILY;
-      }
+export const findOccurrenceException = (
+  task: Pick<Task, "exceptions">,
+  dateStr: string
+): TaskOccurrenceException | undefined => {
+  const exceptions = task.exceptions || [];
+  return (
+    exceptions.find((e) => e.action === "reschedule" && e.new_date === dateStr) ||
+    exceptions.find((e) => e.occurrence_date === dateStr)
+  );
+};
+
+/**
+ * Benchmark for the occurrence on dateStr, honoring per-occurrence overrides.
+ */
+export const getOccurrenceBenchmark = (
+  task: Pick<Task, "exceptions" | "benchmark">,
+  dateStr: string
+): number | null => {
+  const exception = findOccurrenceException(task, dateStr);
+  const appliesHere = exception && (exception.action === "reschedule"
+    ? exception.new_date === dateStr
+    : exception.action === "override");
+  return appliesHere && exception.benchmark_override !== null
+    ? exception.benchmark_override
+    : task.benchmark ?? null;
+};
+
+/**
+ * Expands task recurrence patterns and checks if a task applies to a specific date.
+ * Day boundaries are taken from the given timezone (organization setting or user override).
+ * Working-day rules ("3rd working day of the month") count days with isWorkingDate.
+ * useTaskRecurrence memoizes this for the current user; call it directly to check a
+ * colleague's tasks against their own calendar.
+ */
+export const createTaskRecurrence = (
+  timezone: string = DEFAULT_TIMEZONE,
+  isWorkingDate?: WorkingDatePredicate
+) => {
+  const occursOnDateStr = (task: Task, targetDateStr: string): boolean => {
+    // An occurrence rescheduled onto this date applies; a skipped or moved one no longer does
+    const exception = findOccurrenceException(task, targetDateStr);
+    if (exception?.action === "reschedule" && exception.new_date === targetDateStr) {
+      return true;
+    }
+    if (exception && exception.action !== "override") {
+      return false;
+    }
+
+    // Tasks created before start_date existed fall back to their creation date
+    const startDateStr = task.start_date || formatDateForDB(new Date(task.created_at), timezone);
+
+    // One-time tasks (no recurrence) are due on their due date, or on the start date if none is set
+    if (task.recurrence_type === "none") {
+      return (task.due_date || startDateStr) === targetDateStr;
     }
-    
-    // For standard recurrence types
-    switch (type) {
-      case "daily":
-        return RRule.DAILY;
-      case "weekly":
-        return RRule.WEEKLY;
-      case "monthly":
-        return RRule.MONTHLY;
-      case "yearly":
-        return RRule.YEARLY;
-      default:
-        return RRule.DAILY;
+
+    // Custom recurrence requires a stored rule; standard types fall back to their default rule
+    const rule = resolveRecurrenceRule(task.recurrence_type, task.recurrence_rule);
+    if (!rule) {
+      return false;
+    }
+
+    try {
+      // The rule is expanded on floating UTC dates built from calendar dates in the
+      // organization's timezone, so DST changes never move an occurrence to another day
+      return ruleOccursOn(rule, startDateStr, targetDateStr, isWorkingDate);
+    } catch (error) {
+      console.error("Error processing recurrence:", error);
+      return false;
     }
   };
 
-  const taskAppliesToDate = useMemo(() => {
-    return (task: Task, targetDate: Date): boolean => {
-      // One-time tasks (no recurrence)
-      if (task.recurrence_type === "none") {
-        return isSameDay(new Date(task.created_at), targetDate);
-      }
+  // True if the task's schedule has an occurrence on this date, whether or not it is a working day
+  const taskAppliesToDate = (task: Task, targetDate: Date): boolean =>
+    occursOnDateStr(task, formatDateForDB(targetDate, timezone));
 
-      // For custom recurrence, require recurrence_config
-      if (task.recurrence_type === "custom" && !task.recurrence_config) {
-        return false;
-      }
+  /**
+   * True if the task is due on this date after applying its non-working-day policy:
+   * occurrences on a weekly off, holiday or leave day move to the previous or next working
+   * day, are skipped, or stay put ("ignore"). Occurrences explicitly rescheduled onto a
+   * date always stay there.
+   */
+  const taskDueOnDate = (task: Task, targetDate: Date): boolean => {
+    const targetDateStr = formatDateForDB(targetDate, timezone);
+    const policy = task.non_working_day_policy || "next";
 
-      // For simple recurrence types (daily, weekly, monthly, yearly), 
-      // create a default config if one doesn't exist
-      const config = task.recurrence_config || { interval: 1 };
-
-      try {
-        // Create dtstart using IST timezone (default organization timezone)
-        // Parse the created_at date and extract date components in IST
-        // This ensures tasks start on the correct local date, not UTC date
-        const createdDate = new Date(task.created_at);
-        const istTimezone = "Asia/Kolkata";
-        
-        // Extract date components in IST timezone
-        const istDateStr = formatInTimeZone(createdDate, istTimezone, "yyyy-MM-dd");
-        
-        // Create a date representing midnight IST on the creation date
-        // Use toDate to convert the IST date string to a Date object
-        // Format: "yyyy-MM-ddTHH:mm:ss" where the time represents IST
-        const istMidnightStr = `${istDateStr}T00:00:00+05:30`; // IST is UTC+5:30
-        const dtstart = new Date(istMidnightStr);
-        
-        // Build RRule options
-        const options: any = {
-          freq: getFrequency(task.recurrence_type, config),
-          dtstart,
-          interval: config.interval || 1,
-        };
-
-        // Add end condition
-        if (config.endType === "on" && config.endDate) {
-          options.until = endOfDay(new Date(config.endDate));
-        } else if (config.endType === "after" && config.occurrences) {
-          options.count = config.occurrences;
-        } else if (config.until) {
-          // Legacy support
-          options.until = endOfDay(new Date(config.until));
-        } else if (config.count) {
-          // Legacy support
-          options.count = config.count;
-        }
-
-        // Determine the effective recurrence type (for custom, use frequency from config)
-        const effectiveType = task.recurrence_type === "custom" 
-          ? (config.frequency || "daily")
-          : task.recurrence_type;
-
-        // RRule weekday mapping: Our system (0=Sunday) -> RRule (0=Monday)
-        const rruleWeekdayMap = [6, 0, 1, 2, 3, 4, 5]; // Maps our day index to RRule weekday
-
-        // Handle yearly recurrence
-        if (effectiveType === "yearly" || (task.recurrence_type === "custom" && config.frequency === "yearly")) {
-          if (config.yearlyType === "weekday" && config.bysetpos && config.byweekday && config.bymonth) {
-            // Yearly relative pattern (e.g., "First Monday of January")
-            options.bysetpos = config.bysetpos;
-            options.byweekday = config.byweekday.map((day: number) => rruleWeekdayMap[day]);
-            // RRule uses 1-12 for months, our system uses 0-11
-            options.bymonth = config.bymonth.map((month: number) => month + 1);
-          } else if (config.yearlyType === "date" && config.dayOfMonth && config.bymonth) {
-            // Yearly by date (e.g., "January 15")
-            options.bymonthday = [config.dayOfMonth];
-            // RRule uses 1-12 for months, our system uses 0-11
-            options.bymonth = config.bymonth.map((month: number) => month + 1);
-          } else if (config.bymonth && config.bymonthday) {
-            // Legacy support for yearly by date
-            options.bymonth = config.bymonth.map((month: number) => month + 1);
-            options.bymonthday = config.bymonthday;
-          } else if (config.bymonth) {
-            // Just month specified
-            options.bymonth = config.bymonth.map((month: number) => month + 1);
-          }
-        }
-        // Handle monthly recurrence
-        else if (effectiveType === "monthly" || (task.recurrence_type === "custom" && config.frequency === "monthly")) {
-          if (config.monthlyType === "weekday" && config.bysetpos && config.byweekday) {
-            // Monthly relative pattern (e.g., "First Monday", "Last Friday")
-            options.bysetpos = config.bysetpos;
-            options.byweekday = config.byweekday.map((day: number) => rruleWeekdayMap[day]);
-          } else if (config.monthlyType === "date" && config.dayOfMonth) {
-            // Monthly by day of month (e.g., "On day 15")
-            options.bymonthday = [config.dayOfMonth];
-          } else if (config.bymonthday && config.bymonthday.length > 0) {
-            // Legacy support
-            options.bymonthday = config.bymonthday;
-          }
-        }
-        // Handle weekly recurrence
-        else if (effectiveType === "weekly" || (task.recurrence_type === "custom" && config.frequency === "weekly")) {
-          const weekdays = config.days || config.byweekday || [];
-          if (weekdays.length > 0) {
-            // Convert day numbers (0=Sunday, 1=Monday, etc.) to RRule weekdays
-            options.byweekday = weekdays.map((day: number) => rruleWeekdayMap[day]);
-          }
-        }
-        // Handle other recurrence types that might have byweekday or bymonthday
-        else {
-          if (config.byweekday && config.byweekday.length > 0) {
-            options.byweekday = config.byweekday;
-          }
-          if (config.bymonthday && config.bymonthday.length > 0) {
-            options.bymonthday = config.bymonthday;
-          }
-          if (config.bymonth && config.bymonth.length > 0) {
-            options.bymonth = config.bymonth.map((month: number) => month + 1);
-          }
-        }
-
-        const rule = new RRule(options);
-        
-        // Check if target date matches any occurrence
-        // Normalize target date to IST first, then convert to UTC for RRule
-        const targetDateISTStr = formatInTimeZone(targetDate, istTimezone, "yyyy-MM-dd");
-        
-        // Create UTC dates for RRule.between() using IST date components
-        // Use ISO 8601 format with timezone offset (IST is UTC+5:30)
-        const targetStartIST = `${targetDateISTStr}T00:00:00+05:30`;
-        const targetStart = new Date(targetStartIST);
-        const targetEndIST = `${targetDateISTStr}T23:59:59+05:30`;
-        const targetEnd = new Date(targetEndIST);
-        
-        const occurrences = rule.between(targetStart, targetEnd, true);
-        
-        // Check if any occurrence falls on the target date (compare by IST date components)
-        return occurrences.some(occurrence => {
-          const occDate = new Date(occurrence);
-          const occDateISTStr = formatInTimeZone(occDate, istTimezone, "yyyy-MM-dd");
-          return occDateISTStr === targetDateISTStr;
-        });
-      } catch (error) {
-        console.error("Error processing recurrence:", error);
-        return false;
+    const exception = findOccurrenceException(task, targetDateStr);
+    if (exception?.action === "reschedule" && exception.new_date === targetDateStr) {
+      return true;
+    }
+    if (policy === "ignore" || !isWorkingDate) {
+      return occursOnDateStr(task, targetDateStr);
+    }
+    if (!isWorkingDate(targetDateStr)) {
+      return false;
+    }
+    if (occursOnDateStr(task, targetDateStr)) {
+      return true;
+    }
+    if (policy === "skip") {
+      return false;
+    }
+
+    // Occurrences on the run of non-working days just before (next) or after (previous)
+    // this working day roll onto it
+    const step = policy === "next" ? -1 : 1;
+    let dateStr = addDaysToDateStr(targetDateStr, step);
+    for (let i = 0; i < MAX_ROLL_DAYS && !isWorkingDate(dateStr); i++) {
+      if (occursOnDateStr(task, dateStr)) {
+        return true;
       }
-    };
-  }, []);
+      dateStr = addDaysToDateStr(dateStr, step);
+    }
+    return false;
+  };
 
-  return { taskAppliesToDate };
+  return { taskAppliesToDate, taskDueOnDate };
 };
+
+/**
+ * Hook to expand task recurrence patterns and check if a task applies to a specific date.
+ * Working-day rules count days with isWorkingDate, usually useWorkingDays().isWorkingDateStr
+ * for the assignee. See createTaskRecurrence.
+ */
+export const useTaskRecurrence = (
+  timezone: string = DEFAULT_TIMEZONE,
+  isWorkingDate?: WorkingDatePredicate
+) => useMemo(() => createTaskRecurrence(timezone, isWorkingDate), [timezone, isWorkingDate]);
@@ -1,10 +1,10 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { startOfMonth, endOfMonth } from "date-fns";
 import { useSystemSettings } from "./useSystemSettings";
-import { formatDateForDB } from "@/lib/dateUtils";
-import { fetchLeaveDatesForUser } from "@/lib/leaveUtils";
+import { useRealtimeRefresh } from "./useRealtimeRefresh";
+import { getMonthDateRange, parseDateInTimeZone, resolveTimezone } from "@/lib/dateUtils";
+import { fetchDayCapacitiesForUser } from "@/lib/leaveUtils";
 
 interface TeamMemberStats {
   userId: string;
@@ -13,6 +13,9 @@ interface TeamMemberStats {
   totalTasks: number;
   completedTasks: number;
   completionPercentage: number;
+  onTimeTasks: number;
+  lateTasks: number;
+  slaAdherence: number | null; // % of recorded completions on time, null when there are none
 }
 
 export const useTeamCompletionStats = (userId: string, currentMonth: Date) => {
@@ -46,40 +49,56 @@ export const useTeamCompletionStats = (userId: string, currentMonth: Date) => {
       fetchTeamStats();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId, currentMonth, organizationId]);
-
-  const fetchTeamStats = async () => {
+  }, [userId, currentMonth, organizationId, settings.timezone]);
+
+  // Assignments of the team members in the overview, so other teams' completions are ignored
+  const teamAssignmentIdsRef = useRef<Set<string>>(new Set());
+
+  // Team members' completions, assignments and leave update the overview live
+  useRealtimeRefresh(
+    "team-completion-stats",
+    [
+      { table: "task_completions", matches: (row) => teamAssignmentIdsRef.current.has(row.assignment_id as string) },
+      { table: "task_assignments" },
+      { table: "personal_holidays" },
+    ],
+    () => fetchTeamStats(false),
+    !!organizationId
+  );
+
+  const fetchTeamStats = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       
       // Fetch subordinates
       const { data: subordinates, error: subError } = await supabase
         .from("users")
-        .select("id, full_name, email")
+        .select("id, full_name, email, timezone")
         .eq("manager_id", userId)
         .eq("is_active", true);
 
       if (subError) throw subError;
 
       if (!subordinates || subordinates.length === 0) {
+        teamAssignmentIdsRef.current = new Set();
         setTeamStats([]);
         setLoading(false);
         return;
       }
 
-      const monthStart = startOfMonth(currentMonth);
-      const monthEnd = endOfMonth(currentMonth);
-      const monthStartStr = formatDateForDB(monthStart, settings.timezone);
-      const monthEndStr = formatDateForDB(monthEnd, settings.timezone);
+      const { startStr: monthStartStr, endStr: monthEndStr } = getMonthDateRange(currentMonth);
+
+      const teamAssignmentIds = new Set<string>();
 
       // Fetch stats for each subordinate
       const statsPromises = subordinates.map(async (subordinate) => {
         // Get task assignments for this subordinate
         const { data: assignments } = await supabase
           .from("task_assignments")
-          .select("id")
+          .select("id, task:tasks!task_assignments_task_id_fkey (non_working_day_policy)")
           .eq("assigned_to", subordinate.id);
 
+        assignments?.forEach((a) => teamAssignmentIds.add(a.id));
         if (!assignments || assignments.length === 0) {
           return {
             userId: subordinate.id,
@@ -88,21 +107,34 @@ export const useTeamCompletionStats = (userId: string, currentMonth: Date) => {
             totalTasks: 0,
             completedTasks: 0,
             completionPercentage: 0,
+            onTimeTasks: 0,
+            lateTasks: 0,
+            slaAdherence: null,
           };
         }
 
-        // Fetch leave dates for this subordinate - exclude tasks on leave from completion %
-        const leaveDates = await fetchLeaveDatesForUser(
+        // Fetch day capacities for this subordinate - exclude tasks on leave from completion %
+        // and weigh tasks on half days (half-day leave or holiday) by half
+        // Leave days are resolved in the subordinate's own timezone when they have an override
+        const subordinateTimezone = resolveTimezone(settings.timezone, subordinate.timezone);
+        const dayCapacities = await fetchDayCapacitiesForUser(
           subordinate.id,
-          monthStart,
-          monthEnd,
-          settings.timezone
+          parseDateInTimeZone(monthStartStr, subordinateTimezone),
+          parseDateInTimeZone(monthEndStr, subordinateTimezone),
+          subordinateTimezone
+        );
+
+        // Tasks whose non-working-day policy is "ignore" are due even on leave days
+        const dueOnLeaveAssignments = new Set(
+          assignments
+            .filter((a) => a.task?.non_working_day_policy === "ignore")
+            .map((a) => a.id)
         );
 
         // Get completions for this month
         const { data: completions } = await supabase
           .from("task_completions")
-          .select("status, scheduled_date, completion_date, approval_status")
+          .select("assignment_id, status, scheduled_date, completion_date, approval_status, sla_status")
           .in(
             "assignment_id",
             assignments.map((a) => a.id)
@@ -111,27 +143,43 @@ export const useTeamCompletionStats = (userId: string, currentMonth: Date) => {
           .or(`scheduled_date.lte.${monthEndStr},completion_date.lte.${monthEndStr}`);
 
         // Count unique tasks (by scheduled_date), excluding tasks on leave days
-        const uniqueTasks = new Set<string>();
+        // Each task weighs the capacity of its day (0.5 on a half day)
+        const taskWeights = new Map<string, number>();
         let completedCount = 0;
+        let completedWeight = 0;
+        let onTimeCount = 0;
+        let lateCount = 0;
 
         completions?.forEach((c) => {
           const scheduledDate = c.scheduled_date || c.completion_date;
           if (scheduledDate >= monthStartStr && scheduledDate <= monthEndStr) {
+            const capacity = dayCapacities.get(scheduledDate) ?? 1;
+            const dueAnyway = dueOnLeaveAssignments.has(c.assignment_id);
             // Exclude tasks on leave days from completion % (still show as pending elsewhere)
-            if (leaveDates.has(scheduledDate)) return;
+            if (capacity === 0 && !dueAnyway) return;
 
+            const weight = capacity > 0 ? capacity : 1;
             const taskKey = `${c.assignment_id}-${scheduledDate}`;
-            uniqueTasks.add(taskKey);
+            taskWeights.set(taskKey, weight);
             if (c.status === "completed" && c.approval_status === "approved") {
               completedCount++;
+              completedWeight += weight;
+            }
+            if (c.approval_status !== "rejected") {
+              if (c.sla_status === "on_time") onTimeCount++;
+              else if (c.sla_status === "late") lateCount++;
             }
           }
         });
 
-        const totalTasks = uniqueTasks.size || assignments.length;
-        const completionPercentage = totalTasks > 0 
-          ? Math.round((completedCount / totalTasks) * 100) 
+        const totalTasks = taskWeights.size || assignments.length;
+        const totalWeight = taskWeights.size > 0
+          ? [...taskWeights.values()].reduce((sum, weight) => sum + weight, 0)
+          : assignments.length;
+        const completionPercentage = totalWeight > 0 
+          ? Math.round((completedWeight / totalWeight) * 100) 
           : 0;
+        const slaTotal = onTimeCount + lateCount;
 
         return {
           userId: subordinate.id,
@@ -140,10 +188,14 @@ export const useTeamCompletionStats = (userId: string, currentMonth: Date) => {
           totalTasks,
           completedTasks: completedCount,
           completionPercentage,
+          onTimeTasks: onTimeCount,
+          lateTasks: lateCount,
+          slaAdherence: slaTotal > 0 ? Math.round((onTimeCount / slaTotal) * 100) : null,
         };
       });
 
       const stats = await Promise.all(statsPromises);
+      teamAssignmentIdsRef.current = teamAssignmentIds;
       setTeamStats(stats);
     } catch (error: any) {
       toast({
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useSubordinates } from "./useSubordinates";
+import { useSystemSettings } from "./useSystemSettings";
+import type { WeeklyOffPattern } from "@/lib/weeklyOffs";
+import {
+  findCoverageConflicts,
+  type TeamHoliday,
+  type TeamLeave,
+  type TeamMemberSchedule,
+} from "@/lib/teamCoverage";
+
+const WEEKLY_OFF_COLUMNS = "day_of_week, weeks_of_month, week_interval, anchor_date";
+
+/**
+ * Leave, public holidays, weekly offs and task categories of everyone in the user's subordinate
+ * tree, for the team leave calendar and the coverage check when approving leave.
+ */
+export const useTeamLeaveCalendar = (userId: string) => {
+  const [members, setMembers] = useState<TeamMemberSchedule[]>([]);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { settings, timezone } = useSystemSettings(organizationId, userId);
+  const { subordinates, loading: subordinatesLoading } = useSubordinates(userId, true);
+  const minimumCoverage = Number(settings.leave_min_category_coverage) || 0;
+
+  const fetchTeamCalendar = async () => {
+    try {
+      setLoading(true);
+
+      const { data: profile, error: profileError } = await supabase
+        .from("users")
+        .select("organization_id")
+        .eq("id", userId)
+        .single();
+
+      if (profileError) throw profileError;
+      setOrganizationId(profile.organization_id);
+
+      const memberIds = subordinates.map((s) => s.id);
+      if (memberIds.length === 0) {
+        setMembers([]);
+        return;
+      }
+
+      const { data: calendarData, error: calendarError } = await supabase
+        .from("users")
+        .select("id, holiday_calendar_id")
+        .in("id", memberIds);
+
+      if (calendarError) throw calendarError;
+      const calendarByUser = new Map((calendarData || []).map((u) => [u.id, u.holiday_calendar_id]));
+
+      const { data: userWeeklyOffData, error: userWeeklyOffError } = await supabase
+        .from("user_weekly_offs")
+        .select(`user_id, ${WEEKLY_OFF_COLUMNS}`)
+        .in("user_id", memberIds);
+
+      if (userWeeklyOffError) throw userWeeklyOffError;
+
+      const { data: weeklyOffData, error: weeklyOffError } = await supabase
+        .from("weekly_offs")
+        .select(`calendar_id, ${WEEKLY_OFF_COLUMNS}`)
+        .eq("organization_id", profile.organization_id);
+
+      if (weeklyOffError) throw weeklyOffError;
+
+      const { data: holidayData, error: holidayError } = await supabase
+        .from("public_holidays")
+        .select("holiday_date, holiday_name, day_portion, calendar_id")
+        .eq("organization_id", profile.organization_id);
+
+      if (holidayError) throw holidayError;
+
+      // Approved and pending leave from the start of last year on (RLS: the manager's team)
+      const { data: leaveData, error: leaveError } = await supabase
+        .from("personal_holidays")
+        .select("id, user_id, start_date, end_date, day_portion, approval_status, cover_user_id")
+        .in("user_id", memberIds)
+        .in("approval_status", ["approved", "pending"])
+        .gte("end_date", `${new Date().getFullYear() - 1}-01-01`);
+
+      if (leaveError) throw leaveError;
+
+      const { data: assignmentData, error: assignmentError } = await supabase
+        .from("task_assignments")
+        .select(`
+          assigned_to,
+          task:tasks!task_assignments_task_id_fkey (
+            category,
+            is_active
+          )
+        `)
+        .in("assigned_to", memberIds);
+
+      if (assignmentError) throw assignmentError;
+
+      setMembers(
+        subordinates.map((subordinate) => {
+          const calendarId = calendarByUser.get(subordinate.id) || null;
+
+          // Same fallback as useWorkingDays: own weekly offs, then the holiday calendar's, then the organization's
+          const ownOffs = (userWeeklyOffData || []).filter((w) => w.user_id === subordinate.id);
+          const calendarOffs = (weeklyOffData || []).filter((w) => calendarId && w.calendar_id === calendarId);
+          const orgOffs = (weeklyOffData || []).filter((w) => !w.calendar_id);
+          const weeklyOffs: WeeklyOffPattern[] =
+            ownOffs.length > 0 ? ownOffs : calendarOffs.length > 0 ? calendarOffs : orgOffs;
+
+          const publicHolidays = new Map<string, TeamHoliday[]>();
+          (holidayData || [])
+            .filter((h) => !h.calendar_id || h.calendar_id === calendarId)
+            .forEach((h) => {
+              publicHolidays.set(h.holiday_date, [
+                ...(publicHolidays.get(h.holiday_date) || []),
+                { holiday_name: h.holiday_name, day_portion: h.day_portion },
+              ]);
+            });
+
+          const categories = [
+            ...new Set(
+              (assignmentData || [])
+                .filter((a) => a.assigned_to === subordinate.id && a.task?.category && a.task.is_active !== false)
+                .map((a) => a.task!.category as string)
+            ),
+          ];
+
+          return {
+            id: subordinate.id,
+            full_name: subordinate.full_name,
+            weeklyOffs,
+            publicHolidays,
+            leave: (leaveData || []).filter((l) => l.user_id === subordinate.id),
+            categories,
+          };
+        })
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (userId && !subordinatesLoading) {
+      fetchTeamCalendar();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, subordinates, subordinatesLoading]);
+
+  /**
+   * Task categories that approving the leave would leave under-covered, per day.
+   */
+  const getCoverageConflicts = useCallback(
+    (leave: TeamLeave) => findCoverageConflicts(members, leave, minimumCoverage),
+    [members, minimumCoverage]
+  );
+
+  return {
+    members,
+    loading: loading || subordinatesLoading,
+    minimumCoverage,
+    timezone,
+    getCoverageConflicts,
+    refresh: fetchTeamCalendar,
+  };
+};
@@ -56,6 +56,7 @@ export const useUserRole = (userId: string) => {
   const isAdmin = roles.includes("admin");
   const isManager = hasSubordinates; // User is a manager if they have subordinates
   const isEmployee = roles.includes("user"); // Changed from "employee" to "user"
+  const isHr = roles.includes("hr"); // Second-level leave approver
 
-  return { roles, isAdmin, isManager, isEmployee, organizationId, loading };
+  return { roles, isAdmin, isManager, isEmployee, isHr, organizationId, loading };
 };
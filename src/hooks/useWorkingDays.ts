@@ -1,38 +1,51 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { addDays, format, isWithinInterval, parseISO } from "date-fns";
 import { useSystemSettings } from "./useSystemSettings";
-import { formatDateForDB } from "@/lib/dateUtils";
+import { useRealtimeRefresh } from "./useRealtimeRefresh";
+import { eachDateStrInRange, formatDateForDB } from "@/lib/dateUtils";
+import { isWeeklyOffDate, type WeeklyOffPattern } from "@/lib/weeklyOffs";
+import { DAY_PORTION_LABELS, getDayCapacity, type DayPortion } from "@/lib/leaveUtils";
 
-interface WorkingDayInfo {
-  isWorkingDay: boolean;
+const WEEKLY_OFF_COLUMNS = "day_of_week, weeks_of_month, week_interval, anchor_date";
+
+interface DayCapacityInfo {
+  capacity: number; // 1 = full day, 0.5 = half day, 0 = not working
   reason?: string;
+}
+
+interface WorkingDayInfo extends DayCapacityInfo {
+  isWorkingDay: boolean;
   loading: boolean;
 }
 
 /**
  * Hook to check if a date is a working day
  * A working day is NOT: (1) weekly off, (2) public holiday, or (3) personal holiday
+ * Weekly offs and public holidays come from the user's organization and holiday calendar
+ * Half-day leave / holidays keep the day a working day with reduced capacity (getDayCapacityInfo)
  */
 export const useWorkingDays = (userId: string) => {
-  const [weeklyOffs, setWeeklyOffs] = useState<string[]>([]);
-  const [publicHolidays, setPublicHolidays] = useState<Set<string>>(new Set());
-  const [personalHolidays, setPersonalHolidays] = useState<Array<{ start: string; end: string }>>([]);
+  const [weeklyOffs, setWeeklyOffs] = useState<WeeklyOffPattern[]>([]);
+  const [publicHolidays, setPublicHolidays] = useState<Map<string, DayPortion[]>>(new Map());
+  const [personalHolidays, setPersonalHolidays] = useState<Array<{ start: string; end: string; portion: DayPortion }>>([]);
   const [loading, setLoading] = useState(true);
   const [organizationId, setOrganizationId] = useState<string | null>(null);
-  const { settings } = useSystemSettings(organizationId);
+  const [calendarId, setCalendarId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { timezone } = useSystemSettings(organizationId, userId);
 
   useEffect(() => {
     const fetchOrganizationId = async () => {
       try {
         const { data, error } = await supabase
           .from("users")
-          .select("organization_id")
+          .select("organization_id, holiday_calendar_id")
           .eq("id", userId)
           .maybeSingle();
 
         if (error) throw error;
         setOrganizationId(data?.organization_id || null);
+        setCalendarId(data?.holiday_calendar_id || null);
       } catch (error) {
         console.error("Error fetching organization ID:", error);
       }
@@ -41,49 +54,72 @@ export const useWorkingDays = (userId: string) => {
     fetchOrganizationId();
   }, [userId]);
 
+  // Leave approved or cancelled elsewhere changes the user's working days
+  useRealtimeRefresh(
+    "working-days",
+    [{ table: "personal_holidays", filter: `user_id=eq.${userId}` }],
+    () => setReloadKey((key) => key + 1),
+    !!organizationId && !!userId
+  );
+
   useEffect(() => {
     const fetchWorkingDayData = async () => {
       try {
         // First, try to fetch user-specific weekly offs
         const { data: userWeeklyOffData } = await supabase
           .from("user_weekly_offs")
-          .select("day_of_week")
+          .select(WEEKLY_OFF_COLUMNS)
           .eq("user_id", userId);
         
         if (userWeeklyOffData && userWeeklyOffData.length > 0) {
           // User has specific weekly offs set
-          setWeeklyOffs(userWeeklyOffData.map(w => w.day_of_week));
+          setWeeklyOffs(userWeeklyOffData);
         } else {
-          // Fall back to organization-wide weekly offs
+          // Fall back to the weekly offs of the user's holiday calendar, then the organization's
           const { data: weeklyOffData } = await supabase
             .from("weekly_offs")
-            .select("day_of_week");
+            .select(`${WEEKLY_OFF_COLUMNS}, calendar_id`)
+            .eq("organization_id", organizationId);
           
           if (weeklyOffData) {
-            setWeeklyOffs(weeklyOffData.map(w => w.day_of_week));
+            const calendarOffs = weeklyOffData.filter(w => calendarId && w.calendar_id === calendarId);
+            const orgOffs = weeklyOffData.filter(w => !w.calendar_id);
+            setWeeklyOffs(calendarOffs.length > 0 ? calendarOffs : orgOffs);
           }
         }
 
-        // Fetch public holidays
-        const { data: publicHolidayData } = await supabase
+        // Fetch public holidays: organization-wide plus the user's holiday calendar
+        let publicHolidayQuery = supabase
           .from("public_holidays")
-          .select("holiday_date");
+          .select("holiday_date, day_portion")
+          .eq("organization_id", organizationId);
+        publicHolidayQuery = calendarId
+          ? publicHolidayQuery.or(`calendar_id.is.null,calendar_id.eq.${calendarId}`)
+          : publicHolidayQuery.is("calendar_id", null);
+        const { data: publicHolidayData } = await publicHolidayQuery;
         
         if (publicHolidayData) {
-          setPublicHolidays(new Set(publicHolidayData.map(h => h.holiday_date)));
+          const holidayMap = new Map<string, DayPortion[]>();
+          publicHolidayData.forEach(h => {
+            holidayMap.set(h.holiday_date, [...(holidayMap.get(h.holiday_date) || []), h.day_portion]);
+          });
+          setPublicHolidays(holidayMap);
         }
 
-        // Fetch personal holidays for the user
+        // Fetch personal holidays for the user. Leave with a cover person stays working time:
+        // the cover works the user's tasks meanwhile
         const { data: personalHolidayData } = await supabase
           .from("personal_holidays")
-          .select("start_date, end_date")
+          .select("start_date, end_date, day_portion")
           .eq("user_id", userId)
-          .eq("approval_status", "approved");
+          .eq("approval_status", "approved")
+          .is("cover_user_id", null);
         
         if (personalHolidayData) {
           setPersonalHolidays(personalHolidayData.map(h => ({ 
             start: h.start_date, 
-            end: h.end_date 
+            end: h.end_date,
+            portion: h.day_portion
           })));
         }
       } catch (error) {
@@ -97,37 +133,98 @@ export const useWorkingDays = (userId: string) => {
       fetchWorkingDayData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userId, organizationId]);
+  }, [userId, organizationId, calendarId, reloadKey]);
 
-  const isWorkingDay = (date: Date): WorkingDayInfo => {
-    if (loading) {
-      return { isWorkingDay: true, loading: true };
-    }
+  // Public holiday and approved leave portions on a 'yyyy-MM-dd' calendar date
+  const getPortionsOff = useCallback((dateStr: string) => ({
+    holiday: publicHolidays.get(dateStr) || [],
+    leave: personalHolidays
+      .filter(h => dateStr >= h.start && dateStr <= h.end)
+      .map(h => h.portion),
+  }), [publicHolidays, personalHolidays]);
 
-    // Check weekly off
-    const dayName = format(date, "EEEE").toLowerCase();
-    if (weeklyOffs.includes(dayName)) {
-      return { isWorkingDay: false, reason: "Weekly Off", loading: false };
+  // Working-day check for a 'yyyy-MM-dd' calendar date; returns the reason it is not one
+  const getNonWorkingReason = useCallback((dateStr: string): string | null => {
+    // Check weekly off (weekday of the calendar date, and its week for nth/alternate-week offs)
+    if (isWeeklyOffDate(weeklyOffs, dateStr)) {
+      return "Weekly Off";
     }
 
+    const { holiday, leave } = getPortionsOff(dateStr);
+
     // Check public holiday
-    const dateStr = formatDateForDB(date, settings.timezone);
-    if (publicHolidays.has(dateStr)) {
-      return { isWorkingDay: false, reason: "Public Holiday", loading: false };
+    if (holiday.includes("full")) {
+      return "Public Holiday";
     }
 
     // Check personal holiday
-    for (const holiday of personalHolidays) {
-      const start = parseISO(holiday.start);
-      const end = parseISO(holiday.end);
-      if (isWithinInterval(date, { start, end })) {
-        return { isWorkingDay: false, reason: "Personal Holiday", loading: false };
-      }
+    if (leave.includes("full")) {
+      return "Personal Holiday";
+    }
+
+    // Both halves off (e.g. half-day leave on a half-day holiday)
+    if (getDayCapacity([...holiday, ...leave]) === 0) {
+      return holiday.length > 0 ? "Public Holiday" : "Personal Holiday";
+    }
+
+    return null;
+  }, [weeklyOffs, getPortionsOff]);
+
+  /**
+   * Share of the 'yyyy-MM-dd' day the user works: 0 on non-working days, 0.5 on a half-day
+   * leave or half-day holiday, otherwise 1. Benchmarks are prorated by this capacity.
+   */
+  const getDayCapacityInfo = useCallback((dateStr: string): DayCapacityInfo => {
+    if (loading) {
+      return { capacity: 1 };
+    }
+
+    const nonWorkingReason = getNonWorkingReason(dateStr);
+    if (nonWorkingReason) {
+      return { capacity: 0, reason: nonWorkingReason };
+    }
+
+    const { holiday, leave } = getPortionsOff(dateStr);
+    const capacity = getDayCapacity([...holiday, ...leave]);
+    if (capacity >= 1) {
+      return { capacity };
+    }
+
+    const reason = leave.length > 0
+      ? `Half-day Leave (${DAY_PORTION_LABELS[leave[0]].toLowerCase()})`
+      : `Half-day Holiday (${DAY_PORTION_LABELS[holiday[0]].toLowerCase()})`;
+    return { capacity, reason };
+  }, [loading, getNonWorkingReason, getPortionsOff]);
+
+  const isWorkingDay = (date: Date): WorkingDayInfo => {
+    if (loading) {
+      return { isWorkingDay: true, capacity: 1, loading: true };
     }
 
-    return { isWorkingDay: true, loading: false };
+    // Day boundaries in the user's timezone; half days are working days with a reason
+    const { capacity, reason } = getDayCapacityInfo(formatDateForDB(date, timezone));
+    return { isWorkingDay: capacity > 0, capacity, reason, loading: false };
   };
 
+  /**
+   * Share of the 'yyyy-MM-dd' day the user is scheduled to work before any leave: 0 on a weekly
+   * off or full-day public holiday, 0.5 on a half-day holiday. Leave requests are charged by it.
+   */
+  const getScheduledCapacity = useCallback(
+    (dateStr: string): number =>
+      isWeeklyOffDate(weeklyOffs, dateStr) ? 0 : getDayCapacity(publicHolidays.get(dateStr) || []),
+    [weeklyOffs, publicHolidays]
+  );
+
+  /**
+   * Same as isWorkingDay for a 'yyyy-MM-dd' calendar date. Used to count working days in
+   * recurrence rules such as "last working day of the month".
+   */
+  const isWorkingDateStr = useCallback(
+    (dateStr: string): boolean => loading || getNonWorkingReason(dateStr) === null,
+    [loading, getNonWorkingReason]
+  );
+
   const getNextWorkingDay = (date: Date): Date => {
     let current = new Date(date);
     current.setDate(current.getDate() + 1);
@@ -142,22 +239,18 @@ export const useWorkingDays = (userId: string) => {
   };
 
   /**
-   * Returns a Set of date strings (YYYY-MM-DD) when the user is on approved personal leave
-   * within the given range. Used to exclude tasks on leave days from completion % calculations.
+   * Returns a Set of date strings (YYYY-MM-DD) when the user is on approved full-day personal
+   * leave within the given range. Used to exclude tasks on leave days from completion % calculations.
    */
   const getLeaveDatesInRange = (start: Date, end: Date): Set<string> => {
     const result = new Set<string>();
-    for (const holiday of personalHolidays) {
-      const hStart = parseISO(holiday.start);
-      const hEnd = parseISO(holiday.end);
-      const overlapStart = start > hStart ? start : hStart;
-      const overlapEnd = end < hEnd ? end : hEnd;
-      if (overlapStart <= overlapEnd) {
-        let d = new Date(overlapStart);
-        while (d <= overlapEnd) {
-          result.add(formatDateForDB(d, settings.timezone));
-          d = addDays(d, 1);
-        }
+    const startStr = formatDateForDB(start, timezone);
+    const endStr = formatDateForDB(end, timezone);
+    for (const holiday of personalHolidays.filter(h => h.portion === "full")) {
+      const overlapStart = startStr > holiday.start ? startStr : holiday.start;
+      const overlapEnd = endStr < holiday.end ? endStr : holiday.end;
+      for (const dateStr of eachDateStrInRange(overlapStart, overlapEnd)) {
+        result.add(dateStr);
       }
     }
     return result;
@@ -169,9 +262,18 @@ export const useWorkingDays = (userId: string) => {
    */
   const isOnPersonalLeave = (date: Date): boolean => {
     if (loading) return false;
-    const dateStr = formatDateForDB(date, settings.timezone);
+    const dateStr = formatDateForDB(date, timezone);
     return getLeaveDatesInRange(date, date).has(dateStr);
   };
 
-  return { isWorkingDay, getNextWorkingDay, isOnPersonalLeave, getLeaveDatesInRange, loading };
+  return {
+    isWorkingDay,
+    isWorkingDateStr,
+    getDayCapacityInfo,
+    getScheduledCapacity,
+    getNextWorkingDay,
+    isOnPersonalLeave,
+    getLeaveDatesInRange,
+    loading,
+  };
 };
@@ -14,6 +14,287 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changed_fields: string[] | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          organization_id: string | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          organization_id?: string | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          organization_id?: string | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          feed_type: Database["public"]["Enums"]["calendar_feed_type"]
+          id: string
+          last_accessed_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          feed_type: Database["public"]["Enums"]["calendar_feed_type"]
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          feed_type?: Database["public"]["Enums"]["calendar_feed_type"]
+          id?: string
+          last_accessed_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_deliveries: {
+        Row: {
+          attempts: number
+          cc_addresses: string[]
+          created_at: string
+          email_type: string
+          from_address: string
+          html: string | null
+          id: string
+          last_error: string | null
+          organization_id: string | null
+          provider_message_id: string | null
+          reply_to: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          to_addresses: string[]
+          transport: string
+        }
+        Insert: {
+          attempts?: number
+          cc_addresses?: string[]
+          created_at?: string
+          email_type: string
+          from_address: string
+          html?: string | null
+          id?: string
+          last_error?: string | null
+          organization_id?: string | null
+          provider_message_id?: string | null
+          reply_to?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          to_addresses: string[]
+          transport: string
+        }
+        Update: {
+          attempts?: number
+          cc_addresses?: string[]
+          created_at?: string
+          email_type?: string
+          from_address?: string
+          html?: string | null
+          id?: string
+          last_error?: string | null
+          organization_id?: string | null
+          provider_message_id?: string | null
+          reply_to?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          to_addresses?: string[]
+          transport?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_deliveries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_unsubscribe_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_unsubscribe_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escalations: {
+        Row: {
+          acknowledged_at: string | null
+          assignment_id: string | null
+          completion_id: string | null
+          created_at: string
+          dedupe_key: string
+          details: Json
+          escalated_to: string
+          id: string
+          organization_id: string
+          policy: Database["public"]["Enums"]["escalation_policy"]
+          user_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          assignment_id?: string | null
+          completion_id?: string | null
+          created_at?: string
+          dedupe_key: string
+          details?: Json
+          escalated_to: string
+          id?: string
+          organization_id: string
+          policy: Database["public"]["Enums"]["escalation_policy"]
+          user_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          assignment_id?: string | null
+          completion_id?: string | null
+          created_at?: string
+          dedupe_key?: string
+          details?: Json
+          escalated_to?: string
+          id?: string
+          organization_id?: string
+          policy?: Database["public"]["Enums"]["escalation_policy"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalations_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "task_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalations_completion_id_fkey"
+            columns: ["completion_id"]
+            isOneToOne: false
+            referencedRelation: "task_completions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalations_escalated_to_fkey"
+            columns: ["escalated_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holiday_calendars: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          location: string | null
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          location?: string | null
+          name: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          location?: string | null
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holiday_calendars_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invitations: {
         Row: {
           created_at: string
@@ -65,6 +346,204 @@ export type Database = {
           },
         ]
       }
+      leave_entitlements: {
+        Row: {
+          created_at: string
+          entitled_days: number
+          id: string
+          leave_type_id: string
+          updated_at: string
+          user_id: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          entitled_days: number
+          id?: string
+          leave_type_id: string
+          updated_at?: string
+          user_id: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          entitled_days?: number
+          id?: string
+          leave_type_id?: string
+          updated_at?: string
+          user_id?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_entitlements_leave_type_id_fkey"
+            columns: ["leave_type_id"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_entitlements_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_types: {
+        Row: {
+          accrual_frequency: Database["public"]["Enums"]["leave_accrual_frequency"]
+          annual_entitlement: number
+          carry_forward_limit: number
+          code: string
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          accrual_frequency?: Database["public"]["Enums"]["leave_accrual_frequency"]
+          annual_entitlement?: number
+          carry_forward_limit?: number
+          code: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          accrual_frequency?: Database["public"]["Enums"]["leave_accrual_frequency"]
+          annual_entitlement?: number
+          carry_forward_limit?: number
+          code?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_types_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      manager_digest_log: {
+        Row: {
+          id: string
+          manager_id: string
+          period: string
+          period_end: string
+          sent_at: string
+        }
+        Insert: {
+          id?: string
+          manager_id: string
+          period: string
+          period_end: string
+          sent_at?: string
+        }
+        Update: {
+          id?: string
+          manager_id?: string
+          period?: string
+          period_end?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_digest_log_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          approval_requests_cadence: Database["public"]["Enums"]["notification_cadence"]
+          created_at: string
+          daily_summary_cadence: Database["public"]["Enums"]["notification_cadence"]
+          daily_tasks_time: string
+          digest_day: Database["public"]["Enums"]["day_of_week"]
+          due_reminder_minutes: number
+          email_escalations: boolean
+          email_leave_decisions: boolean
+          email_rejections: boolean
+          monthly_team_digest: boolean
+          push_daily_tasks: boolean
+          push_due_reminders: boolean
+          push_escalations: boolean
+          push_leave_decisions: boolean
+          push_rejections: boolean
+          team_digest_cadence: Database["public"]["Enums"]["notification_cadence"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          approval_requests_cadence?: Database["public"]["Enums"]["notification_cadence"]
+          created_at?: string
+          daily_summary_cadence?: Database["public"]["Enums"]["notification_cadence"]
+          daily_tasks_time?: string
+          digest_day?: Database["public"]["Enums"]["day_of_week"]
+          due_reminder_minutes?: number
+          email_escalations?: boolean
+          email_leave_decisions?: boolean
+          email_rejections?: boolean
+          monthly_team_digest?: boolean
+          push_daily_tasks?: boolean
+          push_due_reminders?: boolean
+          push_escalations?: boolean
+          push_leave_decisions?: boolean
+          push_rejections?: boolean
+          team_digest_cadence?: Database["public"]["Enums"]["notification_cadence"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          approval_requests_cadence?: Database["public"]["Enums"]["notification_cadence"]
+          created_at?: string
+          daily_summary_cadence?: Database["public"]["Enums"]["notification_cadence"]
+          daily_tasks_time?: string
+          digest_day?: Database["public"]["Enums"]["day_of_week"]
+          due_reminder_minutes?: number
+          email_escalations?: boolean
+          email_leave_decisions?: boolean
+          email_rejections?: boolean
+          monthly_team_digest?: boolean
+          push_daily_tasks?: boolean
+          push_due_reminders?: boolean
+          push_escalations?: boolean
+          push_leave_decisions?: boolean
+          push_rejections?: boolean
+          team_digest_cadence?: Database["public"]["Enums"]["notification_cadence"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       organizations: {
         Row: {
           created_at: string
@@ -126,34 +605,67 @@ export type Database = {
       }
       personal_holidays: {
         Row: {
+          approval_level: number
           approval_status: string | null
           approved_by: string | null
+          cancelled_at: string | null
+          cover_user_id: string | null
           created_at: string
+          day_portion: Database["public"]["Enums"]["day_portion"]
           end_date: string
+          first_approved_at: string | null
+          first_approved_by: string | null
           id: string
+          leave_days: Json
+          leave_type_id: string | null
+          original_end_date: string | null
+          original_start_date: string | null
           reason: string | null
+          required_approval_levels: number
           start_date: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          approval_level?: number
           approval_status?: string | null
           approved_by?: string | null
+          cancelled_at?: string | null
+          cover_user_id?: string | null
           created_at?: string
+          day_portion?: Database["public"]["Enums"]["day_portion"]
           end_date: string
+          first_approved_at?: string | null
+          first_approved_by?: string | null
           id?: string
+          leave_days?: Json
+          leave_type_id?: string | null
+          original_end_date?: string | null
+          original_start_date?: string | null
           reason?: string | null
+          required_approval_levels?: number
           start_date: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          approval_level?: number
           approval_status?: string | null
           approved_by?: string | null
+          cancelled_at?: string | null
+          cover_user_id?: string | null
           created_at?: string
+          day_portion?: Database["public"]["Enums"]["day_portion"]
           end_date?: string
+          first_approved_at?: string | null
+          first_approved_by?: string | null
           id?: string
+          leave_days?: Json
+          leave_type_id?: string | null
+          original_end_date?: string | null
+          original_start_date?: string | null
           reason?: string | null
+          required_approval_levels?: number
           start_date?: string
           updated_at?: string
           user_id?: string
@@ -166,6 +678,27 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "personal_holidays_cover_user_id_fkey"
+            columns: ["cover_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "personal_holidays_first_approved_by_fkey"
+            columns: ["first_approved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "personal_holidays_leave_type_id_fkey"
+            columns: ["leave_type_id"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "personal_holidays_user_id_fkey"
             columns: ["user_id"]
@@ -180,36 +713,52 @@ export type Database = {
           created_at: string
           department: string | null
           email: string
+          email_language: string | null
           full_name: string
+          holiday_calendar_id: string | null
           id: string
           is_active: boolean | null
           manager_id: string | null
           organization_id: string
+          timezone: string | null
           updated_at: string
         }
         Insert: {
           created_at?: string
           department?: string | null
           email: string
+          email_language?: string | null
           full_name: string
+          holiday_calendar_id?: string | null
           id: string
           is_active?: boolean | null
           manager_id?: string | null
           organization_id: string
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
           created_at?: string
           department?: string | null
           email?: string
+          email_language?: string | null
           full_name?: string
+          holiday_calendar_id?: string | null
           id?: string
           is_active?: boolean | null
           manager_id?: string | null
           organization_id?: string
+          timezone?: string | null
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "users_holiday_calendar_id_fkey"
+            columns: ["holiday_calendar_id"]
+            isOneToOne: false
+            referencedRelation: "holiday_calendars"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "users_manager_id_fkey"
             columns: ["manager_id"]
@@ -266,30 +815,127 @@ export type Database = {
       }
       public_holidays: {
         Row: {
+          calendar_id: string | null
           created_at: string
+          day_portion: Database["public"]["Enums"]["day_portion"]
           description: string | null
           holiday_date: string
           holiday_name: string
           id: string
           is_recurring: boolean | null
+          organization_id: string
         }
         Insert: {
+          calendar_id?: string | null
           created_at?: string
+          day_portion?: Database["public"]["Enums"]["day_portion"]
           description?: string | null
           holiday_date: string
           holiday_name: string
           id?: string
           is_recurring?: boolean | null
+          organization_id: string
         }
         Update: {
+          calendar_id?: string | null
           created_at?: string
+          day_portion?: Database["public"]["Enums"]["day_portion"]
           description?: string | null
           holiday_date?: string
           holiday_name?: string
           id?: string
           is_recurring?: boolean | null
+          organization_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "public_holidays_calendar_id_fkey"
+            columns: ["calendar_id"]
+            isOneToOne: false
+            referencedRelation: "holiday_calendars"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "public_holidays_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_notification_log: {
+        Row: {
+          id: string
+          notification_date: string
+          notification_type: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          notification_date: string
+          notification_type: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          notification_date?: string
+          notification_type?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_notification_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       task_assignments: {
         Row: {
@@ -345,13 +991,16 @@ export type Database = {
           approval_status: string
           approved_by: string | null
           assignment_id: string
+          completed_by: string | null
           completion_date: string
           created_at: string
           id: string
           manager_comment: string | null
           notes: string | null
           quantity_completed: number | null
+          recorded_at: string | null
           scheduled_date: string
+          sla_status: Database["public"]["Enums"]["completion_sla_status"] | null
           status: Database["public"]["Enums"]["task_status"]
           updated_at: string
         }
@@ -359,13 +1008,16 @@ export type Database = {
           approval_status?: string
           approved_by?: string | null
           assignment_id: string
+          completed_by?: string | null
           completion_date: string
           created_at?: string
           id?: string
           manager_comment?: string | null
           notes?: string | null
           quantity_completed?: number | null
+          recorded_at?: string | null
           scheduled_date: string
+          sla_status?: Database["public"]["Enums"]["completion_sla_status"] | null
           status: Database["public"]["Enums"]["task_status"]
           updated_at?: string
         }
@@ -373,12 +1025,15 @@ export type Database = {
           approval_status?: string
           approved_by?: string | null
           assignment_id?: string
+          completed_by?: string | null
           completion_date?: string
           created_at?: string
           id?: string
           notes?: string | null
           quantity_completed?: number | null
+          recorded_at?: string | null
           scheduled_date?: string
+          sla_status?: Database["public"]["Enums"]["completion_sla_status"] | null
           status?: Database["public"]["Enums"]["task_status"]
           updated_at?: string
         }
@@ -390,6 +1045,13 @@ export type Database = {
             referencedRelation: "task_assignments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "task_completions_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
       task_dependencies: {
@@ -428,6 +1090,95 @@ export type Database = {
           },
         ]
       }
+      task_occurrence_exceptions: {
+        Row: {
+          action: Database["public"]["Enums"]["task_exception_action"]
+          benchmark_override: number | null
+          created_at: string
+          created_by: string | null
+          id: string
+          new_date: string | null
+          occurrence_date: string
+          reason: string | null
+          task_id: string
+          updated_at: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["task_exception_action"]
+          benchmark_override?: number | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          new_date?: string | null
+          occurrence_date: string
+          reason?: string | null
+          task_id: string
+          updated_at?: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["task_exception_action"]
+          benchmark_override?: number | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          new_date?: string | null
+          occurrence_date?: string
+          reason?: string | null
+          task_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_occurrence_exceptions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_occurrence_exceptions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_rollover_runs: {
+        Row: {
+          carried_over_count: number
+          completed_at: string
+          id: string
+          not_done_count: number
+          organization_id: string
+          rollover_date: string
+        }
+        Insert: {
+          carried_over_count?: number
+          completed_at?: string
+          id?: string
+          not_done_count?: number
+          organization_id: string
+          rollover_date: string
+        }
+        Update: {
+          carried_over_count?: number
+          completed_at?: string
+          id?: string
+          not_done_count?: number
+          organization_id?: string
+          rollover_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_rollover_runs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           benchmark: number | null
@@ -435,11 +1186,17 @@ export type Database = {
           created_at: string
           created_by: string
           description: string | null
+          due_date: string | null
+          due_time: string | null
+          grace_minutes: number
           id: string
           is_active: boolean | null
+          missed_task_policy: Database["public"]["Enums"]["missed_task_policy"]
           name: string
-          recurrence_config: Json | null
+          non_working_day_policy: Database["public"]["Enums"]["non_working_day_policy"]
+          recurrence_rule: string | null
           recurrence_type: string
+          start_date: string
         }
         Insert: {
           benchmark?: number | null
@@ -447,11 +1204,17 @@ export type Database = {
           created_at?: string
           created_by: string
           description?: string | null
+          due_date?: string | null
+          due_time?: string | null
+          grace_minutes?: number
           id?: string
           is_active?: boolean | null
+          missed_task_policy?: Database["public"]["Enums"]["missed_task_policy"]
           name: string
-          recurrence_config?: Json | null
+          non_working_day_policy?: Database["public"]["Enums"]["non_working_day_policy"]
+          recurrence_rule?: string | null
           recurrence_type: string
+          start_date?: string
         }
         Update: {
           benchmark?: number | null
@@ -459,11 +1222,17 @@ export type Database = {
           created_at?: string
           created_by?: string
           description?: string | null
+          due_date?: string | null
+          due_time?: string | null
+          grace_minutes?: number
           id?: string
           is_active?: boolean | null
+          missed_task_policy?: Database["public"]["Enums"]["missed_task_policy"]
           name?: string
-          recurrence_config?: Json | null
+          non_working_day_policy?: Database["public"]["Enums"]["non_working_day_policy"]
+          recurrence_rule?: string | null
           recurrence_type?: string
+          start_date?: string
         }
         Relationships: [
           {
@@ -516,22 +1285,31 @@ export type Database = {
       }
       user_weekly_offs: {
         Row: {
+          anchor_date: string | null
           created_at: string
           day_of_week: Database["public"]["Enums"]["day_of_week"]
           id: string
           user_id: string
+          week_interval: number
+          weeks_of_month: number[] | null
         }
         Insert: {
+          anchor_date?: string | null
           created_at?: string
           day_of_week: Database["public"]["Enums"]["day_of_week"]
           id?: string
           user_id: string
+          week_interval?: number
+          weeks_of_month?: number[] | null
         }
         Update: {
+          anchor_date?: string | null
           created_at?: string
           day_of_week?: Database["public"]["Enums"]["day_of_week"]
           id?: string
           user_id?: string
+          week_interval?: number
+          weeks_of_month?: number[] | null
         }
         Relationships: [
           {
@@ -545,30 +1323,73 @@ export type Database = {
       }
       weekly_offs: {
         Row: {
+          anchor_date: string | null
+          calendar_id: string | null
           created_at: string
           day_of_week: Database["public"]["Enums"]["day_of_week"]
           description: string | null
           id: string
+          organization_id: string
+          week_interval: number
+          weeks_of_month: number[] | null
         }
         Insert: {
+          anchor_date?: string | null
+          calendar_id?: string | null
           created_at?: string
           day_of_week: Database["public"]["Enums"]["day_of_week"]
           description?: string | null
           id?: string
+          organization_id: string
+          week_interval?: number
+          weeks_of_month?: number[] | null
         }
         Update: {
+          anchor_date?: string | null
+          calendar_id?: string | null
           created_at?: string
           day_of_week?: Database["public"]["Enums"]["day_of_week"]
           description?: string | null
           id?: string
+          organization_id?: string
+          week_interval?: number
+          weeks_of_month?: number[] | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "weekly_offs_calendar_id_fkey"
+            columns: ["calendar_id"]
+            isOneToOne: false
+            referencedRelation: "holiday_calendars"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "weekly_offs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      get_calendar_feed_token: {
+        Args: {
+          _feed_type: Database["public"]["Enums"]["calendar_feed_type"]
+          _regenerate?: boolean
+        }
+        Returns: string
+      }
+      get_covered_users: {
+        Args: { _cover_id: string; _date: string }
+        Returns: {
+          covered_user_id: string
+        }[]
+      }
       get_subordinates: {
         Args: { _user_id: string }
         Returns: {
@@ -587,9 +1408,24 @@ export type Database = {
         Returns: boolean
       }
       same_organization: { Args: { _user_id: string }; Returns: boolean }
+      register_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _p256dh: string
+          _user_agent?: string
+        }
+        Returns: undefined
+      }
+      set_leave_cover: {
+        Args: { _cover_user_id: string | null; _leave_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "employee" | "manager" | "admin" | "user"
+      app_role: "employee" | "manager" | "admin" | "user" | "hr"
+      calendar_feed_type: "personal" | "team"
+      completion_sla_status: "on_time" | "late"
       day_of_week:
         | "monday"
         | "tuesday"
@@ -598,6 +1434,13 @@ export type Database = {
         | "friday"
         | "saturday"
         | "sunday"
+      day_portion: "full" | "first_half" | "second_half"
+      escalation_policy: "missed_streak" | "approval_pending" | "below_benchmark"
+      leave_accrual_frequency: "annual" | "quarterly" | "monthly"
+      missed_task_policy: "carry_over" | "not_done"
+      non_working_day_policy: "previous" | "next" | "skip" | "ignore"
+      notification_cadence: "daily" | "weekly" | "off"
+      task_exception_action: "skip" | "reschedule" | "override"
       task_status:
         | "completed"
         | "partial"
@@ -733,7 +1576,9 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["employee", "manager", "admin", "user"],
+      app_role: ["employee", "manager", "admin", "user", "hr"],
+      calendar_feed_type: ["personal", "team"],
+      completion_sla_status: ["on_time", "late"],
       day_of_week: [
         "monday",
         "tuesday",
@@ -743,6 +1588,13 @@ export const Constants = {
         "saturday",
         "sunday",
       ],
+      day_portion: ["full", "first_half", "second_half"],
+      escalation_policy: ["missed_streak", "approval_pending", "below_benchmark"],
+      leave_accrual_frequency: ["annual", "quarterly", "monthly"],
+      missed_task_policy: ["carry_over", "not_done"],
+      non_working_day_policy: ["previous", "next", "skip", "ignore"],
+      notification_cadence: ["daily", "weekly", "off"],
+      task_exception_action: ["skip", "reschedule", "override"],
       task_status: [
         "completed",
         "partial",
@@ -0,0 +1,116 @@
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type AuditLogEntry = Database["public"]["Tables"]["audit_log"]["Row"];
+export type AuditAction = "INSERT" | "UPDATE" | "DELETE";
+
+type AuditRow = Record<string, Json | undefined>;
+
+// Tables with audit triggers (20260504000000_add_audit_log.sql), as shown to admins
+export const AUDITED_TABLES: Record<string, string> = {
+  tasks: "Task",
+  task_assignments: "Assignment",
+  task_completions: "Completion",
+  personal_holidays: "Leave",
+  user_roles: "Role",
+  organization_settings: "Setting",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: "Created",
+  UPDATE: "Updated",
+  DELETE: "Deleted",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  approval_status: "Approval",
+  approved_by: "Approved by",
+  assigned_to: "Assigned to",
+  benchmark: "Benchmark",
+  completed_by: "Recorded by",
+  completion_date: "Completion date",
+  cover_user_id: "Cover",
+  due_date: "Due date",
+  due_time: "Due time",
+  end_date: "End date",
+  grace_minutes: "Grace minutes",
+  is_active: "Active",
+  manager_comment: "Manager comment",
+  name: "Name",
+  notes: "Notes",
+  quantity_completed: "Quantity",
+  recurrence_rule: "Recurrence rule",
+  recurrence_type: "Recurrence",
+  role: "Role",
+  setting_value: "Value",
+  sla_status: "On time",
+  start_date: "Start date",
+  status: "Status",
+};
+
+// Columns that hold user ids, shown by name
+const USER_FIELDS = new Set(["approved_by", "assigned_by", "assigned_to", "completed_by", "cover_user_id", "created_by", "user_id"]);
+
+// Columns that are noise in a change summary
+const HIDDEN_FIELDS = new Set(["id", "created_at", "updated_at"]);
+
+const getRow = (entry: AuditLogEntry): AuditRow =>
+  ((entry.new_data ?? entry.old_data) as AuditRow | null) ?? {};
+
+export const getFieldLabel = (field: string) =>
+  FIELD_LABELS[field] ?? field.charAt(0).toUpperCase() + field.slice(1).replace(/_/g, " ");
+
+export const formatAuditValue = (field: string, value: Json | undefined, userNames: Map<string, string>): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (USER_FIELDS.has(field) && typeof value === "string") return userNames.get(value) ?? "Unknown user";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).replace(/_/g, " ");
+};
+
+/**
+ * One line per changed field ("Status: pending → completed"). Inserts and deletes list the
+ * row's main fields instead.
+ */
+export const describeAuditChanges = (entry: AuditLogEntry, userNames: Map<string, string>): string[] => {
+  const oldRow = (entry.old_data as AuditRow | null) ?? {};
+  const newRow = (entry.new_data as AuditRow | null) ?? {};
+
+  if (entry.action === "UPDATE") {
+    return (entry.changed_fields ?? [])
+      .filter((field) => !HIDDEN_FIELDS.has(field))
+      .map((field) =>
+        `${getFieldLabel(field)}: ${formatAuditValue(field, oldRow[field], userNames)} → ${formatAuditValue(field, newRow[field], userNames)}`
+      );
+  }
+
+  const row = getRow(entry);
+  return Object.keys(FIELD_LABELS)
+    .filter((field) => row[field] !== undefined && row[field] !== null && row[field] !== "")
+    .map((field) => `${getFieldLabel(field)}: ${formatAuditValue(field, row[field], userNames)}`);
+};
+
+// What the entry is about, e.g. the task name or the leave dates
+export const describeAuditRecord = (entry: AuditLogEntry, userNames: Map<string, string>): string => {
+  const row = getRow(entry);
+  const userName = (field: string) => formatAuditValue(field, row[field], userNames);
+
+  switch (entry.table_name) {
+    case "tasks":
+      return String(row.name ?? "Task");
+    case "task_assignments":
+      return `Assigned to ${userName("assigned_to")}`;
+    case "task_completions":
+      return `Occurrence on ${row.scheduled_date ?? "unknown date"}`;
+    case "personal_holidays":
+      return `${userName("user_id")}: ${row.start_date} to ${row.end_date}`;
+    case "user_roles":
+      return `${userName("user_id")}: ${row.role}`;
+    case "organization_settings":
+      return String(row.setting_key ?? "Setting");
+    default:
+      return entry.record_id;
+  }
+};
+
+export const getActorName = (entry: AuditLogEntry, userNames: Map<string, string>) =>
+  entry.actor_id ? userNames.get(entry.actor_id) ?? "Unknown user" : "System";
@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Unique violation on (assignment_id, scheduled_date): someone recorded the occurrence first
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * The task_completions row of an occurrence as it is now, for saving it without overwriting
+ * someone else's edit.
+ */
+export interface CurrentCompletion {
+  id: string;
+  updated_at: string;
+  status: string;
+  approval_status: string;
+  completer: { full_name: string } | null;
+}
+
+export const fetchCurrentCompletion = async (
+  assignmentId: string,
+  scheduledDate: string
+): Promise<CurrentCompletion | null> => {
+  const { data, error } = await supabase
+    .from("task_completions")
+    .select(`
+      id,
+      updated_at,
+      status,
+      approval_status,
+      completer:users!task_completions_completed_by_fkey (
+        full_name
+      )
+    `)
+    .eq("assignment_id", assignmentId)
+    .eq("scheduled_date", scheduledDate)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Whether the completion changed since the user loaded it. expectedUpdatedAt is the
+ * updated_at the user saw (null if there was no completion yet); undefined skips the check.
+ */
+export const hasCompletionConflict = (
+  current: Pick<CurrentCompletion, "updated_at"> | null,
+  expectedUpdatedAt: string | null | undefined
+): boolean => expectedUpdatedAt !== undefined && (current?.updated_at ?? null) !== expectedUpdatedAt;
+
+/**
+ * Error for a save that lost to a concurrent edit, describing the completion as it is now.
+ */
+export const completionConflictError = (current: CurrentCompletion | null): Error => {
+  const state = current
+    ? ` It is now ${current.status.replace(/_/g, " ")} (${current.approval_status})${
+        current.completer ? `, recorded by ${current.completer.full_name}` : ""
+      }.`
+    : "";
+  return new Error(
+    `This task was updated by someone else since you opened it.${state} Your changes were not saved; review the latest values and try again.`
+  );
+};
+
+export const isUniqueViolation = (error: { code?: string } | null): boolean =>
+  error?.code === UNIQUE_VIOLATION;
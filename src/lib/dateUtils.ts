@@ -1,5 +1,35 @@
 import { format } from "date-fns";
-import { formatInTimeZone } from "date-fns-tz";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+
+/**
+ * Timezone used when neither the organization nor the user has configured one.
+ */
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+/**
+ * Timezones offered in the organization settings and the personal timezone override.
+ */
+export const TIMEZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: "UTC", label: "UTC" },
+  { value: "America/New_York", label: "Eastern Time (ET)" },
+  { value: "America/Chicago", label: "Central Time (CT)" },
+  { value: "America/Denver", label: "Mountain Time (MT)" },
+  { value: "America/Los_Angeles", label: "Pacific Time (PT)" },
+  { value: "Europe/London", label: "London (GMT)" },
+  { value: "Europe/Paris", label: "Paris (CET)" },
+  { value: "Asia/Dubai", label: "Dubai (GST)" },
+  { value: "Asia/Kolkata", label: "Mumbai (IST)" },
+  { value: "Asia/Tokyo", label: "Tokyo (JST)" },
+  { value: "Australia/Sydney", label: "Sydney (AEST)" },
+];
+
+/**
+ * Resolves the timezone that defines a user's day boundaries.
+ * A per-user override (users.timezone) wins over the organization's `timezone` setting.
+ */
+export function resolveTimezone(orgTimezone?: string | null, userTimezone?: string | null): string {
+  return userTimezone || orgTimezone || DEFAULT_TIMEZONE;
+}
 
 /**
  * Formats a date for database storage in the specified timezone.
@@ -14,7 +44,7 @@ import { formatInTimeZone } from "date-fns-tz";
  * const date = new Date('2024-01-15T18:30:00Z'); // UTC
  * formatDateForDB(date, 'Asia/Kolkata'); // Returns '2024-01-16' (IST is UTC+5:30)
  */
-export function formatDateForDB(date: Date, timezone: string = "Asia/Kolkata"): string {
+export function formatDateForDB(date: Date, timezone: string = DEFAULT_TIMEZONE): string {
   if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
     throw new Error("Invalid date provided to formatDateForDB");
   }
@@ -22,3 +52,91 @@ export function formatDateForDB(date: Date, timezone: string = "Asia/Kolkata"):
   // Convert date to the specified timezone and format as yyyy-MM-dd
   return formatInTimeZone(date, timezone, "yyyy-MM-dd");
 }
+
+/**
+ * Returns the lowercase weekday name (matching the day_of_week enum) of a date in the given timezone.
+ *
+ * @example
+ * getDayOfWeekInTimeZone(new Date('2024-01-14T20:00:00Z'), 'Asia/Dubai'); // Returns 'monday'
+ */
+export function getDayOfWeekInTimeZone(date: Date, timezone: string = DEFAULT_TIMEZONE): string {
+  return formatInTimeZone(date, timezone, "EEEE").toLowerCase();
+}
+
+/**
+ * Converts a 'yyyy-MM-dd' calendar date into a "floating" Date at UTC midnight.
+ * Recurrence rules are expanded on these floating dates so that DST transitions
+ * in the organization's timezone can never shift an occurrence onto another day.
+ *
+ * @example
+ * toFloatingDate('2024-03-31'); // 2024-03-31T00:00:00.000Z
+ */
+export function toFloatingDate(dateStr: string): Date {
+  return new Date(`${dateStr}T00:00:00Z`);
+}
+
+/**
+ * Formats a floating Date (see toFloatingDate) back into its 'yyyy-MM-dd' calendar date.
+ */
+export function fromFloatingDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Parses a 'yyyy-MM-dd' calendar date into the instant at noon of that day in the given timezone.
+ * Noon keeps the instant on the same calendar day whatever the DST offset is.
+ *
+ * @example
+ * parseDateInTimeZone('2024-03-31', 'Europe/London'); // 2024-03-31T11:00:00.000Z (BST)
+ */
+export function parseDateInTimeZone(dateStr: string, timezone: string = DEFAULT_TIMEZONE): Date {
+  return fromZonedTime(`${dateStr}T12:00:00`, timezone);
+}
+
+/**
+ * Adds (or subtracts) whole days to a 'yyyy-MM-dd' calendar date.
+ *
+ * @example
+ * addDaysToDateStr('2024-03-31', 1); // '2024-04-01'
+ */
+export function addDaysToDateStr(dateStr: string, days: number): string {
+  const date = toFloatingDate(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return fromFloatingDate(date);
+}
+
+/**
+ * Lists every 'yyyy-MM-dd' calendar date from startStr to endStr (inclusive).
+ */
+export function eachDateStrInRange(startStr: string, endStr: string): string[] {
+  const result: string[] = [];
+  const current = toFloatingDate(startStr);
+  const end = toFloatingDate(endStr);
+  while (current <= end) {
+    result.push(fromFloatingDate(current));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return result;
+}
+
+/**
+ * The first and last 'yyyy-MM-dd' calendar dates of the month a picker date falls in.
+ * Month pickers build their dates in the browser's timezone, so the month is read there.
+ *
+ * @example
+ * getMonthDateRange(new Date(2026, 10, 15)); // { startStr: '2026-11-01', endStr: '2026-11-30' }
+ */
+export function getMonthDateRange(month: Date): { startStr: string; endStr: string } {
+  const startStr = format(new Date(month.getFullYear(), month.getMonth(), 1), "yyyy-MM-dd");
+  const endStr = format(new Date(month.getFullYear(), month.getMonth() + 1, 0), "yyyy-MM-dd");
+  return { startStr, endStr };
+}
+
+/**
+ * Every day of a picker date's month, each at noon in the given timezone (see parseDateInTimeZone),
+ * so formatDateForDB(day, timezone) gives back that day whatever the browser's timezone is.
+ */
+export function eachDayOfMonthInTimeZone(month: Date, timezone: string = DEFAULT_TIMEZONE): Date[] {
+  const { startStr, endStr } = getMonthDateRange(month);
+  return eachDateStrInRange(startStr, endStr).map((dateStr) => parseDateInTimeZone(dateStr, timezone));
+}
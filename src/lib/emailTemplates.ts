@@ -0,0 +1,39 @@
+export const DEFAULT_EMAIL_LANGUAGE = "en";
+
+/**
+ * Languages emails can be sent in (users.email_language and the organization's
+ * email_language setting). Keep in sync with supabase/functions/_shared/emailTranslations.ts.
+ */
+export const EMAIL_LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "hi", label: "हिन्दी (Hindi)" },
+  { value: "ar", label: "العربية (Arabic)" },
+  { value: "es", label: "Español (Spanish)" },
+];
+
+export const getEmailLanguageLabel = (value: string | null | undefined) =>
+  EMAIL_LANGUAGE_OPTIONS.find((l) => l.value === value)?.label ?? "English";
+
+// Templates the preview-email-template function renders
+export type EmailTemplateName =
+  | "daily_summary"
+  | "weekly_summary"
+  | "weekly_digest"
+  | "monthly_digest"
+  | "approval_requests"
+  | "escalations"
+  | "rejection"
+  | "leave_decision"
+  | "invitation";
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateName, string> = {
+  daily_summary: "Daily Summary",
+  weekly_summary: "Weekly Summary",
+  weekly_digest: "Weekly Team Digest",
+  monthly_digest: "Monthly Team Digest",
+  approval_requests: "Approval Requests",
+  escalations: "Escalations",
+  rejection: "Rejected Completion",
+  leave_decision: "Leave Decision",
+  invitation: "Invitation",
+};
@@ -1,8 +1,18 @@
 import * as XLSX from "xlsx";
 import ExcelJS from "exceljs";
 import { format } from "date-fns";
-import { formatDateForDB } from "./dateUtils";
+import { formatInTimeZone } from "date-fns-tz";
+import { DEFAULT_TIMEZONE, formatDateForDB, toFloatingDate } from "./dateUtils";
 import type { Database } from "@/integrations/supabase/types";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDITED_TABLES,
+  describeAuditChanges,
+  describeAuditRecord,
+  getActorName,
+  type AuditAction,
+  type AuditLogEntry,
+} from "./auditLog";
 
 type TaskStatus = Database["public"]["Enums"]["task_status"];
 
@@ -35,7 +45,8 @@ export const exportMonthlyToExcel = async (
   tasks: MonthlyTaskData[],
   daysInMonth: Date[],
   monthName: string,
-  isWorkingDay: (date: Date) => WorkingDayInfo
+  isWorkingDay: (date: Date) => WorkingDayInfo,
+  timezone: string = DEFAULT_TIMEZONE
 ) => {
   // Create workbook
   const workbook = new ExcelJS.Workbook();
@@ -60,11 +71,8 @@ export const exportMonthlyToExcel = async (
   const headerData: any[] = ["Task Name", "Category", "Frequency", "Benchmark"];
   const dateValues: Date[] = [];
   daysInMonth.forEach((day) => {
-    // Create a UTC date-only value (no time, no timezone issues)
-    const year = day.getFullYear();
-    const month = day.getMonth();
-    const date = day.getDate();
-    const dateOnly = new Date(Date.UTC(year, month, date, 0, 0, 0, 0));
+    // Create a UTC date-only value (no time, no timezone issues) of the day in the user's timezone
+    const dateOnly = toFloatingDate(formatDateForDB(day, timezone));
     headerData.push(dateOnly);
     dateValues.push(dateOnly);
   });
@@ -104,7 +112,7 @@ export const exportMonthlyToExcel = async (
     const notesRowData: any[] = ["-", "Comments for above task", "", ""];
 
     daysInMonth.forEach((day) => {
-      const dateStr = formatDateForDB(day); // Uses default IST timezone
+      const dateStr = formatDateForDB(day, timezone);
       const status = taskData.dailyStatuses.get(dateStr) || "not_applicable";
       const workingDayInfo = isWorkingDay(day);
       const notes = taskData.dailyNotes.get(dateStr);
@@ -193,7 +201,8 @@ export const exportMonthlyToCSV = (
   tasks: MonthlyTaskData[],
   daysInMonth: Date[],
   monthName: string,
-  isWorkingDay: (date: Date) => WorkingDayInfo
+  isWorkingDay: (date: Date) => WorkingDayInfo,
+  timezone: string = DEFAULT_TIMEZONE
 ) => {
   // Prepare CSV data
   const rows: string[] = [];
@@ -201,7 +210,7 @@ export const exportMonthlyToCSV = (
   // Header row
   const header = ["Task Name", "Category", "Frequency", "Benchmark"];
   daysInMonth.forEach((day) => {
-    header.push(format(day, "dd-MMM-yy"));
+    header.push(formatInTimeZone(day, timezone, "dd-MMM-yy"));
   });
   rows.push(header.join(","));
 
@@ -220,7 +229,7 @@ export const exportMonthlyToCSV = (
     const notesRow = ['"-"', '"Comments for above task"', '""', '""']; // "Notes" label in second column, empty for other task info columns
 
     daysInMonth.forEach((day) => {
-      const dateStr = formatDateForDB(day); // Uses default IST timezone
+      const dateStr = formatDateForDB(day, timezone);
       const status = taskData.dailyStatuses.get(dateStr) || "not_applicable";
       const workingDayInfo = isWorkingDay(day);
       const notes = taskData.dailyNotes.get(dateStr);
@@ -265,6 +274,48 @@ export const exportMonthlyToCSV = (
   document.body.removeChild(link);
 };
 
+// Export audit log entries to CSV, one row per entry with the before/after rows as JSON
+export const exportAuditLogToCSV = (
+  entries: AuditLogEntry[],
+  userNames: Map<string, string>,
+  filename: string
+) => {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const rows: string[] = [
+    ["Timestamp", "User", "Area", "Action", "Record", "Changes", "Record ID", "Before", "After"].join(","),
+  ];
+
+  entries.forEach((entry) => {
+    rows.push(
+      [
+        format(new Date(entry.created_at), "yyyy-MM-dd HH:mm:ss"),
+        getActorName(entry, userNames),
+        AUDITED_TABLES[entry.table_name] ?? entry.table_name,
+        AUDIT_ACTION_LABELS[entry.action as AuditAction] ?? entry.action,
+        describeAuditRecord(entry, userNames),
+        describeAuditChanges(entry, userNames).join("; "),
+        entry.record_id,
+        entry.old_data ? JSON.stringify(entry.old_data) : "",
+        entry.new_data ? JSON.stringify(entry.new_data) : "",
+      ]
+        .map(escape)
+        .join(",")
+    );
+  });
+
+  const blob = new Blob([rows.join("\n")], { type: "text/csv;charset=utf-8;" });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 // Helper functions
 const getFrequencyLabel = (type: string): string => {
   switch (type) {
@@ -0,0 +1,91 @@
+import { addDaysToDateStr, eachDateStrInRange } from "./dateUtils";
+
+/**
+ * A holiday read from an iCalendar (.ics) file, one per calendar date.
+ */
+export interface ImportedHoliday {
+  name: string;
+  date: string; // 'yyyy-MM-dd'
+  description: string | null;
+  isRecurring: boolean;
+}
+
+// Multi-day events longer than this are not holidays (e.g. a "school term" event)
+const MAX_EVENT_DAYS = 14;
+
+// 'yyyyMMdd' or 'yyyyMMddTHHmmss[Z]' -> 'yyyy-MM-dd'
+const parseICSDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const unescapeText = (value: string): string =>
+  value
+    .replace(/\\n/gi, "\n")
+    .replace(/\\([\\;,])/g, "$1")
+    .trim();
+
+/**
+ * Reads the events of an iCalendar file as holidays, e.g. a country's public holiday
+ * calendar exported from Google Calendar or Outlook. Multi-day events become one holiday
+ * per day; yearly events (RRULE:FREQ=YEARLY) are marked recurring.
+ *
+ * @example
+ * parseICSHolidays("BEGIN:VEVENT\r\nDTSTART;VALUE=DATE:20261225\r\nSUMMARY:Christmas Day\r\nEND:VEVENT");
+ * // [{ name: "Christmas Day", date: "2026-12-25", description: null, isRecurring: false }]
+ */
+export function parseICSHolidays(text: string): ImportedHoliday[] {
+  // Unfold continuation lines (RFC 5545: a line starting with a space or tab continues the previous one)
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  const holidays: ImportedHoliday[] = [];
+  let event: Map<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = new Map();
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (event) holidays.push(...eventToHolidays(event));
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const colonIndex = line.indexOf(":");
+    if (colonIndex < 0) continue;
+    const name = line.slice(0, colonIndex).split(";")[0].toUpperCase();
+    if (!event.has(name)) event.set(name, line.slice(colonIndex + 1));
+  }
+
+  // The same holiday can appear twice (e.g. in overlapping exports)
+  const seen = new Set<string>();
+  return holidays
+    .filter((h) => {
+      const key = `${h.date}|${h.name.toLowerCase()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function eventToHolidays(event: Map<string, string>): ImportedHoliday[] {
+  const startDate = parseICSDate(event.get("DTSTART") || "");
+  const summary = unescapeText(event.get("SUMMARY") || "");
+  if (!startDate || !summary || event.get("STATUS")?.toUpperCase() === "CANCELLED") return [];
+
+  // DTEND of an all-day event is the day after its last day
+  const endValue = event.get("DTEND");
+  const endDate = endValue && /^\d{8}$/.test(endValue.trim())
+    ? addDaysToDateStr(parseICSDate(endValue)!, -1)
+    : startDate;
+  const dates = endDate > startDate ? eachDateStrInRange(startDate, endDate) : [startDate];
+  if (dates.length > MAX_EVENT_DAYS) return [];
+
+  const description = event.has("DESCRIPTION") ? unescapeText(event.get("DESCRIPTION")!) || null : null;
+  const isRecurring = /FREQ=YEARLY/i.test(event.get("RRULE") || "");
+
+  return dates.map((date) => ({ name: summary, date, description, isRecurring }));
+}
@@ -0,0 +1,180 @@
+import { eachDateStrInRange } from "./dateUtils";
+import type { DayPortion } from "./leaveUtils";
+import type { Database } from "@/integrations/supabase/types";
+
+export type LeaveAccrualFrequency = Database["public"]["Enums"]["leave_accrual_frequency"];
+
+export const ACCRUAL_FREQUENCY_LABELS: Record<LeaveAccrualFrequency, string> = {
+  annual: "Credited yearly",
+  quarterly: "Accrues quarterly",
+  monthly: "Accrues monthly",
+};
+
+export interface LeaveType {
+  id: string;
+  name: string;
+  code: string;
+  description: string | null;
+  annual_entitlement: number;
+  accrual_frequency: LeaveAccrualFrequency;
+  carry_forward_limit: number;
+  is_active: boolean;
+}
+
+export interface LeaveEntitlement {
+  user_id: string;
+  leave_type_id: string;
+  year: number;
+  entitled_days: number;
+}
+
+// Working days a request takes from the balance per year, e.g. { "2026": 3 } (personal_holidays.leave_days)
+export type LeaveDaysByYear = Record<string, number>;
+
+// A leave request as far as balances are concerned (personal_holidays row)
+export interface LeaveRequestDays {
+  user_id: string;
+  leave_type_id: string | null;
+  start_date: string;
+  end_date: string;
+  day_portion: DayPortion;
+  approval_status: string | null;
+  leave_days: LeaveDaysByYear; // Counted by the database from the user's schedule
+}
+
+export interface LeaveBalance {
+  entitled: number; // Yearly entitlement
+  accrued: number; // Part of the entitlement credited so far
+  carriedForward: number; // Unused days from the previous year, capped at carry_forward_limit
+  used: number; // Approved leave
+  pending: number; // Leave awaiting approval
+  available: number; // accrued + carriedForward - used - pending
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Days a new leave request would take from the balance of the given year: the working days of
+ * the range within that year. getScheduledCapacity gives the share of a day the user works
+ * before any leave (0 on weekly offs and holidays, 0.5 on half-day holidays); half-day leave
+ * takes at most half a day. Same count as count_leave_days in the database, which stores it
+ * on each request (see leaveDaysInYear).
+ */
+export function countLeaveDays(
+  startDate: string,
+  endDate: string,
+  portion: DayPortion,
+  year: number,
+  getScheduledCapacity: (dateStr: string) => number
+): number {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+  const start = startDate > yearStart ? startDate : yearStart;
+  const end = endDate < yearEnd ? endDate : yearEnd;
+  if (start > end) return 0;
+  return eachDateStrInRange(start, end).reduce((sum, dateStr) => {
+    const capacity = getScheduledCapacity(dateStr);
+    return sum + (portion === "full" ? capacity : Math.min(0.5, capacity));
+  }, 0);
+}
+
+/**
+ * Days an existing leave request takes from the balance of the given year.
+ */
+export const leaveDaysInYear = (request: Pick<LeaveRequestDays, "leave_days">, year: number): number =>
+  Number(request.leave_days?.[year] ?? 0);
+
+/**
+ * Years (ascending) a leave request spans, e.g. [2025, 2026] for Dec 30 - Jan 2.
+ */
+export function leaveRequestYears(startDate: string, endDate: string): number[] {
+  const years: number[] = [];
+  for (let year = Number(startDate.slice(0, 4)); year <= Number(endDate.slice(0, 4)); year++) {
+    years.push(year);
+  }
+  return years;
+}
+
+// Share of the yearly entitlement credited by todayStr ('yyyy-MM-dd'), for a user who
+// joined on memberSince (accrual starts in the month / quarter they joined)
+function accruedFraction(
+  frequency: LeaveAccrualFrequency,
+  year: number,
+  todayStr: string,
+  memberSince: string | null
+): number {
+  if (frequency === "annual") return 1;
+
+  const currentYear = Number(todayStr.slice(0, 4));
+  if (year > currentYear) return 0;
+
+  // The current month / quarter counts as accrued
+  const toMonth = year < currentYear ? 12 : Number(todayStr.slice(5, 7));
+  const fromMonth = memberSince && Number(memberSince.slice(0, 4)) === year ? Number(memberSince.slice(5, 7)) : 1;
+  if (frequency === "monthly") {
+    return Math.max(0, toMonth - fromMonth + 1) / 12;
+  }
+  return Math.max(0, Math.ceil(toMonth / 3) - Math.ceil(fromMonth / 3) + 1) / 4;
+}
+
+/**
+ * Yearly entitlement of a user: their leave_entitlements override, else the leave type default.
+ */
+export function getYearlyEntitlement(
+  leaveType: LeaveType,
+  entitlements: LeaveEntitlement[],
+  userId: string,
+  year: number
+): number {
+  const override = entitlements.find(
+    (e) => e.user_id === userId && e.leave_type_id === leaveType.id && e.year === year
+  );
+  return Number(override?.entitled_days ?? leaveType.annual_entitlement);
+}
+
+/**
+ * Leave balance of a user for one leave type and year. Unused days of the previous year
+ * (its full entitlement less approved leave) carry forward up to the type's limit, if the
+ * user was a member then. memberSince is the 'yyyy-MM-dd' date the user joined.
+ */
+export function calculateLeaveBalance(
+  leaveType: LeaveType,
+  userId: string,
+  year: number,
+  entitlements: LeaveEntitlement[],
+  requests: LeaveRequestDays[],
+  todayStr: string,
+  memberSince: string | null = null
+): LeaveBalance {
+  const typeRequests = requests.filter(
+    (r) => r.user_id === userId && r.leave_type_id === leaveType.id
+  );
+  const daysWithStatus = (status: string, forYear: number) =>
+    typeRequests
+      .filter((r) => (r.approval_status || "pending") === status)
+      .reduce((sum, r) => sum + leaveDaysInYear(r, forYear), 0);
+
+  const entitled = getYearlyEntitlement(leaveType, entitlements, userId, year);
+  const accrued = round1(entitled * accruedFraction(leaveType.accrual_frequency, year, todayStr, memberSince));
+
+  const wasMemberLastYear = !memberSince || Number(memberSince.slice(0, 4)) < year;
+  const previousUnused = wasMemberLastYear
+    ? Math.max(
+        0,
+        getYearlyEntitlement(leaveType, entitlements, userId, year - 1) - daysWithStatus("approved", year - 1)
+      )
+    : 0;
+  const carriedForward = Math.min(previousUnused, Number(leaveType.carry_forward_limit));
+
+  const used = daysWithStatus("approved", year);
+  const pending = daysWithStatus("pending", year);
+
+  return {
+    entitled,
+    accrued,
+    carriedForward,
+    used,
+    pending,
+    available: round1(accrued + carriedForward - used - pending),
+  };
+}
@@ -1,46 +1,177 @@
-import { addDays, parseISO } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
-import { formatDateForDB } from "@/lib/dateUtils";
+import { DEFAULT_TIMEZONE, eachDateStrInRange, formatDateForDB } from "@/lib/dateUtils";
+import { isWeeklyOffDate } from "@/lib/weeklyOffs";
+import type { WorkingDatePredicate } from "@/lib/recurrenceRule";
+import type { Database } from "@/integrations/supabase/types";
+
+export type DayPortion = Database["public"]["Enums"]["day_portion"];
+
+export const DAY_PORTION_LABELS: Record<DayPortion, string> = {
+  full: "Full day",
+  first_half: "First half",
+  second_half: "Second half",
+};
+
+/**
+ * Length of a leave request for display, e.g. "3 days" or "Half day (first half)".
+ */
+export function formatLeaveDuration(days: number, portion: DayPortion): string {
+  if (portion !== "full") return `Half day (${DAY_PORTION_LABELS[portion].toLowerCase()})`;
+  return `${days} day${days > 1 ? "s" : ""}`;
+}
+
+/**
+ * Share of the working day left after the given leave / holiday portions on that day:
+ * 1 = full capacity, 0.5 = half day, 0 = not working (a full day off, or both halves off).
+ */
+export function getDayCapacity(portions: DayPortion[]): number {
+  if (portions.includes("full")) return 0;
+  const halvesOff = new Set(portions).size;
+  return Math.max(0, 1 - halvesOff * 0.5);
+}
 
 /**
- * Fetches approved personal leave dates for a user within the given date range.
+ * Scales a benchmark to the capacity of the day (e.g. half on a half-day leave).
+ * Days with no capacity keep the full benchmark, since tasks due there anyway
+ * (non-working-day policy "ignore") are expected in full.
+ */
+export function prorateBenchmark(benchmark: number | null, capacity: number): number | null {
+  if (benchmark === null || capacity <= 0 || capacity >= 1) return benchmark;
+  return Math.round(benchmark * capacity * 100) / 100;
+}
+
+/**
+ * Capacity of each day in the range that the user's approved leave (unless a cover person
+ * works their tasks) or a half-day public holiday of their organization / holiday calendar
+ * reduces, keyed by 'yyyy-MM-dd'.
+ * Days missing from the map are at full capacity (1); 0 = on leave. See getDayCapacity.
  * Used to exclude tasks on leave days from completion % calculations (e.g. useTeamCompletionStats).
  */
-export async function fetchLeaveDatesForUser(
+export async function fetchDayCapacitiesForUser(
   userId: string,
   start: Date,
   end: Date,
-  timezone: string = "Asia/Kolkata"
-): Promise<Set<string>> {
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<Map<string, number>> {
+  const result = new Map<string, number>();
+
+  // Compare calendar dates in the organization timezone rather than browser-local instants
+  const startStr = formatDateForDB(start, timezone);
+  const endStr = formatDateForDB(end, timezone);
+
   const { data: personalHolidayData, error } = await supabase
     .from("personal_holidays")
-    .select("start_date, end_date")
+    .select("start_date, end_date, day_portion")
     .eq("user_id", userId)
-    .eq("approval_status", "approved");
+    .eq("approval_status", "approved")
+    .is("cover_user_id", null)
+    .lte("start_date", endStr)
+    .gte("end_date", startStr);
 
   if (error) {
     console.error("Error fetching leave dates:", error);
-    return new Set();
+    return result;
   }
 
-  const result = new Set<string>();
-  if (!personalHolidayData || personalHolidayData.length === 0) {
-    return result;
+  const portionsByDate = new Map<string, DayPortion[]>();
+  const addPortion = (dateStr: string, portion: DayPortion) => {
+    portionsByDate.set(dateStr, [...(portionsByDate.get(dateStr) || []), portion]);
+  };
+
+  for (const holiday of personalHolidayData || []) {
+    const overlapStart = startStr > holiday.start_date ? startStr : holiday.start_date;
+    const overlapEnd = endStr < holiday.end_date ? endStr : holiday.end_date;
+    for (const dateStr of eachDateStrInRange(overlapStart, overlapEnd)) {
+      addPortion(dateStr, holiday.day_portion);
+    }
   }
 
-  for (const holiday of personalHolidayData) {
-    const hStart = parseISO(holiday.start_date);
-    const hEnd = parseISO(holiday.end_date);
-    const overlapStart = start > hStart ? start : hStart;
-    const overlapEnd = end < hEnd ? end : hEnd;
-    if (overlapStart <= overlapEnd) {
-      let d = new Date(overlapStart);
-      while (d <= overlapEnd) {
-        result.add(formatDateForDB(d, timezone));
-        d = addDays(d, 1);
-      }
+  // Half-day public holidays of the user's organization and holiday calendar
+  const { data: profile } = await supabase
+    .from("users")
+    .select("organization_id, holiday_calendar_id")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profile) {
+    let halfDayQuery = supabase
+      .from("public_holidays")
+      .select("holiday_date, day_portion")
+      .eq("organization_id", profile.organization_id)
+      .neq("day_portion", "full")
+      .gte("holiday_date", startStr)
+      .lte("holiday_date", endStr);
+    halfDayQuery = profile.holiday_calendar_id
+      ? halfDayQuery.or(`calendar_id.is.null,calendar_id.eq.${profile.holiday_calendar_id}`)
+      : halfDayQuery.is("calendar_id", null);
+    const { data: halfDayHolidays } = await halfDayQuery;
+
+    for (const holiday of halfDayHolidays || []) {
+      addPortion(holiday.holiday_date, holiday.day_portion);
     }
   }
 
+  for (const [dateStr, portions] of portionsByDate) {
+    result.set(dateStr, getDayCapacity(portions));
+  }
+
   return result;
 }
+
+const WEEKLY_OFF_COLUMNS = "day_of_week, weeks_of_month, week_interval, anchor_date";
+
+/**
+ * Working-day check for 'yyyy-MM-dd' dates on the user's own schedule: their weekly offs (own,
+ * else their holiday calendar's, else the organization's) and full-day public holidays. Leave
+ * is left out. Used to schedule the tasks of a colleague on leave for their cover.
+ */
+export async function fetchScheduledWorkingDatePredicate(userId: string): Promise<WorkingDatePredicate> {
+  const { data: profile, error: profileError } = await supabase
+    .from("users")
+    .select("organization_id, holiday_calendar_id")
+    .eq("id", userId)
+    .single();
+
+  if (profileError) throw profileError;
+  const calendarId = profile.holiday_calendar_id;
+
+  const { data: userWeeklyOffData, error: userWeeklyOffError } = await supabase
+    .from("user_weekly_offs")
+    .select(WEEKLY_OFF_COLUMNS)
+    .eq("user_id", userId);
+
+  if (userWeeklyOffError) throw userWeeklyOffError;
+
+  const { data: weeklyOffData, error: weeklyOffError } = await supabase
+    .from("weekly_offs")
+    .select(`${WEEKLY_OFF_COLUMNS}, calendar_id`)
+    .eq("organization_id", profile.organization_id);
+
+  if (weeklyOffError) throw weeklyOffError;
+
+  // Same fallback as useWorkingDays: own weekly offs, then the holiday calendar's, then the organization's
+  const calendarOffs = (weeklyOffData || []).filter((w) => calendarId && w.calendar_id === calendarId);
+  const orgOffs = (weeklyOffData || []).filter((w) => !w.calendar_id);
+  const weeklyOffs = userWeeklyOffData && userWeeklyOffData.length > 0
+    ? userWeeklyOffData
+    : calendarOffs.length > 0 ? calendarOffs : orgOffs;
+
+  let holidayQuery = supabase
+    .from("public_holidays")
+    .select("holiday_date, day_portion")
+    .eq("organization_id", profile.organization_id);
+  holidayQuery = calendarId
+    ? holidayQuery.or(`calendar_id.is.null,calendar_id.eq.${calendarId}`)
+    : holidayQuery.is("calendar_id", null);
+  const { data: holidayData, error: holidayError } = await holidayQuery;
+
+  if (holidayError) throw holidayError;
+
+  const holidayPortions = new Map<string, DayPortion[]>();
+  for (const holiday of holidayData || []) {
+    holidayPortions.set(holiday.holiday_date, [...(holidayPortions.get(holiday.holiday_date) || []), holiday.day_portion]);
+  }
+
+  return (dateStr: string) =>
+    !isWeeklyOffDate(weeklyOffs, dateStr) && getDayCapacity(holidayPortions.get(dateStr) || []) > 0;
+}
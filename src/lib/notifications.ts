@@ -0,0 +1,21 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Event notifications, sent by the send-notification function by push and/or email as the
+// recipient's notification preferences say. Best effort: the decision itself is already
+// saved, so failures are only logged
+
+// Alerts the employee that the manager rejected their completion
+export const notifyCompletionRejected = async (completionId: string) => {
+  const { error } = await supabase.functions.invoke("send-notification", {
+    body: { type: "rejection", completionId },
+  });
+  if (error) console.error("Error sending rejection notification:", error);
+};
+
+// Tells the requester their leave was approved or rejected
+export const notifyLeaveDecision = async (leaveId: string) => {
+  const { error } = await supabase.functions.invoke("send-notification", {
+    body: { type: "leave_decision", leaveId },
+  });
+  if (error) console.error("Error sending leave decision notification:", error);
+};
@@ -0,0 +1,107 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type TaskStatus = Database["public"]["Enums"]["task_status"];
+
+const DB_NAME = "momentu-offline";
+const DB_VERSION = 1;
+const DAILY_TASKS_STORE = "daily_tasks";
+const COMPLETION_QUEUE_STORE = "completion_queue";
+
+/**
+ * A completion saved while offline, replayed against task_completions once the connection
+ * is back.
+ */
+export interface QueuedCompletion {
+  key: string; // `${userId}:${assignmentId}:${scheduledDate}`, one entry per occurrence
+  userId: string;
+  assignmentId: string;
+  scheduledDate: string;
+  completionDate: string; // The day the user actually did the work, not the day it syncs
+  status: TaskStatus;
+  quantityCompleted?: number;
+  notes?: string;
+  // Completion version the user started from (null = none yet); undefined skips the check
+  expectedUpdatedAt?: string | null;
+  queuedAt: string;
+  recordedAt?: string; // When the user made this edit, for its on-time/late status (older entries lack it)
+}
+
+// The last daily task list loaded for a user, shown when the server can't be reached
+export interface CachedDailyTasks<T> {
+  userId: string;
+  date: string;
+  tasks: T[];
+  pendingTasks: T[];
+  cachedAt: string;
+}
+
+export const queueKey = (userId: string, assignmentId: string, scheduledDate: string) =>
+  `${userId}:${assignmentId}:${scheduledDate}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DAILY_TASKS_STORE)) {
+          db.createObjectStore(DAILY_TASKS_STORE, { keyPath: "userId" });
+        }
+        if (!db.objectStoreNames.contains(COMPLETION_QUEUE_STORE)) {
+          db.createObjectStore(COMPLETION_QUEUE_STORE, { keyPath: "key" }).createIndex("userId", "userId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const cacheDailyTasks = <T>(entry: CachedDailyTasks<T>) =>
+  runRequest(DAILY_TASKS_STORE, "readwrite", (store) => store.put(entry));
+
+export const getCachedDailyTasks = async <T>(userId: string): Promise<CachedDailyTasks<T> | null> =>
+  (await runRequest<CachedDailyTasks<T> | undefined>(DAILY_TASKS_STORE, "readonly", (store) => store.get(userId))) ??
+  null;
+
+export const putQueuedCompletion = (entry: QueuedCompletion) =>
+  runRequest(COMPLETION_QUEUE_STORE, "readwrite", (store) => store.put(entry));
+
+export const removeQueuedCompletion = (key: string) =>
+  runRequest(COMPLETION_QUEUE_STORE, "readwrite", (store) => store.delete(key));
+
+// Queued completions of a user, oldest first so they replay in the order they were made
+export const getQueuedCompletions = async (userId: string): Promise<QueuedCompletion[]> => {
+  const entries = await runRequest<QueuedCompletion[]>(COMPLETION_QUEUE_STORE, "readonly", (store) =>
+    store.index("userId").getAll(userId)
+  );
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+/**
+ * Whether a failed request failed because the server could not be reached (as opposed to
+ * being rejected by it), so the change should be queued instead of reported.
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed|network request failed/i.test(
+    (error as Error)?.message || ""
+  );
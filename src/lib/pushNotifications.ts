@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Public VAPID key of the push service; its private half is a secret of send-push-notifications
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window && !!VAPID_PUBLIC_KEY;
+
+// Registers public/sw.js. Only in production builds, so the dev server never serves cached assets
+export const registerServiceWorker = () => {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Error registering service worker:", error);
+    });
+  });
+};
+
+// Push subscriptions take the VAPID key as raw bytes, it is distributed base64url-encoded
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+// This browser's subscription, if notifications are enabled on it
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+};
+
+/**
+ * Asks for permission and subscribes this browser to push notifications for the signed-in user.
+ * Throws when permission is denied or the service worker isn't registered yet.
+ */
+export const subscribeToPush = async () => {
+  if (!isPushSupported()) throw new Error("Push notifications are not supported in this browser");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked. Allow them for this site in your browser settings.");
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) throw new Error("The app is still installing. Reload the page and try again.");
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  const { error } = await supabase.rpc("register_push_subscription", {
+    _endpoint: endpoint!,
+    _p256dh: keys!.p256dh,
+    _auth: keys!.auth,
+    _user_agent: navigator.userAgent,
+  });
+
+  if (error) throw error;
+};
+
+export const unsubscribeFromPush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+  if (error) throw error;
+  await subscription.unsubscribe();
+};
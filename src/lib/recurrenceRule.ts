@@ -0,0 +1,341 @@
+import { RRule, Frequency, Options } from "rrule";
+import { eachDateStrInRange, fromFloatingDate, toFloatingDate } from "./dateUtils";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+/**
+ * Working-day counting, stored as an X-WORKDAY-RULE line next to the RRULE:
+ * - "monthly": the Nth working day of every <interval> months (position -1 = last working day)
+ * - "every": every <interval> working days from the start date
+ * The RRULE line keeps a calendar approximation for tools that don't know the extension.
+ */
+export interface WorkdayRule {
+  mode: "monthly" | "every";
+  position: number | null;
+}
+
+// Decides whether a 'yyyy-MM-dd' date is a working day (weekly offs, public holidays, leave)
+export type WorkingDatePredicate = (dateStr: string) => boolean;
+
+const WORKDAY_BYDAY = [1, 2, 3, 4, 5];
+
+/**
+ * Structured form of a task's RFC 5545 recurrence (tasks.recurrence_rule).
+ * Weekdays use 0=Sunday … 6=Saturday and months 1-12, matching the RRULE text.
+ * The series starts on tasks.start_date, so the stored rule carries no DTSTART.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byWeekday: number[];
+  byNthWeekday: Array<{ weekday: number; nth: number }>; // BYDAY entries with an ordinal: 2MO, -1FR
+  bySetPos: number[];
+  byMonthDay: number[];
+  byMonth: number[];
+  until: string | null; // 'yyyy-MM-dd', inclusive
+  count: number | null;
+  exdates: string[]; // 'yyyy-MM-dd' dates removed from the series
+  workday: WorkdayRule | null;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const RRULE_WEEKDAYS = [RRule.SU, RRule.MO, RRule.TU, RRule.WE, RRule.TH, RRule.FR, RRule.SA];
+const RRULE_FREQUENCIES: Record<RecurrenceFrequency, Frequency> = {
+  daily: RRule.DAILY,
+  weekly: RRule.WEEKLY,
+  monthly: RRule.MONTHLY,
+  yearly: RRule.YEARLY,
+};
+
+const isFrequency = (value: string): value is RecurrenceFrequency =>
+  value in RRULE_FREQUENCIES;
+
+const parseNumberList = (value: string): number[] =>
+  value.split(",").map((v) => parseInt(v, 10)).filter((v) => !isNaN(v));
+
+// 'yyyyMMdd' or 'yyyyMMddTHHmmssZ' -> 'yyyy-MM-dd'
+const parseRuleDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const formatRuleDate = (dateStr: string): string => dateStr.replace(/-/g, "");
+
+/**
+ * Creates a rule with no BY* parts, i.e. "every <interval> <freq>" from the start date.
+ */
+export function createRecurrenceRule(freq: RecurrenceFrequency): RecurrenceRule {
+  return {
+    freq,
+    interval: 1,
+    byWeekday: [],
+    byNthWeekday: [],
+    bySetPos: [],
+    byMonthDay: [],
+    byMonth: [],
+    until: null,
+    count: null,
+    exdates: [],
+    workday: null,
+  };
+}
+
+/**
+ * Creates an "Nth working day of the month" rule (position -1 = last working day).
+ * Its RRULE approximates working days as Monday to Friday.
+ */
+export function createWorkdayOfMonthRule(position: number, interval = 1): RecurrenceRule {
+  return {
+    ...createRecurrenceRule("monthly"),
+    interval,
+    byWeekday: WORKDAY_BYDAY,
+    bySetPos: [position],
+    workday: { mode: "monthly", position },
+  };
+}
+
+/**
+ * Creates an "every N working days" rule.
+ */
+export function createEveryNWorkdaysRule(interval: number): RecurrenceRule {
+  return {
+    ...createRecurrenceRule("daily"),
+    interval: Math.max(1, interval),
+    workday: { mode: "every", position: null },
+  };
+}
+
+/**
+ * Parses an RRULE/EXDATE string (one property per line). A bare "FREQ=...;..." value is
+ * accepted as the RRULE. Returns null if there is no valid RRULE.
+ *
+ * @example
+ * parseRecurrenceRule("RRULE:FREQ=WEEKLY;BYDAY=MO,WE\nEXDATE;VALUE=DATE:20260105");
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+
+  let rule: RecurrenceRule | null = null;
+  let workday: WorkdayRule | null = null;
+  const exdates: string[] = [];
+
+  for (const rawLine of value.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const colonIndex = line.indexOf(":");
+    const name = colonIndex >= 0 ? line.slice(0, colonIndex).split(";")[0].toUpperCase() : "RRULE";
+    const body = colonIndex >= 0 ? line.slice(colonIndex + 1) : line;
+
+    if (name === "EXDATE") {
+      body.split(",").forEach((d) => {
+        const parsed = parseRuleDate(d);
+        if (parsed) exdates.push(parsed);
+      });
+      continue;
+    }
+
+    if (name === "X-WORKDAY-RULE") {
+      const parts = new Map(body.split(";").map((part) => {
+        const [key, val = ""] = part.split("=");
+        return [key.trim().toUpperCase(), val.trim().toUpperCase()] as [string, string];
+      }));
+      const position = parseInt(parts.get("POS") || "", 10);
+      if (parts.get("MODE") === "MONTHLY" && !isNaN(position) && position !== 0) {
+        workday = { mode: "monthly", position };
+      } else if (parts.get("MODE") === "EVERY") {
+        workday = { mode: "every", position: null };
+      }
+      continue;
+    }
+
+    if (name !== "RRULE") continue;
+
+    const parts = new Map<string, string>();
+    body.split(";").forEach((part) => {
+      const [key, val] = part.split("=");
+      if (key && val !== undefined) parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+    });
+
+    const freq = (parts.get("FREQ") || "").toLowerCase();
+    if (!isFrequency(freq)) return null;
+
+    rule = createRecurrenceRule(freq);
+    rule.interval = Math.max(1, parseInt(parts.get("INTERVAL") || "1", 10) || 1);
+    rule.bySetPos = parts.has("BYSETPOS") ? parseNumberList(parts.get("BYSETPOS")!) : [];
+    rule.byMonthDay = parts.has("BYMONTHDAY") ? parseNumberList(parts.get("BYMONTHDAY")!) : [];
+    rule.byMonth = parts.has("BYMONTH") ? parseNumberList(parts.get("BYMONTH")!) : [];
+    rule.until = parts.has("UNTIL") ? parseRuleDate(parts.get("UNTIL")!) : null;
+    rule.count = parts.has("COUNT") ? parseInt(parts.get("COUNT")!, 10) || null : null;
+
+    // BYDAY entries may carry an ordinal ("1MO", "-1FR"), which applies to that weekday only
+    for (const entry of (parts.get("BYDAY") || "").split(",").filter(Boolean)) {
+      const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(entry);
+      const weekday = match ? WEEKDAY_CODES.indexOf(match[2]) : -1;
+      if (!match || weekday < 0) continue;
+      const nth = match[1] ? parseInt(match[1], 10) : 0;
+      if (nth) {
+        rule.byNthWeekday.push({ weekday, nth });
+      } else {
+        rule.byWeekday.push(weekday);
+      }
+    }
+  }
+
+  if (rule) {
+    rule.exdates = Array.from(new Set(exdates)).sort();
+    // Working-day modes only make sense with the frequency they count in
+    if (workday && (workday.mode === "monthly" ? rule.freq === "monthly" : rule.freq === "daily")) {
+      rule.workday = workday;
+    }
+  }
+  return rule;
+}
+
+/**
+ * Serializes a rule to its canonical RRULE (and EXDATE) text.
+ *
+ * @example
+ * serializeRecurrenceRule({ ...createRecurrenceRule("monthly"), byMonthDay: [15] });
+ * // "RRULE:FREQ=MONTHLY;BYMONTHDAY=15"
+ */
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byWeekday.length > 0 || rule.byNthWeekday.length > 0) {
+    const days = [
+      ...rule.byWeekday.map((d) => WEEKDAY_CODES[d]),
+      ...rule.byNthWeekday.map(({ weekday, nth }) => `${nth}${WEEKDAY_CODES[weekday]}`),
+    ];
+    parts.push(`BYDAY=${days.join(",")}`);
+  }
+  if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.until) {
+    parts.push(`UNTIL=${formatRuleDate(rule.until)}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  const lines = [`RRULE:${parts.join(";")}`];
+  if (rule.workday) {
+    lines.push(rule.workday.mode === "monthly"
+      ? `X-WORKDAY-RULE:MODE=MONTHLY;POS=${rule.workday.position}`
+      : "X-WORKDAY-RULE:MODE=EVERY");
+  }
+  if (rule.exdates.length > 0) {
+    lines.push(`EXDATE;VALUE=DATE:${rule.exdates.map(formatRuleDate).join(",")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Returns the rule a task should use. Standard recurrence types always expand with their own
+ * frequency, so a stored rule with a different FREQ is replaced by that type's default rule.
+ * Returns null for one-time tasks and for custom tasks without a rule.
+ */
+export function resolveRecurrenceRule(recurrenceType: string, value: string | null | undefined): RecurrenceRule | null {
+  if (recurrenceType === "none") return null;
+
+  const rule = parseRecurrenceRule(value);
+  if (recurrenceType === "custom") return rule;
+  if (!isFrequency(recurrenceType)) return null;
+
+  return rule && rule.freq === recurrenceType ? rule : createRecurrenceRule(recurrenceType);
+}
+
+/**
+ * Builds an rrule.js instance for the rule, expanded on floating dates (see toFloatingDate)
+ * starting at startDateStr.
+ */
+export function toRRule(rule: RecurrenceRule, startDateStr: string): RRule {
+  const options: Partial<Options> = {
+    freq: RRULE_FREQUENCIES[rule.freq],
+    dtstart: toFloatingDate(startDateStr),
+    interval: rule.interval,
+  };
+
+  if (rule.byWeekday.length > 0 || rule.byNthWeekday.length > 0) {
+    options.byweekday = [
+      ...rule.byWeekday.map((d) => RRULE_WEEKDAYS[d]),
+      ...rule.byNthWeekday.map(({ weekday, nth }) => RRULE_WEEKDAYS[weekday].nth(nth)),
+    ];
+  }
+  if (rule.bySetPos.length > 0) options.bysetpos = rule.bySetPos;
+  if (rule.byMonthDay.length > 0) options.bymonthday = rule.byMonthDay;
+  if (rule.byMonth.length > 0) options.bymonth = rule.byMonth;
+  if (rule.until) {
+    options.until = toFloatingDate(rule.until);
+  } else if (rule.count) {
+    options.count = rule.count;
+  }
+
+  return new RRule(options);
+}
+
+// Working days of the calendar month containing dateStr
+const workingDatesInMonth = (dateStr: string, isWorkingDate: WorkingDatePredicate): string[] => {
+  const date = toFloatingDate(dateStr);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  return eachDateStrInRange(`${dateStr.slice(0, 7)}-01`, fromFloatingDate(lastDay)).filter(isWorkingDate);
+};
+
+const monthIndex = (dateStr: string): number =>
+  parseInt(dateStr.slice(0, 4), 10) * 12 + parseInt(dateStr.slice(5, 7), 10) - 1;
+
+// 1-based position from the start, or negative from the end (-1 = last)
+const pickPosition = <T>(items: T[], position: number): T | undefined =>
+  position > 0 ? items[position - 1] : items[items.length + position];
+
+/**
+ * Occurrence check for working-day rules. Returns the 0-based index of the occurrence on
+ * dateStr within the series, or -1 if there is none.
+ */
+const workdayOccurrenceIndex = (
+  rule: RecurrenceRule,
+  startDateStr: string,
+  dateStr: string,
+  isWorkingDate: WorkingDatePredicate
+): number => {
+  if (!rule.workday || !isWorkingDate(dateStr)) return -1;
+
+  if (rule.workday.mode === "every") {
+    const workingDates = eachDateStrInRange(startDateStr, dateStr).filter(isWorkingDate);
+    const index = workingDates.length - 1;
+    return index % rule.interval === 0 ? index / rule.interval : -1;
+  }
+
+  const monthsFromStart = monthIndex(dateStr) - monthIndex(startDateStr);
+  if (monthsFromStart % rule.interval !== 0) return -1;
+  if (pickPosition(workingDatesInMonth(dateStr, isWorkingDate), rule.workday.position!) !== dateStr) return -1;
+
+  // Count earlier occurrences; the start month only counts if its occurrence is on or after the start date
+  const startOccurrence = pickPosition(workingDatesInMonth(startDateStr, isWorkingDate), rule.workday.position!);
+  const skipsStartMonth = !startOccurrence || startOccurrence < startDateStr;
+  return monthsFromStart / rule.interval - (skipsStartMonth ? 1 : 0);
+};
+
+/**
+ * Returns true if the rule, started on startDateStr, has an occurrence on dateStr.
+ * Working-day rules need isWorkingDate; without it every day counts as a working day.
+ */
+export function ruleOccursOn(
+  rule: RecurrenceRule,
+  startDateStr: string,
+  dateStr: string,
+  isWorkingDate: WorkingDatePredicate = () => true
+): boolean {
+  if (dateStr < startDateStr || rule.exdates.includes(dateStr)) return false;
+
+  if (rule.workday) {
+    if (rule.until && dateStr > rule.until) return false;
+    const index = workdayOccurrenceIndex(rule, startDateStr, dateStr, isWorkingDate);
+    return index >= 0 && (!rule.count || index < rule.count);
+  }
+
+  const target = toFloatingDate(dateStr);
+  return toRRule(rule, startDateStr)
+    .between(target, target, true)
+    .some((occurrence) => fromFloatingDate(occurrence) === dateStr);
+}
@@ -0,0 +1,118 @@
+import { eachDateStrInRange } from "./dateUtils";
+import { getDayCapacity, type DayPortion } from "./leaveUtils";
+import { isWeeklyOffDate, type WeeklyOffPattern } from "./weeklyOffs";
+
+// Approved or pending leave of a team member (personal_holidays row)
+export interface TeamLeave {
+  id: string;
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  day_portion: DayPortion;
+  approval_status: string | null;
+  cover_user_id: string | null;
+}
+
+export interface TeamHoliday {
+  holiday_name: string;
+  day_portion: DayPortion;
+}
+
+/**
+ * What a team member's calendar looks like: their weekly offs and public holidays (from their
+ * holiday calendar, else the organization's), their leave, and the task categories they have
+ * assignments in.
+ */
+export interface TeamMemberSchedule {
+  id: string;
+  full_name: string;
+  weeklyOffs: WeeklyOffPattern[];
+  publicHolidays: Map<string, TeamHoliday[]>; // keyed by 'yyyy-MM-dd'
+  leave: TeamLeave[];
+  categories: string[];
+}
+
+export interface TeamDayInfo {
+  weeklyOff: boolean;
+  holidays: TeamHoliday[];
+  leave: TeamLeave[]; // Approved and pending leave on the day
+}
+
+export interface CoverageConflict {
+  date: string;
+  category: string;
+  available: number;
+}
+
+export const getTeamDayInfo = (member: TeamMemberSchedule, dateStr: string): TeamDayInfo => ({
+  weeklyOff: isWeeklyOffDate(member.weeklyOffs, dateStr),
+  holidays: member.publicHolidays.get(dateStr) || [],
+  leave: member.leave.filter((l) => dateStr >= l.start_date && dateStr <= l.end_date),
+});
+
+/**
+ * Whether the member works (any part of) the day. Pending leave counts only when
+ * includePending is set, e.g. to see coverage if every pending request were approved.
+ */
+export const isMemberAvailable = (
+  member: TeamMemberSchedule,
+  dateStr: string,
+  includePending = false
+): boolean => {
+  const { weeklyOff, holidays, leave } = getTeamDayInfo(member, dateStr);
+  if (weeklyOff) return false;
+
+  const leavePortions = leave
+    .filter((l) => l.approval_status === "approved" || (includePending && l.approval_status === "pending"))
+    .map((l) => l.day_portion);
+  return getDayCapacity([...holidays.map((h) => h.day_portion), ...leavePortions]) > 0;
+};
+
+/**
+ * Categories on the day where fewer than `minimum` of the members with tasks in that
+ * category are available.
+ */
+export const findDayCoverageGaps = (
+  members: TeamMemberSchedule[],
+  dateStr: string,
+  minimum: number,
+  includePending = false
+): CoverageConflict[] => {
+  if (minimum <= 0) return [];
+
+  const categories = [...new Set(members.flatMap((m) => m.categories))].sort();
+  return categories
+    .map((category) => ({
+      date: dateStr,
+      category,
+      available: members.filter(
+        (m) => m.categories.includes(category) && isMemberAvailable(m, dateStr, includePending)
+      ).length,
+    }))
+    .filter((gap) => gap.available < minimum);
+};
+
+/**
+ * Coverage gaps that approving the leave would cause: days of the request the member would
+ * otherwise work on where one of their task categories drops below `minimum` available
+ * members, counting the team's approved leave.
+ */
+export const findCoverageConflicts = (
+  members: TeamMemberSchedule[],
+  leave: TeamLeave,
+  minimum: number
+): CoverageConflict[] => {
+  const member = members.find((m) => m.id === leave.user_id);
+  if (!member || minimum <= 0 || member.categories.length === 0) return [];
+
+  const approvedLeave = { ...leave, approval_status: "approved" };
+  const withLeave = members.map((m) =>
+    m.id === member.id ? { ...m, leave: [...m.leave.filter((l) => l.id !== leave.id), approvedLeave] } : m
+  );
+
+  return eachDateStrInRange(leave.start_date, leave.end_date)
+    .filter((dateStr) => isMemberAvailable({ ...member, leave: [] }, dateStr))
+    .flatMap((dateStr) =>
+      findDayCoverageGaps(withLeave, dateStr, minimum).filter((gap) => member.categories.includes(gap.category))
+    );
+};
@@ -0,0 +1,82 @@
+import { toFloatingDate } from "./dateUtils";
+import type { Database } from "@/integrations/supabase/types";
+
+export type DayOfWeek = Database["public"]["Enums"]["day_of_week"];
+
+/**
+ * A weekly off day and the weeks it applies to (weekly_offs / user_weekly_offs row):
+ * - every week: weeks_of_month null and week_interval 1
+ * - nth weeks: weeks_of_month [2, 4] = 2nd and 4th <day> of every month
+ * - alternate weeks: week_interval 2 counted from the week containing anchor_date
+ */
+export interface WeeklyOffPattern {
+  day_of_week: DayOfWeek;
+  weeks_of_month: number[] | null;
+  week_interval: number;
+  anchor_date: string | null; // 'yyyy-MM-dd' in an "off" week
+}
+
+const DAY_NAMES: DayOfWeek[] = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const ORDINALS = ["1st", "2nd", "3rd", "4th", "5th"];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const everyWeekPattern = (day: DayOfWeek): WeeklyOffPattern => ({
+  day_of_week: day,
+  weeks_of_month: null,
+  week_interval: 1,
+  anchor_date: null,
+});
+
+// Monday-based week number of a 'yyyy-MM-dd' date (1970-01-01 was a Thursday)
+const weekIndex = (dateStr: string): number =>
+  Math.floor((toFloatingDate(dateStr).getTime() / MS_PER_DAY + 3) / 7);
+
+/**
+ * True if the weekly off applies on the 'yyyy-MM-dd' calendar date.
+ */
+export const weeklyOffAppliesOn = (pattern: WeeklyOffPattern, dateStr: string): boolean => {
+  const date = toFloatingDate(dateStr);
+  if (DAY_NAMES[date.getUTCDay()] !== pattern.day_of_week) {
+    return false;
+  }
+
+  if (pattern.weeks_of_month && pattern.weeks_of_month.length > 0) {
+    // Which occurrence of this weekday in the month (1st … 5th)
+    const nth = Math.ceil(date.getUTCDate() / 7);
+    return pattern.weeks_of_month.includes(nth);
+  }
+
+  if (pattern.week_interval > 1 && pattern.anchor_date) {
+    const weeksApart = weekIndex(dateStr) - weekIndex(pattern.anchor_date);
+    return ((weeksApart % pattern.week_interval) + pattern.week_interval) % pattern.week_interval === 0;
+  }
+
+  return true;
+};
+
+/**
+ * True if any of the weekly offs applies on the 'yyyy-MM-dd' calendar date.
+ */
+export const isWeeklyOffDate = (patterns: WeeklyOffPattern[], dateStr: string): boolean =>
+  patterns.some((pattern) => weeklyOffAppliesOn(pattern, dateStr));
+
+/**
+ * Human-readable weekly off, e.g. "Saturday (2nd & 4th)" or "Saturday (alternate weeks)".
+ */
+export const describeWeeklyOff = (pattern: WeeklyOffPattern): string => {
+  const day = pattern.day_of_week.charAt(0).toUpperCase() + pattern.day_of_week.slice(1);
+
+  if (pattern.weeks_of_month && pattern.weeks_of_month.length > 0) {
+    const weeks = [...pattern.weeks_of_month].sort((a, b) => a - b).map((w) => ORDINALS[w - 1]);
+    return `${day} (${weeks.join(" & ")})`;
+  }
+
+  if (pattern.week_interval === 2) {
+    return `${day} (alternate weeks)`;
+  }
+  if (pattern.week_interval > 2) {
+    return `${day} (every ${pattern.week_interval} weeks)`;
+  }
+
+  return day;
+};
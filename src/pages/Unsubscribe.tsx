@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, Loader2, MailX } from "lucide-react";
+
+// What each unsubscribe link in an email turns off (see UNSUBSCRIBE_UPDATES in the functions)
+const UNSUBSCRIBE_DESCRIPTIONS: Record<string, string> = {
+  daily_summary: "your task summary emails",
+  team_digest: "team summary emails",
+  monthly_digest: "month-end team digests",
+  approval_requests: "approval request emails",
+  escalations: "escalation emails",
+  rejections: "emails about rejected completions",
+  leave_decisions: "emails about leave decisions",
+  all: "all Momentum emails",
+};
+
+// Opened from the unsubscribe link in an email; works without signing in. Only unsubscribes once
+// the user confirms, since link scanners and prefetching open links too
+const Unsubscribe = () => {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<"confirm" | "loading" | "done" | "error">("confirm");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const token = searchParams.get("token");
+  const type = searchParams.get("type") || "";
+
+  const unsubscribe = async () => {
+    try {
+      setStatus("loading");
+      if (!token) throw new Error("This unsubscribe link is incomplete");
+      const { error } = await supabase.functions.invoke("unsubscribe", { body: { token, type } });
+      if (error) throw error;
+      setStatus("done");
+    } catch (error) {
+      setErrorMessage((error as Error).message || "This unsubscribe link is not valid");
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            {status === "loading" ? (
+              <Loader2 className="w-10 h-10 animate-spin text-muted-foreground" />
+            ) : status === "confirm" ? (
+              <MailX className="w-10 h-10 text-muted-foreground" />
+            ) : status === "done" ? (
+              <CheckCircle2 className="w-10 h-10 text-primary" />
+            ) : (
+              <MailX className="w-10 h-10 text-destructive" />
+            )}
+          </div>
+          <CardTitle>
+            {status === "confirm"
+              ? "Unsubscribe from Momentum emails?"
+              : status === "loading"
+                ? "Unsubscribing..."
+                : status === "done"
+                  ? "You're unsubscribed"
+                  : "Couldn't unsubscribe"}
+          </CardTitle>
+          <CardDescription>
+            {status === "confirm" || status === "done"
+              ? `You will no longer receive ${UNSUBSCRIBE_DESCRIPTIONS[type] ?? "these emails"}.`
+              : status === "error"
+                ? errorMessage
+                : null}
+          </CardDescription>
+        </CardHeader>
+        {status === "confirm" && (
+          <CardContent className="text-center">
+            <Button onClick={unsubscribe}>Unsubscribe</Button>
+          </CardContent>
+        )}
+        {(status === "done" || status === "error") && (
+          <CardContent className="text-center space-y-4">
+            <p className="text-sm text-muted-foreground">
+              You can choose which emails you get, and how often, in your notification settings.
+            </p>
+            <Button asChild>
+              <a href="/dashboard">Open Momentum</a>
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default Unsubscribe;
@@ -0,0 +1,135 @@
+// Completion stats for edge functions, counted the same way as useTeamCompletionStats in the app
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { loadDayCapacities, type ScheduleUser } from "./schedule.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// A recorded task occurrence that counts towards completion %
+export interface CountedCompletion {
+  userId: string;
+  assignmentId: string;
+  taskId: string;
+  taskName: string;
+  scheduledDate: string;
+  status: string;
+  approvalStatus: string | null;
+  slaStatus: string | null;
+  weight: number; // Capacity of the day: 0.5 on a half day
+}
+
+export interface CompletionStats {
+  totalTasks: number;
+  completedTasks: number;
+  partialTasks: number;
+  notDoneTasks: number;
+  // Weighted like the app; null when nothing was recorded (the app shows 0%)
+  completionPercentage: number | null;
+  onTimeTasks: number;
+  lateTasks: number;
+}
+
+interface AssignmentRow {
+  id: string;
+  task: { id: string; name: string; non_working_day_policy: string } | null;
+}
+
+/**
+ * The user's recorded task occurrences scheduled from startDateStr to endDateStr. Occurrences on
+ * leave days are left out unless the task's non-working-day policy is "ignore" (due anyway),
+ * and each weighs the capacity of its day.
+ */
+export async function loadCountedCompletions(
+  supabase: SupabaseClient,
+  user: ScheduleUser,
+  startDateStr: string,
+  endDateStr: string
+): Promise<CountedCompletion[]> {
+  const { data: assignments, error: assignmentError } = await supabase
+    .from("task_assignments")
+    .select("id, task:tasks!task_assignments_task_id_fkey (id, name, non_working_day_policy)")
+    .eq("assigned_to", user.id);
+
+  if (assignmentError) throw assignmentError;
+  if (!assignments || assignments.length === 0) return [];
+
+  const assignmentMap = new Map((assignments as AssignmentRow[]).map((a) => [a.id, a]));
+  const dayCapacities = await loadDayCapacities(supabase, user, startDateStr, endDateStr);
+
+  const { data: completions, error: completionError } = await supabase
+    .from("task_completions")
+    .select("assignment_id, status, scheduled_date, completion_date, approval_status, sla_status")
+    .in("assignment_id", [...assignmentMap.keys()])
+    .or(`scheduled_date.gte.${startDateStr},completion_date.gte.${startDateStr}`)
+    .or(`scheduled_date.lte.${endDateStr},completion_date.lte.${endDateStr}`);
+
+  if (completionError) throw completionError;
+
+  // One entry per occurrence (assignment and scheduled date)
+  const counted = new Map<string, CountedCompletion>();
+  (completions || []).forEach((c) => {
+    const scheduledDate = c.scheduled_date || c.completion_date;
+    if (scheduledDate < startDateStr || scheduledDate > endDateStr) return;
+
+    const task = assignmentMap.get(c.assignment_id)?.task;
+    const capacity = dayCapacities.get(scheduledDate) ?? 1;
+    if (capacity === 0 && task?.non_working_day_policy !== "ignore") return;
+
+    counted.set(`${c.assignment_id}-${scheduledDate}`, {
+      userId: user.id,
+      assignmentId: c.assignment_id,
+      taskId: task?.id ?? c.assignment_id,
+      taskName: task?.name || "Unknown Task",
+      scheduledDate,
+      status: c.status,
+      approvalStatus: c.approval_status,
+      slaStatus: c.sla_status,
+      weight: capacity > 0 ? capacity : 1,
+    });
+  });
+
+  return [...counted.values()];
+}
+
+// Only approved completions count as done; rejected ones don't count towards on time / late
+export function summarizeCompletions(completions: CountedCompletion[]): CompletionStats {
+  const stats: CompletionStats = {
+    totalTasks: completions.length,
+    completedTasks: 0,
+    partialTasks: 0,
+    notDoneTasks: 0,
+    completionPercentage: null,
+    onTimeTasks: 0,
+    lateTasks: 0,
+  };
+  let totalWeight = 0;
+  let completedWeight = 0;
+
+  completions.forEach((c) => {
+    totalWeight += c.weight;
+    if (c.status === "completed" && c.approvalStatus === "approved") {
+      stats.completedTasks++;
+      completedWeight += c.weight;
+    } else if (c.status === "partial") {
+      stats.partialTasks++;
+    } else if (c.status === "not_done") {
+      stats.notDoneTasks++;
+    }
+    if (c.approvalStatus !== "rejected") {
+      if (c.slaStatus === "on_time") stats.onTimeTasks++;
+      else if (c.slaStatus === "late") stats.lateTasks++;
+    }
+  });
+
+  if (totalWeight > 0) {
+    stats.completionPercentage = Math.round((completedWeight / totalWeight) * 100);
+  }
+  return stats;
+}
+
+// Occurrences scheduled from startDateStr to endDateStr
+export const completionsBetween = (
+  completions: CountedCompletion[],
+  startDateStr: string,
+  endDateStr: string
+): CountedCompletion[] =>
+  completions.filter((c) => c.scheduledDate >= startDateStr && c.scheduledDate <= endDateStr);
@@ -0,0 +1,1008 @@
+import Mustache from "https://esm.sh/mustache@4.2.0";
+import {
+  EMAIL_MESSAGES,
+  formatEmailDate,
+  getTextDirection,
+  type EmailLanguage,
+} from "./emailTranslations.ts";
+
+/**
+ * Email templates, rendered with Mustache. Each template is the `content` partial of LAYOUT,
+ * which adds the organization's header (logo), footer and colors.
+ *
+ * {{value}} is HTML-escaped; translated text goes in triple braces ({{{t.key}}}), because
+ * translate() already escapes the values it fills in and the text itself is trusted.
+ */
+
+const DEFAULT_PRIMARY_COLOR = "#6366f1";
+const DEFAULT_ACCENT_COLOR = "#8b5cf6";
+
+export interface EmailBranding {
+  logoUrl: string | null;
+  primaryColor: string;
+  accentColor: string;
+  footerText: string | null;
+}
+
+export interface EmailRenderOptions {
+  language: EmailLanguage;
+  branding: EmailBranding;
+  // The recipient's unsubscribe link, shown in the footer
+  unsubscribeUrl?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+export interface SummaryTotals {
+  totalScheduled: number;
+  totalCompleted: number;
+  totalPartial: number;
+  totalNotDone: number;
+  totalDelayed: number;
+  totalOnTime: number;
+  totalLate: number;
+}
+
+export interface DailySummaryEmailData extends SummaryTotals {
+  dateStr: string;
+  isHoliday: boolean;
+  isPersonalLeave: boolean; // Completion % is N/A
+  // Set on the copy sent to the employee's manager
+  employeeName?: string;
+  completions: Array<{
+    task_name: string;
+    status: string;
+    quantity_completed: number | null;
+    benchmark: number | null;
+    notes: string | null;
+    scheduled_date: string;
+    completion_date: string;
+    sla_status: string | null;
+    due_time: string | null;
+    covered_by: string | null;
+  }>;
+  coveredCompletions: Array<{
+    task_name: string;
+    assignee_name: string;
+    status: string;
+    quantity_completed: number | null;
+    notes: string | null;
+  }>;
+  occurrenceChanges: Array<{
+    task_name: string;
+    action: "skip" | "reschedule" | "override";
+    occurrence_date: string;
+    new_date: string | null;
+    reason: string | null;
+  }>;
+}
+
+// The user's own week, one entry per day with activity
+export interface WeeklySummaryEmailData {
+  startDateStr: string;
+  endDateStr: string;
+  days: Array<SummaryTotals & { dateStr: string; isHoliday: boolean; isPersonalLeave: boolean }>;
+}
+
+// Completion % is weighted by day capacity and null when nothing was recorded
+export interface DigestStats {
+  totalTasks: number;
+  completionPercentage: number | null;
+  partialTasks: number;
+  notDoneTasks: number;
+}
+
+// Everyone below a manager in the reporting tree over a week or a month, against the period before
+export interface ManagerDigestEmailData {
+  period: "weekly" | "monthly";
+  startDateStr: string;
+  endDateStr: string;
+  team: { current: DigestStats; previous: DigestStats };
+  // managerName is set for indirect reports
+  members: Array<{ name: string; managerName: string | null; current: DigestStats; previous: DigestStats }>;
+  mostMissed: Array<{ taskName: string; count: number }>;
+  pendingApprovals: { completions: number; leaveRequests: number };
+  upcomingLeave: Array<{ employeeName: string; startDate: string; endDate: string; leaveType: string | null; pending: boolean }>;
+  upcomingLeaveDays: number;
+  reviewUrl: string | null;
+}
+
+export interface ApprovalRequestsEmailData {
+  completions: Array<{ employeeName: string; taskName: string; status: string; scheduledDate: string }>;
+  leaveRequests: Array<{ employeeName: string; startDate: string; endDate: string; leaveType: string | null }>;
+  reviewUrl: string | null;
+}
+
+export interface RejectionEmailData {
+  taskName: string;
+  managerName: string;
+  dateStr: string;
+  comment: string | null;
+  actionUrl: string | null;
+}
+
+export interface LeaveDecisionEmailData {
+  approved: boolean;
+  approverName: string;
+  startDateStr: string;
+  endDateStr: string;
+  actionUrl: string | null;
+}
+
+// A problem escalated to the recipient, one level above whoever should have acted
+export type EscalationEmailItem =
+  | { policy: "missed_streak"; employeeName: string; taskName: string; count: number; sinceDateStr: string }
+  | {
+      policy: "approval_pending";
+      employeeName: string;
+      approverName: string;
+      taskName: string;
+      scheduledDateStr: string;
+      days: number;
+    }
+  | {
+      policy: "below_benchmark";
+      employeeName: string;
+      taskName: string;
+      percent: number;
+      startDateStr: string;
+      endDateStr: string;
+    };
+
+export interface EscalationsEmailData {
+  escalations: EscalationEmailItem[];
+  reviewUrl: string | null;
+}
+
+export interface InvitationEmailData {
+  inviterName: string;
+  organizationName: string;
+  role: string;
+  signupUrl: string;
+}
+
+const STATUS_BADGE_STYLES: Record<string, string> = {
+  completed: "background: #d1fae5; color: #065f46;",
+  partial: "background: #fef3c7; color: #92400e;",
+  not_done: "background: #fee2e2; color: #991b1b;",
+  delayed: "background: #fed7aa; color: #9a3412;",
+};
+const DEFAULT_BADGE_STYLE = "background: #f3f4f6; color: #374151;";
+
+// Pending task updates listed in the approval requests email before "and N more"
+const APPROVAL_ITEMS_SHOWN = 20;
+const ESCALATIONS_SHOWN = 20;
+
+const LAYOUT = `<!DOCTYPE html>
+<html lang="{{language}}" dir="{{dir}}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>{{subject}}</title>
+  </head>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+    <div style="background: white; border-radius: 12px; padding: 30px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+      {{> header}}
+      {{> content}}
+      {{> footer}}
+    </div>
+  </body>
+</html>`;
+
+const PARTIALS: Record<string, string> = {
+  header: `<div style="text-align: center; margin-bottom: 30px;">
+        {{#branding.logoUrl}}
+        <img src="{{branding.logoUrl}}" alt="Logo" style="max-height: 48px; max-width: 240px;">
+        {{/branding.logoUrl}}
+        {{^branding.logoUrl}}
+        <h1 style="color: {{branding.primaryColor}}; margin-bottom: 5px;">Momentum</h1>
+        <p style="color: #888; font-size: 14px;">by aitamate</p>
+        {{/branding.logoUrl}}
+      </div>`,
+
+  footer: `<div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; text-align: center; color: #94a3b8; font-size: 12px;">
+        {{#footerNotes}}
+        <p>{{{.}}}</p>
+        {{/footerNotes}}
+        <p style="white-space: pre-line;">{{#branding.footerText}}{{branding.footerText}}{{/branding.footerText}}{{^branding.footerText}}{{{t.defaultFooter}}}{{/branding.footerText}}</p>
+        {{#unsubscribeUrl}}
+        <p><a href="{{unsubscribeUrl}}" style="color: #94a3b8;">{{{t.unsubscribe}}}</a></p>
+        {{/unsubscribeUrl}}
+      </div>`,
+
+  // {url, label}
+  button: `<a href="{{url}}" style="background: linear-gradient(135deg, {{branding.primaryColor}} 0%, {{branding.accentColor}} 100%); color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">{{{label}}}</a>`,
+
+  // {headlineStats, statusStats, delayedText, sla}, from getSummaryStatsView()
+  summaryStats: `<!-- Summary Stats -->
+      <div style="background: linear-gradient(135deg, #f8fafc 0%, #e2e8f0 100%); border-radius: 8px; padding: 20px; margin-bottom: 30px;">
+        <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 15px; margin-bottom: 15px;">
+          {{#headlineStats}}{{> stat}}{{/headlineStats}}
+        </div>
+        <div style="display: grid; grid-template-columns: repeat(3, 1fr); gap: 10px; margin-top: 15px; padding-top: 15px; border-top: 1px solid #e2e8f0;">
+          {{#statusStats}}{{> stat}}{{/statusStats}}
+        </div>
+        {{#delayedText}}
+        <div style="text-align: center; margin-top: 10px; padding-top: 10px; border-top: 1px solid #e2e8f0;">
+          <div style="font-size: 16px; font-weight: bold; color: #f97316;">{{{delayedText}}}</div>
+        </div>
+        {{/delayedText}}
+        {{#sla}}
+        <div style="text-align: center; margin-top: 10px; padding-top: 10px; border-top: 1px solid #e2e8f0;">
+          <div style="font-size: 16px; font-weight: bold; color: {{color}};">{{{rateText}}}</div>
+          <div style="font-size: 11px; color: #64748b;">{{{breakdownText}}}</div>
+        </div>
+        {{/sla}}
+      </div>`,
+
+  // {value, label, color, large}
+  stat: `<div style="text-align: center;">
+            <div style="font-size: {{#large}}32{{/large}}{{^large}}20{{/large}}px; font-weight: bold; color: {{color}};">{{value}}</div>
+            <div style="font-size: {{#large}}12px; text-transform: uppercase{{/large}}{{^large}}11px{{/large}}; color: #64748b;">{{{label}}}</div>
+          </div>`,
+};
+
+const DAILY_SUMMARY_TEMPLATE = `<h2 style="color: #1e293b; margin-top: 0;">{{{title}}}</h2>
+      <p style="color: #64748b; margin-bottom: 20px;">
+        {{formattedDate}}
+        {{#isHoliday}}<span style="background: #fef3c7; color: #92400e; padding: 2px 8px; border-radius: 4px; font-size: 12px; margin: 0 8px;">{{{t.holiday}}}</span>{{/isHoliday}}
+      </p>
+
+      {{#noTasks}}
+      <p style="color: #64748b;">{{{t.noTasksScheduled}}}</p>
+      {{/noTasks}}
+      {{^noTasks}}
+      {{> summaryStats}}
+
+      <!-- Task Details -->
+      {{#hasCompletions}}
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{t.taskDetails}}}</h3>
+      {{#completions}}
+      <div style="border: 1px solid #e2e8f0; border-radius: 8px; padding: 15px; margin-bottom: 10px;">
+        <div style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 8px;">
+          <div style="font-weight: 600; color: #1e293b;">{{taskName}}</div>
+          <span style="padding: 4px 8px; border-radius: 4px; font-size: 11px; font-weight: 600; {{{badgeStyle}}}">{{{statusLabel}}}</span>
+        </div>
+        {{#progressText}}<div style="font-size: 13px; color: #64748b; margin-top: 5px;">{{{progressText}}}</div>{{/progressText}}
+        {{#notes}}<div style="font-size: 13px; color: #64748b; margin-top: 5px; font-style: italic;">"{{notes}}"</div>{{/notes}}
+        {{#lateText}}<div style="font-size: 12px; color: #f97316; margin-top: 5px;">⏱ {{{lateText}}}</div>{{/lateText}}
+        {{#coveredText}}<div style="font-size: 12px; color: {{branding.primaryColor}}; margin-top: 5px;">{{{coveredText}}}</div>{{/coveredText}}
+      </div>
+      {{/completions}}
+      {{/hasCompletions}}
+      {{^hasCompletions}}
+      <p style="color: #64748b;">{{{t.noCompletions}}}</p>
+      {{/hasCompletions}}
+      {{/noTasks}}
+
+      {{#hasCoveredCompletions}}
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{t.coveredForColleagues}}}</h3>
+      {{#coveredCompletions}}
+      <div style="font-size: 13px; color: #64748b; margin-bottom: 6px;">
+        <span style="font-weight: 600; color: #1e293b;">{{taskName}}</span>
+        {{{forText}}} - {{{statusLabel}}}{{#quantity}} ({{quantity}}){{/quantity}}
+        {{#notes}}<span style="font-style: italic;">("{{notes}}")</span>{{/notes}}
+      </div>
+      {{/coveredCompletions}}
+      {{/hasCoveredCompletions}}
+
+      {{#hasOccurrenceChanges}}
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{t.scheduleChanges}}}</h3>
+      {{#occurrenceChanges}}
+      <div style="font-size: 13px; color: #64748b; margin-bottom: 6px;">
+        <span style="font-weight: 600; color: #1e293b;">{{taskName}}</span> - {{{changeText}}}
+        {{#reason}}<span style="font-style: italic;">("{{reason}}")</span>{{/reason}}
+      </div>
+      {{/occurrenceChanges}}
+      {{/hasOccurrenceChanges}}`;
+
+// The user's week broken down by day
+const PERIOD_SUMMARY_TEMPLATE = `<h2 style="color: #1e293b; margin-top: 0;">{{{title}}}</h2>
+      <p style="color: #64748b; margin-bottom: 20px;">{{{periodText}}}</p>
+
+      {{^hasRows}}
+      <p style="color: #64748b;">{{{t.noActivityInPeriod}}}</p>
+      {{/hasRows}}
+      {{#hasRows}}
+      {{> summaryStats}}
+
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{rowsTitle}}}</h3>
+      <table style="width: 100%; border-collapse: collapse; font-size: 13px;">
+        <thead>
+          <tr>
+            {{#columns}}<th style="text-align: start; padding: 8px; border-bottom: 2px solid #e2e8f0; color: #64748b; font-size: 11px; text-transform: uppercase;">{{{.}}}</th>{{/columns}}
+          </tr>
+        </thead>
+        <tbody>
+          {{#rows}}
+          <tr>
+            <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; color: #1e293b; font-weight: 600;">
+              {{label}}
+              {{#note}}<div style="font-size: 11px; font-weight: normal; color: #92400e;">{{{note}}}</div>{{/note}}
+            </td>
+            {{#cells}}<td style="padding: 8px; border-bottom: 1px solid #e2e8f0; color: #334155;">{{.}}</td>{{/cells}}
+          </tr>
+          {{/rows}}
+        </tbody>
+      </table>
+      {{/hasRows}}`;
+
+const MANAGER_DIGEST_TEMPLATE = `<h2 style="color: #1e293b; margin-top: 0;">{{{title}}}</h2>
+      <p style="color: #64748b; margin-bottom: 20px;">{{{periodText}}}<br>{{{t.digestIntro}}}</p>
+
+      {{^hasMembers}}
+      <p style="color: #64748b;">{{{t.noActivityInPeriod}}}</p>
+      {{/hasMembers}}
+      {{#hasMembers}}
+      <!-- Team Stats -->
+      <div style="background: linear-gradient(135deg, #f8fafc 0%, #e2e8f0 100%); border-radius: 8px; padding: 20px; margin-bottom: 30px;">
+        <div style="display: grid; grid-template-columns: repeat(3, 1fr); gap: 15px;">
+          {{#headlineStats}}
+          <div style="text-align: center;">
+            <div style="font-size: 28px; font-weight: bold; color: {{color}};">{{value}}</div>
+            <div style="font-size: 12px; text-transform: uppercase; color: #64748b;">{{{label}}}</div>
+            {{#changeText}}<div style="font-size: 11px; color: {{changeColor}};">{{{changeText}}}</div>{{/changeText}}
+          </div>
+          {{/headlineStats}}
+        </div>
+      </div>
+
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{t.byTeamMember}}}</h3>
+      <table style="width: 100%; border-collapse: collapse; font-size: 13px;">
+        <thead>
+          <tr>
+            {{#columns}}<th style="text-align: start; padding: 8px; border-bottom: 2px solid #e2e8f0; color: #64748b; font-size: 11px; text-transform: uppercase;">{{{.}}}</th>{{/columns}}
+          </tr>
+        </thead>
+        <tbody>
+          {{#rows}}
+          <tr>
+            <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; color: #1e293b; font-weight: 600;">
+              {{label}}
+              {{#note}}<div style="font-size: 11px; font-weight: normal; color: #64748b;">{{{note}}}</div>{{/note}}
+            </td>
+            {{#cells}}<td style="padding: 8px; border-bottom: 1px solid #e2e8f0; color: #334155;">{{.}}</td>{{/cells}}
+          </tr>
+          {{/rows}}
+        </tbody>
+      </table>
+      {{/hasMembers}}
+
+      {{#hasMostMissed}}
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{t.mostMissedTasks}}}</h3>
+      {{#mostMissed}}
+      <div style="font-size: 13px; color: #64748b; margin-bottom: 6px;">
+        <span style="font-weight: 600; color: #1e293b;">{{taskName}}</span> - {{{countText}}}
+      </div>
+      {{/mostMissed}}
+      {{/hasMostMissed}}
+
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{t.pendingApprovals}}}</h3>
+      <p style="font-size: 13px; color: #64748b;">{{{pendingApprovalsText}}}</p>
+
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{upcomingLeaveTitle}}}</h3>
+      {{#upcomingLeave}}
+      <div style="font-size: 13px; color: #64748b; margin-bottom: 6px;">
+        <span style="font-weight: 600; color: #1e293b;">{{employeeName}}</span> - {{{datesText}}}{{#leaveType}} ({{leaveType}}){{/leaveType}}{{#pendingText}} <span style="color: #92400e;">{{{pendingText}}}</span>{{/pendingText}}
+      </div>
+      {{/upcomingLeave}}
+      {{^upcomingLeave}}
+      <p style="font-size: 13px; color: #64748b;">{{{noUpcomingLeaveText}}}</p>
+      {{/upcomingLeave}}
+
+      {{#reviewButton}}
+      <div style="text-align: center; margin: 30px 0;">{{> button}}</div>
+      {{/reviewButton}}`;
+
+const APPROVAL_REQUESTS_TEMPLATE = `<h2 style="color: #1e293b; margin-top: 0;">{{{t.approvalRequestsTitle}}}</h2>
+      <p style="color: #64748b; margin-bottom: 20px;">{{{t.approvalRequestsIntro}}}</p>
+
+      {{#hasCompletions}}
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{t.pendingTaskUpdates}}}</h3>
+      {{#completions}}
+      <div style="border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 15px; margin-bottom: 8px;">
+        <div style="display: flex; justify-content: space-between; align-items: start;">
+          <div>
+            <div style="font-weight: 600; color: #1e293b;">{{taskName}}</div>
+            <div style="font-size: 12px; color: #64748b;">{{employeeName}} · {{date}}</div>
+          </div>
+          <span style="padding: 4px 8px; border-radius: 4px; font-size: 11px; font-weight: 600; {{{badgeStyle}}}">{{{statusLabel}}}</span>
+        </div>
+      </div>
+      {{/completions}}
+      {{#moreText}}<p style="font-size: 13px; color: #64748b;">{{{moreText}}}</p>{{/moreText}}
+      {{/hasCompletions}}
+
+      {{#hasLeaveRequests}}
+      <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">{{{t.pendingLeaveRequests}}}</h3>
+      {{#leaveRequests}}
+      <div style="font-size: 13px; color: #64748b; margin-bottom: 6px;">
+        <span style="font-weight: 600; color: #1e293b;">{{employeeName}}</span> - {{{datesText}}}{{#leaveType}} ({{leaveType}}){{/leaveType}}
+      </div>
+      {{/leaveRequests}}
+      {{/hasLeaveRequests}}
+
+      {{#reviewButton}}
+      <div style="text-align: center; margin: 30px 0;">{{> button}}</div>
+      {{/reviewButton}}`;
+
+const ESCALATIONS_TEMPLATE = `<h2 style="color: #1e293b; margin-top: 0;">{{{t.escalationsTitle}}}</h2>
+      <p style="color: #64748b; margin-bottom: 20px;">{{{t.escalationsIntro}}}</p>
+
+      {{#escalations}}
+      <div style="border: 1px solid #e2e8f0; border-inline-start: 3px solid #ef4444; border-radius: 8px; padding: 12px 15px; margin-bottom: 8px;">
+        <div style="font-size: 11px; font-weight: 600; text-transform: uppercase; color: #991b1b; margin-bottom: 4px;">{{{policyLabel}}}</div>
+        <div style="font-size: 13px; color: #334155;">{{{message}}}</div>
+      </div>
+      {{/escalations}}
+      {{#moreText}}<p style="font-size: 13px; color: #64748b;">{{{moreText}}}</p>{{/moreText}}
+
+      {{#reviewButton}}
+      <div style="text-align: center; margin: 30px 0;">{{> button}}</div>
+      {{/reviewButton}}`;
+
+// A single event: a rejected task update, a leave decision
+const NOTIFICATION_TEMPLATE = `<h2 style="color: #1e293b; margin-top: 0;">{{{title}}}</h2>
+      <p style="margin-bottom: 20px;">{{{message}}}</p>
+      {{#comment}}
+      <div style="border-inline-start: 3px solid {{branding.primaryColor}}; background: #f8fafc; padding: 10px 15px; color: #475569; font-style: italic;">"{{comment}}"</div>
+      {{/comment}}
+      {{#actionButton}}
+      <div style="text-align: center; margin: 30px 0;">{{> button}}</div>
+      {{/actionButton}}`;
+
+const INVITATION_TEMPLATE = `<div style="background: linear-gradient(135deg, #f8fafc 0%, #e2e8f0 100%); border-radius: 12px; padding: 30px;">
+        <h2 style="margin-top: 0; color: #1e293b;">{{{t.invitationTitle}}}</h2>
+        <p style="margin-bottom: 20px;">{{{invitationText}}}</p>
+        <p style="margin-bottom: 20px;">{{{t.invitationAbout}}}</p>
+        <div style="text-align: center; margin: 30px 0;">
+          {{#acceptButton}}{{> button}}{{/acceptButton}}
+        </div>
+        <p style="font-size: 14px; color: #64748b;">
+          {{{t.copyLink}}}<br>
+          <a href="{{signupUrl}}" style="color: {{branding.primaryColor}}; word-break: break-all;">{{signupUrl}}</a>
+        </p>
+      </div>`;
+
+// Only plain hex colors and web URLs reach the HTML, whatever was saved in the settings
+const isHexColor = (value: string | null | undefined): value is string =>
+  !!value && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value.trim());
+
+const isWebUrl = (value: string | null | undefined): value is string =>
+  !!value && /^https?:\/\/\S+$/i.test(value.trim());
+
+/**
+ * The organization's branding from its email_logo_url, email_primary_color, email_accent_color
+ * and email_footer_text settings. Invalid values fall back to the Momentum defaults.
+ */
+export function getEmailBranding(settings: Record<string, string | null | undefined>): EmailBranding {
+  const logoUrl = settings["email_logo_url"];
+  const primaryColor = settings["email_primary_color"];
+  const accentColor = settings["email_accent_color"];
+  return {
+    logoUrl: isWebUrl(logoUrl) ? logoUrl.trim() : null,
+    primaryColor: isHexColor(primaryColor) ? primaryColor.trim() : DEFAULT_PRIMARY_COLOR,
+    accentColor: isHexColor(accentColor) ? accentColor.trim() : DEFAULT_ACCENT_COLOR,
+    footerText: settings["email_footer_text"]?.trim() || null,
+  };
+}
+
+// HTML in the given language, English when it has not been translated
+export function translate(language: EmailLanguage, key: string, values: Record<string, unknown> = {}): string {
+  const message = EMAIL_MESSAGES[language][key] ?? EMAIL_MESSAGES.en[key] ?? key;
+  return Mustache.render(message, values);
+}
+
+// Plain text (subject lines): the same, without HTML escaping
+function translateText(language: EmailLanguage, key: string, values: Record<string, unknown> = {}): string {
+  const message = EMAIL_MESSAGES[language][key] ?? EMAIL_MESSAGES.en[key] ?? key;
+  return Mustache.render(message, values, {}, { escape: (value: string) => value });
+}
+
+function renderEmail(
+  template: string,
+  subject: string,
+  view: Record<string, unknown>,
+  footerNotes: string[],
+  { language, branding, unsubscribeUrl }: EmailRenderOptions
+): RenderedEmail {
+  const html = Mustache.render(
+    LAYOUT,
+    {
+      ...view,
+      language,
+      dir: getTextDirection(language),
+      subject,
+      branding,
+      footerNotes,
+      unsubscribeUrl: unsubscribeUrl ?? null,
+      t: { ...EMAIL_MESSAGES.en, ...EMAIL_MESSAGES[language] },
+    },
+    { ...PARTIALS, content: template }
+  );
+  return { subject, html };
+}
+
+const statusLabel = (language: EmailLanguage, status: string) =>
+  EMAIL_MESSAGES.en[`status_${status}`] ? translate(language, `status_${status}`) : status.replace(/_/g, " ");
+
+// Partial counts as half; null when nothing was scheduled
+const getCompletionRate = (totals: SummaryTotals): number | null =>
+  totals.totalScheduled > 0
+    ? Math.round(((totals.totalCompleted + totals.totalPartial * 0.5) / totals.totalScheduled) * 100)
+    : null;
+
+const sumSummaryTotals = (entries: SummaryTotals[]): SummaryTotals =>
+  entries.reduce(
+    (sum, entry) => ({
+      totalScheduled: sum.totalScheduled + entry.totalScheduled,
+      totalCompleted: sum.totalCompleted + entry.totalCompleted,
+      totalPartial: sum.totalPartial + entry.totalPartial,
+      totalNotDone: sum.totalNotDone + entry.totalNotDone,
+      totalDelayed: sum.totalDelayed + entry.totalDelayed,
+      totalOnTime: sum.totalOnTime + entry.totalOnTime,
+      totalLate: sum.totalLate + entry.totalLate,
+    }),
+    {
+      totalScheduled: 0,
+      totalCompleted: 0,
+      totalPartial: 0,
+      totalNotDone: 0,
+      totalDelayed: 0,
+      totalOnTime: 0,
+      totalLate: 0,
+    }
+  );
+
+// The view of the summaryStats partial. A null completionRate shows as N/A
+function getSummaryStatsView(
+  totals: SummaryTotals,
+  completionRate: number | null,
+  completionLabelKey: string,
+  { language, branding }: EmailRenderOptions
+) {
+  const slaTotal = totals.totalOnTime + totals.totalLate;
+  return {
+    headlineStats: [
+      { value: totals.totalScheduled, label: translate(language, "scheduled"), color: branding.primaryColor, large: true },
+      {
+        value: completionRate !== null ? `${completionRate}%` : translate(language, "notApplicable"),
+        label: translate(language, completionLabelKey),
+        color: "#10b981",
+        large: true,
+      },
+    ],
+    statusStats: [
+      { value: totals.totalCompleted, label: statusLabel(language, "completed"), color: "#10b981" },
+      { value: totals.totalPartial, label: statusLabel(language, "partial"), color: "#f59e0b" },
+      { value: totals.totalNotDone, label: statusLabel(language, "not_done"), color: "#ef4444" },
+    ],
+    delayedText: totals.totalDelayed > 0 ? translate(language, "delayedCount", { count: totals.totalDelayed }) : null,
+    sla: slaTotal > 0
+      ? {
+          color: totals.totalLate > 0 ? "#f97316" : "#10b981",
+          rateText: translate(language, "onTimeRate", { rate: Math.round((totals.totalOnTime / slaTotal) * 100) }),
+          breakdownText: translate(language, "onTimeBreakdown", { onTime: totals.totalOnTime, late: totals.totalLate }),
+        }
+      : null,
+  };
+}
+
+export function renderDailySummaryEmail(data: DailySummaryEmailData, options: EmailRenderOptions): RenderedEmail {
+  const { language, branding } = options;
+  const formatDate = (dateStr: string) => formatEmailDate(dateStr, language);
+  const formattedDate = formatDate(data.dateStr);
+
+  // Exclude tasks on leave days from completion % - show N/A when user was on personal leave
+  const completionRate = data.isPersonalLeave ? null : getCompletionRate(data) ?? 0;
+
+  const view = {
+    title: data.employeeName
+      ? translate(language, "teamMemberSummaryTitle", { name: data.employeeName })
+      : translate(language, "dailySummaryTitle"),
+    formattedDate,
+    isHoliday: data.isHoliday,
+    noTasks: data.totalScheduled === 0 && data.completions.length === 0,
+    ...getSummaryStatsView(data, completionRate, data.isPersonalLeave ? "completionOnLeave" : "completion", options),
+    hasCompletions: data.completions.length > 0,
+    completions: data.completions.map((task) => ({
+      taskName: task.task_name,
+      statusLabel: statusLabel(language, task.status),
+      badgeStyle: STATUS_BADGE_STYLES[task.status] ?? DEFAULT_BADGE_STYLE,
+      progressText: task.benchmark && task.quantity_completed !== null
+        ? translate(language, "progress", {
+            completed: task.quantity_completed,
+            benchmark: task.benchmark,
+            percent: Math.round((task.quantity_completed / task.benchmark) * 100),
+          })
+        : null,
+      notes: task.notes,
+      lateText: task.completion_date !== task.scheduled_date
+        ? translate(language, "completedOnDate", {
+            completionDate: formatDate(task.completion_date),
+            scheduledDate: formatDate(task.scheduled_date),
+          })
+        : task.sla_status === "late" && task.due_time
+          ? translate(language, "completedAfterDueTime", { time: task.due_time.slice(0, 5) })
+          : null,
+      coveredText: task.covered_by ? translate(language, "coveredBy", { name: task.covered_by }) : null,
+    })),
+    hasCoveredCompletions: data.coveredCompletions.length > 0,
+    coveredCompletions: data.coveredCompletions.map((task) => ({
+      taskName: task.task_name,
+      forText: translate(language, "coveredFor", { name: task.assignee_name }),
+      statusLabel: statusLabel(language, task.status),
+      quantity: task.quantity_completed !== null ? String(task.quantity_completed) : null,
+      notes: task.notes,
+    })),
+    hasOccurrenceChanges: data.occurrenceChanges.length > 0,
+    occurrenceChanges: data.occurrenceChanges.map((change) => ({
+      taskName: change.task_name,
+      changeText: change.action === "skip"
+        ? translate(language, "skippedForDay")
+        : change.new_date === data.dateStr
+          ? translate(language, "movedHereFrom", { date: formatDate(change.occurrence_date) })
+          : translate(language, "movedTo", { date: formatDate(change.new_date!) }),
+      reason: change.reason,
+    })),
+  };
+
+  return renderEmail(
+    DAILY_SUMMARY_TEMPLATE,
+    data.employeeName
+      ? translateText(language, "teamMemberSummarySubject", { name: data.employeeName, date: formattedDate })
+      : translateText(language, "dailySummarySubject", { date: formattedDate }),
+    view,
+    data.employeeName
+      ? [translate(language, "teamMemberSummaryNote", { name: data.employeeName }), translate(language, "automatedMessage")]
+      : [translate(language, "automatedMessage")],
+    options
+  );
+}
+
+// Columns after the row label in the period summary table
+const periodColumns = (language: EmailLanguage) => [
+  translate(language, "scheduled"),
+  statusLabel(language, "completed"),
+  statusLabel(language, "partial"),
+  statusLabel(language, "not_done"),
+  translate(language, "completion"),
+];
+
+const periodCells = (language: EmailLanguage, totals: SummaryTotals, completionRate: number | null) => [
+  totals.totalScheduled,
+  totals.totalCompleted,
+  totals.totalPartial,
+  totals.totalNotDone,
+  completionRate !== null ? `${completionRate}%` : translate(language, "notApplicable"),
+];
+
+export function renderWeeklySummaryEmail(data: WeeklySummaryEmailData, options: EmailRenderOptions): RenderedEmail {
+  const { language } = options;
+  const range = {
+    start: formatEmailDate(data.startDateStr, language),
+    end: formatEmailDate(data.endDateStr, language),
+  };
+  // Leave days only count the tasks that were due anyway, so they add nothing when N/A
+  const totals = sumSummaryTotals(data.days);
+
+  const view = {
+    title: translate(language, "weeklySummaryTitle"),
+    periodText: translate(language, "periodRange", range),
+    hasRows: data.days.length > 0,
+    ...getSummaryStatsView(totals, getCompletionRate(totals), "completion", options),
+    rowsTitle: translate(language, "byDay"),
+    columns: [translate(language, "columnDay"), ...periodColumns(language)],
+    rows: data.days.map((day) => ({
+      label: formatEmailDate(day.dateStr, language),
+      note: day.isPersonalLeave
+        ? translate(language, "onLeave")
+        : day.isHoliday
+          ? translate(language, "holiday")
+          : null,
+      cells: periodCells(language, day, day.isPersonalLeave ? null : getCompletionRate(day)),
+    })),
+  };
+
+  return renderEmail(
+    PERIOD_SUMMARY_TEMPLATE,
+    translateText(language, "weeklySummarySubject", range),
+    view,
+    [translate(language, "automatedMessage")],
+    options
+  );
+}
+
+// Signed difference, e.g. "+3" / "-2"; null when there is nothing to compare with
+const formatChange = (change: number | null): string | null =>
+  change === null ? null : change > 0 ? `+${change}` : `${change}`;
+
+// Change of each digest stat against the previous period; nothing when the previous period had no tasks
+function getDigestChanges(current: DigestStats, previous: DigestStats) {
+  const hasPrevious = previous.totalTasks > 0;
+  return {
+    completion:
+      hasPrevious && current.completionPercentage !== null && previous.completionPercentage !== null
+        ? current.completionPercentage - previous.completionPercentage
+        : null,
+    partial: hasPrevious ? current.partialTasks - previous.partialTasks : null,
+    notDone: hasPrevious ? current.notDoneTasks - previous.notDoneTasks : null,
+  };
+}
+
+// Green when the stat got better, red when it got worse
+const changeColor = (change: number, higherIsBetter: boolean) =>
+  change === 0 ? "#64748b" : change > 0 === higherIsBetter ? "#10b981" : "#ef4444";
+
+export function renderManagerDigestEmail(data: ManagerDigestEmailData, options: EmailRenderOptions): RenderedEmail {
+  const { language } = options;
+  const formatDate = (dateStr: string) => formatEmailDate(dateStr, language);
+  const range = { start: formatDate(data.startDateStr), end: formatDate(data.endDateStr) };
+  const keyPrefix = data.period === "weekly" ? "weeklyDigest" : "monthlyDigest";
+  const vsPreviousKey = data.period === "weekly" ? "vsPreviousWeek" : "vsPreviousMonth";
+  const formatPercentage = (percentage: number | null) =>
+    percentage !== null ? `${percentage}%` : translate(language, "notApplicable");
+  const formatPoints = (change: number | null) =>
+    change !== null
+      ? translateText(language, "pointsChange", { change: formatChange(change) })
+      : translate(language, "notApplicable");
+
+  const { current, previous } = data.team;
+  const teamChanges = getDigestChanges(current, previous);
+  const headlineStat = (
+    value: string | number,
+    label: string,
+    color: string,
+    change: number | null,
+    changeText: string | null,
+    higherIsBetter: boolean
+  ) => ({
+    value,
+    label,
+    color,
+    changeText: change !== null ? translate(language, vsPreviousKey, { change: changeText }) : null,
+    changeColor: change !== null ? changeColor(change, higherIsBetter) : null,
+  });
+
+  const { completions: pendingCompletions, leaveRequests: pendingLeave } = data.pendingApprovals;
+
+  const view = {
+    title: translate(language, `${keyPrefix}Title`),
+    periodText: translate(language, "periodRange", range),
+    hasMembers: data.members.length > 0,
+    headlineStats: [
+      headlineStat(
+        formatPercentage(current.completionPercentage),
+        translate(language, "completion"),
+        "#10b981",
+        teamChanges.completion,
+        formatPoints(teamChanges.completion),
+        true
+      ),
+      headlineStat(
+        current.partialTasks,
+        statusLabel(language, "partial"),
+        "#f59e0b",
+        teamChanges.partial,
+        formatChange(teamChanges.partial),
+        false
+      ),
+      headlineStat(
+        current.notDoneTasks,
+        statusLabel(language, "not_done"),
+        "#ef4444",
+        teamChanges.notDone,
+        formatChange(teamChanges.notDone),
+        false
+      ),
+    ],
+    columns: [
+      translate(language, "columnMember"),
+      translate(language, "completion"),
+      translate(language, "columnChange"),
+      statusLabel(language, "partial"),
+      statusLabel(language, "not_done"),
+    ],
+    rows: data.members.map((member) => {
+      const changes = getDigestChanges(member.current, member.previous);
+      return {
+        label: member.name,
+        note: member.managerName ? translate(language, "reportsTo", { name: member.managerName }) : null,
+        cells: [
+          formatPercentage(member.current.completionPercentage),
+          formatPoints(changes.completion),
+          member.current.partialTasks,
+          member.current.notDoneTasks,
+        ],
+      };
+    }),
+    hasMostMissed: data.mostMissed.length > 0,
+    mostMissed: data.mostMissed.map((task) => ({
+      taskName: task.taskName,
+      countText: translate(language, "missedCount", { count: task.count }),
+    })),
+    pendingApprovalsText:
+      pendingCompletions + pendingLeave > 0
+        ? translate(language, "pendingApprovalsSummary", { completions: pendingCompletions, leaveRequests: pendingLeave })
+        : translate(language, "noPendingApprovals"),
+    upcomingLeaveTitle: translate(language, "upcomingLeaveTitle", { days: data.upcomingLeaveDays }),
+    upcomingLeave: data.upcomingLeave.map((leave) => ({
+      employeeName: leave.employeeName,
+      datesText: translate(language, "periodRange", { start: formatDate(leave.startDate), end: formatDate(leave.endDate) }),
+      leaveType: leave.leaveType,
+      pendingText: leave.pending ? translate(language, "awaitingApproval") : null,
+    })),
+    noUpcomingLeaveText: translate(language, "noUpcomingLeave", { days: data.upcomingLeaveDays }),
+    reviewButton: data.reviewUrl ? { url: data.reviewUrl, label: translate(language, "reviewInMomentum") } : null,
+  };
+
+  return renderEmail(
+    MANAGER_DIGEST_TEMPLATE,
+    translateText(language, `${keyPrefix}Subject`, range),
+    view,
+    [translate(language, "automatedMessage")],
+    options
+  );
+}
+
+export function renderApprovalRequestsEmail(data: ApprovalRequestsEmailData, options: EmailRenderOptions): RenderedEmail {
+  const { language } = options;
+  const formatDate = (dateStr: string) => formatEmailDate(dateStr, language);
+  const hidden = data.completions.length - APPROVAL_ITEMS_SHOWN;
+
+  const view = {
+    hasCompletions: data.completions.length > 0,
+    completions: data.completions.slice(0, APPROVAL_ITEMS_SHOWN).map((completion) => ({
+      employeeName: completion.employeeName,
+      taskName: completion.taskName,
+      date: formatDate(completion.scheduledDate),
+      statusLabel: statusLabel(language, completion.status),
+      badgeStyle: STATUS_BADGE_STYLES[completion.status] ?? DEFAULT_BADGE_STYLE,
+    })),
+    moreText: hidden > 0 ? translate(language, "andMore", { count: hidden }) : null,
+    hasLeaveRequests: data.leaveRequests.length > 0,
+    leaveRequests: data.leaveRequests.map((leave) => ({
+      employeeName: leave.employeeName,
+      datesText: translate(language, "periodRange", { start: formatDate(leave.startDate), end: formatDate(leave.endDate) }),
+      leaveType: leave.leaveType,
+    })),
+    reviewButton: data.reviewUrl ? { url: data.reviewUrl, label: translate(language, "reviewInMomentum") } : null,
+  };
+
+  return renderEmail(
+    APPROVAL_REQUESTS_TEMPLATE,
+    translateText(language, "approvalRequestsSubject", {
+      count: data.completions.length + data.leaveRequests.length,
+    }),
+    view,
+    [translate(language, "automatedMessage")],
+    options
+  );
+}
+
+// The sentence describing an escalation, e.g. "Carlos missed Stock count 5 times in a row"
+function getEscalationMessage(language: EmailLanguage, escalation: EscalationEmailItem): string {
+  const formatDate = (dateStr: string) => formatEmailDate(dateStr, language);
+  const key = `escalation_${escalation.policy}`;
+  switch (escalation.policy) {
+    case "missed_streak":
+      return translate(language, key, {
+        employeeName: escalation.employeeName,
+        taskName: escalation.taskName,
+        count: escalation.count,
+        since: formatDate(escalation.sinceDateStr),
+      });
+    case "approval_pending":
+      return translate(language, key, {
+        approverName: escalation.approverName,
+        employeeName: escalation.employeeName,
+        taskName: escalation.taskName,
+        date: formatDate(escalation.scheduledDateStr),
+        days: escalation.days,
+      });
+    case "below_benchmark":
+      return translate(language, key, {
+        employeeName: escalation.employeeName,
+        taskName: escalation.taskName,
+        percent: escalation.percent,
+        start: formatDate(escalation.startDateStr),
+        end: formatDate(escalation.endDateStr),
+      });
+  }
+}
+
+export function renderEscalationsEmail(data: EscalationsEmailData, options: EmailRenderOptions): RenderedEmail {
+  const { language } = options;
+  const hidden = data.escalations.length - ESCALATIONS_SHOWN;
+
+  const view = {
+    escalations: data.escalations.slice(0, ESCALATIONS_SHOWN).map((escalation) => ({
+      policyLabel: translate(language, `escalationPolicy_${escalation.policy}`),
+      message: getEscalationMessage(language, escalation),
+    })),
+    moreText: hidden > 0 ? translate(language, "andMore", { count: hidden }) : null,
+    reviewButton: data.reviewUrl ? { url: data.reviewUrl, label: translate(language, "reviewInMomentum") } : null,
+  };
+
+  return renderEmail(
+    ESCALATIONS_TEMPLATE,
+    translateText(language, "escalationsSubject", { count: data.escalations.length }),
+    view,
+    [translate(language, "automatedMessage")],
+    options
+  );
+}
+
+export function renderRejectionEmail(data: RejectionEmailData, options: EmailRenderOptions): RenderedEmail {
+  const { language } = options;
+
+  const view = {
+    title: translate(language, "rejectionTitle"),
+    message: translate(language, "rejectionMessage", {
+      managerName: data.managerName,
+      taskName: data.taskName,
+      date: formatEmailDate(data.dateStr, language),
+    }),
+    comment: data.comment,
+    actionButton: data.actionUrl ? { url: data.actionUrl, label: translate(language, "openMomentum") } : null,
+  };
+
+  return renderEmail(
+    NOTIFICATION_TEMPLATE,
+    translateText(language, "rejectionSubject", { taskName: data.taskName }),
+    view,
+    [translate(language, "automatedMessage")],
+    options
+  );
+}
+
+export function renderLeaveDecisionEmail(data: LeaveDecisionEmailData, options: EmailRenderOptions): RenderedEmail {
+  const { language } = options;
+  const keyPrefix = data.approved ? "leaveApproved" : "leaveRejected";
+  const values = {
+    approverName: data.approverName,
+    start: formatEmailDate(data.startDateStr, language),
+    end: formatEmailDate(data.endDateStr, language),
+  };
+
+  const view = {
+    title: translate(language, `${keyPrefix}Title`),
+    message: translate(language, `${keyPrefix}Message`, values),
+    comment: null,
+    actionButton: data.actionUrl ? { url: data.actionUrl, label: translate(language, "openMomentum") } : null,
+  };
+
+  return renderEmail(
+    NOTIFICATION_TEMPLATE,
+    translateText(language, `${keyPrefix}Subject`, values),
+    view,
+    [translate(language, "automatedMessage")],
+    options
+  );
+}
+
+export function renderInvitationEmail(data: InvitationEmailData, options: EmailRenderOptions): RenderedEmail {
+  const { language } = options;
+  const role = EMAIL_MESSAGES.en[`role_${data.role}`] ? translate(language, `role_${data.role}`) : data.role;
+
+  const view = {
+    invitationText: translate(language, "invitationBody", {
+      inviterName: data.inviterName,
+      organizationName: data.organizationName,
+      role,
+    }),
+    acceptButton: { url: data.signupUrl, label: translate(language, "acceptInvitation") },
+    signupUrl: data.signupUrl,
+  };
+
+  return renderEmail(
+    INVITATION_TEMPLATE,
+    translateText(language, "invitationSubject", { organizationName: data.organizationName }),
+    view,
+    [translate(language, "invitationExpires"), translate(language, "invitationIgnore")],
+    options
+  );
+}
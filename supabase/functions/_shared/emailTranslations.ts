@@ -0,0 +1,533 @@
+// Email languages. Keep in sync with the users.email_language check and src/lib/emailTemplates.ts
+export type EmailLanguage = "en" | "hi" | "ar" | "es";
+
+export const EMAIL_LANGUAGES: EmailLanguage[] = ["en", "hi", "ar", "es"];
+
+const LOCALES: Record<EmailLanguage, string> = {
+  en: "en-US",
+  hi: "hi-IN",
+  ar: "ar",
+  es: "es-ES",
+};
+
+// Written right to left
+const RTL_LANGUAGES: EmailLanguage[] = ["ar"];
+
+export function isEmailLanguage(value: unknown): value is EmailLanguage {
+  return EMAIL_LANGUAGES.includes(value as EmailLanguage);
+}
+
+// The recipient's own language, else the organization's, else English
+export function resolveEmailLanguage(
+  userLanguage: string | null | undefined,
+  organizationLanguage: string | null | undefined
+): EmailLanguage {
+  if (isEmailLanguage(userLanguage)) return userLanguage;
+  if (isEmailLanguage(organizationLanguage)) return organizationLanguage;
+  return "en";
+}
+
+export function getTextDirection(language: EmailLanguage): "ltr" | "rtl" {
+  return RTL_LANGUAGES.includes(language) ? "rtl" : "ltr";
+}
+
+// A YYYY-MM-DD date in the language's long form, e.g. "Monday, December 22, 2025"
+export function formatEmailDate(dateStr: string, language: EmailLanguage): string {
+  // Date-only strings parse as UTC midnight, so format in UTC to keep the same calendar day
+  const date = new Date(`${dateStr.split("T")[0]}T00:00:00Z`);
+  return date.toLocaleDateString(LOCALES[language], {
+    timeZone: "UTC",
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/**
+ * Email text per language. {{name}} placeholders are filled (and HTML-escaped) by
+ * translate() in emailTemplates.ts; a few strings carry their own <strong> markup.
+ * Missing keys fall back to English.
+ */
+export const EMAIL_MESSAGES: Record<EmailLanguage, Record<string, string>> = {
+  en: {
+    automatedMessage: "This is an automated message from Momentum.",
+    defaultFooter: "If you have any questions, please contact your administrator.",
+
+    dailySummarySubject: "Daily Task Summary - {{date}}",
+    dailySummaryTitle: "Daily Task Summary",
+    holiday: "Holiday",
+    noTasksScheduled: "No tasks were scheduled for this day.",
+    scheduled: "Scheduled",
+    completion: "Completion",
+    completionOnLeave: "Completion (on leave)",
+    notApplicable: "N/A",
+    delayedCount: "{{count}} Delayed",
+    onTimeRate: "{{rate}}% On Time",
+    onTimeBreakdown: "{{onTime}} on time, {{late}} late against due dates and times",
+    taskDetails: "Task Details",
+    progress: "Progress: {{completed}} / {{benchmark}} ({{percent}}%)",
+    completedOnDate: "Completed on {{completionDate}} (scheduled for {{scheduledDate}})",
+    completedAfterDueTime: "Completed after the {{time}} due time",
+    coveredBy: "Covered by {{name}} while you were on leave",
+    noCompletions: "No task completions recorded for this day.",
+    coveredForColleagues: "Covered for Colleagues",
+    coveredFor: "for {{name}}",
+    scheduleChanges: "Schedule Changes",
+    skippedForDay: "skipped for this day",
+    movedHereFrom: "moved here from {{date}}",
+    movedTo: "moved to {{date}}",
+
+    status_completed: "Completed",
+    status_partial: "Partial",
+    status_not_done: "Not Done",
+    status_pending: "Pending",
+    status_delayed: "Delayed",
+    status_scheduled: "Scheduled",
+    status_not_applicable: "Not Applicable",
+
+    invitationSubject: "You've been invited to join {{organizationName}} on Momentum",
+    invitationTitle: "You're Invited!",
+    invitationBody:
+      "<strong>{{inviterName}}</strong> has invited you to join <strong>{{organizationName}}</strong> on Momentum as a <strong>{{role}}</strong>.",
+    invitationAbout: "Momentum helps teams track daily tasks, manage performance benchmarks, and improve accountability.",
+    acceptInvitation: "Accept Invitation",
+    copyLink: "Or copy and paste this link into your browser:",
+    invitationExpires: "This invitation will expire in 7 days.",
+    invitationIgnore: "If you didn't expect this invitation, you can safely ignore this email.",
+
+    unsubscribe: "Unsubscribe from these emails",
+
+    teamMemberSummarySubject: "Daily Task Summary for {{name}} - {{date}}",
+    teamMemberSummaryTitle: "Daily Task Summary: {{name}}",
+    teamMemberSummaryNote: "You are receiving this as {{name}}'s manager.",
+
+    weeklySummarySubject: "Weekly Task Summary - {{start}} to {{end}}",
+    weeklySummaryTitle: "Weekly Task Summary",
+    periodRange: "{{start}} to {{end}}",
+    byDay: "By Day",
+    byTeamMember: "By Team Member",
+    columnDay: "Day",
+    columnMember: "Team Member",
+    onLeave: "On leave",
+    noActivityInPeriod: "No task activity was recorded in this period.",
+
+    weeklyDigestSubject: "Weekly Team Digest - {{start}} to {{end}}",
+    weeklyDigestTitle: "Weekly Team Digest",
+    monthlyDigestSubject: "Monthly Team Digest - {{start}} to {{end}}",
+    monthlyDigestTitle: "Monthly Team Digest",
+    digestIntro: "Everyone who reports to you, directly or through their managers.",
+    vsPreviousWeek: "{{change}} vs. previous week",
+    vsPreviousMonth: "{{change}} vs. previous month",
+    pointsChange: "{{change}} pts",
+    columnChange: "Change",
+    reportsTo: "Reports to {{name}}",
+    mostMissedTasks: "Most Missed Tasks",
+    missedCount: "Not done {{count}} times",
+    pendingApprovals: "Pending Approvals",
+    pendingApprovalsSummary: "{{completions}} task updates and {{leaveRequests}} leave requests are awaiting approval.",
+    noPendingApprovals: "Nothing is awaiting approval.",
+    upcomingLeaveTitle: "Upcoming Leave (next {{days}} days)",
+    noUpcomingLeave: "No one is on leave in the next {{days}} days.",
+    awaitingApproval: "awaiting approval",
+
+    approvalRequestsSubject: "{{count}} requests awaiting your approval",
+    approvalRequestsTitle: "Awaiting Your Approval",
+    approvalRequestsIntro: "These task updates and leave requests from your team are waiting for your review.",
+    pendingTaskUpdates: "Task Updates",
+    pendingLeaveRequests: "Leave Requests",
+    andMore: "and {{count}} more",
+    reviewInMomentum: "Review in Momentum",
+    openMomentum: "Open Momentum",
+
+    rejectionSubject: "Rejected: {{taskName}}",
+    rejectionTitle: "Task Update Rejected",
+    rejectionMessage:
+      "<strong>{{managerName}}</strong> rejected your update of <strong>{{taskName}}</strong> for {{date}}. Please review it and update the task again.",
+    leaveApprovedSubject: "Leave approved: {{start}} to {{end}}",
+    leaveApprovedTitle: "Leave Approved",
+    leaveApprovedMessage: "<strong>{{approverName}}</strong> approved your leave from {{start}} to {{end}}.",
+    leaveRejectedSubject: "Leave not approved: {{start}} to {{end}}",
+    leaveRejectedTitle: "Leave Not Approved",
+    leaveRejectedMessage: "<strong>{{approverName}}</strong> did not approve your leave from {{start}} to {{end}}.",
+
+    escalationsSubject: "{{count}} problems escalated to you",
+    escalationsTitle: "Escalated to You",
+    escalationsIntro: "These problems in your team were not resolved at the level below you.",
+    escalationPolicy_missed_streak: "Missed repeatedly",
+    escalationPolicy_approval_pending: "Approval overdue",
+    escalationPolicy_below_benchmark: "Below benchmark",
+    escalation_missed_streak:
+      "<strong>{{employeeName}}</strong> has missed <strong>{{taskName}}</strong> {{count}} times in a row, since {{since}}.",
+    escalation_approval_pending:
+      "<strong>{{approverName}}</strong> has not reviewed {{employeeName}}'s update of <strong>{{taskName}}</strong> for {{date}} in {{days}} days.",
+    escalation_below_benchmark:
+      "<strong>{{employeeName}}</strong> reached {{percent}}% of the benchmark for <strong>{{taskName}}</strong> from {{start}} to {{end}}.",
+
+    role_admin: "admin",
+    role_manager: "manager",
+    role_hr: "HR",
+    role_employee: "employee",
+    role_user: "user",
+  },
+  hi: {
+    automatedMessage: "यह Momentum का एक स्वचालित संदेश है।",
+    defaultFooter: "यदि आपके कोई प्रश्न हैं, तो कृपया अपने व्यवस्थापक से संपर्क करें।",
+
+    dailySummarySubject: "दैनिक कार्य सारांश - {{date}}",
+    dailySummaryTitle: "दैनिक कार्य सारांश",
+    holiday: "अवकाश",
+    noTasksScheduled: "इस दिन के लिए कोई कार्य निर्धारित नहीं था।",
+    scheduled: "निर्धारित",
+    completion: "पूर्णता",
+    completionOnLeave: "पूर्णता (छुट्टी पर)",
+    notApplicable: "लागू नहीं",
+    delayedCount: "{{count}} विलंबित",
+    onTimeRate: "{{rate}}% समय पर",
+    onTimeBreakdown: "नियत तिथि और समय के अनुसार {{onTime}} समय पर, {{late}} देर से",
+    taskDetails: "कार्य विवरण",
+    progress: "प्रगति: {{completed}} / {{benchmark}} ({{percent}}%)",
+    completedOnDate: "{{completionDate}} को पूरा हुआ ({{scheduledDate}} के लिए निर्धारित)",
+    completedAfterDueTime: "{{time}} के नियत समय के बाद पूरा हुआ",
+    coveredBy: "आपकी छुट्टी के दौरान {{name}} ने पूरा किया",
+    noCompletions: "इस दिन के लिए कोई कार्य पूर्णता दर्ज नहीं की गई।",
+    coveredForColleagues: "सहकर्मियों के लिए किए गए कार्य",
+    coveredFor: "{{name}} के लिए",
+    scheduleChanges: "समय-सारणी में बदलाव",
+    skippedForDay: "इस दिन के लिए छोड़ा गया",
+    movedHereFrom: "{{date}} से यहाँ स्थानांतरित",
+    movedTo: "{{date}} पर स्थानांतरित",
+
+    status_completed: "पूर्ण",
+    status_partial: "आंशिक",
+    status_not_done: "नहीं किया गया",
+    status_pending: "लंबित",
+    status_delayed: "विलंबित",
+    status_scheduled: "निर्धारित",
+    status_not_applicable: "लागू नहीं",
+
+    invitationSubject: "आपको Momentum पर {{organizationName}} से जुड़ने के लिए आमंत्रित किया गया है",
+    invitationTitle: "आपको आमंत्रित किया गया है!",
+    invitationBody:
+      "<strong>{{inviterName}}</strong> ने आपको Momentum पर <strong>{{organizationName}}</strong> में <strong>{{role}}</strong> के रूप में जुड़ने के लिए आमंत्रित किया है।",
+    invitationAbout: "Momentum टीमों को दैनिक कार्यों को ट्रैक करने, प्रदर्शन मानकों को प्रबंधित करने और जवाबदेही बढ़ाने में मदद करता है।",
+    acceptInvitation: "आमंत्रण स्वीकार करें",
+    copyLink: "या इस लिंक को कॉपी करके अपने ब्राउज़र में पेस्ट करें:",
+    invitationExpires: "यह आमंत्रण 7 दिनों में समाप्त हो जाएगा।",
+    invitationIgnore: "यदि आपको इस आमंत्रण की अपेक्षा नहीं थी, तो आप इस ईमेल को अनदेखा कर सकते हैं।",
+
+    unsubscribe: "इन ईमेल की सदस्यता समाप्त करें",
+
+    teamMemberSummarySubject: "{{name}} का दैनिक कार्य सारांश - {{date}}",
+    teamMemberSummaryTitle: "दैनिक कार्य सारांश: {{name}}",
+    teamMemberSummaryNote: "आपको यह {{name}} के प्रबंधक के रूप में मिल रहा है।",
+
+    weeklySummarySubject: "साप्ताहिक कार्य सारांश - {{start}} से {{end}}",
+    weeklySummaryTitle: "साप्ताहिक कार्य सारांश",
+    periodRange: "{{start}} से {{end}}",
+    byDay: "दिन के अनुसार",
+    byTeamMember: "टीम सदस्य के अनुसार",
+    columnDay: "दिन",
+    columnMember: "टीम सदस्य",
+    onLeave: "छुट्टी पर",
+    noActivityInPeriod: "इस अवधि में कोई कार्य गतिविधि दर्ज नहीं की गई।",
+
+    weeklyDigestSubject: "साप्ताहिक टीम डाइजेस्ट - {{start}} से {{end}}",
+    weeklyDigestTitle: "साप्ताहिक टीम डाइजेस्ट",
+    monthlyDigestSubject: "मासिक टीम डाइजेस्ट - {{start}} से {{end}}",
+    monthlyDigestTitle: "मासिक टीम डाइजेस्ट",
+    digestIntro: "वे सभी जो सीधे या अपने प्रबंधकों के माध्यम से आपको रिपोर्ट करते हैं।",
+    vsPreviousWeek: "पिछले सप्ताह की तुलना में {{change}}",
+    vsPreviousMonth: "पिछले महीने की तुलना में {{change}}",
+    pointsChange: "{{change}} अंक",
+    columnChange: "बदलाव",
+    reportsTo: "{{name}} को रिपोर्ट करते हैं",
+    mostMissedTasks: "सबसे अधिक छूटे कार्य",
+    missedCount: "{{count}} बार नहीं किया गया",
+    pendingApprovals: "लंबित अनुमोदन",
+    pendingApprovalsSummary: "{{completions}} कार्य अपडेट और {{leaveRequests}} छुट्टी अनुरोध अनुमोदन की प्रतीक्षा में हैं।",
+    noPendingApprovals: "कुछ भी अनुमोदन की प्रतीक्षा में नहीं है।",
+    upcomingLeaveTitle: "आगामी छुट्टी (अगले {{days}} दिन)",
+    noUpcomingLeave: "अगले {{days}} दिनों में कोई छुट्टी पर नहीं है।",
+    awaitingApproval: "अनुमोदन की प्रतीक्षा में",
+
+    approvalRequestsSubject: "{{count}} अनुरोध आपकी स्वीकृति की प्रतीक्षा में",
+    approvalRequestsTitle: "आपकी स्वीकृति की प्रतीक्षा में",
+    approvalRequestsIntro: "आपकी टीम के ये कार्य अपडेट और छुट्टी अनुरोध आपकी समीक्षा की प्रतीक्षा कर रहे हैं।",
+    pendingTaskUpdates: "कार्य अपडेट",
+    pendingLeaveRequests: "छुट्टी अनुरोध",
+    andMore: "और {{count}} अन्य",
+    reviewInMomentum: "Momentum में समीक्षा करें",
+    openMomentum: "Momentum खोलें",
+
+    rejectionSubject: "अस्वीकृत: {{taskName}}",
+    rejectionTitle: "कार्य अपडेट अस्वीकृत",
+    rejectionMessage:
+      "<strong>{{managerName}}</strong> ने {{date}} के लिए <strong>{{taskName}}</strong> का आपका अपडेट अस्वीकार कर दिया। कृपया इसकी समीक्षा करें और कार्य को फिर से अपडेट करें।",
+    leaveApprovedSubject: "छुट्टी स्वीकृत: {{start}} से {{end}}",
+    leaveApprovedTitle: "छुट्टी स्वीकृत",
+    leaveApprovedMessage: "<strong>{{approverName}}</strong> ने {{start}} से {{end}} तक की आपकी छुट्टी स्वीकृत कर दी।",
+    leaveRejectedSubject: "छुट्टी स्वीकृत नहीं: {{start}} से {{end}}",
+    leaveRejectedTitle: "छुट्टी स्वीकृत नहीं हुई",
+    leaveRejectedMessage: "<strong>{{approverName}}</strong> ने {{start}} से {{end}} तक की आपकी छुट्टी स्वीकृत नहीं की।",
+
+    escalationsSubject: "{{count}} समस्याएँ आप तक एस्केलेट की गईं",
+    escalationsTitle: "आप तक एस्केलेट किया गया",
+    escalationsIntro: "आपकी टीम की ये समस्याएँ आपके नीचे के स्तर पर हल नहीं हुईं।",
+    escalationPolicy_missed_streak: "बार-बार छूटा",
+    escalationPolicy_approval_pending: "स्वीकृति में देरी",
+    escalationPolicy_below_benchmark: "बेंचमार्क से कम",
+    escalation_missed_streak:
+      "<strong>{{employeeName}}</strong> ने {{since}} से लगातार {{count}} बार <strong>{{taskName}}</strong> छोड़ा है।",
+    escalation_approval_pending:
+      "<strong>{{approverName}}</strong> ने {{days}} दिनों में {{employeeName}} के <strong>{{taskName}}</strong> ({{date}}) के अपडेट की समीक्षा नहीं की है।",
+    escalation_below_benchmark:
+      "<strong>{{employeeName}}</strong> ने {{start}} से {{end}} तक <strong>{{taskName}}</strong> के बेंचमार्क का {{percent}}% हासिल किया।",
+
+    role_admin: "व्यवस्थापक",
+    role_manager: "प्रबंधक",
+    role_hr: "HR",
+    role_employee: "कर्मचारी",
+    role_user: "उपयोगकर्ता",
+  },
+  ar: {
+    automatedMessage: "هذه رسالة تلقائية من Momentum.",
+    defaultFooter: "إذا كانت لديك أي أسئلة، يرجى التواصل مع المسؤول.",
+
+    dailySummarySubject: "ملخص المهام اليومي - {{date}}",
+    dailySummaryTitle: "ملخص المهام اليومي",
+    holiday: "عطلة",
+    noTasksScheduled: "لم تكن هناك مهام مجدولة لهذا اليوم.",
+    scheduled: "مجدولة",
+    completion: "نسبة الإنجاز",
+    completionOnLeave: "نسبة الإنجاز (في إجازة)",
+    notApplicable: "غير متاح",
+    delayedCount: "{{count}} متأخرة",
+    onTimeRate: "{{rate}}% في الموعد",
+    onTimeBreakdown: "{{onTime}} في الموعد، {{late}} متأخرة وفقًا لتواريخ وأوقات الاستحقاق",
+    taskDetails: "تفاصيل المهام",
+    progress: "التقدم: {{completed}} / {{benchmark}} ({{percent}}%)",
+    completedOnDate: "أُنجزت في {{completionDate}} (مجدولة في {{scheduledDate}})",
+    completedAfterDueTime: "أُنجزت بعد موعد الاستحقاق {{time}}",
+    coveredBy: "أنجزها {{name}} أثناء إجازتك",
+    noCompletions: "لم يتم تسجيل أي إنجاز للمهام في هذا اليوم.",
+    coveredForColleagues: "مهام أُنجزت نيابة عن الزملاء",
+    coveredFor: "نيابة عن {{name}}",
+    scheduleChanges: "تغييرات الجدول",
+    skippedForDay: "تم تخطيها لهذا اليوم",
+    movedHereFrom: "نُقلت إلى هنا من {{date}}",
+    movedTo: "نُقلت إلى {{date}}",
+
+    status_completed: "مكتملة",
+    status_partial: "جزئية",
+    status_not_done: "لم تُنجز",
+    status_pending: "معلقة",
+    status_delayed: "متأخرة",
+    status_scheduled: "مجدولة",
+    status_not_applicable: "غير منطبقة",
+
+    invitationSubject: "تمت دعوتك للانضمام إلى {{organizationName}} على Momentum",
+    invitationTitle: "لقد تمت دعوتك!",
+    invitationBody:
+      "دعاك <strong>{{inviterName}}</strong> للانضمام إلى <strong>{{organizationName}}</strong> على Momentum بصفة <strong>{{role}}</strong>.",
+    invitationAbout: "يساعد Momentum الفرق على متابعة المهام اليومية وإدارة معايير الأداء وتعزيز المساءلة.",
+    acceptInvitation: "قبول الدعوة",
+    copyLink: "أو انسخ هذا الرابط والصقه في متصفحك:",
+    invitationExpires: "تنتهي صلاحية هذه الدعوة خلال 7 أيام.",
+    invitationIgnore: "إذا لم تكن تتوقع هذه الدعوة، يمكنك تجاهل هذه الرسالة بأمان.",
+
+    unsubscribe: "إلغاء الاشتراك في هذه الرسائل",
+
+    teamMemberSummarySubject: "ملخص المهام اليومي لـ {{name}} - {{date}}",
+    teamMemberSummaryTitle: "ملخص المهام اليومي: {{name}}",
+    teamMemberSummaryNote: "تصلك هذه الرسالة بصفتك مدير {{name}}.",
+
+    weeklySummarySubject: "ملخص المهام الأسبوعي - من {{start}} إلى {{end}}",
+    weeklySummaryTitle: "ملخص المهام الأسبوعي",
+    periodRange: "من {{start}} إلى {{end}}",
+    byDay: "حسب اليوم",
+    byTeamMember: "حسب عضو الفريق",
+    columnDay: "اليوم",
+    columnMember: "عضو الفريق",
+    onLeave: "في إجازة",
+    noActivityInPeriod: "لم يتم تسجيل أي نشاط للمهام في هذه الفترة.",
+
+    weeklyDigestSubject: "الملخص الأسبوعي للفريق - من {{start}} إلى {{end}}",
+    weeklyDigestTitle: "الملخص الأسبوعي للفريق",
+    monthlyDigestSubject: "الملخص الشهري للفريق - من {{start}} إلى {{end}}",
+    monthlyDigestTitle: "الملخص الشهري للفريق",
+    digestIntro: "كل من يتبع لك، مباشرةً أو من خلال مديريهم.",
+    vsPreviousWeek: "{{change}} مقارنة بالأسبوع السابق",
+    vsPreviousMonth: "{{change}} مقارنة بالشهر السابق",
+    pointsChange: "{{change}} نقطة",
+    columnChange: "التغيير",
+    reportsTo: "يتبع {{name}}",
+    mostMissedTasks: "المهام الأكثر تفويتًا",
+    missedCount: "لم تُنجز {{count}} مرات",
+    pendingApprovals: "الموافقات المعلقة",
+    pendingApprovalsSummary: "{{completions}} تحديثات مهام و{{leaveRequests}} طلبات إجازة بانتظار الموافقة.",
+    noPendingApprovals: "لا يوجد شيء بانتظار الموافقة.",
+    upcomingLeaveTitle: "الإجازات القادمة (الأيام الـ {{days}} القادمة)",
+    noUpcomingLeave: "لا أحد في إجازة خلال الأيام الـ {{days}} القادمة.",
+    awaitingApproval: "بانتظار الموافقة",
+
+    approvalRequestsSubject: "{{count}} طلبات بانتظار موافقتك",
+    approvalRequestsTitle: "بانتظار موافقتك",
+    approvalRequestsIntro: "تحديثات المهام وطلبات الإجازة هذه من فريقك بانتظار مراجعتك.",
+    pendingTaskUpdates: "تحديثات المهام",
+    pendingLeaveRequests: "طلبات الإجازة",
+    andMore: "و{{count}} أخرى",
+    reviewInMomentum: "المراجعة في Momentum",
+    openMomentum: "فتح Momentum",
+
+    rejectionSubject: "مرفوض: {{taskName}}",
+    rejectionTitle: "تم رفض تحديث المهمة",
+    rejectionMessage:
+      "رفض <strong>{{managerName}}</strong> تحديثك لمهمة <strong>{{taskName}}</strong> بتاريخ {{date}}. يرجى مراجعته وتحديث المهمة مرة أخرى.",
+    leaveApprovedSubject: "تمت الموافقة على الإجازة: من {{start}} إلى {{end}}",
+    leaveApprovedTitle: "تمت الموافقة على الإجازة",
+    leaveApprovedMessage: "وافق <strong>{{approverName}}</strong> على إجازتك من {{start}} إلى {{end}}.",
+    leaveRejectedSubject: "لم تتم الموافقة على الإجازة: من {{start}} إلى {{end}}",
+    leaveRejectedTitle: "لم تتم الموافقة على الإجازة",
+    leaveRejectedMessage: "لم يوافق <strong>{{approverName}}</strong> على إجازتك من {{start}} إلى {{end}}.",
+
+    escalationsSubject: "{{count}} مشكلات صُعّدت إليك",
+    escalationsTitle: "مُصعّدة إليك",
+    escalationsIntro: "لم تُحل هذه المشكلات في فريقك في المستوى الأدنى منك.",
+    escalationPolicy_missed_streak: "فائتة مرارًا",
+    escalationPolicy_approval_pending: "موافقة متأخرة",
+    escalationPolicy_below_benchmark: "دون المعيار",
+    escalation_missed_streak:
+      "فوّت <strong>{{employeeName}}</strong> مهمة <strong>{{taskName}}</strong> {{count}} مرات متتالية منذ {{since}}.",
+    escalation_approval_pending:
+      "لم يراجع <strong>{{approverName}}</strong> تحديث {{employeeName}} لمهمة <strong>{{taskName}}</strong> بتاريخ {{date}} منذ {{days}} أيام.",
+    escalation_below_benchmark:
+      "حقق <strong>{{employeeName}}</strong> {{percent}}% من معيار <strong>{{taskName}}</strong> من {{start}} إلى {{end}}.",
+
+    role_admin: "مسؤول",
+    role_manager: "مدير",
+    role_hr: "موارد بشرية",
+    role_employee: "موظف",
+    role_user: "مستخدم",
+  },
+  es: {
+    automatedMessage: "Este es un mensaje automático de Momentum.",
+    defaultFooter: "Si tienes alguna pregunta, comunícate con tu administrador.",
+
+    dailySummarySubject: "Resumen diario de tareas - {{date}}",
+    dailySummaryTitle: "Resumen diario de tareas",
+    holiday: "Festivo",
+    noTasksScheduled: "No había tareas programadas para este día.",
+    scheduled: "Programadas",
+    completion: "Cumplimiento",
+    completionOnLeave: "Cumplimiento (de permiso)",
+    notApplicable: "N/D",
+    delayedCount: "{{count}} con retraso",
+    onTimeRate: "{{rate}}% a tiempo",
+    onTimeBreakdown: "{{onTime}} a tiempo, {{late}} tarde según las fechas y horas límite",
+    taskDetails: "Detalle de tareas",
+    progress: "Progreso: {{completed}} / {{benchmark}} ({{percent}}%)",
+    completedOnDate: "Completada el {{completionDate}} (programada para el {{scheduledDate}})",
+    completedAfterDueTime: "Completada después de la hora límite de las {{time}}",
+    coveredBy: "Cubierta por {{name}} durante tu permiso",
+    noCompletions: "No se registraron tareas completadas para este día.",
+    coveredForColleagues: "Cubiertas para compañeros",
+    coveredFor: "para {{name}}",
+    scheduleChanges: "Cambios de programación",
+    skippedForDay: "omitida este día",
+    movedHereFrom: "movida aquí desde el {{date}}",
+    movedTo: "movida al {{date}}",
+
+    status_completed: "Completada",
+    status_partial: "Parcial",
+    status_not_done: "No realizada",
+    status_pending: "Pendiente",
+    status_delayed: "Con retraso",
+    status_scheduled: "Programada",
+    status_not_applicable: "No aplica",
+
+    invitationSubject: "Te han invitado a unirte a {{organizationName}} en Momentum",
+    invitationTitle: "¡Tienes una invitación!",
+    invitationBody:
+      "<strong>{{inviterName}}</strong> te ha invitado a unirte a <strong>{{organizationName}}</strong> en Momentum como <strong>{{role}}</strong>.",
+    invitationAbout: "Momentum ayuda a los equipos a dar seguimiento a las tareas diarias, gestionar los objetivos de rendimiento y mejorar la responsabilidad.",
+    acceptInvitation: "Aceptar invitación",
+    copyLink: "O copia y pega este enlace en tu navegador:",
+    invitationExpires: "Esta invitación vence en 7 días.",
+    invitationIgnore: "Si no esperabas esta invitación, puedes ignorar este correo.",
+
+    unsubscribe: "Cancelar la suscripción a estos correos",
+
+    teamMemberSummarySubject: "Resumen diario de tareas de {{name}} - {{date}}",
+    teamMemberSummaryTitle: "Resumen diario de tareas: {{name}}",
+    teamMemberSummaryNote: "Recibes este correo como responsable de {{name}}.",
+
+    weeklySummarySubject: "Resumen semanal de tareas - del {{start}} al {{end}}",
+    weeklySummaryTitle: "Resumen semanal de tareas",
+    periodRange: "Del {{start}} al {{end}}",
+    byDay: "Por día",
+    byTeamMember: "Por miembro del equipo",
+    columnDay: "Día",
+    columnMember: "Miembro del equipo",
+    onLeave: "De permiso",
+    noActivityInPeriod: "No se registró actividad de tareas en este periodo.",
+
+    weeklyDigestSubject: "Resumen semanal del equipo - del {{start}} al {{end}}",
+    weeklyDigestTitle: "Resumen semanal del equipo",
+    monthlyDigestSubject: "Resumen mensual del equipo - del {{start}} al {{end}}",
+    monthlyDigestTitle: "Resumen mensual del equipo",
+    digestIntro: "Todas las personas que dependen de ti, directamente o a través de sus responsables.",
+    vsPreviousWeek: "{{change}} respecto a la semana anterior",
+    vsPreviousMonth: "{{change}} respecto al mes anterior",
+    pointsChange: "{{change}} pts",
+    columnChange: "Cambio",
+    reportsTo: "Depende de {{name}}",
+    mostMissedTasks: "Tareas más incumplidas",
+    missedCount: "No realizada {{count}} veces",
+    pendingApprovals: "Aprobaciones pendientes",
+    pendingApprovalsSummary: "{{completions}} actualizaciones de tareas y {{leaveRequests}} solicitudes de ausencia esperan aprobación.",
+    noPendingApprovals: "No hay nada pendiente de aprobación.",
+    upcomingLeaveTitle: "Próximas ausencias (próximos {{days}} días)",
+    noUpcomingLeave: "Nadie estará ausente en los próximos {{days}} días.",
+    awaitingApproval: "pendiente de aprobación",
+
+    approvalRequestsSubject: "{{count}} solicitudes esperan tu aprobación",
+    approvalRequestsTitle: "Pendientes de tu aprobación",
+    approvalRequestsIntro: "Estas actualizaciones de tareas y solicitudes de permiso de tu equipo esperan tu revisión.",
+    pendingTaskUpdates: "Actualizaciones de tareas",
+    pendingLeaveRequests: "Solicitudes de permiso",
+    andMore: "y {{count}} más",
+    reviewInMomentum: "Revisar en Momentum",
+    openMomentum: "Abrir Momentum",
+
+    rejectionSubject: "Rechazada: {{taskName}}",
+    rejectionTitle: "Actualización de tarea rechazada",
+    rejectionMessage:
+      "<strong>{{managerName}}</strong> rechazó tu actualización de <strong>{{taskName}}</strong> del {{date}}. Revísala y vuelve a actualizar la tarea.",
+    leaveApprovedSubject: "Permiso aprobado: del {{start}} al {{end}}",
+    leaveApprovedTitle: "Permiso aprobado",
+    leaveApprovedMessage: "<strong>{{approverName}}</strong> aprobó tu permiso del {{start}} al {{end}}.",
+    leaveRejectedSubject: "Permiso no aprobado: del {{start}} al {{end}}",
+    leaveRejectedTitle: "Permiso no aprobado",
+    leaveRejectedMessage: "<strong>{{approverName}}</strong> no aprobó tu permiso del {{start}} al {{end}}.",
+
+    escalationsSubject: "{{count}} problemas escalados a ti",
+    escalationsTitle: "Escalado a ti",
+    escalationsIntro: "Estos problemas de tu equipo no se resolvieron en el nivel inferior al tuyo.",
+    escalationPolicy_missed_streak: "Omitida repetidamente",
+    escalationPolicy_approval_pending: "Aprobación atrasada",
+    escalationPolicy_below_benchmark: "Por debajo del objetivo",
+    escalation_missed_streak:
+      "<strong>{{employeeName}}</strong> ha omitido <strong>{{taskName}}</strong> {{count}} veces seguidas, desde el {{since}}.",
+    escalation_approval_pending:
+      "<strong>{{approverName}}</strong> lleva {{days}} días sin revisar la actualización de {{employeeName}} de <strong>{{taskName}}</strong> del {{date}}.",
+    escalation_below_benchmark:
+      "<strong>{{employeeName}}</strong> alcanzó el {{percent}}% del objetivo de <strong>{{taskName}}</strong> del {{start}} al {{end}}.",
+
+    role_admin: "administrador",
+    role_manager: "gerente",
+    role_hr: "RR. HH.",
+    role_employee: "empleado",
+    role_user: "usuario",
+  },
+};
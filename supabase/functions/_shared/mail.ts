@@ -0,0 +1,251 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type EmailTransport = "resend" | "smtp" | "capture";
+
+// resend (default), smtp, or capture for local testing: nothing leaves the machine
+const EMAIL_TRANSPORT = (Deno.env.get("EMAIL_TRANSPORT") || "resend").toLowerCase();
+const EMAIL_FROM = Deno.env.get("EMAIL_FROM") || "Momentum <onboarding@resend.dev>";
+const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+const SMTP_HOST = Deno.env.get("SMTP_HOST");
+const SMTP_PORT = Number(Deno.env.get("SMTP_PORT") || "587");
+const SMTP_USERNAME = Deno.env.get("SMTP_USERNAME");
+const SMTP_PASSWORD = Deno.env.get("SMTP_PASSWORD");
+// Port 465 is TLS from the start; other ports upgrade with STARTTLS
+const SMTP_TLS = (Deno.env.get("SMTP_TLS") || String(SMTP_PORT === 465)) === "true";
+// With the capture transport, each message is also written here as <delivery id>.json
+const EMAIL_CAPTURE_DIR = Deno.env.get("EMAIL_CAPTURE_DIR");
+
+// Temporary failures (rate limits, server errors, dropped connections) are retried after
+// 1s and then 2s before the message is marked failed
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+export interface EmailSender {
+  from: string;
+  replyTo: string | null;
+}
+
+export interface EmailMessage {
+  organizationId: string | null;
+  emailType: string; // e.g. daily_summary, invitation
+  to: string[];
+  cc?: string[];
+  subject: string;
+  html: string;
+  // One-click unsubscribe endpoint (RFC 8058), sent as the List-Unsubscribe headers
+  unsubscribeUrl?: string;
+}
+
+export interface EmailResult {
+  deliveryId: string;
+  messageId: string | null;
+}
+
+// A failure that will fail again, e.g. a rejected address or a bad API key
+class PermanentEmailError extends Error {}
+
+/**
+ * The organization's sender from its email_from_name, email_from_address and email_reply_to
+ * settings. Without a from address, EMAIL_FROM is used.
+ */
+export function getEmailSender(settings: Record<string, string | null | undefined>): EmailSender {
+  const address = settings["email_from_address"]?.trim();
+  const name = settings["email_from_name"]?.trim() || "Momentum";
+  return {
+    from: address ? `${name} <${address}>` : EMAIL_FROM,
+    replyTo: settings["email_reply_to"]?.trim() || null,
+  };
+}
+
+export async function loadEmailSender(
+  supabase: SupabaseClient,
+  organizationId: string | null
+): Promise<EmailSender> {
+  if (!organizationId) return getEmailSender({});
+
+  const { data, error } = await supabase
+    .from("organization_settings")
+    .select("setting_key, setting_value")
+    .eq("organization_id", organizationId)
+    .in("setting_key", ["email_from_name", "email_from_address", "email_reply_to"]);
+
+  if (error) throw error;
+
+  const settings: Record<string, string | null> = {};
+  data?.forEach((s: { setting_key: string; setting_value: string | null }) => {
+    settings[s.setting_key] = s.setting_value;
+  });
+  return getEmailSender(settings);
+}
+
+/**
+ * Sends a message through the configured transport and records it in email_deliveries with
+ * its attempts. Throws when the message could not be sent; the delivery row then says why.
+ */
+export async function sendEmail(
+  supabase: SupabaseClient,
+  message: EmailMessage,
+  sender?: EmailSender
+): Promise<EmailResult> {
+  const transport = getTransport();
+  const { from, replyTo } = sender ?? (await loadEmailSender(supabase, message.organizationId));
+  const cc = message.cc ?? [];
+
+  const { data: delivery, error: insertError } = await supabase
+    .from("email_deliveries")
+    .insert({
+      organization_id: message.organizationId,
+      email_type: message.emailType,
+      transport,
+      from_address: from,
+      reply_to: replyTo,
+      to_addresses: message.to,
+      cc_addresses: cc,
+      subject: message.subject,
+      html: transport === "capture" ? message.html : null,
+    })
+    .select("id")
+    .single();
+
+  if (insertError) throw insertError;
+
+  let attempts = 0;
+  let lastError: Error | null = null;
+  let messageId: string | null = null;
+
+  while (attempts < MAX_ATTEMPTS) {
+    attempts++;
+    try {
+      if (transport === "resend") {
+        messageId = await sendWithResend(message, from, replyTo);
+      } else if (transport === "smtp") {
+        await sendWithSmtp(message, from, replyTo);
+      } else {
+        await captureToFile(delivery.id, message, from, replyTo);
+      }
+      lastError = null;
+      break;
+    } catch (error: unknown) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      console.error(`Email attempt ${attempts} to ${message.to.join(", ")} failed:`, lastError.message);
+      if (lastError instanceof PermanentEmailError || attempts >= MAX_ATTEMPTS) break;
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempts - 1)));
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from("email_deliveries")
+    .update({
+      status: lastError ? "failed" : transport === "capture" ? "captured" : "sent",
+      attempts,
+      last_error: lastError?.message ?? null,
+      provider_message_id: messageId,
+      sent_at: lastError ? null : new Date().toISOString(),
+    })
+    .eq("id", delivery.id);
+
+  if (updateError) {
+    console.error(`Error recording email delivery ${delivery.id}:`, updateError);
+  }
+
+  if (lastError) throw lastError;
+
+  return { deliveryId: delivery.id, messageId };
+}
+
+function getHeaders(message: EmailMessage): Record<string, string> {
+  if (!message.unsubscribeUrl) return {};
+  return {
+    "List-Unsubscribe": `<${message.unsubscribeUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+function getTransport(): EmailTransport {
+  if (EMAIL_TRANSPORT === "resend" || EMAIL_TRANSPORT === "smtp" || EMAIL_TRANSPORT === "capture") {
+    return EMAIL_TRANSPORT;
+  }
+  throw new Error(`Unknown EMAIL_TRANSPORT "${EMAIL_TRANSPORT}". Use resend, smtp or capture.`);
+}
+
+async function sendWithResend(message: EmailMessage, from: string, replyTo: string | null): Promise<string | null> {
+  if (!RESEND_API_KEY) {
+    throw new PermanentEmailError("Email service not configured. Please set RESEND_API_KEY.");
+  }
+
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+    },
+    body: JSON.stringify({
+      from,
+      to: message.to,
+      ...(message.cc?.length ? { cc: message.cc } : {}),
+      ...(replyTo ? { reply_to: replyTo } : {}),
+      subject: message.subject,
+      html: message.html,
+      headers: getHeaders(message),
+    }),
+  });
+
+  const data = await res.json().catch(() => ({ message: "Unknown error" }));
+
+  if (!res.ok) {
+    const errorMessage = `Resend API error (${res.status}): ${data.message || "Failed to send email"}`;
+    // Rate limits and server errors are worth retrying; anything else is the request itself
+    if (res.status === 429 || res.status >= 500) throw new Error(errorMessage);
+    throw new PermanentEmailError(errorMessage);
+  }
+
+  return data.id ?? null;
+}
+
+async function sendWithSmtp(message: EmailMessage, from: string, replyTo: string | null): Promise<void> {
+  if (!SMTP_HOST) {
+    throw new PermanentEmailError("SMTP not configured. Please set SMTP_HOST.");
+  }
+
+  const client = new SMTPClient({
+    connection: {
+      hostname: SMTP_HOST,
+      port: SMTP_PORT,
+      tls: SMTP_TLS,
+      ...(SMTP_USERNAME ? { auth: { username: SMTP_USERNAME, password: SMTP_PASSWORD || "" } } : {}),
+    },
+  });
+
+  try {
+    await client.send({
+      from,
+      to: message.to,
+      ...(message.cc?.length ? { cc: message.cc } : {}),
+      ...(replyTo ? { replyTo } : {}),
+      subject: message.subject,
+      html: message.html,
+      headers: getHeaders(message),
+    });
+  } finally {
+    await client.close().catch(() => {});
+  }
+}
+
+async function captureToFile(
+  deliveryId: string,
+  message: EmailMessage,
+  from: string,
+  replyTo: string | null
+): Promise<void> {
+  console.log(`Captured email "${message.subject}" to ${message.to.join(", ")} (delivery ${deliveryId})`);
+  if (!EMAIL_CAPTURE_DIR) return;
+
+  await Deno.mkdir(EMAIL_CAPTURE_DIR, { recursive: true });
+  await Deno.writeTextFile(
+    `${EMAIL_CAPTURE_DIR}/${deliveryId}.json`,
+    JSON.stringify({ from, replyTo, headers: getHeaders(message), ...message }, null, 2)
+  );
+}
@@ -0,0 +1,161 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+// Where the app is served; unsubscribe links in emails open its /unsubscribe page
+const APP_URL = Deno.env.get("APP_URL")?.replace(/\/+$/, "");
+
+export type NotificationCadence = "daily" | "weekly" | "off";
+
+export type DayOfWeek = "monday" | "tuesday" | "wednesday" | "thursday" | "friday" | "saturday" | "sunday";
+
+export interface NotificationPreferences {
+  // Push, sent by send-push-notifications
+  push_daily_tasks: boolean;
+  daily_tasks_time: string;
+  push_due_reminders: boolean;
+  due_reminder_minutes: number;
+  // Scheduled emails, sent by send-daily-summary; weekly team digests by send-manager-digest
+  daily_summary_cadence: NotificationCadence;
+  team_digest_cadence: NotificationCadence;
+  approval_requests_cadence: NotificationCadence;
+  digest_day: DayOfWeek;
+  monthly_team_digest: boolean;
+  // Events, sent by send-notification
+  push_rejections: boolean;
+  email_rejections: boolean;
+  push_leave_decisions: boolean;
+  email_leave_decisions: boolean;
+  // Escalations to the next manager up, sent by check-escalations
+  push_escalations: boolean;
+  email_escalations: boolean;
+}
+
+// Same as the column defaults, for users who never saved their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  push_daily_tasks: true,
+  daily_tasks_time: "09:00",
+  push_due_reminders: true,
+  due_reminder_minutes: 60,
+  daily_summary_cadence: "daily",
+  team_digest_cadence: "daily",
+  approval_requests_cadence: "daily",
+  digest_day: "friday",
+  monthly_team_digest: true,
+  push_rejections: true,
+  email_rejections: true,
+  push_leave_decisions: true,
+  email_leave_decisions: true,
+  push_escalations: true,
+  email_escalations: true,
+};
+
+// What each unsubscribe link turns off. "all" stops every email; push is left alone since
+// it is managed per device
+export const UNSUBSCRIBE_UPDATES = {
+  daily_summary: { daily_summary_cadence: "off" },
+  team_digest: { team_digest_cadence: "off" },
+  monthly_digest: { monthly_team_digest: false },
+  approval_requests: { approval_requests_cadence: "off" },
+  rejections: { email_rejections: false },
+  leave_decisions: { email_leave_decisions: false },
+  escalations: { email_escalations: false },
+  all: {
+    daily_summary_cadence: "off",
+    team_digest_cadence: "off",
+    monthly_team_digest: false,
+    approval_requests_cadence: "off",
+    email_rejections: false,
+    email_leave_decisions: false,
+    email_escalations: false,
+  },
+} satisfies Record<string, Partial<NotificationPreferences>>;
+
+export type UnsubscribeType = keyof typeof UNSUBSCRIBE_UPDATES;
+
+export const isUnsubscribeType = (value: unknown): value is UnsubscribeType =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(UNSUBSCRIBE_UPDATES, value);
+
+export interface UnsubscribeLinks {
+  // The link in the email footer
+  pageUrl: string;
+  // The List-Unsubscribe header: mail clients POST to it to unsubscribe in one click
+  oneClickUrl: string;
+}
+
+// Preferences of each user, with the defaults filled in for users without a row
+export async function loadNotificationPreferences(
+  supabase: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, NotificationPreferences>> {
+  const preferences = new Map<string, NotificationPreferences>();
+  if (userIds.length === 0) return preferences;
+
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("*")
+    .in("user_id", userIds);
+
+  if (error) throw error;
+
+  const rows = new Map((data || []).map((row: { user_id: string }) => [row.user_id, row]));
+  for (const userId of userIds) {
+    preferences.set(userId, { ...DEFAULT_NOTIFICATION_PREFERENCES, ...rows.get(userId) });
+  }
+  return preferences;
+}
+
+export async function getNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<NotificationPreferences> {
+  const preferences = await loadNotificationPreferences(supabase, [userId]);
+  return preferences.get(userId)!;
+}
+
+// The user's unsubscribe token, created the first time they are sent an email
+async function getUnsubscribeToken(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data: existing, error } = await supabase
+    .from("email_unsubscribe_tokens")
+    .select("token")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existing) return existing.token;
+
+  // ignoreDuplicates: a concurrent run may have just created it, so read it back either way
+  const { error: insertError } = await supabase
+    .from("email_unsubscribe_tokens")
+    .upsert({ user_id: userId }, { onConflict: "user_id", ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+
+  const { data: created, error: readError } = await supabase
+    .from("email_unsubscribe_tokens")
+    .select("token")
+    .eq("user_id", userId)
+    .single();
+
+  if (readError) throw readError;
+  return created.token;
+}
+
+export async function getUnsubscribeLinks(
+  supabase: SupabaseClient,
+  userId: string,
+  type: UnsubscribeType
+): Promise<UnsubscribeLinks> {
+  const token = await getUnsubscribeToken(supabase, userId);
+  const query = `token=${encodeURIComponent(token)}&type=${type}`;
+  const oneClickUrl = `${SUPABASE_URL}/functions/v1/unsubscribe?${query}`;
+  return {
+    // Without APP_URL the link opens the function's own confirmation page
+    pageUrl: APP_URL ? `${APP_URL}/unsubscribe?${query}` : oneClickUrl,
+    oneClickUrl,
+  };
+}
+
+// A page of the app for links in emails, or null when APP_URL isn't set
+export const getAppUrl = (path: string): string | null => (APP_URL ? `${APP_URL}${path}` : null);
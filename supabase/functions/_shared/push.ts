@@ -0,0 +1,69 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import webpush from "npm:web-push@3.6.7";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const VAPID_PUBLIC_KEY = Deno.env.get("VAPID_PUBLIC_KEY");
+const VAPID_PRIVATE_KEY = Deno.env.get("VAPID_PRIVATE_KEY");
+const VAPID_SUBJECT = Deno.env.get("VAPID_SUBJECT") || "mailto:notifications@momentum.app";
+
+// Undelivered notifications are dropped after 12 hours (e.g. a phone that stayed off)
+const PUSH_TTL_SECONDS = 12 * 60 * 60;
+
+// What public/sw.js shows
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+}
+
+let configured = false;
+
+// Throws when the VAPID keys are missing; call before sending
+export function configureWebPush() {
+  if (configured) return;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+    throw new Error("VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set");
+  }
+  webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+  configured = true;
+}
+
+// Sends the payload to every device of the user; returns how many received it
+export async function sendToUser(supabase: SupabaseClient, userId: string, payload: PushPayload): Promise<number> {
+  configureWebPush();
+
+  const { data: subscriptions, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  let delivered = 0;
+  for (const subscription of subscriptions || []) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payload),
+        { TTL: PUSH_TTL_SECONDS }
+      );
+      delivered++;
+      await supabase
+        .from("push_subscriptions")
+        .update({ last_used_at: new Date().toISOString() })
+        .eq("id", subscription.id);
+    } catch (error: unknown) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      // The browser dropped the subscription (notifications turned off, app uninstalled)
+      if (statusCode === 404 || statusCode === 410) {
+        console.log(`  Removing expired push subscription ${subscription.id}`);
+        await supabase.from("push_subscriptions").delete().eq("id", subscription.id);
+      } else {
+        console.error(`  Error sending push to subscription ${subscription.id}:`, error);
+      }
+    }
+  }
+  return delivered;
+}
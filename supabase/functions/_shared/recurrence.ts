@@ -0,0 +1,428 @@
+// Task recurrence expansion for edge functions, which cannot import from src/.
+// Mirrors src/lib/recurrenceRule.ts, src/lib/weeklyOffs.ts and the due-date logic of
+// useTaskRecurrence (src/hooks/useTaskRecurrence.ts); keep them in sync.
+import { RRule, type Frequency, type Options } from "https://esm.sh/rrule@2.8.1";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+// Decides whether a YYYY-MM-DD date is a working day (weekly offs, public holidays, leave)
+export type WorkingDatePredicate = (dateStr: string) => boolean;
+
+export interface WeeklyOffPattern {
+  day_of_week: string;
+  weeks_of_month: number[] | null;
+  week_interval: number;
+  anchor_date: string | null;
+}
+
+export interface OccurrenceException {
+  action: "skip" | "reschedule" | "override";
+  occurrence_date: string;
+  new_date: string | null;
+  benchmark_override: number | null;
+  reason?: string | null;
+}
+
+export interface RecurringTask {
+  recurrence_type: string;
+  recurrence_rule: string | null;
+  created_at: string;
+  start_date?: string | null;
+  due_date?: string | null;
+  benchmark?: number | null;
+  non_working_day_policy?: string | null;
+  exceptions?: OccurrenceException[] | null;
+}
+
+interface WorkdayRule {
+  mode: "monthly" | "every";
+  position: number | null;
+}
+
+interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byWeekday: number[];
+  byNthWeekday: Array<{ weekday: number; nth: number }>;
+  bySetPos: number[];
+  byMonthDay: number[];
+  byMonth: number[];
+  until: string | null;
+  count: number | null;
+  exdates: string[];
+  workday: WorkdayRule | null;
+}
+
+// How far an occurrence can roll to the previous/next working day
+const MAX_ROLL_DAYS = 31;
+
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const RRULE_WEEKDAYS = [RRule.SU, RRule.MO, RRule.TU, RRule.WE, RRule.TH, RRule.FR, RRule.SA];
+const RRULE_FREQUENCIES: Record<RecurrenceFrequency, Frequency> = {
+  daily: RRule.DAILY,
+  weekly: RRule.WEEKLY,
+  monthly: RRule.MONTHLY,
+  yearly: RRule.YEARLY,
+};
+
+// Returns the calendar date (YYYY-MM-DD) of an instant in the given IANA timezone
+export function formatDateInTimeZone(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// Minutes since midnight of an instant in the given timezone
+export function getMinutesInTimeZone(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const value = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+  return value("hour") * 60 + value("minute");
+}
+
+// "HH:mm" or "HH:mm:ss" to minutes since midnight
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((v) => parseInt(v, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+// YYYY-MM-DD <-> floating UTC midnight, so DST never skips or repeats a day
+const toFloatingDate = (dateStr: string): Date => new Date(`${dateStr}T00:00:00Z`);
+const fromFloatingDate = (date: Date): string => date.toISOString().split("T")[0];
+
+export function addDaysToDateStr(dateStr: string, days: number): string {
+  const date = toFloatingDate(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return fromFloatingDate(date);
+}
+
+export function eachDateStrInRange(startDateStr: string, endDateStr: string): string[] {
+  const dates: string[] = [];
+  for (let dateStr = startDateStr; dateStr <= endDateStr; dateStr = addDaysToDateStr(dateStr, 1)) {
+    dates.push(dateStr);
+  }
+  return dates;
+}
+
+// Weekday name of a YYYY-MM-DD date, matching the day_of_week enum
+export function getDayName(dateStr: string): string {
+  return DAY_NAMES[toFloatingDate(dateStr).getUTCDay()];
+}
+
+// Whether a weekly off applies on a YYYY-MM-DD date: every week, the nth weekdays of the
+// month, or every N weeks from anchor_date
+export function weeklyOffAppliesOn(pattern: WeeklyOffPattern, dateStr: string): boolean {
+  if (getDayName(dateStr) !== pattern.day_of_week) return false;
+
+  if (pattern.weeks_of_month && pattern.weeks_of_month.length > 0) {
+    return pattern.weeks_of_month.includes(Math.ceil(toFloatingDate(dateStr).getUTCDate() / 7));
+  }
+
+  if (pattern.week_interval > 1 && pattern.anchor_date) {
+    // Monday-based week numbers (1970-01-01 was a Thursday)
+    const weekIndex = (d: string) => Math.floor((toFloatingDate(d).getTime() / 86400000 + 3) / 7);
+    const weeksApart = weekIndex(dateStr) - weekIndex(pattern.anchor_date);
+    return ((weeksApart % pattern.week_interval) + pattern.week_interval) % pattern.week_interval === 0;
+  }
+
+  return true;
+}
+
+// Share of the day left after half-day / full-day portions off
+export function getDayCapacity(portions: string[]): number {
+  if (portions.includes("full")) return 0;
+  return Math.max(0, 1 - new Set(portions).size * 0.5);
+}
+
+const isFrequency = (value: string): value is RecurrenceFrequency => value in RRULE_FREQUENCIES;
+
+const parseNumberList = (value: string): number[] =>
+  value.split(",").map((v) => parseInt(v, 10)).filter((v) => !isNaN(v));
+
+// 'yyyyMMdd' or 'yyyyMMddTHHmmssZ' -> 'yyyy-MM-dd'
+const parseRuleDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const createRecurrenceRule = (freq: RecurrenceFrequency): RecurrenceRule => ({
+  freq,
+  interval: 1,
+  byWeekday: [],
+  byNthWeekday: [],
+  bySetPos: [],
+  byMonthDay: [],
+  byMonth: [],
+  until: null,
+  count: null,
+  exdates: [],
+  workday: null,
+});
+
+// Parses the RRULE / X-WORKDAY-RULE / EXDATE lines stored in tasks.recurrence_rule
+function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+
+  let rule: RecurrenceRule | null = null;
+  let workday: WorkdayRule | null = null;
+  const exdates: string[] = [];
+
+  for (const rawLine of value.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const colonIndex = line.indexOf(":");
+    const name = colonIndex >= 0 ? line.slice(0, colonIndex).split(";")[0].toUpperCase() : "RRULE";
+    const body = colonIndex >= 0 ? line.slice(colonIndex + 1) : line;
+
+    if (name === "EXDATE") {
+      body.split(",").forEach((d) => {
+        const parsed = parseRuleDate(d);
+        if (parsed) exdates.push(parsed);
+      });
+      continue;
+    }
+
+    if (name === "X-WORKDAY-RULE") {
+      const parts = new Map(body.split(";").map((part) => {
+        const [key, val = ""] = part.split("=");
+        return [key.trim().toUpperCase(), val.trim().toUpperCase()] as [string, string];
+      }));
+      const position = parseInt(parts.get("POS") || "", 10);
+      if (parts.get("MODE") === "MONTHLY" && !isNaN(position) && position !== 0) {
+        workday = { mode: "monthly", position };
+      } else if (parts.get("MODE") === "EVERY") {
+        workday = { mode: "every", position: null };
+      }
+      continue;
+    }
+
+    if (name !== "RRULE") continue;
+
+    const parts = new Map<string, string>();
+    body.split(";").forEach((part) => {
+      const [key, val] = part.split("=");
+      if (key && val !== undefined) parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+    });
+
+    const freq = (parts.get("FREQ") || "").toLowerCase();
+    if (!isFrequency(freq)) return null;
+
+    rule = createRecurrenceRule(freq);
+    rule.interval = Math.max(1, parseInt(parts.get("INTERVAL") || "1", 10) || 1);
+    rule.bySetPos = parts.has("BYSETPOS") ? parseNumberList(parts.get("BYSETPOS")!) : [];
+    rule.byMonthDay = parts.has("BYMONTHDAY") ? parseNumberList(parts.get("BYMONTHDAY")!) : [];
+    rule.byMonth = parts.has("BYMONTH") ? parseNumberList(parts.get("BYMONTH")!) : [];
+    rule.until = parts.has("UNTIL") ? parseRuleDate(parts.get("UNTIL")!) : null;
+    rule.count = parts.has("COUNT") ? parseInt(parts.get("COUNT")!, 10) || null : null;
+
+    for (const entry of (parts.get("BYDAY") || "").split(",").filter(Boolean)) {
+      const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(entry);
+      const weekday = match ? WEEKDAY_CODES.indexOf(match[2]) : -1;
+      if (!match || weekday < 0) continue;
+      const nth = match[1] ? parseInt(match[1], 10) : 0;
+      if (nth) {
+        rule.byNthWeekday.push({ weekday, nth });
+      } else {
+        rule.byWeekday.push(weekday);
+      }
+    }
+  }
+
+  if (rule) {
+    rule.exdates = Array.from(new Set(exdates)).sort();
+    if (workday && (workday.mode === "monthly" ? rule.freq === "monthly" : rule.freq === "daily")) {
+      rule.workday = workday;
+    }
+  }
+  return rule;
+}
+
+// Standard recurrence types always expand with their own frequency; custom tasks need a stored rule
+function resolveRecurrenceRule(recurrenceType: string, value: string | null | undefined): RecurrenceRule | null {
+  if (recurrenceType === "none") return null;
+
+  const rule = parseRecurrenceRule(value);
+  if (recurrenceType === "custom") return rule;
+  if (!isFrequency(recurrenceType)) return null;
+
+  return rule && rule.freq === recurrenceType ? rule : createRecurrenceRule(recurrenceType);
+}
+
+function toRRule(rule: RecurrenceRule, startDateStr: string): RRule {
+  const options: Partial<Options> = {
+    freq: RRULE_FREQUENCIES[rule.freq],
+    dtstart: toFloatingDate(startDateStr),
+    interval: rule.interval,
+  };
+
+  if (rule.byWeekday.length > 0 || rule.byNthWeekday.length > 0) {
+    options.byweekday = [
+      ...rule.byWeekday.map((d) => RRULE_WEEKDAYS[d]),
+      ...rule.byNthWeekday.map(({ weekday, nth }) => RRULE_WEEKDAYS[weekday].nth(nth)),
+    ];
+  }
+  if (rule.bySetPos.length > 0) options.bysetpos = rule.bySetPos;
+  if (rule.byMonthDay.length > 0) options.bymonthday = rule.byMonthDay;
+  if (rule.byMonth.length > 0) options.bymonth = rule.byMonth;
+  if (rule.until) {
+    options.until = toFloatingDate(rule.until);
+  } else if (rule.count) {
+    options.count = rule.count;
+  }
+
+  return new RRule(options);
+}
+
+// Working days of the calendar month containing dateStr
+const workingDatesInMonth = (dateStr: string, isWorkingDate: WorkingDatePredicate): string[] => {
+  const date = toFloatingDate(dateStr);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  return eachDateStrInRange(`${dateStr.slice(0, 7)}-01`, fromFloatingDate(lastDay)).filter(isWorkingDate);
+};
+
+const monthIndex = (dateStr: string): number =>
+  parseInt(dateStr.slice(0, 4), 10) * 12 + parseInt(dateStr.slice(5, 7), 10) - 1;
+
+const pickPosition = <T>(items: T[], position: number): T | undefined =>
+  position > 0 ? items[position - 1] : items[items.length + position];
+
+// 0-based index of the working-day rule's occurrence on dateStr, or -1 if there is none
+function workdayOccurrenceIndex(
+  rule: RecurrenceRule,
+  startDateStr: string,
+  dateStr: string,
+  isWorkingDate: WorkingDatePredicate
+): number {
+  if (!rule.workday || !isWorkingDate(dateStr)) return -1;
+
+  if (rule.workday.mode === "every") {
+    const workingDates = eachDateStrInRange(startDateStr, dateStr).filter(isWorkingDate);
+    const index = workingDates.length - 1;
+    return index % rule.interval === 0 ? index / rule.interval : -1;
+  }
+
+  const monthsFromStart = monthIndex(dateStr) - monthIndex(startDateStr);
+  if (monthsFromStart % rule.interval !== 0) return -1;
+  if (pickPosition(workingDatesInMonth(dateStr, isWorkingDate), rule.workday.position!) !== dateStr) return -1;
+
+  const startOccurrence = pickPosition(workingDatesInMonth(startDateStr, isWorkingDate), rule.workday.position!);
+  const skipsStartMonth = !startOccurrence || startOccurrence < startDateStr;
+  return monthsFromStart / rule.interval - (skipsStartMonth ? 1 : 0);
+}
+
+function ruleOccursOn(
+  rule: RecurrenceRule,
+  startDateStr: string,
+  dateStr: string,
+  isWorkingDate: WorkingDatePredicate
+): boolean {
+  if (dateStr < startDateStr || rule.exdates.includes(dateStr)) return false;
+
+  if (rule.workday) {
+    if (rule.until && dateStr > rule.until) return false;
+    const index = workdayOccurrenceIndex(rule, startDateStr, dateStr, isWorkingDate);
+    return index >= 0 && (!rule.count || index < rule.count);
+  }
+
+  const target = toFloatingDate(dateStr);
+  return toRRule(rule, startDateStr)
+    .between(target, target, true)
+    .some((occurrence) => fromFloatingDate(occurrence) === dateStr);
+}
+
+// The exception that moves an occurrence onto dateStr, or that skips, moves or overrides the
+// occurrence originally scheduled on dateStr
+export function findOccurrenceException(task: Pick<RecurringTask, "exceptions">, dateStr: string): OccurrenceException | undefined {
+  const exceptions = task.exceptions || [];
+  return (
+    exceptions.find((e) => e.action === "reschedule" && e.new_date === dateStr) ||
+    exceptions.find((e) => e.occurrence_date === dateStr)
+  );
+}
+
+// Benchmark for the occurrence on dateStr, honoring per-occurrence overrides
+export function getOccurrenceBenchmark(
+  task: Pick<RecurringTask, "benchmark" | "exceptions">,
+  dateStr: string
+): number | null {
+  const exception = findOccurrenceException(task, dateStr);
+  const appliesHere = exception && (exception.action === "reschedule"
+    ? exception.new_date === dateStr
+    : exception.action === "override");
+  return appliesHere && exception.benchmark_override !== null
+    ? exception.benchmark_override
+    : task.benchmark ?? null;
+}
+
+// Scales a benchmark to the capacity of the day; days with no capacity keep the full benchmark
+export function prorateBenchmark(benchmark: number | null, capacity: number): number | null {
+  if (benchmark === null || capacity <= 0 || capacity >= 1) return benchmark;
+  return Math.round(benchmark * capacity * 100) / 100;
+}
+
+// True if the task's schedule has an occurrence on dateStr, whether or not it is a working day
+export function occursOnDateStr(
+  task: RecurringTask,
+  dateStr: string,
+  timezone: string,
+  isWorkingDate: WorkingDatePredicate = () => true
+): boolean {
+  const exception = findOccurrenceException(task, dateStr);
+  if (exception?.action === "reschedule" && exception.new_date === dateStr) return true;
+  if (exception && exception.action !== "override") return false;
+
+  // Tasks created before start_date existed fall back to their creation date
+  const startDateStr = task.start_date || formatDateInTimeZone(new Date(task.created_at), timezone);
+
+  if (task.recurrence_type === "none") {
+    return (task.due_date || startDateStr) === dateStr;
+  }
+
+  const rule = resolveRecurrenceRule(task.recurrence_type, task.recurrence_rule);
+  if (!rule) return false;
+
+  try {
+    return ruleOccursOn(rule, startDateStr, dateStr, isWorkingDate);
+  } catch (error) {
+    console.error("Error processing recurrence:", error);
+    return false;
+  }
+}
+
+// True if the task is due on dateStr after applying its non-working-day policy: occurrences on
+// a non-working day move to the previous or next working day, are skipped, or stay ("ignore")
+export function taskDueOnDate(
+  task: RecurringTask,
+  dateStr: string,
+  timezone: string,
+  isWorkingDate: WorkingDatePredicate
+): boolean {
+  const policy = task.non_working_day_policy || "next";
+
+  const exception = findOccurrenceException(task, dateStr);
+  if (exception?.action === "reschedule" && exception.new_date === dateStr) return true;
+  if (policy === "ignore") return occursOnDateStr(task, dateStr, timezone, isWorkingDate);
+  if (!isWorkingDate(dateStr)) return false;
+  if (occursOnDateStr(task, dateStr, timezone, isWorkingDate)) return true;
+  if (policy === "skip") return false;
+
+  // Occurrences on the run of non-working days just before (next) or after (previous) this
+  // working day roll onto it
+  const step = policy === "next" ? -1 : 1;
+  let rollDateStr = addDaysToDateStr(dateStr, step);
+  for (let i = 0; i < MAX_ROLL_DAYS && !isWorkingDate(rollDateStr); i++) {
+    if (occursOnDateStr(task, rollDateStr, timezone, isWorkingDate)) return true;
+    rollDateStr = addDaysToDateStr(rollDateStr, step);
+  }
+  return false;
+}
@@ -0,0 +1,236 @@
+// A user's working days and due tasks for edge functions, with the same rules as the app
+// (useWorkingDays and useDailyTasks) and the calendar-feed function.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  addDaysToDateStr,
+  eachDateStrInRange,
+  getDayCapacity,
+  getOccurrenceBenchmark,
+  taskDueOnDate,
+  weeklyOffAppliesOn,
+  type OccurrenceException,
+  type WeeklyOffPattern,
+  type WorkingDatePredicate,
+} from "./recurrence.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const WEEKLY_OFF_COLUMNS = "day_of_week, weeks_of_month, week_interval, anchor_date";
+
+// Working-day recurrence rules and holiday rolls look back this far
+const LOOKBACK_DAYS = 62;
+
+export interface ScheduleUser {
+  id: string;
+  organization_id: string;
+  holiday_calendar_id: string | null;
+}
+
+export interface DueTask {
+  assignmentId: string;
+  taskName: string;
+  benchmark: number | null;
+  completionStatus: string | null; // Status recorded for the occurrence, null if none yet
+  missedTaskPolicy: string; // What the end-of-day rollover records if nobody updates it
+}
+
+interface ScheduledTask {
+  id: string;
+  name: string;
+  benchmark: number | null;
+  recurrence_type: string;
+  recurrence_rule: string | null;
+  created_at: string;
+  start_date: string | null;
+  due_date: string | null;
+  is_active: boolean | null;
+  non_working_day_policy: string;
+  missed_task_policy: string;
+  exceptions: OccurrenceException[] | null;
+}
+
+/**
+ * Whether a date is a working day for the user around fromDateStr: weekly offs (the user's own,
+ * else their holiday calendar's, else the organization's), public holidays and approved leave.
+ * Leave with a cover stays working time for the user's tasks, since the cover works them.
+ */
+export async function loadWorkingDatePredicate(
+  supabase: SupabaseClient,
+  user: ScheduleUser,
+  fromDateStr: string
+): Promise<WorkingDatePredicate> {
+  const windowStart = addDaysToDateStr(fromDateStr, -LOOKBACK_DAYS);
+
+  const { data: userWeeklyOffs } = await supabase
+    .from("user_weekly_offs")
+    .select(WEEKLY_OFF_COLUMNS)
+    .eq("user_id", user.id);
+
+  const { data: orgWeeklyOffs } = await supabase
+    .from("weekly_offs")
+    .select(`${WEEKLY_OFF_COLUMNS}, calendar_id`)
+    .eq("organization_id", user.organization_id);
+
+  const calendarOffs = (orgWeeklyOffs || []).filter(
+    (w) => user.holiday_calendar_id && w.calendar_id === user.holiday_calendar_id
+  );
+  const weeklyOffs: WeeklyOffPattern[] = userWeeklyOffs && userWeeklyOffs.length > 0
+    ? userWeeklyOffs
+    : calendarOffs.length > 0
+      ? calendarOffs
+      : (orgWeeklyOffs || []).filter((w) => !w.calendar_id);
+
+  let holidayQuery = supabase
+    .from("public_holidays")
+    .select("holiday_date, day_portion")
+    .eq("organization_id", user.organization_id)
+    .gte("holiday_date", windowStart);
+  holidayQuery = user.holiday_calendar_id
+    ? holidayQuery.or(`calendar_id.is.null,calendar_id.eq.${user.holiday_calendar_id}`)
+    : holidayQuery.is("calendar_id", null);
+  const { data: holidays, error: holidayError } = await holidayQuery;
+
+  if (holidayError) throw holidayError;
+
+  const holidayPortions = new Map<string, string[]>();
+  (holidays || []).forEach((h) => {
+    holidayPortions.set(h.holiday_date, [...(holidayPortions.get(h.holiday_date) || []), h.day_portion]);
+  });
+
+  const { data: leave, error: leaveError } = await supabase
+    .from("personal_holidays")
+    .select("start_date, end_date, day_portion")
+    .eq("user_id", user.id)
+    .eq("approval_status", "approved")
+    .is("cover_user_id", null)
+    .gte("end_date", windowStart);
+
+  if (leaveError) throw leaveError;
+
+  return (dateStr: string): boolean => {
+    if (weeklyOffs.some((w) => weeklyOffAppliesOn(w, dateStr))) return false;
+    const leavePortions = (leave || [])
+      .filter((l) => dateStr >= l.start_date && dateStr <= l.end_date)
+      .map((l) => l.day_portion);
+    return getDayCapacity([...(holidayPortions.get(dateStr) || []), ...leavePortions]) > 0;
+  };
+}
+
+/**
+ * Capacity of each day from startDateStr to endDateStr that the user's approved leave (unless a
+ * cover works their tasks) or a half-day public holiday reduces, keyed by date. Days missing from
+ * the map are at full capacity (1); 0 = on leave. Mirrors fetchDayCapacitiesForUser in
+ * src/lib/leaveUtils.ts, so completion % matches the app's.
+ */
+export async function loadDayCapacities(
+  supabase: SupabaseClient,
+  user: ScheduleUser,
+  startDateStr: string,
+  endDateStr: string
+): Promise<Map<string, number>> {
+  const { data: leave, error: leaveError } = await supabase
+    .from("personal_holidays")
+    .select("start_date, end_date, day_portion")
+    .eq("user_id", user.id)
+    .eq("approval_status", "approved")
+    .is("cover_user_id", null)
+    .lte("start_date", endDateStr)
+    .gte("end_date", startDateStr);
+
+  if (leaveError) throw leaveError;
+
+  let halfDayQuery = supabase
+    .from("public_holidays")
+    .select("holiday_date, day_portion")
+    .eq("organization_id", user.organization_id)
+    .neq("day_portion", "full")
+    .gte("holiday_date", startDateStr)
+    .lte("holiday_date", endDateStr);
+  halfDayQuery = user.holiday_calendar_id
+    ? halfDayQuery.or(`calendar_id.is.null,calendar_id.eq.${user.holiday_calendar_id}`)
+    : halfDayQuery.is("calendar_id", null);
+  const { data: halfDayHolidays, error: holidayError } = await halfDayQuery;
+
+  if (holidayError) throw holidayError;
+
+  const portionsByDate = new Map<string, string[]>();
+  const addPortion = (dateStr: string, portion: string) => {
+    portionsByDate.set(dateStr, [...(portionsByDate.get(dateStr) || []), portion]);
+  };
+
+  (leave || []).forEach((l) => {
+    const overlapStart = startDateStr > l.start_date ? startDateStr : l.start_date;
+    const overlapEnd = endDateStr < l.end_date ? endDateStr : l.end_date;
+    eachDateStrInRange(overlapStart, overlapEnd).forEach((dateStr) => addPortion(dateStr, l.day_portion));
+  });
+  (halfDayHolidays || []).forEach((h) => addPortion(h.holiday_date, h.day_portion));
+
+  const capacities = new Map<string, number>();
+  portionsByDate.forEach((portions, dateStr) => capacities.set(dateStr, getDayCapacity(portions)));
+  return capacities;
+}
+
+// The user's own tasks due on dateStr, with the status recorded for each occurrence so far
+export async function fetchTasksDueOn(
+  supabase: SupabaseClient,
+  user: ScheduleUser,
+  dateStr: string,
+  timezone: string
+): Promise<DueTask[]> {
+  const isWorkingDate = await loadWorkingDatePredicate(supabase, user, dateStr);
+
+  const { data: assignments, error: assignmentError } = await supabase
+    .from("task_assignments")
+    .select(`
+      id,
+      task:tasks!task_assignments_task_id_fkey (
+        id,
+        name,
+        benchmark,
+        recurrence_type,
+        recurrence_rule,
+        created_at,
+        start_date,
+        due_date,
+        is_active,
+        non_working_day_policy,
+        missed_task_policy,
+        exceptions:task_occurrence_exceptions (
+          occurrence_date,
+          action,
+          new_date,
+          benchmark_override,
+          reason
+        )
+      )
+    `)
+    .eq("assigned_to", user.id);
+
+  if (assignmentError) throw assignmentError;
+
+  const dueAssignments = (assignments || []).filter((assignment) => {
+    const task = assignment.task as ScheduledTask | null;
+    return task && task.is_active !== false && taskDueOnDate(task, dateStr, timezone, isWorkingDate);
+  });
+  if (dueAssignments.length === 0) return [];
+
+  const { data: completions, error: completionError } = await supabase
+    .from("task_completions")
+    .select("assignment_id, status")
+    .in("assignment_id", dueAssignments.map((a) => a.id))
+    .eq("scheduled_date", dateStr);
+
+  if (completionError) throw completionError;
+
+  const statusByAssignment = new Map((completions || []).map((c) => [c.assignment_id, c.status]));
+  return dueAssignments.map((assignment) => {
+    const task = assignment.task as ScheduledTask;
+    return {
+      assignmentId: assignment.id,
+      taskName: task.name,
+      benchmark: getOccurrenceBenchmark(task, dateStr),
+      completionStatus: statusByAssignment.get(assignment.id) ?? null,
+      missedTaskPolicy: task.missed_task_policy,
+    };
+  });
+}
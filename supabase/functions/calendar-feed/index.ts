@@ -0,0 +1,441 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  addDaysToDateStr,
+  eachDateStrInRange,
+  formatDateInTimeZone,
+  getDayCapacity,
+  getOccurrenceBenchmark,
+  taskDueOnDate,
+  weeklyOffAppliesOn,
+  type OccurrenceException,
+  type WeeklyOffPattern,
+} from "../_shared/recurrence.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Task occurrences are published from a week back to three months ahead
+const FEED_PAST_DAYS = 7;
+const FEED_FUTURE_DAYS = 90;
+
+const WEEKLY_OFF_COLUMNS = "day_of_week, weeks_of_month, week_interval, anchor_date";
+
+const DAY_PORTION_LABELS: Record<string, string> = {
+  first_half: "first half",
+  second_half: "second half",
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+// An all-day event; endDate is inclusive
+interface CalendarEvent {
+  uid: string;
+  startDate: string;
+  endDate: string;
+  summary: string;
+  description?: string;
+  tentative?: boolean;
+  busy: boolean;
+}
+
+interface FeedTask {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  benchmark: number | null;
+  recurrence_type: string;
+  recurrence_rule: string | null;
+  created_at: string;
+  start_date: string | null;
+  due_date: string | null;
+  is_active: boolean | null;
+  non_working_day_policy: string;
+  exceptions: OccurrenceException[] | null;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // Calendar apps cannot sign in, so the secret token in the URL identifies the feed
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) {
+      return new Response("Missing feed token", { status: 400, headers: corsHeaders });
+    }
+
+    const { data: feed, error: feedError } = await supabase
+      .from("calendar_feed_tokens")
+      .select("id, user_id, feed_type")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) {
+      return new Response("Calendar feed not found", { status: 404, headers: corsHeaders });
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from("users")
+      .select("id, full_name, organization_id, timezone, holiday_calendar_id, is_active")
+      .eq("id", feed.user_id)
+      .single();
+
+    if (userError) throw userError;
+    if (!user.is_active) {
+      return new Response("Calendar feed not found", { status: 404, headers: corsHeaders });
+    }
+
+    await supabase
+      .from("calendar_feed_tokens")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("id", feed.id);
+
+    // Day boundaries come from the user's timezone override, falling back to the organization's
+    const { data: timezoneSetting } = await supabase
+      .from("organization_settings")
+      .select("setting_value")
+      .eq("organization_id", user.organization_id)
+      .eq("setting_key", "timezone")
+      .maybeSingle();
+    const timezone = user.timezone || timezoneSetting?.setting_value || "Asia/Kolkata";
+
+    const todayStr = formatDateInTimeZone(new Date(), timezone);
+    const windowStart = addDaysToDateStr(todayStr, -FEED_PAST_DAYS);
+    const windowEnd = addDaysToDateStr(todayStr, FEED_FUTURE_DAYS);
+
+    console.log(`Building ${feed.feed_type} calendar feed for user ${user.id} (${windowStart} to ${windowEnd})`);
+
+    const events = feed.feed_type === "team"
+      ? await buildTeamEvents(supabase, user.id, windowStart)
+      : await buildPersonalEvents(supabase, user, timezone, windowStart, windowEnd);
+
+    const calendarName = feed.feed_type === "team"
+      ? `Momentum - ${user.full_name}'s team`
+      : `Momentum - ${user.full_name}`;
+
+    return new Response(generateICS(calendarName, events), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="momentum-${feed.feed_type}.ics"`,
+        "Cache-Control": "private, max-age=900",
+        ...corsHeaders,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error in calendar-feed function:", error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+// The user's task occurrences in the window, their approved leave and their public holidays
+async function buildPersonalEvents(
+  supabase: ReturnType<typeof createClient>,
+  user: { id: string; organization_id: string; holiday_calendar_id: string | null },
+  timezone: string,
+  windowStart: string,
+  windowEnd: string
+): Promise<CalendarEvent[]> {
+  const events: CalendarEvent[] = [];
+
+  // Weekly offs: the user's own, else their holiday calendar's, else the organization's
+  const { data: userWeeklyOffs } = await supabase
+    .from("user_weekly_offs")
+    .select(WEEKLY_OFF_COLUMNS)
+    .eq("user_id", user.id);
+
+  const { data: orgWeeklyOffs } = await supabase
+    .from("weekly_offs")
+    .select(`${WEEKLY_OFF_COLUMNS}, calendar_id`)
+    .eq("organization_id", user.organization_id);
+
+  const calendarOffs = (orgWeeklyOffs || []).filter(
+    (w) => user.holiday_calendar_id && w.calendar_id === user.holiday_calendar_id
+  );
+  const weeklyOffs: WeeklyOffPattern[] = userWeeklyOffs && userWeeklyOffs.length > 0
+    ? userWeeklyOffs
+    : calendarOffs.length > 0
+      ? calendarOffs
+      : (orgWeeklyOffs || []).filter((w) => !w.calendar_id);
+
+  // Public holidays: organization-wide plus the user's holiday calendar
+  let holidayQuery = supabase
+    .from("public_holidays")
+    .select("id, holiday_name, holiday_date, description, day_portion")
+    .eq("organization_id", user.organization_id)
+    .gte("holiday_date", windowStart);
+  holidayQuery = user.holiday_calendar_id
+    ? holidayQuery.or(`calendar_id.is.null,calendar_id.eq.${user.holiday_calendar_id}`)
+    : holidayQuery.is("calendar_id", null);
+  const { data: holidays, error: holidayError } = await holidayQuery;
+
+  if (holidayError) throw holidayError;
+
+  const holidayPortions = new Map<string, string[]>();
+  (holidays || []).forEach((h) => {
+    holidayPortions.set(h.holiday_date, [...(holidayPortions.get(h.holiday_date) || []), h.day_portion]);
+    events.push({
+      uid: `holiday-${h.id}`,
+      startDate: h.holiday_date,
+      endDate: h.holiday_date,
+      summary: h.day_portion === "full"
+        ? h.holiday_name
+        : `${h.holiday_name} (${DAY_PORTION_LABELS[h.day_portion]})`,
+      description: h.description || undefined,
+      busy: h.day_portion === "full",
+    });
+  });
+
+  const { data: leave, error: leaveError } = await supabase
+    .from("personal_holidays")
+    .select(`
+      id,
+      start_date,
+      end_date,
+      day_portion,
+      reason,
+      cover_user_id,
+      leave_type:leave_types (
+        name
+      )
+    `)
+    .eq("user_id", user.id)
+    .eq("approval_status", "approved")
+    .gte("end_date", windowStart);
+
+  if (leaveError) throw leaveError;
+
+  (leave || []).forEach((l) => {
+    const leaveName = l.leave_type?.name || "Leave";
+    events.push({
+      uid: `leave-${l.id}`,
+      startDate: l.start_date,
+      endDate: l.end_date,
+      summary: l.day_portion === "full" ? leaveName : `${leaveName} (${DAY_PORTION_LABELS[l.day_portion]})`,
+      description: l.reason || undefined,
+      busy: true,
+    });
+  });
+
+  // Same working-day rules as useWorkingDays: leave with a cover stays working time for the
+  // user's tasks, since the cover works them
+  const uncoveredLeave = (leave || []).filter((l) => !l.cover_user_id);
+  const isWorkingDate = (dateStr: string): boolean => {
+    if (weeklyOffs.some((w) => weeklyOffAppliesOn(w, dateStr))) return false;
+    const leavePortions = uncoveredLeave
+      .filter((l) => dateStr >= l.start_date && dateStr <= l.end_date)
+      .map((l) => l.day_portion);
+    return getDayCapacity([...(holidayPortions.get(dateStr) || []), ...leavePortions]) > 0;
+  };
+
+  const { data: assignments, error: assignmentError } = await supabase
+    .from("task_assignments")
+    .select(`
+      id,
+      task:tasks!task_assignments_task_id_fkey (
+        id,
+        name,
+        description,
+        category,
+        benchmark,
+        recurrence_type,
+        recurrence_rule,
+        created_at,
+        start_date,
+        due_date,
+        is_active,
+        non_working_day_policy,
+        exceptions:task_occurrence_exceptions (
+          occurrence_date,
+          action,
+          new_date,
+          benchmark_override,
+          reason
+        )
+      )
+    `)
+    .eq("assigned_to", user.id);
+
+  if (assignmentError) throw assignmentError;
+
+  const dates = eachDateStrInRange(windowStart, windowEnd);
+  (assignments || []).forEach((assignment) => {
+    const task = assignment.task as FeedTask | null;
+    if (!task || task.is_active === false) return;
+
+    dates
+      .filter((dateStr) => taskDueOnDate(task, dateStr, timezone, isWorkingDate))
+      .forEach((dateStr) => {
+        const benchmark = getOccurrenceBenchmark(task, dateStr);
+        events.push({
+          uid: `task-${assignment.id}-${dateStr}`,
+          startDate: dateStr,
+          endDate: dateStr,
+          summary: task.name,
+          description: [
+            task.category ? `Category: ${task.category}` : null,
+            benchmark !== null ? `Target: ${benchmark}` : null,
+            task.description,
+          ].filter(Boolean).join("\n") || undefined,
+          busy: false,
+        });
+      });
+  });
+
+  return events;
+}
+
+// Approved and pending leave of everyone in the manager's subordinate tree
+async function buildTeamEvents(
+  supabase: ReturnType<typeof createClient>,
+  managerId: string,
+  windowStart: string
+): Promise<CalendarEvent[]> {
+  const { data: subordinates, error: subordinatesError } = await supabase
+    .rpc("get_subordinates", { _user_id: managerId });
+
+  if (subordinatesError) throw subordinatesError;
+
+  const subordinateIds = (subordinates || []).map((s: { subordinate_id: string }) => s.subordinate_id);
+  if (subordinateIds.length === 0) return [];
+
+  const { data: members, error: membersError } = await supabase
+    .from("users")
+    .select("id, full_name")
+    .in("id", subordinateIds)
+    .eq("is_active", true);
+
+  if (membersError) throw membersError;
+
+  const memberNames = new Map((members || []).map((m) => [m.id, m.full_name]));
+
+  const { data: leave, error: leaveError } = await supabase
+    .from("personal_holidays")
+    .select(`
+      id,
+      user_id,
+      start_date,
+      end_date,
+      day_portion,
+      approval_status,
+      leave_type:leave_types (
+        name
+      ),
+      cover:users!personal_holidays_cover_user_id_fkey (
+        full_name
+      )
+    `)
+    .in("user_id", [...memberNames.keys()])
+    .in("approval_status", ["approved", "pending"])
+    .gte("end_date", windowStart);
+
+  if (leaveError) throw leaveError;
+
+  return (leave || []).map((l) => {
+    const pending = l.approval_status === "pending";
+    const portion = l.day_portion === "full" ? "" : ` (${DAY_PORTION_LABELS[l.day_portion]})`;
+    return {
+      uid: `team-leave-${l.id}`,
+      startDate: l.start_date,
+      endDate: l.end_date,
+      summary: `${memberNames.get(l.user_id)} - ${l.leave_type?.name || "Leave"}${portion}${pending ? " [pending]" : ""}`,
+      description: l.cover?.full_name ? `Covered by ${l.cover.full_name}` : undefined,
+      tentative: pending,
+      busy: false,
+    };
+  });
+}
+
+// Escapes TEXT values (RFC 5545 section 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+const utf8 = new TextEncoder();
+
+// Folds content lines longer than 75 octets (RFC 5545) onto continuation lines starting with a
+// space, breaking between characters so multi-byte characters stay whole
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = utf8.encode(char).length;
+    if (currentBytes + charBytes > 75) {
+      chunks.push(current);
+      current = " ";
+      currentBytes = 1;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n");
+}
+
+const formatICSDate = (dateStr: string): string => dateStr.replace(/-/g, "");
+
+function generateICS(calendarName: string, events: CalendarEvent[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+  const host = new URL(SUPABASE_URL).hostname;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Momentum//Calendar Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}@${host}`,
+      `DTSTAMP:${stamp}`,
+      // All-day events end on the (exclusive) day after their last day
+      `DTSTART;VALUE=DATE:${formatICSDate(event.startDate)}`,
+      `DTEND;VALUE=DATE:${formatICSDate(addDaysToDateStr(event.endDate, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push(
+      `STATUS:${event.tentative ? "TENTATIVE" : "CONFIRMED"}`,
+      `TRANSP:${event.busy ? "OPAQUE" : "TRANSPARENT"}`,
+      "END:VEVENT"
+    );
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+serve(handler);
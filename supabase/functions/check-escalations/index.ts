@@ -0,0 +1,634 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getEmailSender, sendEmail } from "../_shared/mail.ts";
+import {
+  getEmailBranding,
+  renderEscalationsEmail,
+  type EscalationEmailItem,
+} from "../_shared/emailTemplates.ts";
+import { resolveEmailLanguage } from "../_shared/emailTranslations.ts";
+import {
+  getAppUrl,
+  getUnsubscribeLinks,
+  loadNotificationPreferences,
+} from "../_shared/notificationPreferences.ts";
+import { sendToUser } from "../_shared/push.ts";
+import { loadDayCapacities } from "../_shared/schedule.ts";
+import {
+  addDaysToDateStr,
+  formatDateInTimeZone,
+  getDayName,
+  getOccurrenceBenchmark,
+  prorateBenchmark,
+  type OccurrenceException,
+} from "../_shared/recurrence.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses of an occurrence nobody did: not done, or still pending / scheduled after its day
+const MISSED_STATUSES = ["not_done", "pending", "scheduled"];
+// Statuses that end a missed streak; not_applicable neither counts nor ends one
+const KEPT_STATUSES = ["completed", "partial", "delayed"];
+// How far back missed streaks are traced; longer streaks were escalated when they reached the limit
+const MISSED_STREAK_LOOKBACK_DAYS = 90;
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface OrgUser {
+  id: string;
+  email: string;
+  full_name: string;
+  manager_id: string | null;
+  organization_id: string;
+  holiday_calendar_id: string | null;
+  email_language: string | null;
+  is_active: boolean | null;
+}
+
+interface AssignmentRow {
+  id: string;
+  assigned_to: string;
+  task: {
+    id: string;
+    name: string;
+    benchmark: number | null;
+    is_active: boolean | null;
+    recurrence_type: string;
+    recurrence_rule: string | null;
+    created_at: string;
+    start_date: string;
+    non_working_day_policy: string;
+    exceptions: OccurrenceException[] | null;
+  } | null;
+}
+
+// An escalation found by a policy, with what the notification says about it
+interface FoundEscalation {
+  row: {
+    organization_id: string;
+    policy: EscalationEmailItem["policy"];
+    user_id: string;
+    escalated_to: string;
+    assignment_id: string | null;
+    completion_id: string | null;
+    details: Record<string, unknown>;
+    dedupe_key: string;
+  };
+  item: EscalationEmailItem;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+/**
+ * Checks each organization's escalation policies and sends what nobody dealt with one level up
+ * the manager_id chain. Run once a day by the scheduler. Settings (0 = off):
+ *   escalation_missed_streak          a task missed this many times in a row
+ *   escalation_approval_pending_days  a completion waiting for approval longer than this
+ *   escalation_benchmark_percent      a task below this % of its benchmark over last week
+ * Each escalation is logged once in escalations; new ones are emailed and pushed to the manager.
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Escalations notify managers across the organization, so only the scheduler starts them
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+      return jsonResponse({ error: "Forbidden" }, 403);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { organizationId } = await req.json().catch(() => ({ organizationId: null }));
+
+    console.log("Starting escalation checks");
+
+    let organizationsQuery = supabase.from("organizations").select("id");
+    if (organizationId) {
+      organizationsQuery = organizationsQuery.eq("id", organizationId);
+    }
+    const { data: organizations, error: orgError } = await organizationsQuery;
+
+    if (orgError) throw orgError;
+
+    const results: Array<{
+      organizationId: string;
+      escalated: number;
+      notified: number;
+      success: boolean;
+      error?: string;
+    }> = [];
+
+    for (const org of organizations || []) {
+      try {
+        const { data: orgSettings, error: settingsError } = await supabase
+          .from("organization_settings")
+          .select("setting_key, setting_value")
+          .eq("organization_id", org.id);
+
+        if (settingsError) throw settingsError;
+
+        const settingsMap: Record<string, string> = {};
+        orgSettings?.forEach((s) => {
+          settingsMap[s.setting_key] = s.setting_value;
+        });
+
+        const missedStreak = parseInt(settingsMap["escalation_missed_streak"] || "0", 10) || 0;
+        const pendingDays = parseInt(settingsMap["escalation_approval_pending_days"] || "0", 10) || 0;
+        const benchmarkPercent = parseInt(settingsMap["escalation_benchmark_percent"] || "0", 10) || 0;
+        if (missedStreak <= 0 && pendingDays <= 0 && benchmarkPercent <= 0) continue;
+
+        const timezone = settingsMap["timezone"] || "Asia/Kolkata";
+        const todayStr = formatDateInTimeZone(new Date(), timezone);
+
+        const { data: users, error: usersError } = await supabase
+          .from("users")
+          .select("id, email, full_name, manager_id, organization_id, holiday_calendar_id, email_language, is_active")
+          .eq("organization_id", org.id);
+
+        if (usersError) throw usersError;
+
+        const orgUsers: OrgUser[] = users || [];
+        const usersById = new Map(orgUsers.map((u) => [u.id, u]));
+        const activeUsers = orgUsers.filter((u) => u.is_active !== false);
+        if (activeUsers.length === 0) continue;
+
+        // The next active manager above a user; inactive managers are passed over
+        const getNextManager = (userId: string): OrgUser | null => {
+          const seen = new Set([userId]);
+          let managerId = usersById.get(userId)?.manager_id ?? null;
+          while (managerId && !seen.has(managerId)) {
+            const manager = usersById.get(managerId);
+            if (!manager) return null;
+            if (manager.is_active !== false) return manager;
+            seen.add(managerId);
+            managerId = manager.manager_id;
+          }
+          return null;
+        };
+
+        const { data: assignments, error: assignError } = await supabase
+          .from("task_assignments")
+          .select(`
+            id,
+            assigned_to,
+            task:tasks!task_assignments_task_id_fkey (
+              id,
+              name,
+              benchmark,
+              is_active,
+              recurrence_type,
+              recurrence_rule,
+              created_at,
+              start_date,
+              non_working_day_policy,
+              exceptions:task_occurrence_exceptions (
+                occurrence_date,
+                action,
+                new_date,
+                benchmark_override
+              )
+            )
+          `)
+          .in("assigned_to", activeUsers.map((u) => u.id));
+
+        if (assignError) throw assignError;
+
+        const activeAssignments = ((assignments || []) as AssignmentRow[]).filter(
+          (a) => a.task && a.task.is_active !== false
+        );
+
+        const found: FoundEscalation[] = [];
+        if (missedStreak > 0) {
+          found.push(
+            ...(await findMissedStreaks(supabase, org.id, activeAssignments, usersById, getNextManager, missedStreak, todayStr))
+          );
+        }
+        if (pendingDays > 0 && settingsMap["auto_approve_tasks"] !== "true") {
+          found.push(
+            ...(await findPendingApprovals(supabase, org.id, activeAssignments, usersById, getNextManager, pendingDays))
+          );
+        }
+        if (benchmarkPercent > 0) {
+          found.push(
+            ...(await findBelowBenchmark(supabase, org.id, activeAssignments, usersById, getNextManager, benchmarkPercent, todayStr))
+          );
+        }
+
+        const created = await recordEscalations(supabase, found);
+        const notified = await notifyManagers(supabase, org.id, created, usersById, settingsMap);
+
+        console.log(`  Organization ${org.id}: ${created.length} new escalations, ${notified} managers notified`);
+        results.push({ organizationId: org.id, escalated: created.length, notified, success: true });
+      } catch (error: unknown) {
+        console.error(`Error processing organization ${org.id}:`, error);
+        results.push({
+          organizationId: org.id,
+          escalated: 0,
+          notified: 0,
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    const escalated = results.reduce((sum, r) => sum + r.escalated, 0);
+    console.log(`Escalation checks complete. Escalated: ${escalated}`);
+
+    return jsonResponse({ message: "Escalation checks processed", results, escalated });
+  } catch (error: unknown) {
+    console.error("Error in check-escalations function:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+};
+
+/**
+ * Assignments whose most recent occurrences before today were all missed, at least streak of
+ * them. The streak is logged once, keyed by its first missed date.
+ */
+async function findMissedStreaks(
+  supabase: SupabaseClient,
+  organizationId: string,
+  assignments: AssignmentRow[],
+  usersById: Map<string, OrgUser>,
+  getNextManager: (userId: string) => OrgUser | null,
+  streak: number,
+  todayStr: string
+): Promise<FoundEscalation[]> {
+  if (assignments.length === 0) return [];
+
+  const lookbackStartStr = addDaysToDateStr(todayStr, -MISSED_STREAK_LOOKBACK_DAYS);
+  const completions = await fetchAllPages<{ assignment_id: string; scheduled_date: string; status: string }>(
+    (from, to) =>
+      supabase
+        .from("task_completions")
+        .select("assignment_id, scheduled_date, status")
+        .in("assignment_id", assignments.map((a) => a.id))
+        .gte("scheduled_date", lookbackStartStr)
+        .lt("scheduled_date", todayStr)
+        .in("status", [...MISSED_STATUSES, ...KEPT_STATUSES])
+        .order("scheduled_date", { ascending: false })
+        .order("id")
+        .range(from, to)
+  );
+
+  // Newest first, so each assignment's streak runs from the start of its list
+  const statusesByAssignment = new Map<string, Array<{ scheduled_date: string; status: string }>>();
+  completions.forEach((c) => {
+    statusesByAssignment.set(c.assignment_id, [...(statusesByAssignment.get(c.assignment_id) || []), c]);
+  });
+
+  const found: FoundEscalation[] = [];
+  for (const assignment of assignments) {
+    const manager = getNextManager(assignment.assigned_to);
+    if (!manager) continue;
+
+    const recent = statusesByAssignment.get(assignment.id) || [];
+    const keptIndex = recent.findIndex((c) => KEPT_STATUSES.includes(c.status));
+    const missed = keptIndex === -1 ? recent : recent.slice(0, keptIndex);
+    if (missed.length < streak) continue;
+
+    // A streak running past the look-back would get a new first missed date every day
+    if (keptIndex === -1 && assignment.task!.start_date < lookbackStartStr) continue;
+
+    const taskName = assignment.task!.name;
+    const sinceDateStr = missed[missed.length - 1].scheduled_date;
+    found.push({
+      row: {
+        organization_id: organizationId,
+        policy: "missed_streak",
+        user_id: assignment.assigned_to,
+        escalated_to: manager.id,
+        assignment_id: assignment.id,
+        completion_id: null,
+        details: { task_name: taskName, count: missed.length, since: sinceDateStr },
+        dedupe_key: `missed_streak:${assignment.id}:${sinceDateStr}`,
+      },
+      item: {
+        policy: "missed_streak",
+        employeeName: usersById.get(assignment.assigned_to)?.full_name || "Unknown",
+        taskName,
+        count: missed.length,
+        sinceDateStr,
+      },
+    });
+  }
+
+  return found;
+}
+
+/**
+ * Completed and partial updates still waiting for approval more than days after they were
+ * recorded. They go to the manager of the manager who should approve them.
+ */
+async function findPendingApprovals(
+  supabase: SupabaseClient,
+  organizationId: string,
+  assignments: AssignmentRow[],
+  usersById: Map<string, OrgUser>,
+  getNextManager: (userId: string) => OrgUser | null,
+  days: number
+): Promise<FoundEscalation[]> {
+  if (assignments.length === 0) return [];
+
+  const assignmentsById = new Map(assignments.map((a) => [a.id, a]));
+  const now = Date.now();
+
+  const completions = await fetchAllPages<{ id: string; assignment_id: string; scheduled_date: string; updated_at: string }>(
+    (from, to) =>
+      supabase
+        .from("task_completions")
+        .select("id, assignment_id, scheduled_date, updated_at")
+        .in("assignment_id", [...assignmentsById.keys()])
+        .eq("approval_status", "pending")
+        .in("status", ["completed", "partial"])
+        .lt("updated_at", new Date(now - days * DAY_MS).toISOString())
+        .order("scheduled_date")
+        .order("id")
+        .range(from, to)
+  );
+
+  const found: FoundEscalation[] = [];
+  completions.forEach((c) => {
+    const assignment = assignmentsById.get(c.assignment_id)!;
+    const approver = getNextManager(assignment.assigned_to);
+    const manager = approver && getNextManager(approver.id);
+    if (!approver || !manager) return;
+
+    const employee = usersById.get(assignment.assigned_to);
+    const taskName = assignment.task!.name;
+    const daysPending = Math.floor((now - new Date(c.updated_at).getTime()) / DAY_MS);
+    found.push({
+      row: {
+        organization_id: organizationId,
+        policy: "approval_pending",
+        user_id: approver.id,
+        escalated_to: manager.id,
+        assignment_id: assignment.id,
+        completion_id: c.id,
+        details: {
+          task_name: taskName,
+          employee_id: assignment.assigned_to,
+          employee_name: employee?.full_name || null,
+          scheduled_date: c.scheduled_date,
+          days: daysPending,
+        },
+        dedupe_key: `approval_pending:${c.id}`,
+      },
+      item: {
+        policy: "approval_pending",
+        employeeName: employee?.full_name || "Unknown",
+        approverName: approver.full_name,
+        taskName,
+        scheduledDateStr: c.scheduled_date,
+        days: daysPending,
+      },
+    });
+  });
+
+  return found;
+}
+
+/**
+ * Tasks with a benchmark whose recorded occurrences last week (Monday to Sunday) averaged below
+ * percent of it. Each occurrence's benchmark is prorated to the capacity of its day, and leave
+ * days are left out unless the task is due anyway (non-working-day policy "ignore").
+ */
+async function findBelowBenchmark(
+  supabase: SupabaseClient,
+  organizationId: string,
+  assignments: AssignmentRow[],
+  usersById: Map<string, OrgUser>,
+  getNextManager: (userId: string) => OrgUser | null,
+  percent: number,
+  todayStr: string
+): Promise<FoundEscalation[]> {
+  // The last full week before today
+  let weekEndStr = addDaysToDateStr(todayStr, -1);
+  while (getDayName(weekEndStr) !== "sunday") {
+    weekEndStr = addDaysToDateStr(weekEndStr, -1);
+  }
+  const weekStartStr = addDaysToDateStr(weekEndStr, -6);
+
+  const benchmarked = assignments.filter((a) => (a.task!.benchmark ?? 0) > 0);
+  const assignmentsByUser = new Map<string, AssignmentRow[]>();
+  benchmarked.forEach((a) => {
+    assignmentsByUser.set(a.assigned_to, [...(assignmentsByUser.get(a.assigned_to) || []), a]);
+  });
+
+  const found: FoundEscalation[] = [];
+  for (const [userId, userAssignments] of assignmentsByUser) {
+    const user = usersById.get(userId)!;
+    const manager = getNextManager(userId);
+    if (!manager) continue;
+
+    const { data: completions, error } = await supabase
+      .from("task_completions")
+      .select("assignment_id, scheduled_date, status, quantity_completed")
+      .in("assignment_id", userAssignments.map((a) => a.id))
+      .gte("scheduled_date", weekStartStr)
+      .lte("scheduled_date", weekEndStr)
+      .neq("status", "not_applicable");
+
+    if (error) throw error;
+    if (!completions || completions.length === 0) continue;
+
+    const dayCapacities = await loadDayCapacities(supabase, user, weekStartStr, weekEndStr);
+
+    for (const assignment of userAssignments) {
+      const task = assignment.task!;
+      const shares: number[] = [];
+
+      completions
+        .filter((c) => c.assignment_id === assignment.id)
+        .forEach((c) => {
+          const capacity = dayCapacities.get(c.scheduled_date) ?? 1;
+          if (capacity === 0 && task.non_working_day_policy !== "ignore") return;
+
+          const benchmark = prorateBenchmark(getOccurrenceBenchmark(task, c.scheduled_date), capacity);
+          if (!benchmark || benchmark <= 0) return;
+
+          // Share of the benchmark reached; without a quantity, completed counts in full and partial as half
+          const quantity = c.quantity_completed;
+          if (c.status === "completed" || c.status === "delayed") {
+            shares.push(quantity !== null ? Math.min(1, quantity / benchmark) : 1);
+          } else if (c.status === "partial") {
+            shares.push(quantity !== null ? Math.min(1, quantity / benchmark) : 0.5);
+          } else {
+            shares.push(0);
+          }
+        });
+
+      if (shares.length === 0) continue;
+      const reached = Math.round((shares.reduce((sum, s) => sum + s, 0) / shares.length) * 100);
+      if (reached >= percent) continue;
+
+      found.push({
+        row: {
+          organization_id: organizationId,
+          policy: "below_benchmark",
+          user_id: userId,
+          escalated_to: manager.id,
+          assignment_id: assignment.id,
+          completion_id: null,
+          details: {
+            task_name: task.name,
+            percent: reached,
+            threshold: percent,
+            week_start: weekStartStr,
+            week_end: weekEndStr,
+          },
+          dedupe_key: `below_benchmark:${assignment.id}:${weekStartStr}`,
+        },
+        item: {
+          policy: "below_benchmark",
+          employeeName: user.full_name,
+          taskName: task.name,
+          percent: reached,
+          startDateStr: weekStartStr,
+          endDateStr: weekEndStr,
+        },
+      });
+    }
+  }
+
+  return found;
+}
+
+// Every row of a query, read a page at a time; the query must have a stable order
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Logs the escalations; returns only the new ones, so each is notified once
+async function recordEscalations(supabase: SupabaseClient, found: FoundEscalation[]): Promise<FoundEscalation[]> {
+  if (found.length === 0) return [];
+
+  const { data: inserted, error } = await supabase
+    .from("escalations")
+    .upsert(found.map((f) => f.row), { onConflict: "organization_id,dedupe_key", ignoreDuplicates: true })
+    .select("dedupe_key");
+
+  if (error) throw error;
+
+  const insertedKeys = new Set((inserted || []).map((e) => e.dedupe_key));
+  return found.filter((f) => insertedKeys.has(f.row.dedupe_key));
+}
+
+// One email and one push per manager with new escalations; returns how many got either
+async function notifyManagers(
+  supabase: SupabaseClient,
+  organizationId: string,
+  escalations: FoundEscalation[],
+  usersById: Map<string, OrgUser>,
+  settingsMap: Record<string, string>
+): Promise<number> {
+  const itemsByManager = new Map<string, EscalationEmailItem[]>();
+  escalations.forEach((e) => {
+    itemsByManager.set(e.row.escalated_to, [...(itemsByManager.get(e.row.escalated_to) || []), e.item]);
+  });
+  if (itemsByManager.size === 0) return 0;
+
+  const preferencesByUser = await loadNotificationPreferences(supabase, [...itemsByManager.keys()]);
+  let notified = 0;
+
+  for (const [managerId, items] of itemsByManager) {
+    const manager = usersById.get(managerId)!;
+    const preferences = preferencesByUser.get(managerId)!;
+    let delivered = false;
+
+    if (preferences.email_escalations) {
+      try {
+        const unsubscribeLinks = await getUnsubscribeLinks(supabase, managerId, "escalations");
+        const email = renderEscalationsEmail(
+          { escalations: items, reviewUrl: getAppUrl("/dashboard") },
+          {
+            language: resolveEmailLanguage(manager.email_language, settingsMap["email_language"]),
+            branding: getEmailBranding(settingsMap),
+            unsubscribeUrl: unsubscribeLinks.pageUrl,
+          }
+        );
+
+        await sendEmail(
+          supabase,
+          {
+            organizationId,
+            emailType: "escalations",
+            to: [manager.email],
+            subject: email.subject,
+            html: email.html,
+            unsubscribeUrl: unsubscribeLinks.oneClickUrl,
+          },
+          getEmailSender(settingsMap)
+        );
+        console.log(`  Escalations email sent to ${manager.email} (${items.length})`);
+        delivered = true;
+      } catch (error) {
+        console.error(`  Error emailing escalations to ${manager.email}:`, error);
+      }
+    }
+
+    if (preferences.push_escalations) {
+      try {
+        const devices = await sendToUser(supabase, managerId, {
+          title: `${items.length} escalation${items.length === 1 ? "" : "s"} from your team`,
+          body: items.map(describeEscalation).join(", "),
+          url: "/dashboard",
+          tag: "escalations",
+        });
+        if (devices > 0) delivered = true;
+      } catch (error) {
+        console.error(`  Error pushing escalations to ${managerId}:`, error);
+      }
+    }
+
+    if (delivered) notified++;
+  }
+
+  return notified;
+}
+
+// Short plain-text line for push notifications
+function describeEscalation(item: EscalationEmailItem): string {
+  switch (item.policy) {
+    case "missed_streak":
+      return `${item.employeeName} missed ${item.taskName} ${item.count} times`;
+    case "approval_pending":
+      return `${item.approverName} hasn't approved ${item.taskName} for ${item.days} days`;
+    case "below_benchmark":
+      return `${item.employeeName} at ${item.percent}% on ${item.taskName}`;
+  }
+}
+
+serve(handler);
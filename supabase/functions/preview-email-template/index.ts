@@ -0,0 +1,414 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  getEmailBranding,
+  renderApprovalRequestsEmail,
+  renderDailySummaryEmail,
+  renderEscalationsEmail,
+  renderInvitationEmail,
+  renderLeaveDecisionEmail,
+  renderManagerDigestEmail,
+  renderRejectionEmail,
+  renderWeeklySummaryEmail,
+  type ManagerDigestEmailData,
+  type RenderedEmail,
+} from "../_shared/emailTemplates.ts";
+import { resolveEmailLanguage } from "../_shared/emailTranslations.ts";
+import { addDaysToDateStr, formatDateInTimeZone } from "../_shared/recurrence.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Settings the preview may override, so admins see their changes before saving them
+const PREVIEW_SETTING_KEYS = [
+  "email_logo_url",
+  "email_primary_color",
+  "email_accent_color",
+  "email_footer_text",
+  "email_language",
+];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { data: { user: caller } } = await supabase.auth.getUser(token);
+    if (!caller) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: isAdmin, error: roleError } = await supabase.rpc("has_role", {
+      _user_id: caller.id,
+      _role: "admin",
+    });
+
+    if (roleError) throw roleError;
+    if (!isAdmin) {
+      return jsonResponse({ error: "Only administrators can preview email templates" }, 403);
+    }
+
+    const { template, language, settings: unsavedSettings } = await req.json().catch(() => ({
+      template: null,
+      language: null,
+      settings: null,
+    }));
+
+    const { data: profile, error: profileError } = await supabase
+      .from("users")
+      .select("full_name, organization_id, organization:organizations (name)")
+      .eq("id", caller.id)
+      .single();
+
+    if (profileError) throw profileError;
+
+    const { data: orgSettings, error: settingsError } = await supabase
+      .from("organization_settings")
+      .select("setting_key, setting_value")
+      .eq("organization_id", profile.organization_id);
+
+    if (settingsError) throw settingsError;
+
+    const settingsMap: Record<string, string> = {};
+    orgSettings?.forEach((s) => {
+      settingsMap[s.setting_key] = s.setting_value;
+    });
+    PREVIEW_SETTING_KEYS.forEach((key) => {
+      if (typeof unsavedSettings?.[key] === "string") {
+        settingsMap[key] = unsavedSettings[key];
+      }
+    });
+
+    const appUrl = req.headers.get("origin") || "https://momentum.app";
+    const options = {
+      language: resolveEmailLanguage(language, settingsMap["email_language"]),
+      branding: getEmailBranding(settingsMap),
+      // Invitations have no unsubscribe link; the preview iframe doesn't follow links anyway
+      unsubscribeUrl: template === "invitation" ? null : `${appUrl}/unsubscribe`,
+    };
+    const organizationName = (profile.organization as { name: string } | null)?.name || "Your Organization";
+    const today = formatDateInTimeZone(new Date(), settingsMap["timezone"] || "Asia/Kolkata");
+    const weekStart = addDaysToDateStr(today, -6);
+
+    let email: RenderedEmail;
+    if (template === "daily_summary") {
+      email = renderDailySummaryEmail(getSampleDailySummary(today), options);
+    } else if (template === "weekly_summary") {
+      email = renderWeeklySummaryEmail(
+        { startDateStr: weekStart, endDateStr: today, days: getSampleWeek(today) },
+        options
+      );
+    } else if (template === "weekly_digest") {
+      email = renderManagerDigestEmail(getSampleManagerDigest("weekly", weekStart, today, `${appUrl}/dashboard`), options);
+    } else if (template === "monthly_digest") {
+      email = renderManagerDigestEmail(
+        getSampleManagerDigest("monthly", `${today.slice(0, 8)}01`, today, `${appUrl}/dashboard`),
+        options
+      );
+    } else if (template === "approval_requests") {
+      email = renderApprovalRequestsEmail(
+        {
+          completions: [
+            { employeeName: "Priya Sharma", taskName: "Stock count", status: "completed", scheduledDate: today },
+            { employeeName: "Carlos Ruiz", taskName: "Customer follow-up calls", status: "partial", scheduledDate: today },
+          ],
+          leaveRequests: [
+            {
+              employeeName: "Aisha Khan",
+              startDate: addDaysToDateStr(today, 14),
+              endDate: addDaysToDateStr(today, 16),
+              leaveType: "Annual Leave",
+            },
+          ],
+          reviewUrl: `${appUrl}/dashboard`,
+        },
+        options
+      );
+    } else if (template === "escalations") {
+      email = renderEscalationsEmail(
+        {
+          escalations: [
+            {
+              policy: "missed_streak",
+              employeeName: "Carlos Ruiz",
+              taskName: "Stock count",
+              count: 3,
+              sinceDateStr: addDaysToDateStr(today, -3),
+            },
+            {
+              policy: "approval_pending",
+              employeeName: "Priya Sharma",
+              approverName: "Daniel Okafor",
+              taskName: "Customer follow-up calls",
+              scheduledDateStr: addDaysToDateStr(today, -5),
+              days: 4,
+            },
+            {
+              policy: "below_benchmark",
+              employeeName: "Aisha Khan",
+              taskName: "Sales calls",
+              percent: 62,
+              startDateStr: weekStart,
+              endDateStr: today,
+            },
+          ],
+          reviewUrl: `${appUrl}/dashboard`,
+        },
+        options
+      );
+    } else if (template === "rejection") {
+      email = renderRejectionEmail(
+        {
+          taskName: "Cash reconciliation",
+          managerName: profile.full_name,
+          dateStr: today,
+          comment: "The totals don't match the register report, please recount",
+          actionUrl: `${appUrl}/dashboard`,
+        },
+        options
+      );
+    } else if (template === "leave_decision") {
+      email = renderLeaveDecisionEmail(
+        {
+          approved: true,
+          approverName: profile.full_name,
+          startDateStr: addDaysToDateStr(today, 14),
+          endDateStr: addDaysToDateStr(today, 16),
+          actionUrl: `${appUrl}/dashboard`,
+        },
+        options
+      );
+    } else if (template === "invitation") {
+      email = renderInvitationEmail(
+        {
+          inviterName: profile.full_name,
+          organizationName,
+          role: "employee",
+          signupUrl: `${appUrl}/auth?invitation=sample-token`,
+        },
+        options
+      );
+    } else {
+      return jsonResponse({ error: `Unknown template "${template}"` }, 400);
+    }
+
+    return jsonResponse(email);
+  } catch (error: unknown) {
+    console.error("Error in preview-email-template function:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+};
+
+// A day with a bit of everything the summary can show
+function getSampleDailySummary(dateStr: string) {
+  const yesterday = addDaysToDateStr(dateStr, -1);
+  const tomorrow = addDaysToDateStr(dateStr, 1);
+  return {
+    dateStr,
+    isHoliday: false,
+    isPersonalLeave: false,
+    totalScheduled: 5,
+    totalCompleted: 2,
+    totalPartial: 1,
+    totalNotDone: 1,
+    totalDelayed: 1,
+    totalOnTime: 2,
+    totalLate: 1,
+    completions: [
+      {
+        task_name: "Opening checklist",
+        status: "completed",
+        quantity_completed: null,
+        benchmark: null,
+        notes: null,
+        scheduled_date: dateStr,
+        completion_date: dateStr,
+        sla_status: "on_time",
+        due_time: "10:00:00",
+        covered_by: null,
+      },
+      {
+        task_name: "Customer follow-up calls",
+        status: "partial",
+        quantity_completed: 12,
+        benchmark: 20,
+        notes: "Two customers asked to be called back tomorrow",
+        scheduled_date: dateStr,
+        completion_date: dateStr,
+        sla_status: "on_time",
+        due_time: null,
+        covered_by: null,
+      },
+      {
+        task_name: "Stock count",
+        status: "completed",
+        quantity_completed: null,
+        benchmark: null,
+        notes: null,
+        scheduled_date: dateStr,
+        completion_date: dateStr,
+        sla_status: "late",
+        due_time: "12:00:00",
+        covered_by: "Priya Sharma",
+      },
+      {
+        task_name: "Weekly report",
+        status: "delayed",
+        quantity_completed: null,
+        benchmark: null,
+        notes: null,
+        scheduled_date: yesterday,
+        completion_date: dateStr,
+        sla_status: null,
+        due_time: null,
+        covered_by: null,
+      },
+      {
+        task_name: "Cash reconciliation",
+        status: "not_done",
+        quantity_completed: null,
+        benchmark: null,
+        notes: null,
+        scheduled_date: dateStr,
+        completion_date: dateStr,
+        sla_status: null,
+        due_time: null,
+        covered_by: null,
+      },
+    ],
+    coveredCompletions: [
+      {
+        task_name: "Vendor invoices",
+        assignee_name: "Carlos Ruiz",
+        status: "completed",
+        quantity_completed: 8,
+        notes: null,
+      },
+    ],
+    occurrenceChanges: [
+      {
+        task_name: "Team stand-up",
+        action: "reschedule" as const,
+        occurrence_date: dateStr,
+        new_date: tomorrow,
+        reason: "Office closed for maintenance",
+      },
+    ],
+  };
+}
+
+function sampleTotals(
+  totalScheduled: number,
+  totalCompleted: number,
+  totalPartial: number,
+  totalNotDone: number,
+  totalDelayed: number,
+  totalOnTime: number,
+  totalLate: number
+) {
+  return { totalScheduled, totalCompleted, totalPartial, totalNotDone, totalDelayed, totalOnTime, totalLate };
+}
+
+function sampleDigestStats(
+  totalTasks: number,
+  completionPercentage: number | null,
+  partialTasks: number,
+  notDoneTasks: number
+) {
+  return { totalTasks, completionPercentage, partialTasks, notDoneTasks };
+}
+
+// A team of two direct reports and one indirect report, improving on the period before
+function getSampleManagerDigest(
+  period: ManagerDigestEmailData["period"],
+  startDateStr: string,
+  endDateStr: string,
+  reviewUrl: string
+): ManagerDigestEmailData {
+  const scale = period === "weekly" ? 1 : 4;
+  return {
+    period,
+    startDateStr,
+    endDateStr,
+    team: {
+      current: sampleDigestStats(55 * scale, 82, 5 * scale, 5 * scale),
+      previous: sampleDigestStats(52 * scale, 76, 6 * scale, 7 * scale),
+    },
+    members: [
+      {
+        name: "Aisha Khan",
+        managerName: "Priya Sharma",
+        current: sampleDigestStats(10 * scale, 100, 0, 0),
+        previous: sampleDigestStats(10 * scale, 90, scale, 0),
+      },
+      {
+        name: "Carlos Ruiz",
+        managerName: null,
+        current: sampleDigestStats(20 * scale, 70, 3 * scale, 3 * scale),
+        previous: sampleDigestStats(20 * scale, 74, 2 * scale, 3 * scale),
+      },
+      {
+        name: "Priya Sharma",
+        managerName: null,
+        current: sampleDigestStats(25 * scale, 84, 2 * scale, 2 * scale),
+        previous: sampleDigestStats(22 * scale, 68, 3 * scale, 4 * scale),
+      },
+    ],
+    mostMissed: [
+      { taskName: "Cash reconciliation", count: 3 * scale },
+      { taskName: "Customer follow-up calls", count: 2 * scale },
+    ],
+    pendingApprovals: { completions: 4, leaveRequests: 1 },
+    upcomingLeave: [
+      {
+        employeeName: "Aisha Khan",
+        startDate: addDaysToDateStr(endDateStr, 3),
+        endDate: addDaysToDateStr(endDateStr, 5),
+        leaveType: "Annual Leave",
+        pending: true,
+      },
+    ],
+    upcomingLeaveDays: 14,
+    reviewUrl,
+  };
+}
+
+// A working week ending on dateStr, with a day of leave in it
+function getSampleWeek(dateStr: string) {
+  return [
+    { offset: -6, totals: sampleTotals(5, 4, 1, 0, 0, 4, 1), isPersonalLeave: false },
+    { offset: -5, totals: sampleTotals(5, 5, 0, 0, 0, 5, 0), isPersonalLeave: false },
+    { offset: -4, totals: sampleTotals(0, 0, 0, 0, 0, 0, 0), isPersonalLeave: true },
+    { offset: -3, totals: sampleTotals(5, 3, 1, 1, 1, 3, 1), isPersonalLeave: false },
+    { offset: 0, totals: sampleTotals(5, 2, 1, 1, 1, 2, 1), isPersonalLeave: false },
+  ].map((day) => ({
+    dateStr: addDaysToDateStr(dateStr, day.offset),
+    isHoliday: day.isPersonalLeave,
+    isPersonalLeave: day.isPersonalLeave,
+    ...day.totals,
+  }));
+}
+
+serve(handler);
@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { addDaysToDateStr, eachDateStrInRange, formatDateInTimeZone } from "../_shared/recurrence.ts";
+import { fetchTasksDueOn } from "../_shared/schedule.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Unclosed days are caught up this far back; older days are left as they are
+const MAX_CATCH_UP_DAYS = 7;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface RolloverResult {
+  organizationId: string;
+  date: string;
+  carriedOver: number;
+  notDone: number;
+  success: boolean;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Rollover writes completions for everyone, so only the scheduler (with the service role key) starts it
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+      return jsonResponse({ error: "Forbidden" }, 403);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // A specific organization and day can be closed again by hand, e.g. after fixing a schedule
+    const { organizationId, date } = await req.json().catch(() => ({
+      organizationId: null,
+      date: null,
+    }));
+    const requestedDateStr: string | null = date ? String(date).split("T")[0] : null;
+
+    console.log(`Starting missed task rollover${requestedDateStr ? ` for ${requestedDateStr}` : ""}`);
+
+    let organizationsQuery = supabase.from("organizations").select("id");
+    if (organizationId) {
+      organizationsQuery = organizationsQuery.eq("id", organizationId);
+    }
+    const { data: organizations, error: orgError } = await organizationsQuery;
+
+    if (orgError) throw orgError;
+
+    const results: RolloverResult[] = [];
+
+    for (const org of organizations || []) {
+      try {
+        const { data: timezoneSetting } = await supabase
+          .from("organization_settings")
+          .select("setting_value")
+          .eq("organization_id", org.id)
+          .eq("setting_key", "timezone")
+          .maybeSingle();
+        const timezone = timezoneSetting?.setting_value || "Asia/Kolkata";
+
+        // Only days that have ended in the organization's timezone are closed
+        const lastEndedDateStr = addDaysToDateStr(formatDateInTimeZone(new Date(), timezone), -1);
+        const dates = requestedDateStr
+          ? requestedDateStr <= lastEndedDateStr ? [requestedDateStr] : []
+          : await getDatesToClose(supabase, org.id, lastEndedDateStr);
+
+        for (const dateStr of dates) {
+          console.log(`Closing ${dateStr} for organization ${org.id} (${timezone})`);
+          results.push(await closeDay(supabase, org.id, dateStr, timezone));
+        }
+      } catch (error: unknown) {
+        console.error(`Error processing organization ${org.id}:`, error);
+      }
+    }
+
+    return jsonResponse({ message: `Closed ${results.filter((r) => r.success).length} day(s)`, results });
+  } catch (error: unknown) {
+    console.error("Error in rollover-missed-tasks function:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+};
+
+// Ended days of the last MAX_CATCH_UP_DAYS the organization has not closed yet, oldest first, so
+// days missed by skipped or failed runs (including the first) are closed too
+async function getDatesToClose(
+  supabase: SupabaseClient,
+  organizationId: string,
+  lastEndedDateStr: string
+): Promise<string[]> {
+  const earliestDateStr = addDaysToDateStr(lastEndedDateStr, -(MAX_CATCH_UP_DAYS - 1));
+
+  const { data: closedRuns, error } = await supabase
+    .from("task_rollover_runs")
+    .select("rollover_date")
+    .eq("organization_id", organizationId)
+    .gte("rollover_date", earliestDateStr)
+    .lte("rollover_date", lastEndedDateStr);
+
+  if (error) throw error;
+
+  const closedDates = new Set((closedRuns || []).map((r) => r.rollover_date));
+  return eachDateStrInRange(earliestDateStr, lastEndedDateStr).filter((dateStr) => !closedDates.has(dateStr));
+}
+
+/**
+ * Records a completion for every occurrence due on dateStr that nobody updated: 'pending' for
+ * tasks that carry over, 'not_done' for the rest. Occurrences with a placeholder 'scheduled'
+ * completion are closed the same way; other existing completions are never touched, so reruns
+ * are safe. Rollover completions are approved, since there is no work to review. The day is
+ * marked closed only when every user was processed and the day has ended in each user's
+ * timezone; otherwise the next run retries it.
+ */
+async function closeDay(
+  supabase: SupabaseClient,
+  organizationId: string,
+  dateStr: string,
+  timezone: string
+): Promise<RolloverResult> {
+  const result: RolloverResult = { organizationId, date: dateStr, carriedOver: 0, notDone: 0, success: true };
+
+  const { data: users, error: usersError } = await supabase
+    .from("users")
+    .select("id, organization_id, holiday_calendar_id, timezone")
+    .eq("organization_id", organizationId)
+    .eq("is_active", true);
+
+  if (usersError) throw usersError;
+
+  for (const user of users || []) {
+    try {
+      // Users with their own timezone have their day end later (or earlier) than the organization
+      const userTimezone = user.timezone || timezone;
+      if (dateStr >= formatDateInTimeZone(new Date(), userTimezone)) {
+        console.log(`  ${dateStr} has not ended yet for user ${user.id} (${userTimezone})`);
+        result.success = false;
+        continue;
+      }
+
+      // Due tasks follow the same rules as the app: working days, leave and occurrence exceptions
+      const dueTasks = await fetchTasksDueOn(supabase, user, dateStr, userTimezone);
+      const missedTasks = dueTasks.filter((t) => !t.completionStatus || t.completionStatus === "scheduled");
+      if (missedTasks.length === 0) continue;
+
+      const rolloverCompletion = (t: (typeof missedTasks)[number]) => ({
+        status: t.missedTaskPolicy === "not_done" ? "not_done" : "pending",
+        completion_date: dateStr,
+        approval_status: "approved",
+        approved_by: null,
+      });
+
+      const closed: { status: string }[] = [];
+
+      // A completion recorded since the tasks were fetched wins over the rollover
+      const unrecordedTasks = missedTasks.filter((t) => !t.completionStatus);
+      if (unrecordedTasks.length > 0) {
+        const { data: inserted, error } = await supabase
+          .from("task_completions")
+          .upsert(
+            unrecordedTasks.map((t) => ({
+              assignment_id: t.assignmentId,
+              scheduled_date: dateStr,
+              ...rolloverCompletion(t),
+            })),
+            { onConflict: "assignment_id,scheduled_date", ignoreDuplicates: true }
+          )
+          .select("status");
+
+        if (error) throw error;
+        closed.push(...(inserted || []));
+      }
+
+      // Placeholder completions are closed only while still untouched
+      for (const task of missedTasks.filter((t) => t.completionStatus === "scheduled")) {
+        const { data: updated, error: updateError } = await supabase
+          .from("task_completions")
+          .update({ ...rolloverCompletion(task), updated_at: new Date().toISOString() })
+          .eq("assignment_id", task.assignmentId)
+          .eq("scheduled_date", dateStr)
+          .eq("status", "scheduled")
+          .select("status");
+
+        if (updateError) throw updateError;
+        closed.push(...(updated || []));
+      }
+
+      closed.forEach((c) => {
+        if (c.status === "not_done") result.notDone++;
+        else result.carriedOver++;
+      });
+    } catch (error: unknown) {
+      console.error(`  Error closing ${dateStr} for user ${user.id}:`, error);
+      result.success = false;
+    }
+  }
+
+  console.log(`  ${result.carriedOver} carried over, ${result.notDone} not done`);
+
+  if (result.success) {
+    const { error } = await supabase
+      .from("task_rollover_runs")
+      .upsert(
+        {
+          organization_id: organizationId,
+          rollover_date: dateStr,
+          carried_over_count: result.carriedOver,
+          not_done_count: result.notDone,
+          completed_at: new Date().toISOString(),
+        },
+        { onConflict: "organization_id,rollover_date" }
+      );
+
+    if (error) throw error;
+  }
+
+  return result;
+}
+
+serve(handler);
@@ -1,10 +1,39 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getEmailSender, sendEmail } from "../_shared/mail.ts";
+import {
+  getEmailBranding,
+  renderApprovalRequestsEmail,
+  renderDailySummaryEmail,
+  renderWeeklySummaryEmail,
+  type ApprovalRequestsEmailData,
+  type EmailRenderOptions,
+  type RenderedEmail,
+} from "../_shared/emailTemplates.ts";
+import { resolveEmailLanguage } from "../_shared/emailTranslations.ts";
+import {
+  getAppUrl,
+  getUnsubscribeLinks,
+  loadNotificationPreferences,
+  type UnsubscribeType,
+} from "../_shared/notificationPreferences.ts";
+import {
+  addDaysToDateStr,
+  formatDateInTimeZone,
+  getDayCapacity,
+  getDayName,
+  getOccurrenceBenchmark,
+  prorateBenchmark,
+  weeklyOffAppliesOn,
+  type OccurrenceException,
+  type WeeklyOffPattern,
+} from "../_shared/recurrence.ts";
 
-const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
+const DAYS_PER_WEEK = 7;
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
@@ -21,21 +50,57 @@ interface TaskCompletion {
   notes: string | null;
   scheduled_date: string;
   completion_date: string;
+  sla_status: string | null; // on_time or late against the task's deadline, for completed and partial
+  due_time: string | null;
+  non_working_day_policy: string;
+  covered_by: string | null; // Colleague who recorded it while the user was on leave
+}
+
+// A colleague's task this user recorded while covering their leave
+interface CoveredCompletion {
+  task_name: string;
+  assignee_name: string;
+  status: string;
+  quantity_completed: number | null;
+  notes: string | null;
+}
+
+interface OccurrenceChange extends OccurrenceException {
+  task_name: string;
+}
+
+interface OrgUser {
+  id: string;
+  email: string;
+  full_name: string;
+  manager_id: string | null;
+  timezone: string | null;
+  holiday_calendar_id: string | null;
+  email_language: string | null;
 }
 
 interface UserSummary {
   userId: string;
   email: string;
   fullName: string;
-  managerEmail: string | null;
-  managerName: string | null;
   completions: TaskCompletion[];
+  coveredCompletions: CoveredCompletion[];
+  occurrenceChanges: OccurrenceChange[];
   totalScheduled: number;
   totalCompleted: number;
   totalPartial: number;
   totalNotDone: number;
   totalPending: number;
   totalDelayed: number;
+  totalOnTime: number;
+  totalLate: number;
+}
+
+// One user's processed day, as shown in the daily summary
+interface DaySummary extends UserSummary {
+  dateStr: string;
+  isHoliday: boolean;
+  isPersonalLeave: boolean; // Completion % is N/A
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -58,18 +123,10 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log("Starting daily summary email function");
     
-    // If no targetDate provided, determine based on current time and organization settings
-    let summaryDate: Date;
-    if (targetDate) {
-      summaryDate = new Date(targetDate);
-    } else {
-      // Default to today, will be adjusted based on organization settings
-      summaryDate = new Date();
-      summaryDate.setHours(0, 0, 0, 0);
-    }
-
-    const dateStr = summaryDate.toISOString().split("T")[0];
-    console.log(`Processing date: ${dateStr}`);
+    // If no targetDate provided, "today" is resolved per organization/user timezone below
+    const requestedDateStr: string | null = targetDate ? String(targetDate).split("T")[0] : null;
+    const now = new Date();
+    console.log(`Requested date: ${requestedDateStr || "today (per timezone)"}`);
 
     // Get all organizations or specific one
     let organizationsQuery = supabase.from("organizations").select("id");
@@ -86,7 +143,13 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    const results: Array<{ userId: string; email: string; success: boolean; error?: string }> = [];
+    const results: Array<{
+      userId: string;
+      email: string;
+      emailType: string | null;
+      success: boolean;
+      error?: string;
+    }> = [];
 
     // Process each organization
     for (const org of organizations) {
@@ -111,27 +174,24 @@ const handler = async (req: Request): Promise<Response> => {
       const emailTime = settingsMap["email_notification_time"] || "18:00";
       const emailDay = settingsMap["email_notification_day"] || "same";
       const timezone = settingsMap["timezone"] || "Asia/Kolkata";
+      const emailSender = getEmailSender(settingsMap);
+      const emailBranding = getEmailBranding(settingsMap);
 
-      console.log(`Org ${org.id} settings: emailTime=${emailTime}, emailDay=${emailDay}`);
-
-      // Determine the actual date to process based on email_day setting
-      let processDate: Date;
-      if (emailDay === "previous") {
-        // For "previous", send email for yesterday
-        processDate = new Date(summaryDate);
-        processDate.setDate(processDate.getDate() - 1);
-      } else {
-        // For "same", use the provided date (or today)
-        processDate = new Date(summaryDate);
-      }
+      console.log(`Org ${org.id} settings: emailTime=${emailTime}, emailDay=${emailDay}, timezone=${timezone}`);
+
+      // Determine the actual date to process in the given timezone based on email_day setting
+      const getProcessDateStr = (tz: string): string => {
+        const baseDateStr = requestedDateStr || formatDateInTimeZone(now, tz);
+        // For "previous", send email for yesterday; for "same", use the provided date (or today)
+        return emailDay === "previous" ? addDaysToDateStr(baseDateStr, -1) : baseDateStr;
+      };
 
-      const processDateStr = processDate.toISOString().split("T")[0];
-      console.log(`Processing date for org ${org.id}: ${processDateStr}`);
+      console.log(`Processing date for org ${org.id}: ${getProcessDateStr(timezone)}`);
 
       // Get all active users in this organization
       const { data: users, error: usersError } = await supabase
         .from("users")
-        .select("id, email, full_name, manager_id")
+        .select("id, email, full_name, manager_id, timezone, holiday_calendar_id, email_language")
         .eq("organization_id", org.id)
         .eq("is_active", true);
 
@@ -147,248 +207,496 @@ const handler = async (req: Request): Promise<Response> => {
 
       console.log(`Found ${users.length} active users in org ${org.id}`);
 
-      // Get manager emails for users who have managers
-      const managerIds = users
-        .map((u) => u.manager_id)
-        .filter((id): id is string => id !== null);
-      
-      const managerMap = new Map<string, { email: string; full_name: string }>();
-      if (managerIds.length > 0) {
-        const { data: managers } = await supabase
-          .from("users")
-          .select("id, email, full_name")
-          .in("id", managerIds);
-
-        managers?.forEach((m) => {
-          managerMap.set(m.id, { email: m.email, full_name: m.full_name });
-        });
-      }
+      // Managers get their copies and approval requests from the same active users list
+      const usersById = new Map(users.map((u) => [u.id, u]));
+      const preferencesByUser = await loadNotificationPreferences(supabase, users.map((u) => u.id));
 
-      // Check if it's a holiday for this organization
-      // Check public holidays
-      const { data: publicHoliday } = await supabase
-        .from("public_holidays")
-        .select("id")
-        .eq("holiday_date", processDateStr)
-        .maybeSingle();
-
-      // Check weekly offs (organization-wide)
-      const dayOfWeek = processDate.getDay(); // 0 = Sunday, 6 = Saturday
-      const dayNames = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-      const dayName = dayNames[dayOfWeek];
-
-      const { data: weeklyOff } = await supabase
+      // Weekly offs of the organization; a holiday calendar's own weekly offs replace the
+      // organization-wide ones for its members
+      const { data: orgWeeklyOffs } = await supabase
         .from("weekly_offs")
-        .select("id")
-        .eq("day_of_week", dayName)
-        .maybeSingle();
+        .select("day_of_week, weeks_of_month, week_interval, anchor_date, calendar_id")
+        .eq("organization_id", org.id);
 
-      // Process each user
-      for (const user of users) {
-        try {
-          console.log(`\nProcessing user: ${user.email} (${user.full_name})`);
-          
-          // Check user's personal holidays
-          const { data: personalHoliday } = await supabase
-            .from("personal_holidays")
-            .select("id")
-            .eq("user_id", user.id)
-            .lte("start_date", processDateStr)
-            .gte("end_date", processDateStr)
-            .eq("approval_status", "approved")
-            .maybeSingle();
-
-          // Check user's weekly offs
-          const { data: userWeeklyOff } = await supabase
-            .from("user_weekly_offs")
-            .select("id")
-            .eq("user_id", user.id)
-            .eq("day_of_week", dayName)
-            .maybeSingle();
-
-          const isHoliday = !!publicHoliday || !!weeklyOff || !!personalHoliday || !!userWeeklyOff;
-          
-          if (isHoliday) {
-            console.log(`  Holiday detected for ${user.email}: publicHoliday=${!!publicHoliday}, weeklyOff=${!!weeklyOff}, personalHoliday=${!!personalHoliday}, userWeeklyOff=${!!userWeeklyOff}`);
-          }
+      // Organization holiday checks, cached per date since users with a timezone override
+      // may be processing a different calendar date
+      const publicHolidayCache = new Map<string, Array<{ calendar_id: string | null; day_portion: string }>>();
+      const getHolidayInfo = async (dateStr: string, calendarId: string | null) => {
+        let dayHolidays = publicHolidayCache.get(dateStr);
+        if (!dayHolidays) {
+          // Check public holidays (organization-wide and per calendar)
+          const { data: publicHolidays } = await supabase
+            .from("public_holidays")
+            .select("calendar_id, day_portion")
+            .eq("organization_id", org.id)
+            .eq("holiday_date", dateStr);
+
+          dayHolidays = publicHolidays || [];
+          publicHolidayCache.set(dateStr, dayHolidays);
+        }
+        const holidayPortions = dayHolidays
+          .filter((h) => h.calendar_id === null || h.calendar_id === calendarId)
+          .map((h) => h.day_portion);
+
+        const calendarOffs = (orgWeeklyOffs || []).filter((w) => calendarId && w.calendar_id === calendarId);
+        const weeklyOffs = calendarOffs.length > 0
+          ? calendarOffs
+          : (orgWeeklyOffs || []).filter((w) => !w.calendar_id);
+
+        return {
+          publicHoliday: holidayPortions.includes("full"),
+          // Half-day holidays ("first_half" / "second_half") reduce the day's capacity instead
+          holidayHalfDays: holidayPortions.filter((p) => p !== "full"),
+          weeklyOff: weeklyOffs.some((w) => weeklyOffAppliesOn(w, dateStr)),
+        };
+      };
+
+      // The user's day on processDateStr; null when there is nothing to report
+      const buildDaySummary = async (user: OrgUser, processDateStr: string): Promise<DaySummary | null> => {
+        const dayName = getDayName(processDateStr);
+        const { publicHoliday, holidayHalfDays, weeklyOff } = await getHolidayInfo(
+          processDateStr,
+          user.holiday_calendar_id
+        );
+        
+        // Check user's personal holidays (full-day leave, or half-day leave on this date). Leave
+        // with a cover person is not time off for the user's tasks: the cover works them
+        const { data: personalHolidays } = await supabase
+          .from("personal_holidays")
+          .select("day_portion")
+          .eq("user_id", user.id)
+          .lte("start_date", processDateStr)
+          .gte("end_date", processDateStr)
+          .eq("approval_status", "approved")
+          .is("cover_user_id", null);
+        const leavePortions = (personalHolidays || []).map((h) => h.day_portion);
+        const personalHoliday = leavePortions.includes("full");
+
+        // Share of the day the user works: 0.5 on a half-day leave or holiday, 0 with both halves off
+        const dayCapacity = getDayCapacity([...holidayHalfDays, ...leavePortions]);
+        if (dayCapacity > 0 && dayCapacity < 1) {
+          console.log(`  Half day for ${user.email} on ${processDateStr}: capacity=${dayCapacity}`);
+        }
 
-          // Get task assignments for this user first
-          const { data: assignments, error: assignError } = await supabase
-            .from("task_assignments")
-            .select(`
+        // Check user's weekly offs (including nth-week and alternate-week patterns)
+        const { data: userWeeklyOffs } = await supabase
+          .from("user_weekly_offs")
+          .select("day_of_week, weeks_of_month, week_interval, anchor_date")
+          .eq("user_id", user.id)
+          .eq("day_of_week", dayName);
+        const userWeeklyOff = (userWeeklyOffs || []).some((w) => weeklyOffAppliesOn(w, processDateStr));
+
+        const isHoliday = publicHoliday || weeklyOff || personalHoliday || userWeeklyOff || dayCapacity === 0;
+        
+        if (isHoliday) {
+          console.log(`  Holiday detected for ${user.email} on ${processDateStr}: publicHoliday=${publicHoliday}, weeklyOff=${weeklyOff}, personalHoliday=${personalHoliday}, userWeeklyOff=${userWeeklyOff}`);
+        }
+
+        // Get task assignments for this user first
+        const { data: assignments, error: assignError } = await supabase
+          .from("task_assignments")
+          .select(`
+            id,
+            task:tasks (
               id,
+              name,
+              benchmark,
+              due_time,
+              non_working_day_policy,
+              exceptions:task_occurrence_exceptions (
+                occurrence_date,
+                action,
+                new_date,
+                benchmark_override,
+                reason
+              )
+            )
+          `)
+          .eq("assigned_to", user.id);
+
+        if (assignError) {
+          console.error(`Error fetching assignments for user ${user.id}:`, assignError);
+          return null;
+        }
+
+        // Colleagues' tasks the user recorded that day while covering their leave
+        const { data: coveredData, error: coveredError } = await supabase
+          .from("task_completions")
+          .select(`
+            status,
+            quantity_completed,
+            notes,
+            assignment:task_assignments (
+              assigned_to,
               task:tasks (
-                id,
-                name,
-                benchmark
+                name
+              ),
+              assignee:users!task_assignments_assigned_to_fkey (
+                full_name
               )
-            `)
-            .eq("assigned_to", user.id);
+            )
+          `)
+          .eq("completed_by", user.id)
+          .eq("completion_date", processDateStr);
 
-          if (assignError) {
-            console.error(`Error fetching assignments for user ${user.id}:`, assignError);
-            continue;
-          }
+        if (coveredError) {
+          console.error(`  Error fetching covered completions for user ${user.id}:`, coveredError);
+        }
 
-          if (!assignments || assignments.length === 0) {
-            console.log(`Skipping email for ${user.email} - no task assignments`);
-            continue;
-          }
+        const coveredCompletions: CoveredCompletion[] = (coveredData || [])
+          .filter((c) => c.assignment && c.assignment.assigned_to !== user.id)
+          .map((c) => ({
+            task_name: c.assignment.task?.name || "Unknown Task",
+            assignee_name: c.assignment.assignee?.full_name || "a colleague",
+            status: c.status,
+            quantity_completed: c.quantity_completed,
+            notes: c.notes,
+          }));
+
+        if ((!assignments || assignments.length === 0) && coveredCompletions.length === 0) {
+          console.log(`  Nothing to report for ${user.email} - no task assignments`);
+          return null;
+        }
+
+        const assignmentIds = (assignments || []).map((a: any) => a.id);
+        console.log(`  User ${user.email} has ${assignmentIds.length} task assignment(s)`);
+
+        // Get task completions for this user on this date
+        // Check both scheduled_date (when task was due) and completion_date (when it was completed)
+        const { data: completions, error: compError } = await supabase
+          .from("task_completions")
+          .select(`
+            id,
+            assignment_id,
+            status,
+            quantity_completed,
+            notes,
+            scheduled_date,
+            completion_date,
+            sla_status,
+            completed_by,
+            completer:users!task_completions_completed_by_fkey (
+              full_name
+            )
+          `)
+          .in("assignment_id", assignmentIds)
+          .or(`scheduled_date.eq.${processDateStr},completion_date.eq.${processDateStr}`);
+
+        if (compError) {
+          console.error(`  Error fetching completions for user ${user.id}:`, compError);
+          return null;
+        }
 
-          const assignmentIds = assignments.map((a: any) => a.id);
-          console.log(`  User ${user.email} has ${assignmentIds.length} task assignment(s)`);
+        console.log(`  Found ${completions?.length || 0} completion(s) for ${processDateStr}`);
+        
+        if (completions && completions.length > 0) {
+          completions.forEach((c: any) => {
+            console.log(`    - Completion: scheduled_date=${c.scheduled_date}, completion_date=${c.completion_date}, status=${c.status}`);
+          });
+        }
 
-          // Get task completions for this user on this date
-          // Check both scheduled_date (when task was due) and completion_date (when it was completed)
-          const { data: completions, error: compError } = await supabase
-            .from("task_completions")
-            .select(`
-              id,
-              assignment_id,
-              status,
-              quantity_completed,
-              notes,
-              scheduled_date,
-              completion_date
-            `)
-            .in("assignment_id", assignmentIds)
-            .or(`scheduled_date.eq.${processDateStr},completion_date.eq.${processDateStr}`);
-
-          if (compError) {
-            console.error(`  Error fetching completions for user ${user.id}:`, compError);
-            continue;
-          }
+        // If it's a holiday and no tasks were completed (own or covered), skip
+        if (isHoliday && (!completions || completions.length === 0) && coveredCompletions.length === 0) {
+          console.log(`  Nothing to report for ${user.email} - holiday with no task completions`);
+          return null;
+        }
 
-          console.log(`  Found ${completions?.length || 0} completion(s) for ${processDateStr}`);
-          
-          if (completions && completions.length > 0) {
-            completions.forEach((c: any) => {
-              console.log(`    - Completion: scheduled_date=${c.scheduled_date}, completion_date=${c.completion_date}, status=${c.status}`);
+        // Build a map of assignment_id -> task for quick lookup
+        const assignmentTaskMap = new Map<string, {
+          name: string;
+          benchmark: number | null;
+          due_time: string | null;
+          non_working_day_policy: string;
+          exceptions: OccurrenceException[];
+        }>();
+        assignments?.forEach((a: any) => {
+          if (a.task) {
+            assignmentTaskMap.set(a.id, {
+              name: a.task.name,
+              benchmark: a.task.benchmark,
+              due_time: a.task.due_time,
+              non_working_day_policy: a.task.non_working_day_policy || "next",
+              exceptions: a.task.exceptions || [],
             });
           }
+        });
 
-          if (compError) {
-            console.error(`Error fetching completions for user ${user.id}:`, compError);
-            continue;
-          }
+        // Occurrences skipped, moved away from or moved onto this day
+        const occurrenceChanges: OccurrenceChange[] = [];
+        assignmentTaskMap.forEach((taskInfo) => {
+          taskInfo.exceptions
+            .filter((e) => e.action !== "override" &&
+              (e.occurrence_date === processDateStr || e.new_date === processDateStr))
+            .forEach((e) => occurrenceChanges.push({ task_name: taskInfo.name, ...e }));
+        });
 
-          // If it's a holiday and no tasks were completed, skip
-          if (isHoliday && (!completions || completions.length === 0)) {
-            console.log(`  Skipping email for ${user.email} - holiday with no task completions`);
-            continue;
+        // Build summary from completions
+        const taskCompletions: TaskCompletion[] = (completions || []).map((c: any) => {
+          const taskInfo = assignmentTaskMap.get(c.assignment_id);
+          const scheduledDate = c.scheduled_date || c.completion_date;
+          return {
+            task_name: taskInfo?.name || "Unknown Task",
+            status: c.status,
+            quantity_completed: c.quantity_completed,
+            // Per-occurrence benchmark overrides apply to the day the task was scheduled for,
+            // prorated when that is the processed day's half day
+            benchmark: prorateBenchmark(
+              taskInfo ? getOccurrenceBenchmark(taskInfo, scheduledDate) : null,
+              scheduledDate === processDateStr ? dayCapacity : 1
+            ),
+            notes: c.notes,
+            scheduled_date: c.scheduled_date,
+            completion_date: c.completion_date,
+            sla_status: c.sla_status,
+            due_time: taskInfo?.due_time || null,
+            non_working_day_policy: taskInfo?.non_working_day_policy || "next",
+            covered_by: c.completed_by && c.completed_by !== user.id ? c.completer?.full_name || null : null,
+          };
+        });
+
+        // Only report days with task completions, own or covered
+        // (For holidays, we already checked above)
+        if (taskCompletions.length === 0 && coveredCompletions.length === 0) {
+          console.log(`  Nothing to report for ${user.email} - no task completions for ${processDateStr}`);
+          if (assignments && assignments.length > 0) {
+            console.log(`    Note: User has ${assignments.length} task assignment(s) but no completions for this date`);
+          } else {
+            console.log(`    Note: User has no task assignments`);
           }
+          return null;
+        }
 
-          // Build a map of assignment_id -> task for quick lookup
-          const assignmentTaskMap = new Map<string, { name: string; benchmark: number | null }>();
-          assignments?.forEach((a: any) => {
-            if (a.task) {
-              assignmentTaskMap.set(a.id, {
-                name: a.task.name,
-                benchmark: a.task.benchmark,
-              });
-            }
+        // On personal leave only tasks that are due even on non-working days ("ignore" policy)
+        // count towards the statistics
+        const countedCompletions = personalHoliday
+          ? taskCompletions.filter((t) => t.non_working_day_policy === "ignore")
+          : taskCompletions;
+
+        // Count scheduled tasks (tasks with scheduled_date matching the target date)
+        const scheduledCount = countedCompletions.filter(
+          (c) => c.scheduled_date === processDateStr
+        ).length;
+
+        return {
+          userId: user.id,
+          email: user.email,
+          fullName: user.full_name,
+          dateStr: processDateStr,
+          isHoliday,
+          // Completion % is N/A on leave unless some tasks were due anyway
+          isPersonalLeave: personalHoliday && countedCompletions.length === 0,
+          completions: taskCompletions,
+          coveredCompletions,
+          occurrenceChanges,
+          totalScheduled: scheduledCount || countedCompletions.length,
+          totalCompleted: countedCompletions.filter((t) => t.status === "completed").length,
+          totalPartial: countedCompletions.filter((t) => t.status === "partial").length,
+          totalNotDone: countedCompletions.filter((t) => t.status === "not_done").length,
+          totalPending: countedCompletions.filter((t) => t.status === "pending").length,
+          totalDelayed: countedCompletions.filter((t) => t.status === "delayed").length,
+          totalOnTime: countedCompletions.filter((t) => t.sla_status === "on_time").length,
+          totalLate: countedCompletions.filter((t) => t.sla_status === "late").length,
+        };
+      };
+
+      // A user's day can go into their own email and their manager's, so build it once
+      const daySummaryCache = new Map<string, Promise<DaySummary | null>>();
+      const getDaySummary = (user: OrgUser, dateStr: string) => {
+        const key = `${user.id}:${dateStr}`;
+        if (!daySummaryCache.has(key)) {
+          daySummaryCache.set(key, buildDaySummary(user, dateStr));
+        }
+        return daySummaryCache.get(key)!;
+      };
+
+      // The days with something to report in the week ending on endDateStr
+      const getWeekSummaries = async (user: OrgUser, endDateStr: string) => {
+        const days: DaySummary[] = [];
+        for (let offset = DAYS_PER_WEEK - 1; offset >= 0; offset--) {
+          const day = await getDaySummary(user, addDaysToDateStr(endDateStr, -offset));
+          if (day) days.push(day);
+        }
+        return days;
+      };
+
+      // Renders the email in the recipient's language with their unsubscribe link, then sends it.
+      // Retries and the delivery record are handled by the shared mail module
+      const sendToRecipient = async (
+        recipient: OrgUser,
+        emailType: string,
+        unsubscribeType: UnsubscribeType,
+        render: (options: EmailRenderOptions) => RenderedEmail
+      ) => {
+        try {
+          const unsubscribeLinks = await getUnsubscribeLinks(supabase, recipient.id, unsubscribeType);
+          const email = render({
+            language: resolveEmailLanguage(recipient.email_language, settingsMap["email_language"]),
+            branding: emailBranding,
+            unsubscribeUrl: unsubscribeLinks.pageUrl,
           });
 
-          // Build summary from completions
-          const taskCompletions: TaskCompletion[] = (completions || []).map((c: any) => {
-            const taskInfo = assignmentTaskMap.get(c.assignment_id);
-            return {
-              task_name: taskInfo?.name || "Unknown Task",
-              status: c.status,
-              quantity_completed: c.quantity_completed,
-              benchmark: taskInfo?.benchmark || null,
-              notes: c.notes,
-              scheduled_date: c.scheduled_date,
-              completion_date: c.completion_date,
-            };
-          });
+          const emailResult = await sendEmail(
+            supabase,
+            {
+              organizationId: org.id,
+              emailType,
+              to: [recipient.email],
+              subject: email.subject,
+              html: email.html,
+              unsubscribeUrl: unsubscribeLinks.oneClickUrl,
+            },
+            emailSender
+          );
+          console.log(`  ${emailType} email to ${recipient.email} recorded as delivery ${emailResult.deliveryId}`);
 
-          // Count scheduled tasks (tasks with scheduled_date matching the target date)
-          const scheduledCount = completions?.filter(
-            (c: any) => c.scheduled_date === processDateStr
-          ).length || 0;
+          results.push({ userId: recipient.id, email: recipient.email, emailType, success: true });
+        } catch (error) {
+          console.error(`  Error sending ${emailType} email to ${recipient.email}:`, error);
+          results.push({
+            userId: recipient.id,
+            email: recipient.email,
+            emailType,
+            success: false,
+            error: (error as Error).message,
+          });
+        }
+      };
 
-          const summary: UserSummary = {
-            userId: user.id,
-            email: user.email,
-            fullName: user.full_name,
-            managerEmail: user.manager_id ? managerMap.get(user.manager_id)?.email || null : null,
-            managerName: user.manager_id ? managerMap.get(user.manager_id)?.full_name || null : null,
-            completions: taskCompletions,
-            totalScheduled: scheduledCount || taskCompletions.length,
-            totalCompleted: taskCompletions.filter((t) => t.status === "completed").length,
-            totalPartial: taskCompletions.filter((t) => t.status === "partial").length,
-            totalNotDone: taskCompletions.filter((t) => t.status === "not_done").length,
-            totalPending: taskCompletions.filter((t) => t.status === "pending").length,
-            totalDelayed: taskCompletions.filter((t) => t.status === "delayed").length,
-          };
+      // Completions and leave requests of the manager's direct reports waiting for them
+      const sendApprovalRequests = async (manager: OrgUser, reports: OrgUser[]) => {
+        const reportNames = new Map(reports.map((r) => [r.id, r.full_name]));
+        const reportIds = reports.map((r) => r.id);
 
-          // Only send email if there are task completions
-          // (For holidays, we already checked above)
-          if (taskCompletions.length === 0) {
-            console.log(`  Skipping email for ${user.email} - no task completions for ${processDateStr}`);
-            if (assignments && assignments.length > 0) {
-              console.log(`    Note: User has ${assignments.length} task assignment(s) but no completions for this date`);
-            } else {
-              console.log(`    Note: User has no task assignments`);
-            }
-            continue;
+        // With auto-approve on, updates are approved as they are recorded
+        let pendingCompletions: ApprovalRequestsEmailData["completions"] = [];
+        if (settingsMap["auto_approve_tasks"] !== "true") {
+          const { data: reportAssignments, error: assignError } = await supabase
+            .from("task_assignments")
+            .select("id, assigned_to, task:tasks (name)")
+            .in("assigned_to", reportIds);
+
+          if (assignError) throw assignError;
+
+          const assignmentMap = new Map(
+            (reportAssignments || []).map((a: { id: string; assigned_to: string; task: { name: string } | null }) => [a.id, a])
+          );
+          if (assignmentMap.size > 0) {
+            const { data: completions, error: compError } = await supabase
+              .from("task_completions")
+              .select("assignment_id, status, scheduled_date")
+              .in("assignment_id", [...assignmentMap.keys()])
+              .eq("approval_status", "pending")
+              .in("status", ["completed", "partial"])
+              .order("scheduled_date");
+
+            if (compError) throw compError;
+
+            pendingCompletions = (completions || []).map((c) => {
+              const assignment = assignmentMap.get(c.assignment_id);
+              return {
+                employeeName: reportNames.get(assignment?.assigned_to) || "Unknown",
+                taskName: assignment?.task?.name || "Unknown Task",
+                status: c.status,
+                scheduledDate: c.scheduled_date,
+              };
+            });
           }
-          
-          console.log(`  Preparing to send email to ${user.email} with ${taskCompletions.length} task completion(s)`);
+        }
 
-          // Check if RESEND_API_KEY is configured
-          if (!RESEND_API_KEY) {
-            console.error("RESEND_API_KEY is not configured. Cannot send emails.");
-            throw new Error("Email service not configured. Please set RESEND_API_KEY.");
-          }
+        // Second approvals come from HR or admins, not the direct manager
+        const { data: leaveRequests, error: leaveError } = await supabase
+          .from("personal_holidays")
+          .select("user_id, start_date, end_date, leave_type:leave_types (name)")
+          .in("user_id", reportIds)
+          .eq("approval_status", "pending")
+          .eq("approval_level", 1)
+          .order("start_date");
 
-          // Send email
-          console.log(`Preparing to send email to ${user.email}${summary.managerEmail ? ` (CC: ${summary.managerEmail})` : ""}`);
-          const isPersonalLeave = !!personalHoliday;
-          const emailHtml = generateEmailHTML(summary, processDateStr, isHoliday, isPersonalLeave);
-          
-          const emailPayload: any = {
-            from: "Momentum <onboarding@resend.dev>",
-            to: [user.email],
-            subject: `Daily Task Summary - ${formatDate(processDateStr)}`,
-            html: emailHtml,
-          };
+        if (leaveError) throw leaveError;
 
-          if (summary.managerEmail) {
-            emailPayload.cc = [summary.managerEmail];
-          }
+        if (pendingCompletions.length === 0 && (leaveRequests || []).length === 0) {
+          console.log(`  Nothing awaiting approval by ${manager.email}`);
+          return;
+        }
 
-          const emailRes = await fetch("https://api.resend.com/emails", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${RESEND_API_KEY}`,
+        await sendToRecipient(manager, "approval_requests", "approval_requests", (options) =>
+          renderApprovalRequestsEmail(
+            {
+              completions: pendingCompletions,
+              leaveRequests: (leaveRequests || []).map((l: {
+                user_id: string;
+                start_date: string;
+                end_date: string;
+                leave_type: { name: string } | null;
+              }) => ({
+                employeeName: reportNames.get(l.user_id) || "Unknown",
+                startDate: l.start_date,
+                endDate: l.end_date,
+                leaveType: l.leave_type?.name || null,
+              })),
+              reviewUrl: getAppUrl("/dashboard"),
             },
-            body: JSON.stringify(emailPayload),
-          });
+            options
+          )
+        );
+      };
+
+      // Process each user
+      for (const user of users) {
+        try {
+          console.log(`\nProcessing user: ${user.email} (${user.full_name})`);
 
-          if (!emailRes.ok) {
-            const errorData = await emailRes.json().catch(() => ({ message: "Unknown error" }));
-            console.error(`Failed to send email to ${user.email}:`, errorData);
-            throw new Error(errorData.message || "Failed to send email");
+          const preferences = preferencesByUser.get(user.id)!;
+          // Day boundaries come from the user's timezone override, falling back to the organization's
+          const processDateStr = getProcessDateStr(user.timezone || timezone);
+          // Weekly emails go out on the user's digest day, covering the week up to it
+          const isDigestDay = getDayName(processDateStr) === preferences.digest_day;
+          const weekStartDateStr = addDaysToDateStr(processDateStr, -(DAYS_PER_WEEK - 1));
+
+          // The user's own summary
+          if (preferences.daily_summary_cadence === "daily") {
+            const summary = await getDaySummary(user, processDateStr);
+            if (summary) {
+              await sendToRecipient(user, "daily_summary", "daily_summary", (options) =>
+                renderDailySummaryEmail(summary, options)
+              );
+            }
+          } else if (preferences.daily_summary_cadence === "weekly" && isDigestDay) {
+            const days = await getWeekSummaries(user, processDateStr);
+            if (days.length > 0) {
+              await sendToRecipient(user, "weekly_summary", "daily_summary", (options) =>
+                renderWeeklySummaryEmail({ startDateStr: weekStartDateStr, endDateStr: processDateStr, days }, options)
+              );
+            }
           }
 
-          const emailResponseData = await emailRes.json();
-          console.log(`Email sent successfully to ${user.email}. Resend ID: ${emailResponseData.id}`);
+          // The manager's copy of the day, in their own language and with their own unsubscribe link
+          const manager = user.manager_id ? usersById.get(user.manager_id) : undefined;
+          if (manager && preferencesByUser.get(manager.id)!.team_digest_cadence === "daily") {
+            const summary = await getDaySummary(user, processDateStr);
+            if (summary) {
+              await sendToRecipient(manager, "team_member_summary", "team_digest", (options) =>
+                renderDailySummaryEmail({ ...summary, employeeName: user.full_name }, options)
+              );
+            }
+          }
 
-          results.push({
-            userId: user.id,
-            email: user.email,
-            success: true,
-          });
+          // Approval requests for managers; their weekly team digest comes from send-manager-digest
+          const reports = users.filter((u) => u.manager_id === user.id);
+          if (reports.length === 0) continue;
 
-          console.log(`Email sent successfully to ${user.email}`);
+          if (
+            preferences.approval_requests_cadence === "daily" ||
+            (preferences.approval_requests_cadence === "weekly" && isDigestDay)
+          ) {
+            await sendApprovalRequests(user, reports);
+          }
         } catch (error: any) {
           console.error(`Error processing user ${user.email}:`, error);
           results.push({
             userId: user.id,
             email: user.email,
+            emailType: null,
             success: false,
             error: error.message,
           });
@@ -431,146 +739,5 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-function formatDate(dateStr: string): string {
-  const date = new Date(dateStr);
-  return date.toLocaleDateString("en-US", {
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  });
-}
-
-function generateEmailHTML(summary: UserSummary, dateStr: string, isHoliday: boolean, isPersonalLeave = false): string {
-  const formattedDate = formatDate(dateStr);
-  // Exclude tasks on leave days from completion % - show N/A when user was on personal leave
-  const completionRate = isPersonalLeave
-    ? null
-    : summary.totalScheduled > 0
-      ? Math.round(
-          ((summary.totalCompleted + summary.totalPartial * 0.5) / summary.totalScheduled) * 100
-        )
-      : 0;
-
-  return `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Daily Task Summary - ${formattedDate}</title>
-      </head>
-      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
-        <div style="background: white; border-radius: 12px; padding: 30px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
-          <div style="text-align: center; margin-bottom: 30px;">
-            <h1 style="color: #6366f1; margin-bottom: 5px;">Momentum</h1>
-            <p style="color: #888; font-size: 14px;">by aitamate</p>
-          </div>
-          
-          <h2 style="color: #1e293b; margin-top: 0;">Daily Task Summary</h2>
-          <p style="color: #64748b; margin-bottom: 20px;">
-            ${formattedDate}
-            ${isHoliday ? '<span style="background: #fef3c7; color: #92400e; padding: 2px 8px; border-radius: 4px; font-size: 12px; margin-left: 8px;">Holiday</span>' : ""}
-          </p>
-
-          ${summary.totalScheduled === 0 && summary.completions.length === 0
-      ? `<p style="color: #64748b;">No tasks were scheduled for this day.</p>`
-      : `
-          <!-- Summary Stats -->
-          <div style="background: linear-gradient(135deg, #f8fafc 0%, #e2e8f0 100%); border-radius: 8px; padding: 20px; margin-bottom: 30px;">
-            <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 15px; margin-bottom: 15px;">
-              <div style="text-align: center;">
-                <div style="font-size: 32px; font-weight: bold; color: #6366f1;">${summary.totalScheduled}</div>
-                <div style="font-size: 12px; color: #64748b; text-transform: uppercase;">Scheduled</div>
-              </div>
-              <div style="text-align: center;">
-                <div style="font-size: 32px; font-weight: bold; color: #10b981;">${completionRate !== null ? `${completionRate}%` : "N/A"}</div>
-                <div style="font-size: 12px; color: #64748b; text-transform: uppercase;">Completion${isPersonalLeave ? " (on leave)" : ""}</div>
-              </div>
-            </div>
-            <div style="display: grid; grid-template-columns: repeat(3, 1fr); gap: 10px; margin-top: 15px; padding-top: 15px; border-top: 1px solid #e2e8f0;">
-              <div style="text-align: center;">
-                <div style="font-size: 20px; font-weight: bold; color: #10b981;">${summary.totalCompleted}</div>
-                <div style="font-size: 11px; color: #64748b;">Completed</div>
-              </div>
-              <div style="text-align: center;">
-                <div style="font-size: 20px; font-weight: bold; color: #f59e0b;">${summary.totalPartial}</div>
-                <div style="font-size: 11px; color: #64748b;">Partial</div>
-              </div>
-              <div style="text-align: center;">
-                <div style="font-size: 20px; font-weight: bold; color: #ef4444;">${summary.totalNotDone}</div>
-                <div style="font-size: 11px; color: #64748b;">Not Done</div>
-              </div>
-            </div>
-            ${summary.totalDelayed > 0
-        ? `<div style="text-align: center; margin-top: 10px; padding-top: 10px; border-top: 1px solid #e2e8f0;">
-              <div style="font-size: 16px; font-weight: bold; color: #f97316;">${summary.totalDelayed} Delayed</div>
-            </div>`
-        : ""}
-          </div>
-
-          <!-- Task Details -->
-          ${summary.completions.length > 0
-      ? `
-          <h3 style="color: #1e293b; margin-top: 30px; margin-bottom: 15px;">Task Details</h3>
-          <div style="space-y: 10px;">
-            ${summary.completions
-          .map(
-            (task) => `
-              <div style="border: 1px solid #e2e8f0; border-radius: 8px; padding: 15px; margin-bottom: 10px;">
-                <div style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 8px;">
-                  <div style="font-weight: 600; color: #1e293b;">${task.task_name}</div>
-                  <span style="
-                    padding: 4px 8px;
-                    border-radius: 4px;
-                    font-size: 11px;
-                    font-weight: 600;
-                    ${task.status === "completed"
-                ? "background: #d1fae5; color: #065f46;"
-                : task.status === "partial"
-                ? "background: #fef3c7; color: #92400e;"
-                : task.status === "not_done"
-                ? "background: #fee2e2; color: #991b1b;"
-                : task.status === "delayed"
-                ? "background: #fed7aa; color: #9a3412;"
-                : "background: #f3f4f6; color: #374151;"}
-                  ">
-                    ${task.status.charAt(0).toUpperCase() + task.status.slice(1).replace("_", " ")}
-                  </span>
-                </div>
-                ${task.benchmark && task.quantity_completed !== null
-            ? `<div style="font-size: 13px; color: #64748b; margin-top: 5px;">
-                  Progress: ${task.quantity_completed} / ${task.benchmark} (${Math.round((task.quantity_completed / task.benchmark) * 100)}%)
-                </div>`
-            : ""}
-                ${task.notes
-            ? `<div style="font-size: 13px; color: #64748b; margin-top: 5px; font-style: italic;">
-                  "${task.notes}"
-                </div>`
-            : ""}
-                ${task.completion_date !== task.scheduled_date
-            ? `<div style="font-size: 12px; color: #f97316; margin-top: 5px;">
-                  ⏱ Completed on ${formatDate(task.completion_date)} (scheduled for ${formatDate(task.scheduled_date)})
-                </div>`
-            : ""}
-              </div>
-            `
-          )
-          .join("")}
-          </div>
-        `
-      : `<p style="color: #64748b;">No task completions recorded for this day.</p>`}
-        `}
-
-          <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; text-align: center; color: #94a3b8; font-size: 12px;">
-            <p>This is an automated summary from Momentum.</p>
-            <p>If you have any questions, please contact your administrator.</p>
-          </div>
-        </div>
-      </body>
-    </html>
-  `;
-}
-
 serve(handler);
 
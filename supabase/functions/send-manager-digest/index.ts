@@ -0,0 +1,463 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getEmailSender, sendEmail } from "../_shared/mail.ts";
+import {
+  getEmailBranding,
+  renderManagerDigestEmail,
+  type ManagerDigestEmailData,
+} from "../_shared/emailTemplates.ts";
+import { resolveEmailLanguage } from "../_shared/emailTranslations.ts";
+import {
+  getAppUrl,
+  getUnsubscribeLinks,
+  loadNotificationPreferences,
+  type NotificationPreferences,
+} from "../_shared/notificationPreferences.ts";
+import {
+  completionsBetween,
+  loadCountedCompletions,
+  summarizeCompletions,
+  type CountedCompletion,
+} from "../_shared/completionStats.ts";
+import {
+  addDaysToDateStr,
+  formatDateInTimeZone,
+  getDayName,
+  getMinutesInTimeZone,
+  timeToMinutes,
+} from "../_shared/recurrence.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const DAYS_PER_WEEK = 7;
+// Leave listed in the digest, starting the day after the period
+const UPCOMING_LEAVE_DAYS = 14;
+const MOST_MISSED_SHOWN = 5;
+// Digests go out the morning after their period ends, in the manager's timezone
+const DIGEST_SEND_TIME = "08:00";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+type DigestPeriod = ManagerDigestEmailData["period"];
+
+interface OrgUser {
+  id: string;
+  email: string;
+  full_name: string;
+  manager_id: string | null;
+  organization_id: string;
+  timezone: string | null;
+  holiday_calendar_id: string | null;
+  email_language: string | null;
+}
+
+// The days a digest covers and the days it is compared with
+interface DigestRange {
+  period: DigestPeriod;
+  startDateStr: string;
+  endDateStr: string;
+  previousStartDateStr: string;
+  previousEndDateStr: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+/**
+ * Emails managers a digest of everyone below them in the reporting tree: completion %, partial
+ * and not done counts against the period before, the most missed tasks, pending approvals and
+ * upcoming leave. Run every hour by the scheduler; from DIGEST_SEND_TIME in the manager's
+ * timezone it sends the digests of periods that ended yesterday:
+ *   weekly   the 7 days up to digest_day when their team_digest_cadence is weekly
+ *   monthly  the whole month unless they turned monthly_team_digest off
+ * Each digest is logged in manager_digest_log so later runs that day skip it.
+ * { targetDate } sends the digests ending on targetDate that have not been sent yet;
+ * { period, targetDate } sends that digest now, ending on targetDate (or yesterday).
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Digests email every manager, so only the scheduler (with the service role key) starts them
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+      return jsonResponse({ error: "Forbidden" }, 403);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { organizationId, targetDate, period } = await req.json().catch(() => ({
+      organizationId: null,
+      targetDate: null,
+      period: null,
+    }));
+    if (period && period !== "weekly" && period !== "monthly") {
+      return jsonResponse({ error: "period must be weekly or monthly" }, 400);
+    }
+    const requestedDateStr: string | null = targetDate ? String(targetDate).split("T")[0] : null;
+
+    console.log(`Starting manager digests${period ? ` (${period})` : ""}`);
+
+    let organizationsQuery = supabase.from("organizations").select("id");
+    if (organizationId) {
+      organizationsQuery = organizationsQuery.eq("id", organizationId);
+    }
+    const { data: organizations, error: orgError } = await organizationsQuery;
+
+    if (orgError) throw orgError;
+
+    const results: Array<{
+      userId: string;
+      email: string;
+      emailType: string;
+      success: boolean;
+      error?: string;
+    }> = [];
+
+    for (const org of organizations || []) {
+      try {
+        const { data: orgSettings, error: settingsError } = await supabase
+          .from("organization_settings")
+          .select("setting_key, setting_value")
+          .eq("organization_id", org.id);
+
+        if (settingsError) throw settingsError;
+
+        const settingsMap: Record<string, string> = {};
+        orgSettings?.forEach((s) => {
+          settingsMap[s.setting_key] = s.setting_value;
+        });
+
+        const timezone = settingsMap["timezone"] || "Asia/Kolkata";
+
+        const { data: users, error: usersError } = await supabase
+          .from("users")
+          .select("id, email, full_name, manager_id, organization_id, timezone, holiday_calendar_id, email_language")
+          .eq("organization_id", org.id)
+          .eq("is_active", true)
+          .order("full_name");
+
+        if (usersError) throw usersError;
+
+        const orgUsers: OrgUser[] = users || [];
+        const usersById = new Map(orgUsers.map((u) => [u.id, u]));
+        const managers = orgUsers.filter((u) => orgUsers.some((r) => r.manager_id === u.id));
+        if (managers.length === 0) continue;
+
+        const preferencesByUser = await loadNotificationPreferences(supabase, managers.map((m) => m.id));
+
+        // Members are in every digest up their reporting line, so load each range once
+        const completionCache = new Map<string, Promise<CountedCompletion[]>>();
+        const getCompletions = (member: OrgUser, startDateStr: string, endDateStr: string) => {
+          const key = `${member.id}:${startDateStr}:${endDateStr}`;
+          if (!completionCache.has(key)) {
+            completionCache.set(key, loadCountedCompletions(supabase, member, startDateStr, endDateStr));
+          }
+          return completionCache.get(key)!;
+        };
+
+        const now = new Date();
+        for (const manager of managers) {
+          // Digests cover the days up to yesterday in the manager's timezone, sent once their morning comes
+          const managerTimezone = manager.timezone || timezone;
+          if (!requestedDateStr && getMinutesInTimeZone(now, managerTimezone) < timeToMinutes(DIGEST_SEND_TIME)) {
+            continue;
+          }
+          const endDateStr = requestedDateStr || addDaysToDateStr(formatDateInTimeZone(now, managerTimezone), -1);
+          const ranges = getDueDigests(preferencesByUser.get(manager.id)!, endDateStr, period);
+
+          for (const range of ranges) {
+            const emailType = `${range.period}_digest`;
+            let claimed = false;
+            try {
+              // A requested period is always sent; scheduled digests only by the first run to claim them
+              if (!period) {
+                claimed = await claimDigest(supabase, manager.id, range);
+                if (!claimed) continue;
+              }
+
+              const data = await buildDigest(supabase, manager, usersById, range, settingsMap, getCompletions);
+
+              const unsubscribeLinks = await getUnsubscribeLinks(
+                supabase,
+                manager.id,
+                range.period === "weekly" ? "team_digest" : "monthly_digest"
+              );
+              const email = renderManagerDigestEmail(data, {
+                language: resolveEmailLanguage(manager.email_language, settingsMap["email_language"]),
+                branding: getEmailBranding(settingsMap),
+                unsubscribeUrl: unsubscribeLinks.pageUrl,
+              });
+
+              await sendEmail(
+                supabase,
+                {
+                  organizationId: org.id,
+                  emailType,
+                  to: [manager.email],
+                  subject: email.subject,
+                  html: email.html,
+                  unsubscribeUrl: unsubscribeLinks.oneClickUrl,
+                },
+                getEmailSender(settingsMap)
+              );
+
+              console.log(`  ${emailType} sent to ${manager.email} (${range.startDateStr} to ${range.endDateStr})`);
+              results.push({ userId: manager.id, email: manager.email, emailType, success: true });
+            } catch (error: unknown) {
+              console.error(`  Error sending ${emailType} to ${manager.email}:`, error);
+              // Let the next run try again
+              if (claimed) await releaseDigest(supabase, manager.id, range);
+              results.push({
+                userId: manager.id,
+                email: manager.email,
+                emailType,
+                success: false,
+                error: (error as Error).message,
+              });
+            }
+          }
+        }
+      } catch (error: unknown) {
+        console.error(`Error processing organization ${org.id}:`, error);
+      }
+    }
+
+    const failed = results.filter((r) => !r.success).length;
+    console.log(`Manager digests complete. Sent: ${results.length - failed}, Failed: ${failed}`);
+
+    return jsonResponse({ message: "Manager digests processed", results, successful: results.length - failed, failed });
+  } catch (error: unknown) {
+    console.error("Error in send-manager-digest function:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+};
+
+// Records a scheduled digest as sent; false when an earlier run already sent it
+async function claimDigest(supabase: SupabaseClient, managerId: string, range: DigestRange): Promise<boolean> {
+  const { error } = await supabase.from("manager_digest_log").insert({
+    manager_id: managerId,
+    period: range.period,
+    period_end: range.endDateStr,
+  });
+  if (error?.code === "23505") return false;
+  if (error) throw error;
+  return true;
+}
+
+async function releaseDigest(supabase: SupabaseClient, managerId: string, range: DigestRange) {
+  const { error } = await supabase
+    .from("manager_digest_log")
+    .delete()
+    .eq("manager_id", managerId)
+    .eq("period", range.period)
+    .eq("period_end", range.endDateStr);
+  if (error) console.error(`  Error releasing ${range.period} digest for ${managerId}:`, error);
+}
+
+// The digests of periods ending on endDateStr; a requested period is sent whatever the day
+function getDueDigests(
+  preferences: NotificationPreferences,
+  endDateStr: string,
+  requestedPeriod: DigestPeriod | null
+): DigestRange[] {
+  const ranges: DigestRange[] = [];
+
+  const weeklyDue = requestedPeriod
+    ? requestedPeriod === "weekly"
+    : preferences.team_digest_cadence === "weekly" && getDayName(endDateStr) === preferences.digest_day;
+  if (weeklyDue) {
+    ranges.push({
+      period: "weekly",
+      startDateStr: addDaysToDateStr(endDateStr, -(DAYS_PER_WEEK - 1)),
+      endDateStr,
+      previousStartDateStr: addDaysToDateStr(endDateStr, -(2 * DAYS_PER_WEEK - 1)),
+      previousEndDateStr: addDaysToDateStr(endDateStr, -DAYS_PER_WEEK),
+    });
+  }
+
+  // The month up to endDateStr (all of it when scheduled), against the whole previous month
+  const isLastDayOfMonth = addDaysToDateStr(endDateStr, 1).endsWith("-01");
+  const monthlyDue = requestedPeriod
+    ? requestedPeriod === "monthly"
+    : preferences.monthly_team_digest && isLastDayOfMonth;
+  if (monthlyDue) {
+    const startDateStr = `${endDateStr.slice(0, 8)}01`;
+    const previousEndDateStr = addDaysToDateStr(startDateStr, -1);
+    ranges.push({
+      period: "monthly",
+      startDateStr,
+      endDateStr,
+      previousStartDateStr: `${previousEndDateStr.slice(0, 8)}01`,
+      previousEndDateStr,
+    });
+  }
+
+  return ranges;
+}
+
+// Stats of the manager's whole subordinate tree, counted like the app's team overview
+async function buildDigest(
+  supabase: SupabaseClient,
+  manager: OrgUser,
+  usersById: Map<string, OrgUser>,
+  range: DigestRange,
+  settingsMap: Record<string, string>,
+  getCompletions: (member: OrgUser, startDateStr: string, endDateStr: string) => Promise<CountedCompletion[]>
+): Promise<ManagerDigestEmailData> {
+  const { data: subordinates, error: subordinatesError } = await supabase
+    .rpc("get_subordinates", { _user_id: manager.id });
+
+  if (subordinatesError) throw subordinatesError;
+
+  // Inactive users are not in usersById
+  const members = (subordinates || [])
+    .map((s: { subordinate_id: string }) => usersById.get(s.subordinate_id))
+    .filter((m): m is OrgUser => !!m)
+    .sort((a, b) => a.full_name.localeCompare(b.full_name));
+  const memberIds = members.map((m) => m.id);
+
+  const currentCompletions: CountedCompletion[] = [];
+  const previousCompletions: CountedCompletion[] = [];
+  const memberRows: ManagerDigestEmailData["members"] = [];
+
+  for (const member of members) {
+    const completions = await getCompletions(member, range.previousStartDateStr, range.endDateStr);
+    const current = completionsBetween(completions, range.startDateStr, range.endDateStr);
+    const previous = completionsBetween(completions, range.previousStartDateStr, range.previousEndDateStr);
+    currentCompletions.push(...current);
+    previousCompletions.push(...previous);
+
+    if (current.length > 0 || previous.length > 0) {
+      memberRows.push({
+        name: member.full_name,
+        managerName: member.manager_id !== manager.id ? usersById.get(member.manager_id!)?.full_name ?? null : null,
+        current: summarizeCompletions(current),
+        previous: summarizeCompletions(previous),
+      });
+    }
+  }
+
+  // Tasks marked not done most often in the period
+  const missedByTask = new Map<string, { taskName: string; count: number }>();
+  currentCompletions
+    .filter((c) => c.status === "not_done")
+    .forEach((c) => {
+      const entry = missedByTask.get(c.taskId) ?? { taskName: c.taskName, count: 0 };
+      entry.count++;
+      missedByTask.set(c.taskId, entry);
+    });
+  const mostMissed = [...missedByTask.values()]
+    .sort((a, b) => b.count - a.count || a.taskName.localeCompare(b.taskName))
+    .slice(0, MOST_MISSED_SHOWN);
+
+  return {
+    period: range.period,
+    startDateStr: range.startDateStr,
+    endDateStr: range.endDateStr,
+    team: { current: summarizeCompletions(currentCompletions), previous: summarizeCompletions(previousCompletions) },
+    members: memberRows,
+    mostMissed,
+    pendingApprovals: await countPendingApprovals(supabase, memberIds, settingsMap),
+    upcomingLeave: await loadUpcomingLeave(supabase, memberIds, usersById, range.endDateStr),
+    upcomingLeaveDays: UPCOMING_LEAVE_DAYS,
+    reviewUrl: getAppUrl("/dashboard"),
+  };
+}
+
+// Completions and leave requests of the team still waiting for anyone's approval
+async function countPendingApprovals(
+  supabase: SupabaseClient,
+  memberIds: string[],
+  settingsMap: Record<string, string>
+): Promise<ManagerDigestEmailData["pendingApprovals"]> {
+  if (memberIds.length === 0) return { completions: 0, leaveRequests: 0 };
+
+  let completions = 0;
+  // With auto-approve on, updates are approved as they are recorded
+  if (settingsMap["auto_approve_tasks"] !== "true") {
+    const { data: assignments, error: assignError } = await supabase
+      .from("task_assignments")
+      .select("id")
+      .in("assigned_to", memberIds);
+
+    if (assignError) throw assignError;
+
+    if (assignments && assignments.length > 0) {
+      const { count, error } = await supabase
+        .from("task_completions")
+        .select("id", { count: "exact", head: true })
+        .in("assignment_id", assignments.map((a) => a.id))
+        .eq("approval_status", "pending")
+        .in("status", ["completed", "partial"]);
+
+      if (error) throw error;
+      completions = count ?? 0;
+    }
+  }
+
+  const { count: leaveRequests, error: leaveError } = await supabase
+    .from("personal_holidays")
+    .select("id", { count: "exact", head: true })
+    .in("user_id", memberIds)
+    .eq("approval_status", "pending");
+
+  if (leaveError) throw leaveError;
+
+  return { completions, leaveRequests: leaveRequests ?? 0 };
+}
+
+// Approved and pending leave of the team in the days after the period
+async function loadUpcomingLeave(
+  supabase: SupabaseClient,
+  memberIds: string[],
+  usersById: Map<string, OrgUser>,
+  endDateStr: string
+): Promise<ManagerDigestEmailData["upcomingLeave"]> {
+  if (memberIds.length === 0) return [];
+
+  const { data: leave, error } = await supabase
+    .from("personal_holidays")
+    .select("user_id, start_date, end_date, approval_status, leave_type:leave_types (name)")
+    .in("user_id", memberIds)
+    .in("approval_status", ["approved", "pending"])
+    .lte("start_date", addDaysToDateStr(endDateStr, UPCOMING_LEAVE_DAYS))
+    .gt("end_date", endDateStr)
+    .order("start_date");
+
+  if (error) throw error;
+
+  return (leave || []).map((l: {
+    user_id: string;
+    start_date: string;
+    end_date: string;
+    approval_status: string;
+    leave_type: { name: string } | null;
+  }) => ({
+    employeeName: usersById.get(l.user_id)?.full_name || "Unknown",
+    startDate: l.start_date,
+    endDate: l.end_date,
+    leaveType: l.leave_type?.name || null,
+    pending: l.approval_status === "pending",
+  }));
+}
+
+serve(handler);
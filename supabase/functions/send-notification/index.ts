@@ -0,0 +1,309 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getEmailSender, sendEmail } from "../_shared/mail.ts";
+import {
+  getEmailBranding,
+  renderLeaveDecisionEmail,
+  renderRejectionEmail,
+  type EmailRenderOptions,
+  type RenderedEmail,
+} from "../_shared/emailTemplates.ts";
+import { resolveEmailLanguage } from "../_shared/emailTranslations.ts";
+import {
+  getAppUrl,
+  getNotificationPreferences,
+  getUnsubscribeLinks,
+  type UnsubscribeType,
+} from "../_shared/notificationPreferences.ts";
+import { sendToUser, type PushPayload } from "../_shared/push.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// An event notification, on each channel the recipient left on
+interface Notification {
+  recipientId: string;
+  emailType: string;
+  unsubscribeType: UnsubscribeType;
+  email: boolean;
+  push: boolean;
+  pushPayload: PushPayload;
+  render: (options: EmailRenderOptions) => RenderedEmail;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+/**
+ * Tells a user about a decision on something of theirs, by push and/or email as their
+ * notification preferences say. Called by the person who made the decision:
+ *   { type: "rejection", completionId }    a manager rejected a task update
+ *   { type: "leave_decision", leaveId }    a leave request was approved or rejected
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { data: { user: caller } } = await supabase.auth.getUser(token);
+    if (!caller) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { type, completionId, leaveId } = await req.json().catch(() => ({
+      type: null,
+      completionId: null,
+      leaveId: null,
+    }));
+
+    const { data: callerProfile } = await supabase
+      .from("users")
+      .select("full_name")
+      .eq("id", caller.id)
+      .maybeSingle();
+    const callerName = callerProfile?.full_name || "Your manager";
+
+    if (type === "rejection") {
+      return await handleRejection(supabase, caller.id, callerName, completionId);
+    }
+    if (type === "leave_decision") {
+      return await handleLeaveDecision(supabase, caller.id, callerName, leaveId);
+    }
+    return jsonResponse({ error: "type must be rejection or leave_decision" }, 400);
+  } catch (error: unknown) {
+    console.error("Error in send-notification function:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+};
+
+// Alerts whoever recorded a completion that their manager rejected it
+async function handleRejection(
+  supabase: SupabaseClient,
+  callerId: string,
+  callerName: string,
+  completionId: string | null
+): Promise<Response> {
+  if (!completionId) {
+    return jsonResponse({ error: "completionId is required" }, 400);
+  }
+
+  const { data: completion, error } = await supabase
+    .from("task_completions")
+    .select(`
+      id,
+      scheduled_date,
+      approval_status,
+      approved_by,
+      manager_comment,
+      completed_by,
+      assignment:task_assignments (
+        assigned_to,
+        task:tasks (
+          name
+        )
+      )
+    `)
+    .eq("id", completionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!completion) {
+    return jsonResponse({ error: "Completion not found" }, 404);
+  }
+  // Only the manager who rejected the completion can send the alert
+  if (completion.approval_status !== "rejected" || completion.approved_by !== callerId) {
+    return jsonResponse({ error: "Forbidden" }, 403);
+  }
+
+  // A cover who recorded it for a colleague on leave is the one to fix it
+  const recipientId = completion.completed_by || completion.assignment?.assigned_to;
+  if (!recipientId) {
+    return jsonResponse({ message: "No one to notify" });
+  }
+
+  const preferences = await getNotificationPreferences(supabase, recipientId);
+  const taskName = completion.assignment?.task?.name || "Task";
+
+  return jsonResponse(
+    await notify(supabase, {
+      recipientId,
+      emailType: "rejection",
+      unsubscribeType: "rejections",
+      email: preferences.email_rejections,
+      push: preferences.push_rejections,
+      pushPayload: {
+        title: `Rejected: ${taskName}`,
+        body: `${callerName} rejected your update for ${completion.scheduled_date}` +
+          (completion.manager_comment ? `: ${completion.manager_comment}` : ""),
+        url: "/dashboard",
+        tag: `rejection-${completion.id}`,
+      },
+      render: (options) =>
+        renderRejectionEmail(
+          {
+            taskName,
+            managerName: callerName,
+            dateStr: completion.scheduled_date,
+            comment: completion.manager_comment,
+            actionUrl: getAppUrl("/dashboard"),
+          },
+          options
+        ),
+    })
+  );
+}
+
+// Tells the requester their leave was approved or rejected. An approval still waiting for a
+// second approval is not a decision yet
+async function handleLeaveDecision(
+  supabase: SupabaseClient,
+  callerId: string,
+  callerName: string,
+  leaveId: string | null
+): Promise<Response> {
+  if (!leaveId) {
+    return jsonResponse({ error: "leaveId is required" }, 400);
+  }
+
+  const { data: leave, error } = await supabase
+    .from("personal_holidays")
+    .select("id, user_id, start_date, end_date, approval_status, approved_by")
+    .eq("id", leaveId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!leave) {
+    return jsonResponse({ error: "Leave request not found" }, 404);
+  }
+  if (leave.approval_status !== "approved" && leave.approval_status !== "rejected") {
+    return jsonResponse({ message: "No decision to notify about yet" });
+  }
+  // Only the person who made the decision can send the notification
+  if (leave.approved_by !== callerId) {
+    return jsonResponse({ error: "Forbidden" }, 403);
+  }
+
+  const preferences = await getNotificationPreferences(supabase, leave.user_id);
+  const approved = leave.approval_status === "approved";
+  const dates = leave.start_date === leave.end_date ? leave.start_date : `${leave.start_date} to ${leave.end_date}`;
+
+  return jsonResponse(
+    await notify(supabase, {
+      recipientId: leave.user_id,
+      emailType: "leave_decision",
+      unsubscribeType: "leave_decisions",
+      email: preferences.email_leave_decisions,
+      push: preferences.push_leave_decisions,
+      pushPayload: {
+        title: approved ? "Leave approved" : "Leave not approved",
+        body: `${callerName} ${approved ? "approved" : "did not approve"} your leave for ${dates}`,
+        url: "/dashboard",
+        tag: `leave-${leave.id}`,
+      },
+      render: (options) =>
+        renderLeaveDecisionEmail(
+          {
+            approved,
+            approverName: callerName,
+            startDateStr: leave.start_date,
+            endDateStr: leave.end_date,
+            actionUrl: getAppUrl("/dashboard"),
+          },
+          options
+        ),
+    })
+  );
+}
+
+// Sends the notification on the enabled channels; a failure on one doesn't stop the other
+async function notify(supabase: SupabaseClient, notification: Notification) {
+  const result: { devices: number; emailed: boolean; errors: string[] } = { devices: 0, emailed: false, errors: [] };
+
+  if (notification.push) {
+    try {
+      result.devices = await sendToUser(supabase, notification.recipientId, notification.pushPayload);
+    } catch (error: unknown) {
+      console.error(`Error sending push to ${notification.recipientId}:`, error);
+      result.errors.push((error as Error).message);
+    }
+  }
+
+  if (notification.email) {
+    try {
+      await sendNotificationEmail(supabase, notification);
+      result.emailed = true;
+    } catch (error: unknown) {
+      console.error(`Error emailing ${notification.recipientId}:`, error);
+      result.errors.push((error as Error).message);
+    }
+  }
+
+  return result;
+}
+
+// Renders the email with the recipient's organization branding, language and unsubscribe link
+async function sendNotificationEmail(supabase: SupabaseClient, notification: Notification) {
+  const { data: recipient, error: recipientError } = await supabase
+    .from("users")
+    .select("id, email, organization_id, email_language, is_active")
+    .eq("id", notification.recipientId)
+    .single();
+
+  if (recipientError) throw recipientError;
+  if (!recipient.is_active) return;
+
+  const { data: orgSettings, error: settingsError } = await supabase
+    .from("organization_settings")
+    .select("setting_key, setting_value")
+    .eq("organization_id", recipient.organization_id);
+
+  if (settingsError) throw settingsError;
+
+  const settingsMap: Record<string, string> = {};
+  orgSettings?.forEach((s) => {
+    settingsMap[s.setting_key] = s.setting_value;
+  });
+
+  const unsubscribeLinks = await getUnsubscribeLinks(supabase, recipient.id, notification.unsubscribeType);
+  const email = notification.render({
+    language: resolveEmailLanguage(recipient.email_language, settingsMap["email_language"]),
+    branding: getEmailBranding(settingsMap),
+    unsubscribeUrl: unsubscribeLinks.pageUrl,
+  });
+
+  await sendEmail(
+    supabase,
+    {
+      organizationId: recipient.organization_id,
+      emailType: notification.emailType,
+      to: [recipient.email],
+      subject: email.subject,
+      html: email.html,
+      unsubscribeUrl: unsubscribeLinks.oneClickUrl,
+    },
+    getEmailSender(settingsMap)
+  );
+}
+
+serve(handler);
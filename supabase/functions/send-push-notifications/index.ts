@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { loadNotificationPreferences } from "../_shared/notificationPreferences.ts";
+import { configureWebPush, sendToUser } from "../_shared/push.ts";
+import { formatDateInTimeZone, getMinutesInTimeZone, timeToMinutes } from "../_shared/recurrence.ts";
+import { fetchTasksDueOn, type DueTask } from "../_shared/schedule.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Scheduled notifications go out within this long after their time. With a run every 5 minutes
+// each is sent once (push_notification_log stops repeats), and never hours late
+const SEND_WINDOW_MINUTES = 30;
+
+// Task names listed in a notification before "and N more"
+const TASK_NAMES_SHOWN = 3;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    configureWebPush();
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+
+    // Scheduled runs notify everyone, so only the scheduler (with the service role key) starts them.
+    // Event notifications (rejections, leave decisions) are sent by send-notification
+    if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+      return jsonResponse({ error: "Forbidden" }, 403);
+    }
+
+    console.log("Starting scheduled push notifications");
+    const results = await sendScheduledNotifications(supabase, new Date());
+    return jsonResponse({ message: `Sent ${results.length} notifications`, results });
+  } catch (error: unknown) {
+    console.error("Error in send-push-notifications function:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+};
+
+const isInSendWindow = (nowMinutes: number, targetMinutes: number) =>
+  nowMinutes >= targetMinutes && nowMinutes < targetMinutes + SEND_WINDOW_MINUTES;
+
+function describeTasks(tasks: DueTask[]): string {
+  const names = tasks.slice(0, TASK_NAMES_SHOWN).map((t) => t.taskName).join(", ");
+  const more = tasks.length - TASK_NAMES_SHOWN;
+  return more > 0 ? `${names} and ${more} more` : names;
+}
+
+// Records that the notification is being sent today; false if a previous run already sent it
+async function claimNotification(
+  supabase: SupabaseClient,
+  userId: string,
+  notificationType: "daily_tasks" | "due_reminder",
+  dateStr: string
+): Promise<boolean> {
+  const { error } = await supabase.from("push_notification_log").insert({
+    user_id: userId,
+    notification_type: notificationType,
+    notification_date: dateStr,
+  });
+  if (error?.code === "23505") return false;
+  if (error) throw error;
+  return true;
+}
+
+// The morning "your tasks today" summary and the reminder of open tasks before the daily
+// summary email, for every user with notifications enabled on a device
+async function sendScheduledNotifications(supabase: SupabaseClient, now: Date) {
+  const results: Array<{ userId: string; type: string; devices: number }> = [];
+
+  const { data: subscriptions, error: subscriptionError } = await supabase
+    .from("push_subscriptions")
+    .select("user_id");
+
+  if (subscriptionError) throw subscriptionError;
+
+  const userIds = [...new Set((subscriptions || []).map((s) => s.user_id))];
+  if (userIds.length === 0) return results;
+
+  const { data: users, error: usersError } = await supabase
+    .from("users")
+    .select("id, full_name, organization_id, timezone, holiday_calendar_id")
+    .in("id", userIds)
+    .eq("is_active", true);
+
+  if (usersError) throw usersError;
+
+  const preferencesByUser = await loadNotificationPreferences(supabase, userIds);
+
+  const organizationIds = [...new Set((users || []).map((u) => u.organization_id))];
+  const { data: orgSettings } = await supabase
+    .from("organization_settings")
+    .select("organization_id, setting_key, setting_value")
+    .in("organization_id", organizationIds)
+    .in("setting_key", ["timezone", "email_notification_time"]);
+  const getOrgSetting = (organizationId: string, key: string) =>
+    orgSettings?.find((s) => s.organization_id === organizationId && s.setting_key === key)?.setting_value;
+
+  for (const user of users || []) {
+    try {
+      const preferences = preferencesByUser.get(user.id)!;
+      // Day boundaries come from the user's timezone override, falling back to the organization's
+      const timezone = user.timezone || getOrgSetting(user.organization_id, "timezone") || "Asia/Kolkata";
+      const todayStr = formatDateInTimeZone(now, timezone);
+      const nowMinutes = getMinutesInTimeZone(now, timezone);
+
+      let dueTasks: DueTask[] | null = null;
+      const getDueTasks = async () => (dueTasks ??= await fetchTasksDueOn(supabase, user, todayStr, timezone));
+
+      if (
+        preferences.push_daily_tasks &&
+        isInSendWindow(nowMinutes, timeToMinutes(preferences.daily_tasks_time)) &&
+        (await claimNotification(supabase, user.id, "daily_tasks", todayStr))
+      ) {
+        const tasks = await getDueTasks();
+        if (tasks.length > 0) {
+          console.log(`Sending daily tasks notification to ${user.id} (${tasks.length} tasks)`);
+          const devices = await sendToUser(supabase, user.id, {
+            title: "Your tasks today",
+            body: `${tasks.length} task${tasks.length === 1 ? "" : "s"} due: ${describeTasks(tasks)}`,
+            url: "/dashboard",
+            tag: "daily-tasks",
+          });
+          results.push({ userId: user.id, type: "daily_tasks", devices });
+        }
+      }
+
+      // Reminders go out ahead of the organization's daily summary email
+      const emailTime = getOrgSetting(user.organization_id, "email_notification_time") || "18:00";
+      const reminderMinutes = timeToMinutes(emailTime) - preferences.due_reminder_minutes;
+      if (
+        preferences.push_due_reminders &&
+        reminderMinutes >= 0 &&
+        isInSendWindow(nowMinutes, reminderMinutes) &&
+        (await claimNotification(supabase, user.id, "due_reminder", todayStr))
+      ) {
+        const openTasks = (await getDueTasks()).filter((t) => t.completionStatus === null);
+        if (openTasks.length > 0) {
+          console.log(`Sending due reminder to ${user.id} (${openTasks.length} open tasks)`);
+          const devices = await sendToUser(supabase, user.id, {
+            title: `${openTasks.length} task${openTasks.length === 1 ? "" : "s"} still open`,
+            body: `Update before today's summary at ${emailTime}: ${describeTasks(openTasks)}`,
+            url: "/dashboard",
+            tag: "due-reminder",
+          });
+          results.push({ userId: user.id, type: "due_reminder", devices });
+        }
+      }
+    } catch (error) {
+      console.error(`Error sending scheduled notifications to user ${user.id}:`, error);
+    }
+  }
+
+  return results;
+}
+
+serve(handler);
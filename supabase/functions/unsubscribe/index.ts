@@ -0,0 +1,166 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  isUnsubscribeType,
+  UNSUBSCRIBE_UPDATES,
+  type UnsubscribeType,
+} from "../_shared/notificationPreferences.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Max-Age": "86400",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// What each link turns off, for the confirmation page (mirrors src/pages/Unsubscribe.tsx)
+const UNSUBSCRIBE_DESCRIPTIONS: Record<UnsubscribeType, string> = {
+  daily_summary: "your task summary emails",
+  team_digest: "team summary emails",
+  monthly_digest: "month-end team digests",
+  approval_requests: "approval request emails",
+  escalations: "escalation emails",
+  rejections: "emails about rejected completions",
+  leave_decisions: "emails about leave decisions",
+  all: "all Momentum emails",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+/**
+ * Turns off the notification an email's unsubscribe link is for. The token in the link is
+ * the only credential, so no sign-in is needed (verify_jwt is off).
+ *   POST ?token=&type=       one-click unsubscribe from the List-Unsubscribe header (RFC 8058),
+ *                            or the button of the confirmation page below
+ *   POST { token, type }     the app's /unsubscribe page
+ *   GET ?token=&type=        the link itself, when APP_URL isn't set. Only shows a confirmation
+ *                            page: link scanners and prefetching open links without the user
+ */
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const url = new URL(req.url);
+    let token = url.searchParams.get("token");
+    let type = url.searchParams.get("type");
+
+    // Mail clients post "List-Unsubscribe=One-Click" as a form, and so does the confirmation
+    // page (with source=page); only the app sends JSON
+    let fromPage = false;
+    const contentType = req.headers.get("content-type") || "";
+    if (req.method === "POST" && contentType.includes("application/json")) {
+      const body = await req.json().catch(() => ({}));
+      token = token || (body.token ?? null);
+      type = type || (body.type ?? null);
+    } else if (req.method === "POST" && contentType.includes("application/x-www-form-urlencoded")) {
+      const form = await req.formData().catch(() => null);
+      fromPage = form?.get("source") === "page";
+    }
+
+    if (!token || !UUID_PATTERN.test(token) || !isUnsubscribeType(type)) {
+      return respond(req.method === "GET" || fromPage, { error: "Invalid unsubscribe link" }, 400);
+    }
+
+    if (req.method === "GET") {
+      return confirmationPage(token, type);
+    }
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: unsubscribeToken, error: tokenError } = await supabase
+      .from("email_unsubscribe_tokens")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (tokenError) throw tokenError;
+    if (!unsubscribeToken) {
+      return respond(fromPage, { error: "Invalid unsubscribe link" }, 404);
+    }
+
+    const { error: updateError } = await supabase
+      .from("notification_preferences")
+      .upsert(
+        {
+          user_id: unsubscribeToken.user_id,
+          ...UNSUBSCRIBE_UPDATES[type],
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      );
+
+    if (updateError) throw updateError;
+
+    console.log(`User ${unsubscribeToken.user_id} unsubscribed from ${type}`);
+    return respond(fromPage, { message: "You have been unsubscribed", type });
+  } catch (error: unknown) {
+    console.error("Error in unsubscribe function:", error);
+    return respond(false, { error: (error as Error).message }, 500);
+  }
+};
+
+const htmlPage = (title: string, content: string, status = 200) =>
+  new Response(
+    `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+</head>
+<body style="font-family: sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem; text-align: center;">
+<h1 style="font-size: 1.5rem;">${title}</h1>
+${content}
+</body>
+</html>`,
+    {
+      status,
+      headers: { "Content-Type": "text/html; charset=utf-8", ...corsHeaders },
+    }
+  );
+
+// Asks before unsubscribing; the button posts back to this function. token and type are validated
+function confirmationPage(token: string, type: UnsubscribeType) {
+  const query = `token=${encodeURIComponent(token)}&type=${type}`;
+  return htmlPage(
+    "Unsubscribe from Momentum emails?",
+    `<p>You will no longer receive ${UNSUBSCRIBE_DESCRIPTIONS[type]}.</p>
+<form method="post" action="?${query}">
+<input type="hidden" name="source" value="page">
+<button type="submit" style="font-size: 1rem; padding: 0.5rem 1.5rem;">Unsubscribe</button>
+</form>`
+  );
+}
+
+// The confirmation page's button gets a page back; mail clients and the app get JSON
+function respond(asPage: boolean, body: { message?: string; error?: string; type?: string }, status = 200) {
+  if (!asPage) return jsonResponse(body, status);
+  return htmlPage(
+    body.error ? "Couldn't unsubscribe" : "You're unsubscribed",
+    body.error
+      ? "<p>This unsubscribe link is not valid. You can change your notification settings in Momentum.</p>"
+      : "<p>You can turn these emails back on in Momentum's notification settings.</p>",
+    status
+  );
+}
+
+serve(handler);
@@ -0,0 +1,28 @@
+-- Per-user timezone override. When NULL, the organization's "timezone" setting
+-- in organization_settings defines the user's day boundaries.
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN public.users.timezone IS
+  'IANA timezone (e.g. Europe/London) overriding the organization timezone for this user. NULL = use organization setting.';
+
+-- Reject unknown timezone names so recurrence and the daily summary never see an invalid zone
+CREATE OR REPLACE FUNCTION public.validate_user_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.timezone IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Invalid timezone: %', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_user_timezone ON public.users;
+CREATE TRIGGER validate_user_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_user_timezone();
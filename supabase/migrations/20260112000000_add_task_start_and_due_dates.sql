@@ -0,0 +1,33 @@
+-- Explicit start date for a task's recurrence series (previously derived from created_at)
+-- and an optional due date for one-time tasks
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS start_date DATE,
+  ADD COLUMN IF NOT EXISTS due_date DATE;
+
+-- Backfill start_date with the creation date in the creator's organization timezone,
+-- which is what recurrence expansion used before this column existed
+UPDATE public.tasks t
+SET start_date = (t.created_at AT TIME ZONE COALESCE(
+  (
+    SELECT os.setting_value
+    FROM public.organization_settings os
+    JOIN public.users u ON u.organization_id = os.organization_id
+    WHERE u.id = t.created_by
+      AND os.setting_key = 'timezone'
+    LIMIT 1
+  ),
+  'Asia/Kolkata'
+))::date
+WHERE t.start_date IS NULL;
+
+ALTER TABLE public.tasks
+  ALTER COLUMN start_date SET DEFAULT CURRENT_DATE,
+  ALTER COLUMN start_date SET NOT NULL;
+
+-- A due date can never precede the start date
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_due_date_after_start_date
+  CHECK (due_date IS NULL OR due_date >= start_date);
+
+COMMENT ON COLUMN public.tasks.start_date IS 'First day the task (or its recurrence series) applies, in the organization timezone';
+COMMENT ON COLUMN public.tasks.due_date IS 'Due day for one-time tasks (recurrence_type = none). NULL = due on start_date';
@@ -0,0 +1,153 @@
+-- Store task recurrence as canonical RFC 5545 text (RRULE plus optional EXDATE lines)
+-- instead of the legacy recurrence_config JSON. The series starts on tasks.start_date,
+-- so the stored rule carries no DTSTART.
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+
+COMMENT ON COLUMN public.tasks.recurrence_rule IS
+  'RFC 5545 recurrence, e.g. "RRULE:FREQ=WEEKLY;BYDAY=MO,WE" with optional "EXDATE;VALUE=DATE:..." line. DTSTART is tasks.start_date. NULL for one-time tasks.';
+
+-- One-off helpers for converting legacy configs (dropped at the end of this migration)
+CREATE OR REPLACE FUNCTION public.legacy_recurrence_list(_values JSONB, _offset INT DEFAULT 0)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT string_agg(((v)::INT + _offset)::TEXT, ',' ORDER BY ord)
+  FROM jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(_values) = 'array' THEN _values ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS t(v, ord)
+$$;
+
+-- Weekday numbers to BYDAY codes. Legacy configs use 0=Sunday, except the
+-- catch-all branch which passed rrule.js weekday numbers (0=Monday) through unchanged.
+CREATE OR REPLACE FUNCTION public.legacy_recurrence_weekdays(_values JSONB, _monday_first BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT string_agg(
+    CASE WHEN _monday_first
+      THEN (ARRAY['MO','TU','WE','TH','FR','SA','SU'])[((v)::INT % 7) + 1]
+      ELSE (ARRAY['SU','MO','TU','WE','TH','FR','SA'])[((v)::INT % 7) + 1]
+    END,
+    ',' ORDER BY ord
+  )
+  FROM jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(_values) = 'array' THEN _values ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS t(v, ord)
+$$;
+
+-- Mirrors the legacy expansion in useTaskRecurrence so converted tasks keep their schedule
+CREATE OR REPLACE FUNCTION public.legacy_recurrence_to_rrule(_recurrence_type TEXT, _config JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  cfg JSONB := COALESCE(_config, '{}'::jsonb);
+  freq TEXT;
+  parts TEXT[] := ARRAY[]::TEXT[];
+  interval_value INT;
+  weekdays TEXT;
+  set_positions TEXT;
+  month_days TEXT;
+  months TEXT;
+BEGIN
+  IF _recurrence_type IS NULL OR _recurrence_type = 'none' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Custom tasks saved without a config never had an occurrence; leave them without a rule,
+  -- which custom tasks expand to nothing, rather than starting a series
+  IF _recurrence_type = 'custom' AND (_config IS NULL OR _config = '{}'::jsonb) THEN
+    RETURN NULL;
+  END IF;
+
+  freq := CASE WHEN _recurrence_type = 'custom' THEN COALESCE(cfg->>'frequency', 'daily') ELSE _recurrence_type END;
+  IF freq NOT IN ('daily', 'weekly', 'monthly', 'yearly') THEN
+    freq := 'daily';
+  END IF;
+  parts := parts || ('FREQ=' || upper(freq));
+
+  interval_value := COALESCE(NULLIF(cfg->>'interval', '')::INT, 1);
+  IF interval_value > 1 THEN
+    parts := parts || ('INTERVAL=' || interval_value);
+  END IF;
+
+  set_positions := public.legacy_recurrence_list(cfg->'bysetpos');
+  month_days := public.legacy_recurrence_list(cfg->'bymonthday');
+  -- Legacy months are 0-based
+  months := public.legacy_recurrence_list(cfg->'bymonth', 1);
+
+  IF freq = 'yearly' THEN
+    weekdays := public.legacy_recurrence_weekdays(cfg->'byweekday');
+    IF cfg->>'yearlyType' = 'weekday' AND set_positions IS NOT NULL AND weekdays IS NOT NULL AND months IS NOT NULL THEN
+      parts := parts || ('BYMONTH=' || months) || ('BYDAY=' || weekdays) || ('BYSETPOS=' || set_positions);
+    ELSIF cfg->>'yearlyType' = 'date' AND COALESCE(NULLIF(cfg->>'dayOfMonth', '')::INT, 0) > 0 AND months IS NOT NULL THEN
+      parts := parts || ('BYMONTH=' || months) || ('BYMONTHDAY=' || NULLIF(cfg->>'dayOfMonth', '')::INT);
+    ELSIF months IS NOT NULL AND month_days IS NOT NULL THEN
+      parts := parts || ('BYMONTH=' || months) || ('BYMONTHDAY=' || month_days);
+    ELSIF months IS NOT NULL THEN
+      parts := parts || ('BYMONTH=' || months);
+    END IF;
+  ELSIF freq = 'monthly' THEN
+    weekdays := public.legacy_recurrence_weekdays(cfg->'byweekday');
+    IF cfg->>'monthlyType' = 'weekday' AND set_positions IS NOT NULL AND weekdays IS NOT NULL THEN
+      parts := parts || ('BYDAY=' || weekdays) || ('BYSETPOS=' || set_positions);
+    ELSIF cfg->>'monthlyType' = 'date' AND COALESCE(NULLIF(cfg->>'dayOfMonth', '')::INT, 0) > 0 THEN
+      parts := parts || ('BYMONTHDAY=' || NULLIF(cfg->>'dayOfMonth', '')::INT);
+    ELSIF month_days IS NOT NULL THEN
+      parts := parts || ('BYMONTHDAY=' || month_days);
+    END IF;
+  ELSIF freq = 'weekly' THEN
+    weekdays := public.legacy_recurrence_weekdays(
+      CASE WHEN jsonb_typeof(cfg->'days') = 'array' THEN cfg->'days' ELSE cfg->'byweekday' END
+    );
+    IF weekdays IS NOT NULL THEN
+      parts := parts || ('BYDAY=' || weekdays);
+    END IF;
+  ELSE
+    weekdays := public.legacy_recurrence_weekdays(cfg->'byweekday', true);
+    IF weekdays IS NOT NULL THEN
+      parts := parts || ('BYDAY=' || weekdays);
+    END IF;
+    IF month_days IS NOT NULL THEN
+      parts := parts || ('BYMONTHDAY=' || month_days);
+    END IF;
+    IF months IS NOT NULL THEN
+      parts := parts || ('BYMONTH=' || months);
+    END IF;
+  END IF;
+
+  -- End condition: explicit end settings first, then the legacy until/count keys
+  IF cfg->>'endType' = 'on' AND COALESCE(cfg->>'endDate', '') <> '' THEN
+    parts := parts || ('UNTIL=' || replace(left(cfg->>'endDate', 10), '-', ''));
+  ELSIF cfg->>'endType' = 'after' AND COALESCE(NULLIF(cfg->>'occurrences', '')::INT, 0) > 0 THEN
+    parts := parts || ('COUNT=' || NULLIF(cfg->>'occurrences', '')::INT);
+  ELSIF COALESCE(cfg->>'until', '') <> '' THEN
+    parts := parts || ('UNTIL=' || replace(left(cfg->>'until', 10), '-', ''));
+  ELSIF COALESCE(NULLIF(cfg->>'count', '')::INT, 0) > 0 THEN
+    parts := parts || ('COUNT=' || NULLIF(cfg->>'count', '')::INT);
+  END IF;
+
+  RETURN 'RRULE:' || array_to_string(parts, ';');
+END;
+$$;
+
+-- Convert every existing task
+UPDATE public.tasks
+SET recurrence_rule = public.legacy_recurrence_to_rrule(recurrence_type, recurrence_config)
+WHERE recurrence_type <> 'none';
+
+-- Recurring tasks must always carry a rule
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_recurrence_rule_required
+  CHECK (recurrence_type = 'none' OR recurrence_rule LIKE 'RRULE:%');
+
+ALTER TABLE public.tasks
+  DROP COLUMN recurrence_config;
+
+DROP FUNCTION public.legacy_recurrence_to_rrule(TEXT, JSONB);
+DROP FUNCTION public.legacy_recurrence_weekdays(JSONB, BOOLEAN);
+DROP FUNCTION public.legacy_recurrence_list(JSONB, INT);
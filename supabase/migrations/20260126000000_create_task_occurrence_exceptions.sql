@@ -0,0 +1,117 @@
+-- Per-occurrence exceptions for recurring tasks: skip one instance, move it to another
+-- day, or override its benchmark, without editing the task's recurrence rule
+CREATE TYPE public.task_exception_action AS ENUM ('skip', 'reschedule', 'override');
+
+CREATE TABLE public.task_occurrence_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+  -- The date the occurrence was originally scheduled for (organization timezone)
+  occurrence_date DATE NOT NULL,
+  action public.task_exception_action NOT NULL,
+  -- Target day for 'reschedule'
+  new_date DATE,
+  -- Benchmark for this occurrence only ('override', or a rescheduled occurrence)
+  benchmark_override NUMERIC,
+  reason TEXT,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- One exception per occurrence
+  UNIQUE (task_id, occurrence_date),
+  CONSTRAINT task_exception_reschedule_has_date CHECK (
+    (action = 'reschedule' AND new_date IS NOT NULL AND new_date <> occurrence_date)
+    OR (action <> 'reschedule' AND new_date IS NULL)
+  ),
+  CONSTRAINT task_exception_override_has_benchmark CHECK (
+    action <> 'override' OR benchmark_override IS NOT NULL
+  ),
+  CONSTRAINT task_exception_benchmark_positive CHECK (
+    benchmark_override IS NULL OR benchmark_override > 0
+  )
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX idx_task_occurrence_exceptions_task_id ON public.task_occurrence_exceptions(task_id);
+CREATE INDEX idx_task_occurrence_exceptions_new_date ON public.task_occurrence_exceptions(new_date)
+  WHERE new_date IS NOT NULL;
+
+CREATE TRIGGER update_task_occurrence_exceptions_updated_at
+  BEFORE UPDATE ON public.task_occurrence_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.task_occurrence_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Whoever can see the task (creator, assignees and their managers) can see its exceptions
+CREATE POLICY "Users can view task occurrence exceptions"
+  ON public.task_occurrence_exceptions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_occurrence_exceptions.task_id
+      AND (t.created_by = auth.uid() OR EXISTS (
+        SELECT 1 FROM public.task_assignments ta
+        WHERE ta.task_id = t.id
+        AND (ta.assigned_to = auth.uid() OR public.is_manager_of(auth.uid(), ta.assigned_to))
+      ))
+    )
+  );
+
+-- Task creators, managers of an assignee and admins can manage exceptions
+CREATE POLICY "Task owners and managers can create task occurrence exceptions"
+  ON public.task_occurrence_exceptions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_occurrence_exceptions.task_id
+      AND (
+        t.created_by = auth.uid()
+        OR public.has_role(auth.uid(), 'admin')
+        OR EXISTS (
+          SELECT 1 FROM public.task_assignments ta
+          WHERE ta.task_id = t.id AND public.is_manager_of(auth.uid(), ta.assigned_to)
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Task owners and managers can update task occurrence exceptions"
+  ON public.task_occurrence_exceptions FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_occurrence_exceptions.task_id
+      AND (
+        t.created_by = auth.uid()
+        OR public.has_role(auth.uid(), 'admin')
+        OR EXISTS (
+          SELECT 1 FROM public.task_assignments ta
+          WHERE ta.task_id = t.id AND public.is_manager_of(auth.uid(), ta.assigned_to)
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Task owners and managers can delete task occurrence exceptions"
+  ON public.task_occurrence_exceptions FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tasks t
+      WHERE t.id = task_occurrence_exceptions.task_id
+      AND (
+        t.created_by = auth.uid()
+        OR public.has_role(auth.uid(), 'admin')
+        OR EXISTS (
+          SELECT 1 FROM public.task_assignments ta
+          WHERE ta.task_id = t.id AND public.is_manager_of(auth.uid(), ta.assigned_to)
+        )
+      )
+    )
+  );
+
+COMMENT ON TABLE public.task_occurrence_exceptions IS 'Single-occurrence changes to a recurring task: skip, reschedule to new_date, or override the benchmark';
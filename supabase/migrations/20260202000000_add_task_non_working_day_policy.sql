@@ -0,0 +1,12 @@
+-- What happens to a task occurrence that falls on a non-working day (weekly off,
+-- public holiday or the assignee's approved leave):
+--   previous - due on the previous working day (e.g. statutory filings)
+--   next     - due on the next working day (previous behaviour, default)
+--   skip     - the occurrence is dropped
+--   ignore   - due on that day anyway (e.g. security checks)
+CREATE TYPE public.non_working_day_policy AS ENUM ('previous', 'next', 'skip', 'ignore');
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS non_working_day_policy public.non_working_day_policy NOT NULL DEFAULT 'next';
+
+COMMENT ON COLUMN public.tasks.non_working_day_policy IS 'How an occurrence on a non-working day is handled: previous, next, skip or ignore (do anyway)';
@@ -0,0 +1,180 @@
+-- Organization-scoped holiday calendars. public_holidays and weekly_offs were shared by
+-- every organization on the project; they now belong to one organization and optionally
+-- to one holiday calendar (e.g. an office location). Users are assigned to a calendar.
+--
+-- Rows with calendar_id NULL apply to the whole organization. A user sees the
+-- organization-wide public holidays plus those of their calendar. Weekly offs defined on
+-- a calendar replace the organization-wide weekly offs for its members.
+
+CREATE TABLE public.holiday_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  -- Office location the calendar is for, e.g. 'Bengaluru'
+  location TEXT,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE INDEX idx_holiday_calendars_organization_id ON public.holiday_calendars(organization_id);
+
+CREATE TRIGGER update_holiday_calendars_updated_at
+  BEFORE UPDATE ON public.holiday_calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Calendar assignment per user (NULL = organization-wide holidays only)
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS holiday_calendar_id UUID REFERENCES public.holiday_calendars(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.users.holiday_calendar_id IS
+  'Holiday calendar (office location) whose public holidays and weekly offs apply to this user. NULL = organization-wide only.';
+
+-- Scope public holidays and weekly offs to an organization and optional calendar
+ALTER TABLE public.public_holidays
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ADD COLUMN calendar_id UUID REFERENCES public.holiday_calendars(id) ON DELETE CASCADE;
+
+ALTER TABLE public.weekly_offs
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ADD COLUMN calendar_id UUID REFERENCES public.holiday_calendars(id) ON DELETE CASCADE;
+
+-- The same date / weekday can now exist once per organization and calendar
+ALTER TABLE public.public_holidays DROP CONSTRAINT IF EXISTS public_holidays_holiday_date_key;
+ALTER TABLE public.weekly_offs DROP CONSTRAINT IF EXISTS weekly_offs_day_of_week_key;
+
+-- Existing holidays were shared by every organization: give each organization its own copy
+INSERT INTO public.public_holidays (holiday_name, holiday_date, description, is_recurring, organization_id, created_at)
+SELECT h.holiday_name, h.holiday_date, h.description, h.is_recurring, o.id, h.created_at
+FROM public.public_holidays h
+CROSS JOIN public.organizations o
+WHERE h.organization_id IS NULL;
+
+INSERT INTO public.weekly_offs (day_of_week, description, organization_id, created_at)
+SELECT w.day_of_week, w.description, o.id, w.created_at
+FROM public.weekly_offs w
+CROSS JOIN public.organizations o
+WHERE w.organization_id IS NULL;
+
+DELETE FROM public.public_holidays WHERE organization_id IS NULL;
+DELETE FROM public.weekly_offs WHERE organization_id IS NULL;
+
+ALTER TABLE public.public_holidays ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE public.weekly_offs ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE UNIQUE INDEX public_holidays_org_calendar_date_key ON public.public_holidays (
+  organization_id, COALESCE(calendar_id, '00000000-0000-0000-0000-000000000000'::uuid), holiday_date
+);
+CREATE UNIQUE INDEX weekly_offs_org_calendar_day_key ON public.weekly_offs (
+  organization_id, COALESCE(calendar_id, '00000000-0000-0000-0000-000000000000'::uuid), day_of_week
+);
+
+CREATE INDEX idx_public_holidays_organization_id ON public.public_holidays(organization_id);
+CREATE INDEX idx_weekly_offs_organization_id ON public.weekly_offs(organization_id);
+
+-- A calendar must belong to the same organization as the holiday, weekly off or user using it
+CREATE OR REPLACE FUNCTION public.validate_holiday_calendar_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _calendar_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'users' THEN
+    _calendar_id := NEW.holiday_calendar_id;
+  ELSE
+    _calendar_id := NEW.calendar_id;
+  END IF;
+
+  IF _calendar_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.holiday_calendars
+    WHERE id = _calendar_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Holiday calendar % does not belong to this organization', _calendar_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_public_holiday_calendar
+  BEFORE INSERT OR UPDATE OF calendar_id, organization_id ON public.public_holidays
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_holiday_calendar_organization();
+
+CREATE TRIGGER validate_weekly_off_calendar
+  BEFORE INSERT OR UPDATE OF calendar_id, organization_id ON public.weekly_offs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_holiday_calendar_organization();
+
+CREATE TRIGGER validate_user_holiday_calendar
+  BEFORE INSERT OR UPDATE OF holiday_calendar_id, organization_id ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_holiday_calendar_organization();
+
+-- RLS for holiday_calendars: members see their organization's calendars, admins manage them
+ALTER TABLE public.holiday_calendars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view organization holiday calendars"
+  ON public.holiday_calendars FOR SELECT
+  TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid()));
+
+CREATE POLICY "Admins can manage organization holiday calendars"
+  ON public.holiday_calendars FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    AND organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  );
+
+-- Replace the project-wide policies with organization-scoped ones
+DROP POLICY IF EXISTS "Everyone can view weekly offs" ON public.weekly_offs;
+DROP POLICY IF EXISTS "Admins can manage weekly offs" ON public.weekly_offs;
+DROP POLICY IF EXISTS "Everyone can view public holidays" ON public.public_holidays;
+DROP POLICY IF EXISTS "Admins can manage public holidays" ON public.public_holidays;
+
+CREATE POLICY "Users can view organization weekly offs"
+  ON public.weekly_offs FOR SELECT
+  TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid()));
+
+CREATE POLICY "Admins can manage organization weekly offs"
+  ON public.weekly_offs FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    AND organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can view organization public holidays"
+  ON public.public_holidays FOR SELECT
+  TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid()));
+
+CREATE POLICY "Admins can manage organization public holidays"
+  ON public.public_holidays FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    AND organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  );
+
+COMMENT ON TABLE public.holiday_calendars IS 'Per-organization holiday calendars (e.g. one per office location) for public holidays and weekly offs';
+COMMENT ON COLUMN public.public_holidays.calendar_id IS 'Holiday calendar this holiday belongs to. NULL = whole organization.';
+COMMENT ON COLUMN public.weekly_offs.calendar_id IS 'Holiday calendar these weekly offs belong to; they replace the organization-wide weekly offs for its members. NULL = whole organization.';
@@ -0,0 +1,42 @@
+-- Nth-week and alternate-week weekly offs (e.g. 2nd and 4th Saturday off, alternate Saturdays).
+-- A row with weeks_of_month NULL and week_interval 1 is off every week, as before.
+--   weeks_of_month: occurrences of the weekday in the month that are off (1-5)
+--   week_interval:  2 = every other week, counted from the week containing anchor_date
+ALTER TABLE public.weekly_offs
+  ADD COLUMN weeks_of_month SMALLINT[],
+  ADD COLUMN week_interval SMALLINT NOT NULL DEFAULT 1,
+  ADD COLUMN anchor_date DATE;
+
+ALTER TABLE public.user_weekly_offs
+  ADD COLUMN weeks_of_month SMALLINT[],
+  ADD COLUMN week_interval SMALLINT NOT NULL DEFAULT 1,
+  ADD COLUMN anchor_date DATE;
+
+ALTER TABLE public.weekly_offs
+  ADD CONSTRAINT weekly_offs_weeks_of_month_valid CHECK (
+    weeks_of_month IS NULL OR (
+      cardinality(weeks_of_month) > 0 AND weeks_of_month <@ ARRAY[1, 2, 3, 4, 5]::SMALLINT[]
+    )
+  ),
+  ADD CONSTRAINT weekly_offs_week_interval_valid CHECK (
+    week_interval BETWEEN 1 AND 4
+    AND (week_interval = 1 OR anchor_date IS NOT NULL)
+    AND (week_interval = 1 OR weeks_of_month IS NULL)
+  );
+
+ALTER TABLE public.user_weekly_offs
+  ADD CONSTRAINT user_weekly_offs_weeks_of_month_valid CHECK (
+    weeks_of_month IS NULL OR (
+      cardinality(weeks_of_month) > 0 AND weeks_of_month <@ ARRAY[1, 2, 3, 4, 5]::SMALLINT[]
+    )
+  ),
+  ADD CONSTRAINT user_weekly_offs_week_interval_valid CHECK (
+    week_interval BETWEEN 1 AND 4
+    AND (week_interval = 1 OR anchor_date IS NOT NULL)
+    AND (week_interval = 1 OR weeks_of_month IS NULL)
+  );
+
+COMMENT ON COLUMN public.weekly_offs.weeks_of_month IS 'Occurrences of day_of_week in the month that are off (1-5), e.g. {2,4}. NULL = every week.';
+COMMENT ON COLUMN public.weekly_offs.week_interval IS 'Off every N weeks counted from the week of anchor_date (2 = alternate weeks)';
+COMMENT ON COLUMN public.user_weekly_offs.weeks_of_month IS 'Occurrences of day_of_week in the month that are off (1-5), e.g. {2,4}. NULL = every week.';
+COMMENT ON COLUMN public.user_weekly_offs.week_interval IS 'Off every N weeks counted from the week of anchor_date (2 = alternate weeks)';
@@ -0,0 +1,19 @@
+-- Half-day personal leave and half-day public holidays.
+-- 'first_half' / 'second_half' cover half of a single day; the other half is a working
+-- half-day with reduced capacity, so benchmarks on that day are prorated.
+CREATE TYPE public.day_portion AS ENUM ('full', 'first_half', 'second_half');
+
+ALTER TABLE public.personal_holidays
+  ADD COLUMN day_portion public.day_portion NOT NULL DEFAULT 'full';
+
+ALTER TABLE public.public_holidays
+  ADD COLUMN day_portion public.day_portion NOT NULL DEFAULT 'full';
+
+-- Half-day leave is a single day
+ALTER TABLE public.personal_holidays
+  ADD CONSTRAINT personal_holidays_half_day_single_date CHECK (
+    day_portion = 'full' OR start_date = end_date
+  );
+
+COMMENT ON COLUMN public.personal_holidays.day_portion IS 'full = whole days; first_half / second_half = half-day leave on start_date (= end_date)';
+COMMENT ON COLUMN public.public_holidays.day_portion IS 'full = whole-day holiday; first_half / second_half = half-day holiday';
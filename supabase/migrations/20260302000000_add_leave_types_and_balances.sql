@@ -0,0 +1,408 @@
+-- Leave types with yearly entitlements, accrual and carry-forward, and typed leave requests.
+--
+-- Balance for a user, leave type and year (computed in src/lib/leaveBalances.ts and, to refuse
+-- requests beyond it, in leave_balance_available below):
+--   accrued   = yearly entitlement (leave_entitlements override, else leave_types.annual_entitlement)
+--               credited up front ('annual') or pro rata per elapsed month / quarter
+--   carried   = previous year's unused entitlement, capped at carry_forward_limit
+--   available = accrued + carried - approved days - pending days
+-- Leave days are working days: weekly offs and public holidays in the range are not charged.
+CREATE TYPE public.leave_accrual_frequency AS ENUM ('annual', 'quarterly', 'monthly');
+
+CREATE TABLE public.leave_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  -- Short code shown in lists, e.g. 'CL', 'SL'
+  code TEXT NOT NULL,
+  description TEXT,
+  annual_entitlement NUMERIC(5,1) NOT NULL DEFAULT 0 CHECK (annual_entitlement >= 0),
+  accrual_frequency public.leave_accrual_frequency NOT NULL DEFAULT 'annual',
+  carry_forward_limit NUMERIC(5,1) NOT NULL DEFAULT 0 CHECK (carry_forward_limit >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, code)
+);
+
+CREATE INDEX idx_leave_types_organization_id ON public.leave_types(organization_id);
+
+CREATE TRIGGER update_leave_types_updated_at
+  BEFORE UPDATE ON public.leave_types
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Per-user yearly entitlement, overriding leave_types.annual_entitlement (e.g. comp-off granted)
+CREATE TABLE public.leave_entitlements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  leave_type_id UUID REFERENCES public.leave_types(id) ON DELETE CASCADE NOT NULL,
+  year SMALLINT NOT NULL,
+  entitled_days NUMERIC(5,1) NOT NULL CHECK (entitled_days >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, leave_type_id, year)
+);
+
+CREATE INDEX idx_leave_entitlements_leave_type_id ON public.leave_entitlements(leave_type_id);
+
+CREATE TRIGGER update_leave_entitlements_updated_at
+  BEFORE UPDATE ON public.leave_entitlements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Leave requests are filed against a leave type (NULL for requests made before leave types)
+ALTER TABLE public.personal_holidays
+  ADD COLUMN leave_type_id UUID REFERENCES public.leave_types(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_personal_holidays_leave_type_id ON public.personal_holidays(leave_type_id);
+
+-- Days charged to the balance per year, e.g. {"2026": 3}; kept up to date by check_leave_balance
+ALTER TABLE public.personal_holidays
+  ADD COLUMN leave_days JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Whether a weekly off pattern applies on a date: every week, the nth weekdays of the month,
+-- or every N weeks from anchor_date. Mirrors weeklyOffAppliesOn in src/lib/weeklyOffs.ts.
+CREATE OR REPLACE FUNCTION public.weekly_off_applies_on(
+  _day_of_week public.day_of_week,
+  _weeks_of_month smallint[],
+  _week_interval smallint,
+  _anchor_date date,
+  _date date
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _day_of_week::text = (ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'])[extract(dow FROM _date)::int + 1]
+    AND CASE
+      WHEN cardinality(_weeks_of_month) > 0 THEN ceil(extract(day FROM _date) / 7.0)::smallint = ANY (_weeks_of_month)
+      -- Monday-based week numbers (1970-01-01 was a Thursday)
+      WHEN _week_interval > 1 AND _anchor_date IS NOT NULL THEN
+        mod(
+          mod(floor((_date - DATE '1970-01-01' + 3) / 7.0)::int - floor((_anchor_date - DATE '1970-01-01' + 3) / 7.0)::int, _week_interval)
+            + _week_interval,
+          _week_interval
+        ) = 0
+      ELSE true
+    END;
+$$;
+
+-- Share of a date the user is scheduled to work before any leave: 0 on a weekly off (the user's
+-- own, else their holiday calendar's, else the organization's) or full-day public holiday, 0.5 on
+-- a half-day holiday, else 1. Same rules as useWorkingDays.
+CREATE OR REPLACE FUNCTION public.scheduled_day_capacity(_user_id uuid, _date date)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id uuid;
+  _calendar_id uuid;
+  _weekly_off boolean;
+  _portions text[];
+BEGIN
+  SELECT organization_id, holiday_calendar_id INTO _organization_id, _calendar_id
+  FROM public.users
+  WHERE id = _user_id;
+
+  IF EXISTS (SELECT 1 FROM public.user_weekly_offs WHERE user_id = _user_id) THEN
+    SELECT bool_or(public.weekly_off_applies_on(w.day_of_week, w.weeks_of_month, w.week_interval, w.anchor_date, _date))
+    INTO _weekly_off
+    FROM public.user_weekly_offs w
+    WHERE w.user_id = _user_id;
+  ELSIF _calendar_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.weekly_offs WHERE organization_id = _organization_id AND calendar_id = _calendar_id) THEN
+    SELECT bool_or(public.weekly_off_applies_on(w.day_of_week, w.weeks_of_month, w.week_interval, w.anchor_date, _date))
+    INTO _weekly_off
+    FROM public.weekly_offs w
+    WHERE w.organization_id = _organization_id AND w.calendar_id = _calendar_id;
+  ELSE
+    SELECT bool_or(public.weekly_off_applies_on(w.day_of_week, w.weeks_of_month, w.week_interval, w.anchor_date, _date))
+    INTO _weekly_off
+    FROM public.weekly_offs w
+    WHERE w.organization_id = _organization_id AND w.calendar_id IS NULL;
+  END IF;
+
+  IF COALESCE(_weekly_off, false) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT array_agg(DISTINCT h.day_portion::text) INTO _portions
+  FROM public.public_holidays h
+  WHERE h.organization_id = _organization_id
+    AND h.holiday_date = _date
+    AND (h.calendar_id IS NULL OR h.calendar_id = _calendar_id);
+
+  IF _portions IS NULL THEN
+    RETURN 1;
+  END IF;
+  IF 'full' = ANY (_portions) THEN
+    RETURN 0;
+  END IF;
+  RETURN greatest(0, 1 - 0.5 * cardinality(_portions));
+END;
+$$;
+
+-- Working days a leave request takes from the balance, per year: the scheduled share of each
+-- day in the range, and at most half of it for half-day leave
+CREATE OR REPLACE FUNCTION public.count_leave_days(
+  _user_id uuid,
+  _start_date date,
+  _end_date date,
+  _day_portion public.day_portion
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(leave_year, days), '{}'::jsonb)
+  FROM (
+    SELECT
+      extract(year FROM d)::int::text AS leave_year,
+      sum(CASE WHEN _day_portion = 'full' THEN c ELSE least(0.5, c) END) AS days
+    FROM (
+      SELECT d::date AS d, public.scheduled_day_capacity(_user_id, d::date) AS c
+      FROM generate_series(_start_date, _end_date, interval '1 day') AS d
+    ) days_in_range
+    GROUP BY 1
+  ) by_year;
+$$;
+
+-- Days of a user's leave of one type charged to a year, by status; _exclude_id leaves out the
+-- request being changed
+CREATE OR REPLACE FUNCTION public.leave_days_taken(
+  _user_id uuid,
+  _leave_type_id uuid,
+  _year int,
+  _status text,
+  _exclude_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum((leave_days->>_year::text)::numeric), 0)
+  FROM public.personal_holidays
+  WHERE user_id = _user_id
+    AND leave_type_id = _leave_type_id
+    AND COALESCE(approval_status, 'pending') = _status
+    AND id IS DISTINCT FROM _exclude_id;
+$$;
+
+-- Yearly entitlement: the user's leave_entitlements override, else the leave type default
+CREATE OR REPLACE FUNCTION public.leave_entitled_days(_user_id uuid, _leave_type_id uuid, _year int)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT entitled_days FROM public.leave_entitlements
+     WHERE user_id = _user_id AND leave_type_id = _leave_type_id AND year = _year),
+    (SELECT annual_entitlement FROM public.leave_types WHERE id = _leave_type_id)
+  );
+$$;
+
+-- Available balance of a user for a leave type and year, as calculateLeaveBalance computes it
+-- in the app, without the request _exclude_id
+CREATE OR REPLACE FUNCTION public.leave_balance_available(
+  _user_id uuid,
+  _leave_type_id uuid,
+  _year int,
+  _exclude_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _frequency public.leave_accrual_frequency;
+  _carry_forward_limit numeric;
+  _member_since date;
+  _today date;
+  _to_month int;
+  _from_month int;
+  _fraction numeric;
+  _accrued numeric;
+  _carried numeric := 0;
+BEGIN
+  SELECT accrual_frequency, carry_forward_limit INTO _frequency, _carry_forward_limit
+  FROM public.leave_types
+  WHERE id = _leave_type_id;
+
+  SELECT u.created_at::date, (now() AT TIME ZONE COALESCE(os.setting_value, 'Asia/Kolkata'))::date
+  INTO _member_since, _today
+  FROM public.users u
+  LEFT JOIN public.organization_settings os
+    ON os.organization_id = u.organization_id AND os.setting_key = 'timezone'
+  WHERE u.id = _user_id;
+
+  -- Accrual starts in the month / quarter the user joined; the current one counts as accrued
+  IF _frequency = 'annual' THEN
+    _fraction := 1;
+  ELSIF _year > extract(year FROM _today) THEN
+    _fraction := 0;
+  ELSE
+    _to_month := CASE WHEN _year < extract(year FROM _today) THEN 12 ELSE extract(month FROM _today)::int END;
+    _from_month := CASE WHEN extract(year FROM _member_since) = _year THEN extract(month FROM _member_since)::int ELSE 1 END;
+    _fraction := CASE
+      WHEN _frequency = 'monthly' THEN greatest(0, _to_month - _from_month + 1) / 12.0
+      ELSE greatest(0, ceil(_to_month / 3.0) - ceil(_from_month / 3.0) + 1) / 4.0
+    END;
+  END IF;
+  _accrued := round(public.leave_entitled_days(_user_id, _leave_type_id, _year) * _fraction, 1);
+
+  IF _member_since IS NULL OR extract(year FROM _member_since) < _year THEN
+    _carried := least(
+      greatest(
+        0,
+        public.leave_entitled_days(_user_id, _leave_type_id, _year - 1)
+          - public.leave_days_taken(_user_id, _leave_type_id, _year - 1, 'approved')
+      ),
+      _carry_forward_limit
+    );
+  END IF;
+
+  RETURN _accrued + _carried
+    - public.leave_days_taken(_user_id, _leave_type_id, _year, 'approved', _exclude_id)
+    - public.leave_days_taken(_user_id, _leave_type_id, _year, 'pending', _exclude_id);
+END;
+$$;
+
+-- Counts the request's working days and refuses typed leave beyond the balance, whoever
+-- inserts or changes it. Approving or cancelling doesn't change what a request takes.
+CREATE OR REPLACE FUNCTION public.check_leave_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _year text;
+  _requested numeric;
+  _available numeric;
+BEGIN
+  NEW.leave_days := public.count_leave_days(NEW.user_id, NEW.start_date, NEW.end_date, NEW.day_portion);
+
+  IF NEW.leave_type_id IS NULL OR COALESCE(NEW.approval_status, 'pending') NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE'
+     AND (NEW.start_date, NEW.end_date, NEW.day_portion, NEW.leave_type_id)
+       IS NOT DISTINCT FROM (OLD.start_date, OLD.end_date, OLD.day_portion, OLD.leave_type_id) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _year, _requested IN SELECT key, value::numeric FROM jsonb_each_text(NEW.leave_days) LOOP
+    _available := public.leave_balance_available(NEW.user_id, NEW.leave_type_id, _year::int, NEW.id);
+    IF _requested > _available THEN
+      RAISE EXCEPTION 'Insufficient % balance for %: % day(s) requested, % available',
+        (SELECT name FROM public.leave_types WHERE id = NEW.leave_type_id), _year, _requested, greatest(0, _available);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE public.personal_holidays
+SET leave_days = public.count_leave_days(user_id, start_date, end_date, day_portion);
+
+CREATE TRIGGER check_leave_balance_trigger
+  BEFORE INSERT OR UPDATE ON public.personal_holidays
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_leave_balance();
+
+-- Default leave types for every organization
+CREATE OR REPLACE FUNCTION public.create_default_leave_types()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.leave_types (organization_id, name, code, annual_entitlement, accrual_frequency, carry_forward_limit)
+  VALUES
+    (NEW.id, 'Casual Leave', 'CL', 12, 'annual', 0),
+    (NEW.id, 'Sick Leave', 'SL', 12, 'annual', 0),
+    (NEW.id, 'Earned Leave', 'EL', 15, 'monthly', 30),
+    (NEW.id, 'Comp-off', 'CO', 0, 'annual', 0);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_default_leave_types_trigger
+AFTER INSERT ON public.organizations
+FOR EACH ROW EXECUTE FUNCTION public.create_default_leave_types();
+
+INSERT INTO public.leave_types (organization_id, name, code, annual_entitlement, accrual_frequency, carry_forward_limit)
+SELECT o.id, t.name, t.code, t.annual_entitlement, t.accrual_frequency::public.leave_accrual_frequency, t.carry_forward_limit
+FROM public.organizations o
+CROSS JOIN (VALUES
+  ('Casual Leave', 'CL', 12, 'annual', 0),
+  ('Sick Leave', 'SL', 12, 'annual', 0),
+  ('Earned Leave', 'EL', 15, 'monthly', 30),
+  ('Comp-off', 'CO', 0, 'annual', 0)
+) AS t(name, code, annual_entitlement, accrual_frequency, carry_forward_limit)
+ON CONFLICT (organization_id, code) DO NOTHING;
+
+-- RLS for leave_types: members see their organization's leave types, admins manage them
+ALTER TABLE public.leave_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view organization leave types"
+  ON public.leave_types FOR SELECT
+  TO authenticated
+  USING (organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid()));
+
+CREATE POLICY "Admins can manage organization leave types"
+  ON public.leave_types FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    AND organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND organization_id IN (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  );
+
+-- RLS for leave_entitlements: users see their own, managers their team's, admins manage them
+ALTER TABLE public.leave_entitlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own leave entitlements"
+  ON public.leave_entitlements FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Managers can view team leave entitlements"
+  ON public.leave_entitlements FOR SELECT
+  TO authenticated
+  USING (public.is_manager_of(auth.uid(), user_id));
+
+CREATE POLICY "Admins can manage organization leave entitlements"
+  ON public.leave_entitlements FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    AND public.same_organization(user_id)
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND public.same_organization(user_id)
+  );
+
+COMMENT ON TABLE public.leave_types IS 'Per-organization leave types (casual, sick, earned, comp-off) with yearly entitlement, accrual and carry-forward rules';
+COMMENT ON COLUMN public.leave_types.carry_forward_limit IS 'Maximum unused days carried into the next year (0 = no carry-forward)';
+COMMENT ON TABLE public.leave_entitlements IS 'Per-user yearly entitlement overriding leave_types.annual_entitlement';
+COMMENT ON COLUMN public.personal_holidays.leave_type_id IS 'Leave type the request is charged against. NULL = untyped (before leave types).';
+COMMENT ON COLUMN public.personal_holidays.leave_days IS 'Working days the request takes from the balance per year, e.g. {"2026": 3}. Set by check_leave_balance.';
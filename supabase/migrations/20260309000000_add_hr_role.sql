@@ -0,0 +1,12 @@
+-- Add 'hr' to app_role enum if it doesn't exist (second-level leave approver)
+-- This must be done in a separate transaction
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'hr'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'app_role')
+  ) THEN
+    ALTER TYPE public.app_role ADD VALUE 'hr';
+  END IF;
+END $$;
@@ -0,0 +1,328 @@
+-- Leave cancellation, modification and two-level approval.
+--
+-- Workflow of a personal_holidays row:
+--   pending (level 1) --approve--> approved, or pending (level 2) when a second approval is required
+--                                  (first approver: the direct manager, or an admin)
+--   pending (level 2) --approve--> approved (second approver: skip-level manager or HR, per setting)
+--   pending / approved --employee cancels--> cancelled
+--   pending / approved --employee changes dates--> pending (level 1); approved dates kept in original_*
+--
+-- Organization settings:
+--   leave_second_approval_after_days  leave longer than this many days needs a second approval (0 = never)
+--   leave_second_approver             'skip_level' (manager's manager) or 'hr' (users with the hr role)
+
+-- Allow cancelled requests
+ALTER TABLE public.personal_holidays
+  DROP CONSTRAINT IF EXISTS personal_holidays_approval_status_check;
+
+ALTER TABLE public.personal_holidays
+  ADD CONSTRAINT personal_holidays_approval_status_check
+  CHECK (approval_status IN ('pending', 'approved', 'rejected', 'cancelled'));
+
+ALTER TABLE public.personal_holidays
+  ADD COLUMN approval_level SMALLINT NOT NULL DEFAULT 1,
+  ADD COLUMN required_approval_levels SMALLINT NOT NULL DEFAULT 1 CHECK (required_approval_levels IN (1, 2)),
+  ADD COLUMN first_approved_by UUID REFERENCES public.users(id),
+  ADD COLUMN first_approved_at TIMESTAMPTZ,
+  ADD COLUMN cancelled_at TIMESTAMPTZ,
+  ADD COLUMN original_start_date DATE,
+  ADD COLUMN original_end_date DATE;
+
+-- Number of approvals a leave request of this length needs in the user's organization
+CREATE OR REPLACE FUNCTION public.leave_required_approval_levels(
+  _user_id uuid,
+  _start_date date,
+  _end_date date,
+  _day_portion public.day_portion
+)
+RETURNS smallint
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  threshold_value text;
+  leave_days numeric;
+BEGIN
+  SELECT os.setting_value INTO threshold_value
+  FROM public.organization_settings os
+  JOIN public.users u ON u.organization_id = os.organization_id
+  WHERE u.id = _user_id AND os.setting_key = 'leave_second_approval_after_days';
+
+  IF threshold_value IS NULL OR threshold_value !~ '^\d+(\.\d+)?$' OR threshold_value::numeric <= 0 THEN
+    RETURN 1;
+  END IF;
+
+  leave_days := CASE WHEN _day_portion = 'full' THEN (_end_date - _start_date + 1) ELSE 0.5 END;
+  RETURN CASE WHEN leave_days > threshold_value::numeric THEN 2 ELSE 1 END;
+END;
+$$;
+
+-- Whether two users belong to the same organization
+CREATE OR REPLACE FUNCTION public.same_organization_as(_user_a uuid, _user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.users a
+    JOIN public.users b ON b.organization_id = a.organization_id
+    WHERE a.id = _user_a AND b.id = _user_b
+  );
+$$;
+
+-- Whether _approver_id may give the first approval on leave of _user_id: the direct manager or an admin
+CREATE OR REPLACE FUNCTION public.can_give_first_leave_approval(_approver_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.same_organization_as(_approver_id, _user_id)
+    AND (
+      _approver_id = (SELECT manager_id FROM public.users WHERE id = _user_id)
+      OR public.has_role(_approver_id, 'admin')
+    );
+$$;
+
+-- Whether _approver_id may give the second approval on leave of _user_id
+CREATE OR REPLACE FUNCTION public.can_give_second_leave_approval(_approver_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  approver_mode text;
+BEGIN
+  IF NOT public.same_organization_as(_approver_id, _user_id) THEN
+    RETURN false;
+  END IF;
+
+  SELECT os.setting_value INTO approver_mode
+  FROM public.organization_settings os
+  JOIN public.users u ON u.organization_id = os.organization_id
+  WHERE u.id = _user_id AND os.setting_key = 'leave_second_approver';
+
+  IF approver_mode = 'hr' THEN
+    RETURN public.has_role(_approver_id, 'hr');
+  END IF;
+
+  -- Skip-level: a manager above the user's direct manager
+  RETURN public.is_manager_of(_approver_id, _user_id)
+    AND _approver_id IS DISTINCT FROM (SELECT manager_id FROM public.users WHERE id = _user_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_leave_required_approval_levels()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.approval_level := 1;
+  NEW.required_approval_levels := public.leave_required_approval_levels(
+    NEW.user_id, NEW.start_date, NEW.end_date, NEW.day_portion
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leave_required_approval_levels_trigger
+  BEFORE INSERT ON public.personal_holidays
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_leave_required_approval_levels();
+
+-- Applies the approval workflow to status and date changes made by users.
+-- Changes without an auth user (service role, migrations) are left as they are.
+CREATE OR REPLACE FUNCTION public.handle_leave_request_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Workflow columns are only changed below
+  NEW.approval_level := OLD.approval_level;
+  NEW.required_approval_levels := OLD.required_approval_levels;
+  NEW.first_approved_by := OLD.first_approved_by;
+  NEW.first_approved_at := OLD.first_approved_at;
+  NEW.cancelled_at := OLD.cancelled_at;
+  NEW.original_start_date := OLD.original_start_date;
+  NEW.original_end_date := OLD.original_end_date;
+
+  -- Modified dates go back through approval from the first level
+  IF (NEW.start_date, NEW.end_date, NEW.day_portion)
+     IS DISTINCT FROM (OLD.start_date, OLD.end_date, OLD.day_portion) THEN
+    IF OLD.approval_status NOT IN ('pending', 'approved') THEN
+      RAISE EXCEPTION 'Only pending or approved leave can be modified';
+    END IF;
+
+    IF OLD.approval_status = 'approved' THEN
+      NEW.original_start_date := COALESCE(OLD.original_start_date, OLD.start_date);
+      NEW.original_end_date := COALESCE(OLD.original_end_date, OLD.end_date);
+    END IF;
+
+    NEW.approval_status := 'pending';
+    NEW.approval_level := 1;
+    NEW.required_approval_levels := public.leave_required_approval_levels(
+      NEW.user_id, NEW.start_date, NEW.end_date, NEW.day_portion
+    );
+    NEW.approved_by := NULL;
+    NEW.first_approved_by := NULL;
+    NEW.first_approved_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.approval_status = 'cancelled' AND OLD.approval_status IS DISTINCT FROM 'cancelled' THEN
+    IF OLD.approval_status NOT IN ('pending', 'approved') THEN
+      RAISE EXCEPTION 'Only pending or approved leave can be cancelled';
+    END IF;
+    NEW.cancelled_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.approval_status IN ('approved', 'rejected') AND OLD.approval_status = 'pending' THEN
+    IF auth.uid() = OLD.user_id THEN
+      RAISE EXCEPTION 'You cannot approve your own leave';
+    END IF;
+
+    IF OLD.approval_level < 2 THEN
+      IF NOT public.can_give_first_leave_approval(auth.uid(), OLD.user_id) THEN
+        RAISE EXCEPTION 'Only the direct manager or an admin can approve this leave';
+      END IF;
+    ELSE
+      IF auth.uid() = OLD.first_approved_by THEN
+        RAISE EXCEPTION 'The second approval must come from a different approver';
+      END IF;
+      IF NOT public.can_give_second_leave_approval(auth.uid(), OLD.user_id) THEN
+        RAISE EXCEPTION 'You are not a second-level approver for this leave';
+      END IF;
+    END IF;
+
+    NEW.approved_by := auth.uid();
+
+    -- First of two approvals: wait for the second approver
+    IF NEW.approval_status = 'approved' AND OLD.approval_level < OLD.required_approval_levels THEN
+      NEW.approval_status := 'pending';
+      NEW.approval_level := OLD.approval_level + 1;
+      NEW.approved_by := NULL;
+      NEW.first_approved_by := auth.uid();
+      NEW.first_approved_at := now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_leave_request_update_trigger
+  BEFORE UPDATE ON public.personal_holidays
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_leave_request_update();
+
+-- Employees can cancel or modify their pending and approved leave, but never approve it
+DROP POLICY IF EXISTS "Users can update pending personal holidays" ON public.personal_holidays;
+
+CREATE POLICY "Users can modify or cancel own personal holidays"
+  ON public.personal_holidays FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND approval_status IN ('pending', 'approved'))
+  WITH CHECK (auth.uid() = user_id AND approval_status IN ('pending', 'cancelled'));
+
+-- Managers above the direct manager (second approvers in skip-level mode)
+CREATE POLICY "Managers can view subordinate personal holidays"
+  ON public.personal_holidays FOR SELECT
+  TO authenticated
+  USING (public.is_manager_of(auth.uid(), user_id));
+
+-- HR (second approvers in hr mode) and admins see leave across the organization
+CREATE POLICY "HR can view organization personal holidays"
+  ON public.personal_holidays FOR SELECT
+  TO authenticated
+  USING (
+    (public.has_role(auth.uid(), 'hr') OR public.has_role(auth.uid(), 'admin'))
+    AND public.same_organization(user_id)
+  );
+
+-- Pending leave is decided by the approver of its current level. The new row may already be
+-- at the second level after a first approval, so either approver passes the check.
+DROP POLICY IF EXISTS "Managers can approve team personal holidays" ON public.personal_holidays;
+
+CREATE POLICY "Approvers can decide pending personal holidays"
+  ON public.personal_holidays FOR UPDATE
+  TO authenticated
+  USING (
+    approval_status = 'pending'
+    AND CASE
+      WHEN approval_level >= 2 THEN public.can_give_second_leave_approval(auth.uid(), user_id)
+      ELSE public.can_give_first_leave_approval(auth.uid(), user_id)
+    END
+  )
+  WITH CHECK (
+    public.can_give_first_leave_approval(auth.uid(), user_id)
+    OR public.can_give_second_leave_approval(auth.uid(), user_id)
+  );
+
+-- Default approval settings for new organizations
+CREATE OR REPLACE FUNCTION public.create_default_organization_settings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_count int;
+BEGIN
+  -- Check if settings already exist for this organization
+  SELECT COUNT(*) INTO existing_count
+  FROM public.organization_settings
+  WHERE organization_id = NEW.id;
+
+  -- Only create defaults if no settings exist yet
+  IF existing_count = 0 THEN
+    -- Create default settings for new organizations
+    INSERT INTO public.organization_settings (organization_id, setting_key, setting_value, setting_type, description)
+    VALUES
+      (NEW.id, 'timezone', 'Asia/Kolkata', 'text', 'Default timezone for date and time displays'),
+      (NEW.id, 'date_format', 'YYYY-MM-DD', 'text', 'Format for displaying dates throughout the application'),
+      (NEW.id, 'allow_upward_delegation', 'false', 'boolean', 'Allow users to assign tasks to their reporting manager or managers higher in the hierarchy'),
+      (NEW.id, 'email_notification_time', '18:00', 'text', 'Time of day when daily completion summary emails are sent (24-hour format)'),
+      (NEW.id, 'email_notification_day', 'same', 'text', 'Whether to send emails for same day or previous day completions'),
+      (NEW.id, 'auto_approve_tasks', 'true', 'boolean', 'When enabled, task completions are automatically approved. When disabled, managers must approve each completion.'),
+      (NEW.id, 'leave_second_approval_after_days', '0', 'number', 'Leave longer than this many days needs a second approval (0 = never)'),
+      (NEW.id, 'leave_second_approver', 'skip_level', 'text', 'Who gives the second leave approval: skip_level (manager''s manager) or hr');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.organization_settings (organization_id, setting_key, setting_value, setting_type, description)
+SELECT o.id, s.setting_key, s.setting_value, s.setting_type, s.description
+FROM public.organizations o
+CROSS JOIN (VALUES
+  ('leave_second_approval_after_days', '0', 'number', 'Leave longer than this many days needs a second approval (0 = never)'),
+  ('leave_second_approver', 'skip_level', 'text', 'Who gives the second leave approval: skip_level (manager''s manager) or hr')
+) AS s(setting_key, setting_value, setting_type, description)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.organization_settings os
+  WHERE os.organization_id = o.id AND os.setting_key = s.setting_key
+);
+
+COMMENT ON COLUMN public.personal_holidays.approval_level IS 'Approval currently awaited (1 = first, 2 = second)';
+COMMENT ON COLUMN public.personal_holidays.required_approval_levels IS 'Approvals needed, from leave_second_approval_after_days when the dates were last set';
+COMMENT ON COLUMN public.personal_holidays.first_approved_by IS 'First approver of leave that needs two approvals';
+COMMENT ON COLUMN public.personal_holidays.original_start_date IS 'Approved start date before the employee modified the leave';
+COMMENT ON COLUMN public.personal_holidays.original_end_date IS 'Approved end date before the employee modified the leave';
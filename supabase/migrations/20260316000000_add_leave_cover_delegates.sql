@@ -0,0 +1,212 @@
+-- Cover person for a leave period.
+--
+-- While a full-day leave with a cover_user_id is approved, the cover works the absentee's
+-- tasks: they see them in their daily tasks and record completions on the absentee's
+-- assignments, with task_completions.completed_by set to themselves. Covered leave days stay
+-- working days for the absentee's tasks, so those tasks keep counting in completion stats.
+ALTER TABLE public.personal_holidays
+  ADD COLUMN cover_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- Half-day leave has no cover: the absentee works the rest of the day
+ALTER TABLE public.personal_holidays
+  ADD CONSTRAINT personal_holidays_cover_user_check CHECK (
+    cover_user_id IS NULL OR (cover_user_id <> user_id AND day_portion = 'full')
+  );
+
+CREATE INDEX idx_personal_holidays_cover_user_id ON public.personal_holidays(cover_user_id);
+
+-- Who recorded the completion. NULL = the assignee (completions before covers existed)
+ALTER TABLE public.task_completions
+  ADD COLUMN completed_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- Whether _cover_id covers approved leave of _user_id on _date
+CREATE OR REPLACE FUNCTION public.is_covering_on(_cover_id uuid, _user_id uuid, _date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.personal_holidays
+    WHERE user_id = _user_id
+      AND cover_user_id = _cover_id
+      AND approval_status = 'approved'
+      AND _date BETWEEN start_date AND end_date
+  );
+$$;
+
+-- Whether _cover_id covers approved leave of _user_id that is current, upcoming or ended in
+-- the last 30 days (the window in which daily tasks look back)
+CREATE OR REPLACE FUNCTION public.is_covering_for(_cover_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.personal_holidays
+    WHERE user_id = _user_id
+      AND cover_user_id = _cover_id
+      AND approval_status = 'approved'
+      AND end_date >= CURRENT_DATE - 30
+  );
+$$;
+
+-- Users whose approved leave _cover_id covers on _date. A function rather than a SELECT policy
+-- on personal_holidays, so covers don't see (and get offered to approve) the leave itself
+CREATE OR REPLACE FUNCTION public.get_covered_users(_cover_id uuid, _date date)
+RETURNS TABLE(covered_user_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT user_id FROM public.personal_holidays
+  WHERE cover_user_id = _cover_id
+    AND approval_status = 'approved'
+    AND _date BETWEEN start_date AND end_date;
+$$;
+
+-- The cover must belong to the absentee's organization
+CREATE OR REPLACE FUNCTION public.validate_leave_cover()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.cover_user_id IS NOT NULL AND NOT public.same_organization_as(NEW.cover_user_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'The cover person must belong to your organization';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_leave_cover_trigger
+  BEFORE INSERT OR UPDATE OF cover_user_id ON public.personal_holidays
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_leave_cover();
+
+-- Nominates (or clears, with NULL) the cover of a leave. Allowed for the employee and their
+-- managers, also once the leave is approved, without sending it back through approval.
+CREATE OR REPLACE FUNCTION public.set_leave_cover(_leave_id uuid, _cover_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  leave_user_id uuid;
+BEGIN
+  SELECT user_id INTO leave_user_id
+  FROM public.personal_holidays
+  WHERE id = _leave_id AND approval_status IN ('pending', 'approved');
+
+  IF leave_user_id IS NULL THEN
+    RAISE EXCEPTION 'Leave not found or no longer active';
+  END IF;
+
+  IF auth.uid() <> leave_user_id
+     AND NOT public.is_manager_of(auth.uid(), leave_user_id)
+     AND NOT (public.has_role(auth.uid(), 'admin') AND public.same_organization(leave_user_id)) THEN
+    RAISE EXCEPTION 'Only the employee or their manager can set the cover';
+  END IF;
+
+  UPDATE public.personal_holidays
+  SET cover_user_id = _cover_user_id
+  WHERE id = _leave_id;
+END;
+$$;
+
+-- RLS: the cover sees the absentee's tasks and schedule, and records their completions on covered days
+CREATE POLICY "Cover users can view covered task assignments"
+  ON public.task_assignments FOR SELECT
+  TO authenticated
+  USING (public.is_covering_for(auth.uid(), assigned_to));
+
+CREATE POLICY "Cover users can view covered tasks"
+  ON public.tasks FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.task_assignments ta
+      WHERE ta.task_id = tasks.id
+      AND public.is_covering_for(auth.uid(), ta.assigned_to)
+    )
+  );
+
+CREATE POLICY "Cover users can view covered task occurrence exceptions"
+  ON public.task_occurrence_exceptions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.task_assignments ta
+      WHERE ta.task_id = task_occurrence_exceptions.task_id
+      AND public.is_covering_for(auth.uid(), ta.assigned_to)
+    )
+  );
+
+CREATE POLICY "Cover users can view covered task dependencies"
+  ON public.task_dependencies FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.task_assignments ta
+      WHERE ta.task_id = task_dependencies.task_id
+      AND public.is_covering_for(auth.uid(), ta.assigned_to)
+    )
+  );
+
+-- Covered tasks are scheduled on the absentee's own weekly offs
+CREATE POLICY "Cover users can view covered weekly offs"
+  ON public.user_weekly_offs FOR SELECT
+  TO authenticated
+  USING (public.is_covering_for(auth.uid(), user_id));
+
+-- Covers record completions but never delete them
+CREATE POLICY "Cover users can view covered completions"
+  ON public.task_completions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.task_assignments ta
+      WHERE ta.id = task_completions.assignment_id
+      AND public.is_covering_on(auth.uid(), ta.assigned_to, task_completions.scheduled_date)
+    )
+  );
+
+CREATE POLICY "Cover users can record covered completions"
+  ON public.task_completions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    completed_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.task_assignments ta
+      WHERE ta.id = task_completions.assignment_id
+      AND public.is_covering_on(auth.uid(), ta.assigned_to, task_completions.scheduled_date)
+    )
+  );
+
+CREATE POLICY "Cover users can update covered completions"
+  ON public.task_completions FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.task_assignments ta
+      WHERE ta.id = task_completions.assignment_id
+      AND public.is_covering_on(auth.uid(), ta.assigned_to, task_completions.scheduled_date)
+    )
+  )
+  WITH CHECK (
+    completed_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.task_assignments ta
+      WHERE ta.id = task_completions.assignment_id
+      AND public.is_covering_on(auth.uid(), ta.assigned_to, task_completions.scheduled_date)
+    )
+  );
+
+COMMENT ON COLUMN public.personal_holidays.cover_user_id IS 'Colleague who works the absentee''s tasks while this (full-day) leave is approved';
+COMMENT ON COLUMN public.task_completions.completed_by IS 'User who recorded the completion: the assignee, or the cover while the assignee is on leave. NULL = the assignee.';
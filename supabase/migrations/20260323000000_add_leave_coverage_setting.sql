@@ -0,0 +1,51 @@
+-- Minimum team coverage per task category, checked when a manager approves leave.
+--
+-- Organization setting:
+--   leave_min_category_coverage  team members who must stay available for each task category
+--                                they have assignments in (0 = no check)
+--
+-- Approving leave that would leave fewer members of the approver's team available on a day
+-- than this minimum shows a warning. The approval itself is not blocked.
+
+-- Default settings for new organizations
+CREATE OR REPLACE FUNCTION public.create_default_organization_settings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_count int;
+BEGIN
+  -- Check if settings already exist for this organization
+  SELECT COUNT(*) INTO existing_count
+  FROM public.organization_settings
+  WHERE organization_id = NEW.id;
+
+  -- Only create defaults if no settings exist yet
+  IF existing_count = 0 THEN
+    -- Create default settings for new organizations
+    INSERT INTO public.organization_settings (organization_id, setting_key, setting_value, setting_type, description)
+    VALUES
+      (NEW.id, 'timezone', 'Asia/Kolkata', 'text', 'Default timezone for date and time displays'),
+      (NEW.id, 'date_format', 'YYYY-MM-DD', 'text', 'Format for displaying dates throughout the application'),
+      (NEW.id, 'allow_upward_delegation', 'false', 'boolean', 'Allow users to assign tasks to their reporting manager or managers higher in the hierarchy'),
+      (NEW.id, 'email_notification_time', '18:00', 'text', 'Time of day when daily completion summary emails are sent (24-hour format)'),
+      (NEW.id, 'email_notification_day', 'same', 'text', 'Whether to send emails for same day or previous day completions'),
+      (NEW.id, 'auto_approve_tasks', 'true', 'boolean', 'When enabled, task completions are automatically approved. When disabled, managers must approve each completion.'),
+      (NEW.id, 'leave_second_approval_after_days', '0', 'number', 'Leave longer than this many days needs a second approval (0 = never)'),
+      (NEW.id, 'leave_second_approver', 'skip_level', 'text', 'Who gives the second leave approval: skip_level (manager''s manager) or hr'),
+      (NEW.id, 'leave_min_category_coverage', '0', 'number', 'Team members who must stay available per task category when leave is approved (0 = no check)');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.organization_settings (organization_id, setting_key, setting_value, setting_type, description)
+SELECT o.id, 'leave_min_category_coverage', '0', 'number', 'Team members who must stay available per task category when leave is approved (0 = no check)'
+FROM public.organizations o
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.organization_settings os
+  WHERE os.organization_id = o.id AND os.setting_key = 'leave_min_category_coverage'
+);
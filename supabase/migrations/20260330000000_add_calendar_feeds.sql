@@ -0,0 +1,76 @@
+-- Token-protected iCalendar feeds, served by the calendar-feed edge function.
+--
+-- Calendar apps (Outlook, Google Calendar) subscribe to
+--   https://<project>.supabase.co/functions/v1/calendar-feed?token=<token>
+-- without signing in, so the token alone identifies the user and the feed:
+--   personal  the user's upcoming task occurrences, approved leave and public holidays
+--   team      approved and pending leave of everyone in the user's subordinate tree (managers)
+-- Regenerating a token stops the old URL from working.
+CREATE TYPE public.calendar_feed_type AS ENUM ('personal', 'team');
+
+CREATE TABLE public.calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  feed_type public.calendar_feed_type NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, feed_type)
+);
+
+-- RLS: users see and revoke their own feed tokens; tokens are issued by get_calendar_feed_token
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed tokens"
+  ON public.calendar_feed_tokens FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own calendar feed tokens"
+  ON public.calendar_feed_tokens FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Returns the caller's token for the feed, creating it on first use or replacing it when
+-- _regenerate is set. Team feeds are only issued to managers and admins.
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_token(
+  _feed_type public.calendar_feed_type,
+  _regenerate boolean DEFAULT false
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  feed_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _feed_type = 'team'
+     AND NOT EXISTS (SELECT 1 FROM public.users WHERE manager_id = auth.uid())
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only managers can subscribe to the team calendar';
+  END IF;
+
+  IF _regenerate THEN
+    DELETE FROM public.calendar_feed_tokens
+    WHERE user_id = auth.uid() AND feed_type = _feed_type;
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (user_id, feed_type)
+  VALUES (auth.uid(), _feed_type)
+  ON CONFLICT (user_id, feed_type) DO NOTHING;
+
+  SELECT token INTO feed_token
+  FROM public.calendar_feed_tokens
+  WHERE user_id = auth.uid() AND feed_type = _feed_type;
+
+  RETURN feed_token;
+END;
+$$;
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Secret tokens for subscribing to a user''s iCalendar feeds (calendar-feed edge function)';
+COMMENT ON COLUMN public.calendar_feed_tokens.last_accessed_at IS 'When a calendar app last fetched the feed';
@@ -0,0 +1,15 @@
+-- Live dashboard updates: stream changes of these tables to the app through Supabase Realtime
+-- (postgres_changes), so DailyView, MonthlyView and TeamOverview refresh when another user
+-- completes, approves or reassigns a task, or leave is approved.
+--
+-- Realtime checks RLS per subscriber, so users only receive rows they can already read.
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  public.task_completions,
+  public.task_assignments,
+  public.personal_holidays;
+
+-- Send the full old row on UPDATE and DELETE, so filtered subscriptions (e.g. on assigned_to)
+-- also see rows that are deleted or moved away from the user
+ALTER TABLE public.task_completions REPLICA IDENTITY FULL;
+ALTER TABLE public.task_assignments REPLICA IDENTITY FULL;
+ALTER TABLE public.personal_holidays REPLICA IDENTITY FULL;
@@ -0,0 +1,113 @@
+-- Web push notifications for the installable app, sent by the send-push-notifications edge function:
+--   daily_tasks   a morning "your tasks today" summary at the user's chosen time
+--   due_reminder  a reminder of tasks still open, shortly before the organization's daily summary
+--                 email (email_notification_time)
+--   rejection     an alert when a manager rejects one of the user's completions
+-- Each browser or phone the user enables notifications on is one push subscription.
+CREATE TABLE public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- RLS: users see and remove their own devices; devices are added by register_push_subscription
+-- and the edge function sends with the service role
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON public.push_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON public.push_subscriptions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Saves the caller's push subscription for this browser. A shared device moves to whoever
+-- enabled notifications on it last, so one user never gets another's notifications
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  _endpoint text,
+  _p256dh text,
+  _auth text,
+  _user_agent text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent;
+END;
+$$;
+
+-- Per-user choice of push notifications. Users without a row get the defaults
+CREATE TABLE public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  push_daily_tasks BOOLEAN NOT NULL DEFAULT true,
+  daily_tasks_time TIME NOT NULL DEFAULT '09:00',
+  push_due_reminders BOOLEAN NOT NULL DEFAULT true,
+  due_reminder_minutes INTEGER NOT NULL DEFAULT 60 CHECK (due_reminder_minutes > 0),
+  push_rejections BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Scheduled notifications already sent, so the function (run every few minutes) sends each
+-- one once per user and day. Only the service role reads and writes it
+CREATE TABLE public.push_notification_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  notification_type TEXT NOT NULL CHECK (notification_type IN ('daily_tasks', 'due_reminder')),
+  notification_date DATE NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, notification_type, notification_date)
+);
+
+ALTER TABLE public.push_notification_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.push_subscriptions IS 'Web push subscriptions (one per browser or device) of users who enabled notifications';
+COMMENT ON TABLE public.notification_preferences IS 'Which push notifications a user receives, and when';
+COMMENT ON COLUMN public.notification_preferences.daily_tasks_time IS 'Local time (user timezone) of the morning "your tasks today" notification';
+COMMENT ON COLUMN public.notification_preferences.due_reminder_minutes IS 'How long before the organization''s email_notification_time to remind about open tasks';
+COMMENT ON TABLE public.push_notification_log IS 'Scheduled push notifications already sent, per user and day';
@@ -0,0 +1,114 @@
+-- Optional due times with a grace period, and automatic on-time/late classification of completions.
+--
+-- A task with a due time (e.g. an opening checklist due by 10:00) must be recorded by that time
+-- plus its grace minutes on the scheduled day, in the assignee's timezone. Tasks without a due
+-- time stay day-granular: they are on time when recorded on (or before) their scheduled day.
+-- sla_status replaces comparing completion_date with scheduled_date in the app and reports.
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS due_time TIME,
+  ADD COLUMN IF NOT EXISTS grace_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_grace_minutes_non_negative
+  CHECK (grace_minutes >= 0);
+
+CREATE TYPE public.completion_sla_status AS ENUM ('on_time', 'late');
+
+ALTER TABLE public.task_completions
+  ADD COLUMN IF NOT EXISTS sla_status public.completion_sla_status,
+  ADD COLUMN IF NOT EXISTS recorded_at TIMESTAMPTZ;
+
+-- Existing completions were day-granular
+UPDATE public.task_completions
+SET sla_status = CASE
+  WHEN completion_date > scheduled_date THEN 'late'::public.completion_sla_status
+  ELSE 'on_time'::public.completion_sla_status
+END
+WHERE status IN ('completed', 'partial');
+
+-- Classifies a completion when it is first recorded as completed or partial. Later edits
+-- (notes, quantity, approval) keep the classification unless the dates change; other statuses
+-- have none. Recorded time is the recorded_at the app sends with the save (the time on the
+-- device, so completions saved offline and synced later keep it), capped at now(). The device
+-- clock is only trusted up to a day back: an older recorded_at, like none at all, falls back to
+-- now(), the time the save reached the server.
+CREATE OR REPLACE FUNCTION public.classify_completion_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  task_due_time time;
+  task_grace_minutes integer;
+  assignee_timezone text;
+  completed_time timestamptz;
+BEGIN
+  IF NEW.status NOT IN ('completed', 'partial') THEN
+    NEW.sla_status := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.status IN ('completed', 'partial')
+     AND OLD.sla_status IS NOT NULL
+     AND NEW.scheduled_date = OLD.scheduled_date
+     AND NEW.completion_date = OLD.completion_date THEN
+    NEW.sla_status := OLD.sla_status;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.completion_date > NEW.scheduled_date THEN
+    NEW.sla_status := 'late';
+    RETURN NEW;
+  END IF;
+
+  SELECT t.due_time, t.grace_minutes, COALESCE(
+    u.timezone,
+    (
+      SELECT os.setting_value
+      FROM public.organization_settings os
+      WHERE os.organization_id = u.organization_id
+        AND os.setting_key = 'timezone'
+      LIMIT 1
+    ),
+    'Asia/Kolkata'
+  )
+  INTO task_due_time, task_grace_minutes, assignee_timezone
+  FROM public.task_assignments ta
+  JOIN public.tasks t ON t.id = ta.task_id
+  JOIN public.users u ON u.id = ta.assigned_to
+  WHERE ta.id = NEW.assignment_id;
+
+  IF task_due_time IS NULL THEN
+    NEW.sla_status := 'on_time';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.recorded_at IS NOT NULL
+     AND NEW.recorded_at >= now() - interval '1 day'
+     AND (TG_OP = 'INSERT' OR NEW.recorded_at IS DISTINCT FROM OLD.recorded_at) THEN
+    completed_time := LEAST(NEW.recorded_at, now());
+  ELSE
+    completed_time := now();
+  END IF;
+
+  NEW.sla_status := CASE
+    WHEN completed_time > ((NEW.scheduled_date + task_due_time) AT TIME ZONE assignee_timezone)
+                       + make_interval(mins => task_grace_minutes)
+      THEN 'late'::public.completion_sla_status
+    ELSE 'on_time'::public.completion_sla_status
+  END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER classify_task_completion_sla
+  BEFORE INSERT OR UPDATE ON public.task_completions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.classify_completion_sla();
+
+COMMENT ON COLUMN public.tasks.due_time IS 'Time of day the task is due by on each scheduled day, in the assignee''s timezone. NULL = any time that day';
+COMMENT ON COLUMN public.tasks.grace_minutes IS 'Minutes after due_time a completion still counts as on time';
+COMMENT ON COLUMN public.task_completions.recorded_at IS 'When the user recorded the completion on their device, sent by the app. Used by classify_completion_sla when less than a day old; NULL or older = the time it reached the server';
+COMMENT ON COLUMN public.task_completions.sla_status IS 'Whether the completion was recorded by the task''s deadline, set by classify_completion_sla. NULL unless completed or partial';
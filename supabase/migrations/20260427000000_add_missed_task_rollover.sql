@@ -0,0 +1,27 @@
+-- End-of-day rollover of missed tasks, run by the rollover-missed-tasks edge function.
+--
+-- After each day ends in the organization's timezone, occurrences that were due that day and
+-- have no completion get one, so reports and exports don't depend on someone opening the app:
+--   carry_over  a 'pending' completion; the task stays in the assignee's pending list until done
+--   not_done    a 'not_done' completion; the occurrence is closed as missed
+CREATE TYPE public.missed_task_policy AS ENUM ('carry_over', 'not_done');
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS missed_task_policy public.missed_task_policy NOT NULL DEFAULT 'carry_over';
+
+-- Days already closed per organization, so the function resumes from the last one after missed
+-- runs. Only the service role reads and writes it
+CREATE TABLE public.task_rollover_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  rollover_date DATE NOT NULL,
+  carried_over_count INTEGER NOT NULL DEFAULT 0,
+  not_done_count INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, rollover_date)
+);
+
+ALTER TABLE public.task_rollover_runs ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.tasks.missed_task_policy IS 'What the end-of-day rollover records for an occurrence nobody updated: carry_over (pending) or not_done';
+COMMENT ON TABLE public.task_rollover_runs IS 'Days closed by the rollover-missed-tasks function, per organization';
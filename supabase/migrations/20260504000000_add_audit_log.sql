@@ -0,0 +1,156 @@
+-- Append-only audit trail of changes to tasks, assignments, completions, leave, roles and
+-- organization settings. Triggers record the row before and after each change, the signed-in
+-- user who made it (NULL for system jobs such as the end-of-day rollover) and when.
+--
+-- Admins see their organization's entries in the audit viewer; anyone who can see a completion
+-- (assignee, managers, covers) sees its history in the task history dialog.
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign keys: entries outlive the records, users and organizations they describe
+  organization_id UUID,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[],
+  actor_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_organization_created_at
+  ON public.audit_log (organization_id, created_at DESC);
+
+CREATE INDEX idx_audit_log_record
+  ON public.audit_log (table_name, record_id, created_at);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view organization audit log"
+  ON public.audit_log FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') AND
+    organization_id = (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  );
+
+-- Visibility follows the completion's own RLS policies
+CREATE POLICY "Users can view history of visible completions"
+  ON public.audit_log FOR SELECT
+  TO authenticated
+  USING (
+    table_name = 'task_completions' AND
+    EXISTS (SELECT 1 FROM public.task_completions tc WHERE tc.id = audit_log.record_id)
+  );
+
+-- Entries are never changed or removed, not even by the service role
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Writes one entry per changed row. Updates that change nothing but updated_at are skipped.
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb;
+  new_row jsonb;
+  row_data jsonb;
+  changed text[];
+  org_id uuid;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  row_data := COALESCE(new_row, old_row);
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key)
+    INTO changed
+    FROM jsonb_each(new_row) n
+    WHERE n.key <> 'updated_at'
+      AND n.value IS DISTINCT FROM old_row -> n.key;
+
+    IF changed IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  org_id := CASE TG_TABLE_NAME
+    WHEN 'user_roles' THEN (row_data ->> 'organization_id')::uuid
+    WHEN 'organization_settings' THEN (row_data ->> 'organization_id')::uuid
+    WHEN 'tasks' THEN
+      (SELECT organization_id FROM public.users WHERE id = (row_data ->> 'created_by')::uuid)
+    WHEN 'task_assignments' THEN
+      (SELECT organization_id FROM public.users WHERE id = (row_data ->> 'assigned_to')::uuid)
+    WHEN 'personal_holidays' THEN
+      (SELECT organization_id FROM public.users WHERE id = (row_data ->> 'user_id')::uuid)
+    -- The assignment is already gone when a completion is deleted along with it
+    WHEN 'task_completions' THEN COALESCE(
+      (
+        SELECT u.organization_id
+        FROM public.task_assignments ta
+        JOIN public.users u ON u.id = ta.assigned_to
+        WHERE ta.id = (row_data ->> 'assignment_id')::uuid
+      ),
+      (SELECT organization_id FROM public.users WHERE id = (row_data ->> 'completed_by')::uuid)
+    )
+  END;
+
+  INSERT INTO public.audit_log (
+    organization_id, table_name, record_id, action, old_data, new_data, changed_fields, actor_id
+  )
+  VALUES (
+    org_id, TG_TABLE_NAME, (row_data ->> 'id')::uuid, TG_OP, old_row, new_row, changed, auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_tasks
+  AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_task_assignments
+  AFTER INSERT OR UPDATE OR DELETE ON public.task_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_task_completions
+  AFTER INSERT OR UPDATE OR DELETE ON public.task_completions
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_personal_holidays
+  AFTER INSERT OR UPDATE OR DELETE ON public.personal_holidays
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_organization_settings
+  AFTER INSERT OR UPDATE OR DELETE ON public.organization_settings
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+COMMENT ON TABLE public.audit_log IS 'Append-only history of changes to tasks, assignments, completions, leave, roles and organization settings';
+COMMENT ON COLUMN public.audit_log.changed_fields IS 'Columns an UPDATE changed (updated_at excluded). NULL for inserts and deletes';
+COMMENT ON COLUMN public.audit_log.actor_id IS 'Signed-in user who made the change. NULL for system jobs and the service role';
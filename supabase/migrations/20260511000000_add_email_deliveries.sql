@@ -0,0 +1,52 @@
+-- Every email the edge functions send (daily summaries, invitations), one row per message, so
+-- failed sends can be found and retried. The shared mail module (supabase/functions/_shared/mail.ts)
+-- sends through the transport set in EMAIL_TRANSPORT:
+--   resend   the Resend API (RESEND_API_KEY)
+--   smtp     any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD)
+--   capture  nothing is sent; the message is kept here (and in EMAIL_CAPTURE_DIR when set) for
+--            local testing
+--
+-- The sender comes from the organization's email_from_name, email_from_address and
+-- email_reply_to settings, falling back to EMAIL_FROM.
+CREATE TABLE public.email_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email_type TEXT NOT NULL,
+  transport TEXT NOT NULL CHECK (transport IN ('resend', 'smtp', 'capture')),
+  from_address TEXT NOT NULL,
+  reply_to TEXT,
+  to_addresses TEXT[] NOT NULL,
+  cc_addresses TEXT[] NOT NULL DEFAULT '{}',
+  subject TEXT NOT NULL,
+  -- Only kept by the capture transport
+  html TEXT,
+  status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'captured', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  provider_message_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_email_deliveries_organization_created_at
+  ON public.email_deliveries (organization_id, created_at DESC);
+
+CREATE INDEX idx_email_deliveries_failed
+  ON public.email_deliveries (created_at)
+  WHERE status = 'failed';
+
+-- RLS: the edge functions write with the service role; admins can see their organization's mail
+ALTER TABLE public.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view organization email deliveries"
+  ON public.email_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') AND
+    organization_id = (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  );
+
+COMMENT ON TABLE public.email_deliveries IS 'Emails sent by the edge functions, with the transport used, attempts and the last error';
+COMMENT ON COLUMN public.email_deliveries.email_type IS 'What the email is, e.g. daily_summary or invitation';
+COMMENT ON COLUMN public.email_deliveries.attempts IS 'Send attempts made, including retries of temporary failures';
+COMMENT ON COLUMN public.email_deliveries.provider_message_id IS 'Message id returned by Resend or the SMTP server';
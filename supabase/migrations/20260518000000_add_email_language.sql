@@ -0,0 +1,13 @@
+-- Language of the emails a user receives (daily summaries). When NULL, the organization's
+-- "email_language" setting in organization_settings is used, and English without one.
+-- Invitations go out in the organization's language, since the recipient has no account yet.
+--
+-- Emails are rendered from the templates in supabase/functions/_shared/emailTemplates.ts with the
+-- organization's branding settings: email_logo_url, email_primary_color, email_accent_color and
+-- email_footer_text.
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS email_language TEXT
+  CHECK (email_language IN ('en', 'hi', 'ar', 'es'));
+
+COMMENT ON COLUMN public.users.email_language IS
+  'Language of emails to this user: en, hi, ar or es. NULL = use organization setting.';
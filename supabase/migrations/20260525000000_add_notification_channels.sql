@@ -0,0 +1,39 @@
+-- Per-user choice of which notifications to get, on which channel and how often.
+--
+-- Scheduled emails (send-daily-summary) have a cadence: daily, weekly (one email on the user's
+-- digest_day covering the 7 days up to it) or off.
+--   daily_summary      the user's own task summary
+--   team_digest        for managers, their direct reports' summaries: daily copies or one weekly digest
+--   approval_requests  for managers, completions waiting for their approval
+-- Event notifications (send-notification) go out as they happen, by email and/or push.
+--   rejections         a manager rejected one of the user's completions
+--   leave_decisions    the user's leave request was approved or rejected
+--
+-- Users without a notification_preferences row get the column defaults.
+CREATE TYPE public.notification_cadence AS ENUM ('daily', 'weekly', 'off');
+
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS daily_summary_cadence public.notification_cadence NOT NULL DEFAULT 'daily',
+  ADD COLUMN IF NOT EXISTS team_digest_cadence public.notification_cadence NOT NULL DEFAULT 'daily',
+  ADD COLUMN IF NOT EXISTS approval_requests_cadence public.notification_cadence NOT NULL DEFAULT 'daily',
+  ADD COLUMN IF NOT EXISTS digest_day public.day_of_week NOT NULL DEFAULT 'friday',
+  ADD COLUMN IF NOT EXISTS email_rejections BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS email_leave_decisions BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS push_leave_decisions BOOLEAN NOT NULL DEFAULT true;
+
+-- One unsubscribe token per user, put in the links and List-Unsubscribe headers of their emails.
+-- The token only turns notifications off. Created and read by the edge functions with the
+-- service role; users never see it outside their emails
+CREATE TABLE public.email_unsubscribe_tokens (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_unsubscribe_tokens ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.notification_preferences.daily_summary_cadence IS 'How often the user gets their own task summary email';
+COMMENT ON COLUMN public.notification_preferences.team_digest_cadence IS 'daily = a copy of each direct report''s daily summary, weekly = one team digest on digest_day';
+COMMENT ON COLUMN public.notification_preferences.approval_requests_cadence IS 'How often managers get the list of completions waiting for their approval';
+COMMENT ON COLUMN public.notification_preferences.digest_day IS 'Day weekly emails are sent, covering the 7 days up to and including it';
+COMMENT ON TABLE public.email_unsubscribe_tokens IS 'Per-user token of the one-click unsubscribe links in emails';
@@ -0,0 +1,25 @@
+-- Manager digests (send-manager-digest) cover everyone below the manager in the reporting tree,
+-- with changes against the period before. They go out the morning after the period ends, in the
+-- manager's timezone:
+--   team_digest_cadence = weekly   the weekly digest of the 7 days up to digest_day (replaces the
+--                                  direct-reports table send-daily-summary sent before)
+--   monthly_team_digest            the month-end digest of the whole month
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS monthly_team_digest BOOLEAN NOT NULL DEFAULT true;
+
+-- Digests already sent, so the function (run every hour) sends each one once per manager and
+-- period. Only the service role reads and writes it
+CREATE TABLE public.manager_digest_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  manager_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  period TEXT NOT NULL CHECK (period IN ('weekly', 'monthly')),
+  period_end DATE NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (manager_id, period, period_end)
+);
+
+ALTER TABLE public.manager_digest_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN public.notification_preferences.team_digest_cadence IS 'daily = a copy of each direct report''s daily summary, weekly = the manager digest of the whole team up to digest_day';
+COMMENT ON COLUMN public.notification_preferences.monthly_team_digest IS 'Whether managers get the month-end digest of their whole team';
+COMMENT ON TABLE public.manager_digest_log IS 'Manager digests already sent, per manager, period and last day covered';
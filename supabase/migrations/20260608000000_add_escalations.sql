@@ -0,0 +1,118 @@
+-- Escalations: problems that go one level up the manager_id chain when nobody deals with them.
+--
+-- Organization settings (0 = policy off):
+--   escalation_missed_streak          a task missed this many times in a row (not done, or still
+--                                     pending / scheduled after its day) goes to the assignee's manager
+--   escalation_approval_pending_days  a completion waiting for approval longer than this goes to the
+--                                     manager of the manager who should approve it
+--   escalation_benchmark_percent      a task below this % of its benchmark over a week (Monday to
+--                                     Sunday) goes to the assignee's manager
+--
+-- The check-escalations function checks the policies daily, logs each escalation once and notifies
+-- the person it went to by email and push (their notification preferences permitting). Managers
+-- see and acknowledge their escalations in the Team Overview.
+
+-- Default settings for new organizations
+CREATE OR REPLACE FUNCTION public.create_default_organization_settings()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_count int;
+BEGIN
+  -- Check if settings already exist for this organization
+  SELECT COUNT(*) INTO existing_count
+  FROM public.organization_settings
+  WHERE organization_id = NEW.id;
+
+  -- Only create defaults if no settings exist yet
+  IF existing_count = 0 THEN
+    -- Create default settings for new organizations
+    INSERT INTO public.organization_settings (organization_id, setting_key, setting_value, setting_type, description)
+    VALUES
+      (NEW.id, 'timezone', 'Asia/Kolkata', 'text', 'Default timezone for date and time displays'),
+      (NEW.id, 'date_format', 'YYYY-MM-DD', 'text', 'Format for displaying dates throughout the application'),
+      (NEW.id, 'allow_upward_delegation', 'false', 'boolean', 'Allow users to assign tasks to their reporting manager or managers higher in the hierarchy'),
+      (NEW.id, 'email_notification_time', '18:00', 'text', 'Time of day when daily completion summary emails are sent (24-hour format)'),
+      (NEW.id, 'email_notification_day', 'same', 'text', 'Whether to send emails for same day or previous day completions'),
+      (NEW.id, 'auto_approve_tasks', 'true', 'boolean', 'When enabled, task completions are automatically approved. When disabled, managers must approve each completion.'),
+      (NEW.id, 'leave_second_approval_after_days', '0', 'number', 'Leave longer than this many days needs a second approval (0 = never)'),
+      (NEW.id, 'leave_second_approver', 'skip_level', 'text', 'Who gives the second leave approval: skip_level (manager''s manager) or hr'),
+      (NEW.id, 'leave_min_category_coverage', '0', 'number', 'Team members who must stay available per task category when leave is approved (0 = no check)'),
+      (NEW.id, 'escalation_missed_streak', '0', 'number', 'Escalate when a task is missed this many times in a row (0 = off)'),
+      (NEW.id, 'escalation_approval_pending_days', '0', 'number', 'Escalate completions waiting for approval longer than this many days (0 = off)'),
+      (NEW.id, 'escalation_benchmark_percent', '0', 'number', 'Escalate tasks that reached less than this % of their benchmark over a week (0 = off)');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.organization_settings (organization_id, setting_key, setting_value, setting_type, description)
+SELECT o.id, s.setting_key, '0', 'number', s.description
+FROM public.organizations o
+CROSS JOIN (
+  VALUES
+    ('escalation_missed_streak', 'Escalate when a task is missed this many times in a row (0 = off)'),
+    ('escalation_approval_pending_days', 'Escalate completions waiting for approval longer than this many days (0 = off)'),
+    ('escalation_benchmark_percent', 'Escalate tasks that reached less than this % of their benchmark over a week (0 = off)')
+) AS s(setting_key, description)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.organization_settings os
+  WHERE os.organization_id = o.id AND os.setting_key = s.setting_key
+);
+
+CREATE TYPE public.escalation_policy AS ENUM ('missed_streak', 'approval_pending', 'below_benchmark');
+
+CREATE TABLE public.escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  policy public.escalation_policy NOT NULL,
+  -- Who should have acted: the assignee, or for approvals the manager who should approve
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- The next level up from user_id, who is notified
+  escalated_to UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  assignment_id UUID REFERENCES public.task_assignments(id) ON DELETE CASCADE,
+  completion_id UUID REFERENCES public.task_completions(id) ON DELETE CASCADE,
+  -- Policy specifics: missed count and dates, days pending, % of benchmark and week
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- One escalation per streak, completion or week, however often the check runs
+  dedupe_key TEXT NOT NULL,
+  acknowledged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, dedupe_key)
+);
+
+CREATE INDEX idx_escalations_escalated_to_created_at
+  ON public.escalations (escalated_to, created_at DESC);
+
+-- RLS: check-escalations writes with the service role
+ALTER TABLE public.escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view escalations sent to them"
+  ON public.escalations FOR SELECT
+  TO authenticated
+  USING (escalated_to = auth.uid());
+
+CREATE POLICY "Admins can view organization escalations"
+  ON public.escalations FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') AND
+    organization_id = (SELECT organization_id FROM public.users WHERE id = auth.uid())
+  );
+
+-- Acknowledging is the only change the app makes
+CREATE POLICY "Users can acknowledge escalations sent to them"
+  ON public.escalations FOR UPDATE
+  TO authenticated
+  USING (escalated_to = auth.uid())
+  WITH CHECK (escalated_to = auth.uid());
+
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS email_escalations BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS push_escalations BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON TABLE public.escalations IS 'Problems escalated one level up the manager_id chain by check-escalations';